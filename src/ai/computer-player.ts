@@ -0,0 +1,39 @@
+import { GameState } from '../models/game-state';
+import { CellPosition } from '../models/board';
+import { PlayerSymbol, GAME_STATUS } from '../constants/game-config';
+import { AIDifficulty, AI_CONFIG } from '../constants/ai-config';
+import { chooseRandomMove } from './random-strategy';
+import { chooseHeuristicMove } from './heuristic-strategy';
+import { chooseMinimaxMove } from './minimax-strategy';
+
+export interface ComputerOpponent {
+  symbol: PlayerSymbol;
+  difficulty: AIDifficulty;
+}
+
+export function isComputerTurn(
+  state: GameState,
+  opponent: ComputerOpponent | null
+): boolean {
+  return (
+    opponent !== null &&
+    state.status === GAME_STATUS.IN_PROGRESS &&
+    state.currentTurn === opponent.symbol
+  );
+}
+
+// Returns null when the game is over or no legal move remains
+export function chooseComputerMove(
+  state: GameState,
+  difficulty: AIDifficulty,
+  random: () => number = Math.random
+): CellPosition | null {
+  switch (difficulty) {
+    case AI_CONFIG.DIFFICULTIES.EASY:
+      return chooseRandomMove(state, random);
+    case AI_CONFIG.DIFFICULTIES.MEDIUM:
+      return chooseHeuristicMove(state, random);
+    case AI_CONFIG.DIFFICULTIES.HARD:
+      return chooseMinimaxMove(state);
+  }
+}
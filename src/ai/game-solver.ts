@@ -0,0 +1,111 @@
+import { GameState } from '../models/game-state';
+import { CellPosition } from '../models/board';
+import { getBitboardMoves } from '../models/bitboard';
+import { PlayerSymbol, GAME_STATUS, GAME_VARIANTS } from '../constants/game-config';
+import { AI_CONFIG } from '../constants/ai-config';
+import { getGameVariant } from '../engine/game-variants';
+import { getLegalMoves, validateMove } from '../engine/move-validator';
+import { processMove } from '../engine/state-transitions';
+
+export type HintOutcome = 'win' | 'draw' | 'loss';
+
+// Perfect-play result of playing at `position`, for the player to move
+export interface CellHint {
+  position: CellPosition;
+  outcome: HintOutcome;
+  moves: number; // Own moves until the game is decided, counting this one; 0 for a draw
+}
+
+interface SolverMove {
+  position: CellPosition;
+  symbol: PlayerSymbol;
+}
+
+// Scores are for the player making the move: a win after `plies` plies is
+// WIN_SCORE - plies, a loss the negative of that, a draw 0
+type Memo = Map<string, number>;
+
+// Pieces and turn are all that matter to the rest of the game
+function getPositionKey(state: GameState): string {
+  const { x, o } = state.board.bitboard;
+  return `${state.currentTurn}${x.toString(36)}/${o.toString(36)}`;
+}
+
+// Every cell and piece the player on turn may play
+function getMoves(state: GameState, position?: CellPosition): SolverMove[] {
+  const symbols = getGameVariant(state.rules.variant).getPlayableSymbols(state);
+  const positions = position ? [position] : getLegalMoves(state);
+  return positions.flatMap(candidate =>
+    symbols
+      .filter(symbol => validateMove(state, candidate, symbol).success)
+      .map(symbol => ({ position: candidate, symbol }))
+  );
+}
+
+function solve(state: GameState, memo: Memo): number {
+  const key = getPositionKey(state);
+  const known = memo.get(key);
+  if (known !== undefined) {
+    return known;
+  }
+
+  const scores = getMoves(state).map(move => scoreMove(state, move, memo));
+  const best = scores.length > 0 ? Math.max(...scores) : 0;
+  memo.set(key, best);
+  return best;
+}
+
+function scoreMove(state: GameState, move: SolverMove, memo: Memo): number {
+  const next = processMove(state, move.position, move.symbol);
+  if (next.status === GAME_STATUS.WON) {
+    const score = AI_CONFIG.WIN_SCORE - 1;
+    return next.winner === state.currentTurn ? score : -score;
+  }
+  if (next.status === GAME_STATUS.DRAW) {
+    return 0;
+  }
+  // The opponent's best reply, one ply further from the end
+  const reply = -solve(next, memo);
+  return reply - Math.sign(reply);
+}
+
+function toHint(position: CellPosition, score: number): CellHint {
+  if (score === 0) {
+    return { position, outcome: 'draw', moves: 0 };
+  }
+  const plies = AI_CONFIG.WIN_SCORE - Math.abs(score);
+  return {
+    position,
+    outcome: score > 0 ? 'win' : 'loss',
+    moves: Math.ceil(plies / 2),
+  };
+}
+
+// Only small positions are solved to the end. Vanishing games can repeat
+// forever, so they have no finite tree to solve
+export function canSolvePosition(state: GameState): boolean {
+  const emptyCount = getBitboardMoves(state.board.bitboard).length;
+  return (
+    state.status === GAME_STATUS.IN_PROGRESS &&
+    state.rules.variant !== GAME_VARIANTS.VANISHING &&
+    emptyCount <= AI_CONFIG.EXHAUSTIVE_SEARCH_MAX_EMPTY
+  );
+}
+
+/*
+ * Outcome of each playable cell for the player to move, assuming both sides
+ * play perfectly from there: the quickest win, else a draw, else the slowest
+ * loss. Where a cell can take either piece (Wild) the better one counts.
+ * Returns null for positions canSolvePosition rejects.
+ */
+export function getMoveHints(state: GameState): CellHint[] | null {
+  if (!canSolvePosition(state)) {
+    return null;
+  }
+
+  const memo: Memo = new Map();
+  return state.board.cells.flatMap(cell => {
+    const scores = getMoves(state, cell.position).map(move => scoreMove(state, move, memo));
+    return scores.length > 0 ? [toHint(cell.position, Math.max(...scores))] : [];
+  });
+}
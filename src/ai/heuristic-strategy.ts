@@ -0,0 +1,90 @@
+import { GameState } from '../models/game-state';
+import { CellPosition } from '../models/board';
+import { PlayerSymbol, GAME_STATUS } from '../constants/game-config';
+import { getLegalMoves } from '../engine/move-validator';
+import { processMove, switchTurn } from '../engine/state-transitions';
+import { pickRandom } from './random-strategy';
+
+// First move that would win the game for the given player; in variants where
+// completing a line loses, such a move is never a win
+export function findCompletingMove(
+  state: GameState,
+  moves: CellPosition[],
+  player: PlayerSymbol
+): CellPosition | null {
+  const asPlayer: GameState = { ...state, currentTurn: player };
+  return (
+    moves.find(move => {
+      const next = processMove(asPlayer, move);
+      return next.status === GAME_STATUS.WON && next.winner === player;
+    }) ?? null
+  );
+}
+
+function isSamePosition(a: CellPosition, b: CellPosition): boolean {
+  return a.row === b.row && a.col === b.col;
+}
+
+function getCenterPositions(size: number): CellPosition[] {
+  const low = Math.floor((size - 1) / 2);
+  const high = Math.ceil((size - 1) / 2);
+  const centers: CellPosition[] = [];
+  for (let row = low; row <= high; row++) {
+    for (let col = low; col <= high; col++) {
+      centers.push({ row, col });
+    }
+  }
+  return centers;
+}
+
+function getCornerPositions(size: number): CellPosition[] {
+  const last = size - 1;
+  return [
+    { row: 0, col: 0 },
+    { row: 0, col: last },
+    { row: last, col: 0 },
+    { row: last, col: last },
+  ];
+}
+
+export function chooseHeuristicMove(
+  state: GameState,
+  random: () => number = Math.random
+): CellPosition | null {
+  const moves = getLegalMoves(state);
+  if (moves.length === 0) {
+    return null;
+  }
+
+  // 1. Win
+  const winningMove = findCompletingMove(state, moves, state.currentTurn);
+  if (winningMove) {
+    return winningMove;
+  }
+
+  // 2. Block
+  const blockingMove = findCompletingMove(
+    state,
+    moves,
+    switchTurn(state.currentTurn)
+  );
+  if (blockingMove) {
+    return blockingMove;
+  }
+
+  // Where completing a line loses, avoid moves that do, unless nothing else is left
+  const safeMoves = moves.filter(move => processMove(state, move).status !== GAME_STATUS.WON);
+  const candidates = safeMoves.length > 0 ? safeMoves : moves;
+
+  // 3. Center, then 4. corner, then anything
+  const isCandidate = (position: CellPosition) =>
+    candidates.some(move => isSamePosition(move, position));
+  const centers = getCenterPositions(state.board.size).filter(isCandidate);
+  const corners = getCornerPositions(state.board.size).filter(isCandidate);
+
+  return (
+    pickRandom(centers, random) ??
+    pickRandom(corners, random) ??
+    pickRandom(candidates, random)
+  );
+}
@@ -0,0 +1,107 @@
+import { GameState } from '../models/game-state';
+import { CellPosition, getCellValue } from '../models/board';
+import { PlayerSymbol, GAME_STATUS } from '../constants/game-config';
+import { AI_CONFIG } from '../constants/ai-config';
+import { getLegalMoves } from '../engine/move-validator';
+import { processMove } from '../engine/state-transitions';
+
+// Centre-out ordering lets alpha-beta cut off sooner
+function orderMoves(moves: CellPosition[], size: number): CellPosition[] {
+  const middle = (size - 1) / 2;
+  const distance = (p: CellPosition) =>
+    Math.abs(p.row - middle) + Math.abs(p.col - middle);
+  return [...moves].sort((a, b) => distance(a) - distance(b));
+}
+
+// On large open boards only cells touching existing pieces are searched
+function getCandidateMoves(state: GameState): CellPosition[] {
+  const moves = getLegalMoves(state);
+  if (moves.length <= AI_CONFIG.EXHAUSTIVE_SEARCH_MAX_EMPTY) {
+    return orderMoves(moves, state.board.size);
+  }
+
+  const touchesPiece = (position: CellPosition) => {
+    for (let dRow = -1; dRow <= 1; dRow++) {
+      for (let dCol = -1; dCol <= 1; dCol++) {
+        const neighbour = { row: position.row + dRow, col: position.col + dCol };
+        if (getCellValue(state.board, neighbour) !== null) {
+          return true;
+        }
+      }
+    }
+    return false;
+  };
+
+  const nearby = moves.filter(touchesPiece);
+  return orderMoves(nearby.length > 0 ? nearby : moves, state.board.size);
+}
+
+function minimax(
+  state: GameState,
+  depth: number,
+  alpha: number,
+  beta: number,
+  player: PlayerSymbol
+): number {
+  // Faster wins and slower losses score further from zero
+  if (state.status === GAME_STATUS.WON) {
+    const score = AI_CONFIG.WIN_SCORE + depth;
+    return state.winner === player ? score : -score;
+  }
+  if (state.status === GAME_STATUS.DRAW || depth === 0) {
+    return 0;
+  }
+
+  const maximizing = state.currentTurn === player;
+  let best = maximizing ? -Infinity : Infinity;
+
+  for (const move of getCandidateMoves(state)) {
+    const score = minimax(processMove(state, move), depth - 1, alpha, beta, player);
+    if (maximizing) {
+      best = Math.max(best, score);
+      alpha = Math.max(alpha, score);
+    } else {
+      best = Math.min(best, score);
+      beta = Math.min(beta, score);
+    }
+    if (beta <= alpha) {
+      break;
+    }
+  }
+
+  return best;
+}
+
+export function chooseMinimaxMove(state: GameState): CellPosition | null {
+  const candidates = getCandidateMoves(state);
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const emptyCount = getLegalMoves(state).length;
+  const depth =
+    emptyCount <= AI_CONFIG.EXHAUSTIVE_SEARCH_MAX_EMPTY
+      ? emptyCount
+      : AI_CONFIG.MAX_SEARCH_DEPTH;
+
+  let bestMove = candidates[0];
+  let bestScore = -Infinity;
+  let alpha = -Infinity;
+
+  for (const move of candidates) {
+    const score = minimax(
+      processMove(state, move),
+      depth - 1,
+      alpha,
+      Infinity,
+      state.currentTurn
+    );
+    if (score > bestScore) {
+      bestScore = score;
+      bestMove = move;
+    }
+    alpha = Math.max(alpha, score);
+  }
+
+  return bestMove;
+}
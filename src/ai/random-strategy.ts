@@ -0,0 +1,17 @@
+import { GameState } from '../models/game-state';
+import { CellPosition } from '../models/board';
+import { getLegalMoves } from '../engine/move-validator';
+
+export function pickRandom<T>(items: T[], random: () => number): T | null {
+  if (items.length === 0) {
+    return null;
+  }
+  return items[Math.floor(random() * items.length)];
+}
+
+export function chooseRandomMove(
+  state: GameState,
+  random: () => number = Math.random
+): CellPosition | null {
+  return pickRandom(getLegalMoves(state), random);
+}
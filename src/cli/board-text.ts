@@ -0,0 +1,40 @@
+import { Board, getCellValue } from '../models/board';
+
+export type BoardCharset = 'ascii' | 'unicode';
+
+const BOARD_CHARSETS: Record<BoardCharset, { vertical: string; horizontal: string; cross: string }> = {
+  ascii: { vertical: '|', horizontal: '-', cross: '+' },
+  unicode: { vertical: '│', horizontal: '─', cross: '┼' },
+};
+
+const FIRST_COLUMN_CODE = 'a'.charCodeAt(0);
+
+/*
+ * Board as text with the same labels as cell notation: column letters
+ * across the top, row numbers down the side.
+ *
+ *      a   b   c
+ *   1  X │   │ O
+ *     ───┼───┼───
+ *   2    │ X │
+ */
+export function formatBoardText(board: Board, charset: BoardCharset = 'unicode'): string {
+  const chars = BOARD_CHARSETS[charset];
+  const labelWidth = String(board.size).length;
+  const indent = ' '.repeat(labelWidth + 1);
+  const columns = Array.from({ length: board.size }, (_, col) =>
+    String.fromCharCode(FIRST_COLUMN_CODE + col)
+  );
+  const separator = indent + columns.map(() => chars.horizontal.repeat(3)).join(chars.cross);
+
+  const lines = [indent + columns.map(column => ` ${column} `).join(' ')];
+  for (let row = 0; row < board.size; row++) {
+    const cells = columns.map((_, col) => ` ${getCellValue(board, { row, col }) ?? ' '} `);
+    if (row > 0) {
+      lines.push(separator);
+    }
+    lines.push(`${String(row + 1).padStart(labelWidth)} ${cells.join(chars.vertical)}`);
+  }
+
+  return lines.map(line => line.trimEnd()).join('\n');
+}
@@ -0,0 +1,80 @@
+import { GameRules, DEFAULT_GAME_RULES, createGameRules } from '../models/game-rules';
+import { RULE_LIMITS } from '../constants/game-config';
+import { ParseResult, parseFailure, parseSuccess } from '../notation/parse-result';
+import { BoardCharset } from './board-text';
+
+export interface CliArgs {
+  rules: GameRules;
+  charset: BoardCharset;
+  script: boolean | null; // null: decide from whether stdin is a terminal
+  help: boolean;
+}
+
+export const CLI_USAGE = [
+  'Usage: npm run cli -- [options]',
+  '',
+  'Plays at an interactive prompt, or reads moves from stdin when it is not a terminal.',
+  '',
+  'Options:',
+  `  --size <n>      Board size, ${RULE_LIMITS.MIN_BOARD_SIZE}-${RULE_LIMITS.MAX_BOARD_SIZE} (default ${DEFAULT_GAME_RULES.boardSize})`,
+  `  --win <n>       Pieces in a row to win (default ${DEFAULT_GAME_RULES.winLength})`,
+  '  --ascii         Draw the board with plain ASCII characters',
+  '  --script        Read moves from stdin and print only the final board',
+  '  --interactive   Prompt for moves even when stdin is not a terminal',
+  '  --help          Show this message',
+].join('\n');
+
+function parseCount(flag: string, value: string | undefined): ParseResult<number> {
+  const count = Number(value);
+  return value !== undefined && Number.isInteger(count)
+    ? parseSuccess(count)
+    : parseFailure(`${flag} expects a whole number`);
+}
+
+export function parseCliArgs(argv: string[]): ParseResult<CliArgs> {
+  let { boardSize, winLength } = DEFAULT_GAME_RULES;
+  let charset: BoardCharset = 'unicode';
+  let script: boolean | null = null;
+  let help = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    switch (flag) {
+      case '--size':
+      case '--win': {
+        const count = parseCount(flag, argv[++i]);
+        if (!count.success) {
+          return count;
+        }
+        if (flag === '--size') {
+          boardSize = count.value;
+        } else {
+          winLength = count.value;
+        }
+        break;
+      }
+      case '--ascii':
+        charset = 'ascii';
+        break;
+      case '--script':
+        script = true;
+        break;
+      case '--interactive':
+        script = false;
+        break;
+      case '--help':
+        help = true;
+        break;
+      default:
+        return parseFailure(`Unknown option "${flag}"\n\n${CLI_USAGE}`);
+    }
+  }
+
+  // createGameRules explains which limit was broken
+  try {
+    const rules = createGameRules(boardSize, winLength);
+    return parseSuccess({ rules, charset, script, help });
+  } catch (error) {
+    return parseFailure((error as Error).message);
+  }
+}
@@ -0,0 +1,115 @@
+import { GameState } from '../models/game-state';
+import { GameRules, DEFAULT_GAME_RULES } from '../models/game-rules';
+import { GAME_STATUS } from '../constants/game-config';
+import { CLI_CONFIG } from '../constants/cli-config';
+import { createInitialGameState } from '../engine/game-engine';
+import { formatCell } from '../notation/cell-notation';
+import { formatResultText, formatTurnText } from '../ui/turn-indicator';
+import { BoardCharset, formatBoardText } from './board-text';
+import { playMoveInput } from './move-input';
+
+export interface CliOptions {
+  rules?: GameRules;
+  charset?: BoardCharset;
+}
+
+export type CliReply =
+  | { kind: 'output'; lines: string[] }
+  | { kind: 'error'; message: string }
+  | { kind: 'quit' };
+
+export interface CliSession {
+  getState: () => GameState;
+  describe: () => string[]; // Board and status, as shown after every move
+  handleLine: (line: string) => CliReply;
+}
+
+export interface ScriptResult {
+  state: GameState;
+  output: string; // Final board and status
+  errors: string[]; // One per refused line, with its line number
+}
+
+export function formatStatusLine(state: GameState): string {
+  return state.status === GAME_STATUS.IN_PROGRESS
+    ? formatTurnText(state.currentTurn)
+    : formatResultText(state.winner);
+}
+
+export function formatHelp(state: GameState): string[] {
+  const lastCell = formatCell({ row: state.rules.boardSize - 1, col: state.rules.boardSize - 1 });
+  return [
+    `Enter a cell as a1-${lastCell}, or as a row and column such as "2 3".`,
+    `Separate several moves with "${CLI_CONFIG.MOVE_SEPARATOR}".`,
+    `Commands: ${CLI_CONFIG.COMMANDS.NEW}, ${CLI_CONFIG.COMMANDS.HELP}, ${CLI_CONFIG.COMMANDS.QUIT}.`,
+  ];
+}
+
+/*
+ * One game driven by lines of text, shared by the interactive prompt and
+ * script mode. Each line holds moves separated by MOVE_SEPARATOR or a
+ * single command; moves after a refused one on the same line are skipped.
+ */
+export function createCliSession(options: CliOptions = {}): CliSession {
+  const rules = options.rules ?? DEFAULT_GAME_RULES;
+  let state = createInitialGameState(rules);
+
+  const describe = () => [formatBoardText(state.board, options.charset), formatStatusLine(state)];
+
+  const handleLine = (line: string): CliReply => {
+    const input = line.trim();
+    const command = input.toLowerCase();
+
+    if (input === '' || input.startsWith(CLI_CONFIG.COMMENT_PREFIX)) {
+      return { kind: 'output', lines: [] };
+    }
+    if (command === CLI_CONFIG.COMMANDS.QUIT) {
+      return { kind: 'quit' };
+    }
+    if (command === CLI_CONFIG.COMMANDS.HELP) {
+      return { kind: 'output', lines: formatHelp(state) };
+    }
+    if (command === CLI_CONFIG.COMMANDS.NEW) {
+      state = createInitialGameState(rules);
+      return { kind: 'output', lines: describe() };
+    }
+
+    for (const move of input.split(CLI_CONFIG.MOVE_SEPARATOR)) {
+      const result = playMoveInput(state, move);
+      if (!result.success) {
+        return { kind: 'error', message: result.error };
+      }
+      state = result.value;
+    }
+    return { kind: 'output', lines: describe() };
+  };
+
+  return {
+    getState: () => state,
+    describe,
+    handleLine,
+  };
+}
+
+// Non-interactive mode: play every line, then report the final position
+export function runScript(input: string, options: CliOptions = {}): ScriptResult {
+  const session = createCliSession(options);
+  const errors: string[] = [];
+  const lines = input.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const reply = session.handleLine(lines[i]);
+    if (reply.kind === 'quit') {
+      break;
+    }
+    if (reply.kind === 'error') {
+      errors.push(`line ${i + 1}: ${reply.message}`);
+    }
+  }
+
+  return {
+    state: session.getState(),
+    output: session.describe().join('\n'),
+    errors,
+  };
+}
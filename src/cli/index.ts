@@ -0,0 +1,63 @@
+import { createInterface } from 'node:readline';
+import { GAME_STATUS } from '../constants/game-config';
+import { CliArgs, CLI_USAGE, parseCliArgs } from './cli-args';
+import { createCliSession, formatHelp, runScript } from './cli-session';
+
+// Entry point for `npm run cli`; see CLI_USAGE for the options
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Prints the final board on stdout and refused lines on stderr; any refusal
+// fails the run so pipelines notice
+async function playScript(args: CliArgs): Promise<void> {
+  const result = runScript(await readStdin(), args);
+  result.errors.forEach(error => console.error(error));
+  console.log(result.output);
+  process.exitCode = result.errors.length > 0 ? 1 : 0;
+}
+
+function playInteractive(args: CliArgs): void {
+  const session = createCliSession(args);
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  const updatePrompt = () => {
+    const state = session.getState();
+    prompt.setPrompt(state.status === GAME_STATUS.IN_PROGRESS ? `${state.currentTurn}> ` : '> ');
+    prompt.prompt();
+  };
+
+  console.log([...session.describe(), ...formatHelp(session.getState())].join('\n'));
+  updatePrompt();
+
+  prompt.on('line', line => {
+    const reply = session.handleLine(line);
+    if (reply.kind === 'quit') {
+      prompt.close();
+      return;
+    }
+    if (reply.kind === 'error') {
+      console.log(reply.message);
+    } else if (reply.lines.length > 0) {
+      console.log(reply.lines.join('\n'));
+    }
+    updatePrompt();
+  });
+}
+
+const args = parseCliArgs(process.argv.slice(2));
+
+if (!args.success) {
+  console.error(args.error);
+  process.exitCode = 2;
+} else if (args.value.help) {
+  console.log(CLI_USAGE);
+} else if (args.value.script ?? !process.stdin.isTTY) {
+  playScript(args.value);
+} else {
+  playInteractive(args.value);
+}
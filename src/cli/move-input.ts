@@ -0,0 +1,60 @@
+import { CellPosition } from '../models/board';
+import { GameState } from '../models/game-state';
+import { MoveFailureReason } from '../constants/game-config';
+import { CLI_CONFIG } from '../constants/cli-config';
+import { processMove, validateMove } from '../engine/game-engine';
+import { parseCell } from '../notation/cell-notation';
+import { ParseResult, parseFailure, parseSuccess } from '../notation/parse-result';
+
+// Terminal wording for each refused move
+export const CLI_REJECTION_MESSAGES: Record<MoveFailureReason, string> = {
+  'cell-occupied': 'That cell is already taken.',
+  'move-in-progress': 'A move is still being played.',
+  'invalid-position': 'That cell is outside the board.',
+  'board-full': `The board is full. Type "${CLI_CONFIG.COMMANDS.NEW}" to play again.`,
+  'game-over': `The game is over. Type "${CLI_CONFIG.COMMANDS.NEW}" to play again.`,
+  'not-your-turn': "It's not your turn.",
+  'out-of-order': 'That move is out of order.',
+  'wrong-sub-board': 'You must play in the board the last move sent you to.',
+  'sub-board-closed': 'That board is already finished. Pick an open one.',
+  'symbol-not-allowed': "That piece can't be placed in this variant.",
+};
+
+const ALGEBRAIC_PATTERN = /^[a-z][0-9]+$/i;
+const ROW_COLUMN_PATTERN = /^([0-9]+)[\s,]+([0-9]+)$/;
+
+// A cell as "b2" (column letter, row number) or "2 3" (row, then column, from 1)
+export function parseMoveInput(text: string, boardSize: number): ParseResult<CellPosition> {
+  const trimmed = text.trim();
+  if (ALGEBRAIC_PATTERN.test(trimmed)) {
+    return parseCell(trimmed, boardSize);
+  }
+
+  const match = ROW_COLUMN_PATTERN.exec(trimmed);
+  if (!match) {
+    return parseFailure(`Invalid move "${text}": expected a cell like "b2" or a row and column like "2 3"`);
+  }
+
+  const row = Number(match[1]) - 1;
+  const col = Number(match[2]) - 1;
+  if (row < 0 || row >= boardSize || col < 0 || col >= boardSize) {
+    return parseFailure(`Invalid move "${text}": rows and columns run from 1 to ${boardSize}`);
+  }
+
+  return parseSuccess({ row, col });
+}
+
+// Parse, validate and play one move for the player on turn
+export function playMoveInput(state: GameState, text: string): ParseResult<GameState> {
+  const position = parseMoveInput(text, state.rules.boardSize);
+  if (!position.success) {
+    return position;
+  }
+
+  const validation = validateMove(state, position.value);
+  if (!validation.success) {
+    return parseFailure(CLI_REJECTION_MESSAGES[validation.reason]);
+  }
+
+  return parseSuccess(processMove(state, position.value));
+}
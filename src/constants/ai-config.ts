@@ -0,0 +1,15 @@
+export type AIDifficulty = 'easy' | 'medium' | 'hard';
+
+export const AI_CONFIG = {
+  DIFFICULTIES: {
+    EASY: 'easy', // Random legal move
+    MEDIUM: 'medium', // Rule-based: win, block, center, corner
+    HARD: 'hard', // Minimax with alpha-beta pruning
+  },
+  THINK_DELAY_MS: 400,
+  // Positions with at most this many empty cells are searched to the end
+  EXHAUSTIVE_SEARCH_MAX_EMPTY: 9,
+  // Ply limit for larger positions, where a full search is infeasible
+  MAX_SEARCH_DEPTH: 2,
+  WIN_SCORE: 100,
+} as const;
@@ -0,0 +1,9 @@
+export const CLI_CONFIG = {
+  COMMANDS: {
+    NEW: 'new', // Start over with the same rules
+    HELP: 'help',
+    QUIT: 'quit',
+  },
+  COMMENT_PREFIX: '#', // Script lines starting with this are skipped
+  MOVE_SEPARATOR: ';', // Several moves on one line, e.g. "b2; a1"
+} as const;
@@ -4,14 +4,76 @@ export const GAME_CONFIG = {
   INITIAL_TURN: 'X' as PlayerSymbol,
   PLAYERS: ['X', 'O'] as const,
   GRID_SIZE: 3,
+  WIN_LENGTH: 3,
 } as const;
 
+export const RULE_LIMITS = {
+  MIN_BOARD_SIZE: 3,
+  MAX_BOARD_SIZE: 19,
+  MIN_WIN_LENGTH: 3,
+} as const;
+
+// Rule variants played on a single board; classic is the default
+export const GAME_VARIANTS = {
+  CLASSIC: 'classic',
+  MISERE: 'misere', // Completing a line loses
+  WILD: 'wild', // Either player may place X or O
+  NOTAKTO: 'notakto', // Both players place X; completing a line loses
+  VANISHING: 'vanishing', // Each player's oldest piece goes once they have too many
+} as const;
+
+export type GameVariantId = 'classic' | 'misere' | 'wild' | 'notakto' | 'vanishing';
+
+// Vanishing pieces: placing one more than this removes that player's oldest
+export const VANISHING_CONFIG = {
+  PIECES_PER_PLAYER: 3,
+} as const;
+
+// Ultimate tic-tac-toe: a 3x3 meta-board of 3x3 sub-boards, three in a row on each
+export const ULTIMATE_CONFIG = {
+  META_SIZE: 3,
+  SUB_BOARD_SIZE: 3,
+  WIN_LENGTH: 3,
+} as const;
+
+// Qubic: 3D tic-tac-toe on a 4x4x4 cube, four in a row along any of its 76 lines
+export const QUBIC_CONFIG = {
+  SIZE: 4,
+  WIN_LENGTH: 4,
+} as const;
+
+// Game clock: how often a running clock is redrawn and checked for timeouts
+export const CLOCK_CONFIG = {
+  TICK_MS: 100,
+  LOW_TIME_MS: 10_000, // Shown with tenths and highlighted below this
+} as const;
+
+export const MATCH_CONFIG = {
+  DEFAULT_BEST_OF: 3,
+  BEST_OF_OPTIONS: [1, 3, 5, 7],
+  STORAGE_KEY: 'tic-tac-toe:match',
+} as const;
+
+export const GAME_STATUS = {
+  IN_PROGRESS: 'in-progress',
+  WON: 'won',
+  DRAW: 'draw',
+} as const;
+
+export type GameStatus = 'in-progress' | 'won' | 'draw';
+
 export const MOVE_VALIDATION = {
   REASONS: {
     CELL_OCCUPIED: 'cell-occupied',
     MOVE_IN_PROGRESS: 'move-in-progress',
     INVALID_POSITION: 'invalid-position',
     BOARD_FULL: 'board-full',
+    GAME_OVER: 'game-over',
+    NOT_YOUR_TURN: 'not-your-turn',
+    OUT_OF_ORDER: 'out-of-order',
+    WRONG_SUB_BOARD: 'wrong-sub-board',
+    SUB_BOARD_CLOSED: 'sub-board-closed',
+    SYMBOL_NOT_ALLOWED: 'symbol-not-allowed',
   },
 } as const;
 
@@ -19,5 +81,10 @@ export type MoveFailureReason =
   | 'cell-occupied'
   | 'move-in-progress'
   | 'invalid-position'
-  | 'board-full';
-
+  | 'board-full'
+  | 'game-over'
+  | 'not-your-turn'
+  | 'out-of-order'
+  | 'wrong-sub-board' // Ultimate: the previous move sent play elsewhere
+  | 'sub-board-closed' // Ultimate: that sub-board is already won or full
+  | 'symbol-not-allowed'; // The variant does not let this player place that piece
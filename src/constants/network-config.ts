@@ -0,0 +1,11 @@
+export const NETWORK_CONFIG = {
+  BROADCAST_CHANNEL_NAME: 'tic-tac-toe:peer',
+} as const;
+
+export const SERVER_CONFIG = {
+  HOST: '127.0.0.1', // Localhost only; there is no hosted deployment
+  DEFAULT_PORT: 8787,
+  ROOM_GRACE_MS: 5 * 60_000, // An empty room is kept this long for reconnections
+  JOIN_CODE_LENGTH: 4,
+  JOIN_CODE_ALPHABET: 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789', // No 0/O or 1/I lookalikes
+} as const;
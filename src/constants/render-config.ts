@@ -1,20 +1,75 @@
-// Grid configuration
-export const GRID_SIZE = 3;
-export const CELL_SIZE = 150;
-export const CANVAS_WIDTH = CELL_SIZE * GRID_SIZE;
-export const CANVAS_HEIGHT = CELL_SIZE * GRID_SIZE;
-
-// Colors
-export const COLORS = {
-  background: "#FFFFFF",
-  grid: "#333333",
-  xPiece: "#FF6B6B",
-  oPiece: "#4ECDC4",
+// Logical drawing size in board units; the backing store is scaled to the
+// on-screen size and devicePixelRatio, so renderers never see real pixels
+export const CANVAS_WIDTH = 450;
+export const CANVAS_HEIGHT = 450;
+
+// Cell size at which theme style values apply unscaled (3x3 board)
+export const REFERENCE_CELL_SIZE = 150;
+
+// Move animation timing; skipped entirely under prefers-reduced-motion
+export const ANIMATION_CONFIG = {
+  PIECE_DURATION_MS: 240, // X strokes or O arc drawing in
+  STRIKE_DURATION_MS: 300, // Strike-through after the winning piece
+  REDUCED_MOTION_QUERY: "(prefers-reduced-motion: reduce)",
 };
 
-// Render style
-export const RENDER_STYLE = {
-  gridLineWidth: 2,
-  pieceLineWidth: 8,
-  piecePadding: 20,
+// Replay playback: one move per interval at 1x, faster or slower by speed
+export const REPLAY_CONFIG = {
+  MOVE_INTERVAL_MS: 1000,
+  SPEEDS: [0.5, 1, 2, 4],
+  DEFAULT_SPEED: 1,
 };
+
+// Hover preview and rejected-move feedback
+export const FEEDBACK_CONFIG = {
+  PREVIEW_ALPHA: 0.3, // Opacity of the ghost piece under the pointer
+  REJECTION_FLASH_MS: 400, // Cell flash and board shake
+  REJECTION_MESSAGE_MS: 2500, // How long the reason stays on screen
+};
+
+// Ultimate sub-boards: heavier outlines, and claimed ones fade under a large piece
+export const SUB_BOARD_CONFIG = {
+  LINE_SCALE: 2.5, // Times the theme's grid line width
+  CLAIMED_FADE_ALPHA: 0.75,
+};
+
+// Qubic: layers side by side, so a winning line is marked cell by cell
+export const LAYERED_BOARD_CONFIG = {
+  WINNING_CELL_ALPHA: 0.35,
+};
+
+// Hint mode heatmap over empty cells; quicker wins and losses tint more strongly
+export const HINT_CONFIG = {
+  COLORS: { win: "#2f9e44", draw: "#868e96", loss: "#e03131" },
+  MAX_ALPHA: 0.55, // Decided on this move; divided by the moves it takes
+  DRAW_ALPHA: 0.2,
+  LABEL_SCALE: 0.22, // Label font size as a fraction of the cell
+};
+
+// Vanishing pieces: the piece that goes on its owner's next move is dimmed
+export const VANISHING_PIECE_CONFIG = {
+  FADE_ALPHA: 0.4,
+};
+
+export const THEME_CONFIG = {
+  STORAGE_KEY: "tic-tac-toe:theme",
+  SYSTEM_CHOICE: "system", // Follow prefers-color-scheme
+  DARK_SCHEME_QUERY: "(prefers-color-scheme: dark)",
+} as const;
+
+// Drawing backends selectable at startup with ?renderer=<backend>
+export const RENDERER_BACKENDS = ["canvas", "svg", "dom"] as const;
+
+export type RendererBackend = (typeof RENDERER_BACKENDS)[number];
+
+export const RENDERER_CONFIG = {
+  DEFAULT_BACKEND: "canvas" as RendererBackend,
+  QUERY_PARAM: "renderer",
+  BOARD_LABEL:
+    "Tic-tac-toe board. Use arrow keys to move, Enter or Space to place a piece.",
+} as const;
+
+// Cell edge length in canvas pixels for a board of the given dimension
+export function getCellSize(gridSize: number): number {
+  return CANVAS_WIDTH / gridSize;
+}
@@ -0,0 +1,125 @@
+import { CellPosition, LINE_DIRECTIONS } from '../models/board';
+import { Bitboard, getBitboardValue, getCellBit, getEmptyMask } from '../models/bitboard';
+import { GAME_STATUS, PlayerSymbol } from '../constants/game-config';
+import { GameOutcome } from './win-detector';
+
+interface LineMasks {
+  byCell: bigint[][]; // The lines through each cell, by bit index
+  starts: bigint[]; // Cells a whole line starts from, by LINE_DIRECTIONS index
+}
+
+// Built once per board size and win length
+const lineMaskCache = new Map<string, LineMasks>();
+
+function buildLineMasks(size: number, winLength: number): LineMasks {
+  const byCell: bigint[][] = Array.from({ length: size * size }, () => []);
+  const starts = LINE_DIRECTIONS.map(() => 0n);
+
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      LINE_DIRECTIONS.forEach((direction, directionIndex) => {
+        const cells: number[] = [];
+        for (let step = 0; step < winLength; step++) {
+          const lineRow = row + direction.row * step;
+          const lineCol = col + direction.col * step;
+          if (lineRow >= size || lineCol < 0 || lineCol >= size) {
+            break;
+          }
+          cells.push(lineRow * size + lineCol);
+        }
+        if (cells.length === winLength) {
+          const mask = cells.reduce((bits, index) => bits | (1n << BigInt(index)), 0n);
+          cells.forEach(cell => byCell[cell].push(mask));
+          starts[directionIndex] |= getCellBit({ row, col }, size);
+        }
+      });
+    }
+  }
+
+  return { byCell, starts };
+}
+
+function getLineMasks(size: number, winLength: number): LineMasks {
+  const key = `${size}/${winLength}`;
+  let masks = lineMaskCache.get(key);
+  if (!masks) {
+    masks = buildLineMasks(size, winLength);
+    lineMaskCache.set(key, masks);
+  }
+  return masks;
+}
+
+// Bit index of the lowest set bit of a non-zero mask
+function getLowestBit(mask: bigint): number {
+  return (mask & -mask).toString(2).length - 1;
+}
+
+// Does the piece at `position` complete a line? Only lines through it are checked
+export function isWinningPlacement(
+  bitboard: Bitboard,
+  position: CellPosition,
+  winLength: number
+): boolean {
+  const bit = getCellBit(position, bitboard.size);
+  const pieces = bitboard.x & bit ? bitboard.x : bitboard.o & bit ? bitboard.o : 0n;
+  const lines =
+    getLineMasks(bitboard.size, winLength).byCell[position.row * bitboard.size + position.col];
+  return pieces !== 0n && lines.some(mask => (pieces & mask) === mask);
+}
+
+/*
+ * A line of winLength pieces without visiting cells: for each direction a
+ * player's pieces shifted back one step at a time are ANDed together,
+ * leaving the cells where winLength of them start in a row. The lowest such
+ * start wins, earlier directions first on a tie, so the line is the one a
+ * row-major scan of the cells would meet first.
+ */
+export function findBitboardLine(bitboard: Bitboard, winLength: number): CellPosition[] | null {
+  const { starts } = getLineMasks(bitboard.size, winLength);
+  let first: { index: number; direction: CellPosition } | null = null;
+
+  for (let index = 0; index < LINE_DIRECTIONS.length; index++) {
+    const direction = LINE_DIRECTIONS[index];
+    const step = BigInt(direction.row * bitboard.size + direction.col);
+    let lineStarts = 0n;
+    for (const pieces of [bitboard.x, bitboard.o]) {
+      let found = pieces & starts[index];
+      for (let offset = 1n; offset < BigInt(winLength) && found !== 0n; offset++) {
+        found &= pieces >> (offset * step);
+      }
+      lineStarts |= found;
+    }
+    if (lineStarts !== 0n) {
+      const start = getLowestBit(lineStarts);
+      if (first === null || start < first.index) {
+        first = { index: start, direction };
+      }
+    }
+  }
+
+  if (first === null) {
+    return null;
+  }
+  const { index, direction } = first;
+  return Array.from({ length: winLength }, (_, step) => ({
+    row: Math.floor(index / bitboard.size) + direction.row * step,
+    col: (index % bitboard.size) + direction.col * step,
+  }));
+}
+
+export function evaluateBitboard(bitboard: Bitboard, winLength: number): GameOutcome {
+  const winningLine = findBitboardLine(bitboard, winLength);
+  if (winningLine) {
+    return {
+      status: GAME_STATUS.WON,
+      winner: getBitboardValue(bitboard, winningLine[0]) as PlayerSymbol,
+      winningLine,
+    };
+  }
+
+  if (getEmptyMask(bitboard) === 0n) {
+    return { status: GAME_STATUS.DRAW, winner: null, winningLine: null };
+  }
+
+  return { status: GAME_STATUS.IN_PROGRESS, winner: null, winningLine: null };
+}
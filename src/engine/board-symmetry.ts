@@ -0,0 +1,130 @@
+import { Board, CellPosition, createBoardFromCells } from '../models/board';
+import { GameState } from '../models/game-state';
+import { GAME_VARIANTS } from '../constants/game-config';
+import { serializeBoard } from '../notation/position-notation';
+
+// The 8 symmetries of the square: rotations are clockwise, flips mirror
+// across the named axis
+export type BoardTransform =
+  | 'identity'
+  | 'rotate90'
+  | 'rotate180'
+  | 'rotate270'
+  | 'flipHorizontal' // Left and right swap
+  | 'flipVertical' // Top and bottom swap
+  | 'flipDiagonal' // Across the top-left to bottom-right diagonal
+  | 'flipAntiDiagonal'; // Across the top-right to bottom-left diagonal
+
+// Identity first, so a board that is already canonical keeps its orientation
+export const BOARD_TRANSFORMS: ReadonlyArray<BoardTransform> = [
+  'identity',
+  'rotate90',
+  'rotate180',
+  'rotate270',
+  'flipHorizontal',
+  'flipVertical',
+  'flipDiagonal',
+  'flipAntiDiagonal',
+];
+
+export interface CanonicalBoard {
+  board: Board;
+  transform: BoardTransform; // Takes the original board to `board`
+  key: string;
+}
+
+// Where a cell of a `size` board ends up under `transform`
+export function transformPosition(
+  position: CellPosition,
+  transform: BoardTransform,
+  size: number
+): CellPosition {
+  const last = size - 1;
+  const { row, col } = position;
+  switch (transform) {
+    case 'identity':
+      return { row, col };
+    case 'rotate90':
+      return { row: col, col: last - row };
+    case 'rotate180':
+      return { row: last - row, col: last - col };
+    case 'rotate270':
+      return { row: last - col, col: row };
+    case 'flipHorizontal':
+      return { row, col: last - col };
+    case 'flipVertical':
+      return { row: last - row, col };
+    case 'flipDiagonal':
+      return { row: col, col: row };
+    case 'flipAntiDiagonal':
+      return { row: last - col, col: last - row };
+  }
+}
+
+// Quarter turns undo each other; every other transform is its own inverse
+export function invertTransform(transform: BoardTransform): BoardTransform {
+  if (transform === 'rotate90') {
+    return 'rotate270';
+  }
+  if (transform === 'rotate270') {
+    return 'rotate90';
+  }
+  return transform;
+}
+
+// Cells keep their contents (and placement order) and move to their new positions
+export function transformBoard(board: Board, transform: BoardTransform): Board {
+  return createBoardFromCells({
+    size: board.size,
+    cells: board.cells.map(cell => ({
+      ...cell,
+      position: transformPosition(cell.position, transform, board.size),
+    })),
+  });
+}
+
+// Stable across sessions: the position notation of the board
+export function getBoardKey(board: Board): string {
+  return serializeBoard(board);
+}
+
+/*
+ * The orientation of `board` with the smallest key among its 8 symmetries,
+ * so boards that are rotations or reflections of each other share one
+ * canonical board and key. Map a move on the canonical board back with
+ * toOriginalPosition.
+ */
+export function canonicalizeBoard(board: Board): CanonicalBoard {
+  return BOARD_TRANSFORMS.map(transform => {
+    const transformed = transformBoard(board, transform);
+    return { board: transformed, transform, key: getBoardKey(transformed) };
+  }).reduce((best, candidate) => (candidate.key < best.key ? candidate : best));
+}
+
+export function getCanonicalKey(board: Board): string {
+  return canonicalizeBoard(board).key;
+}
+
+// A position on the canonical board, in the orientation of the original
+export function toOriginalPosition(
+  position: CellPosition,
+  canonical: Pick<CanonicalBoard, 'board' | 'transform'>
+): CellPosition {
+  return transformPosition(
+    position,
+    invertTransform(canonical.transform),
+    canonical.board.size
+  );
+}
+
+// Transposition-table key: symmetric positions with the same rules and player
+// to move share it
+export function getPositionKey(state: GameState): string {
+  const { boardSize, winLength, variant } = state.rules;
+  return [
+    variant ?? GAME_VARIANTS.CLASSIC,
+    `${boardSize}/${winLength}`,
+    state.currentTurn,
+    getCanonicalKey(state.board),
+  ].join(':');
+}
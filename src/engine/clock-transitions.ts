@@ -0,0 +1,69 @@
+import { GameClock, TimeControl } from '../models/game-clock';
+import { PlayerSymbol } from '../constants/game-config';
+import { switchTurn } from './game-variants';
+
+export function createGameClock(timeControl: TimeControl): GameClock {
+  return {
+    timeControl,
+    remainingMs: { X: timeControl.initialMs, O: timeControl.initialMs },
+    running: null,
+    runningSince: null,
+  };
+}
+
+// Time left for `player` at `now`; never below zero
+export function getRemainingMs(clock: GameClock, player: PlayerSymbol, now: number): number {
+  const elapsed =
+    clock.running === player && clock.runningSince !== null ? now - clock.runningSince : 0;
+  return Math.max(0, clock.remainingMs[player] - elapsed);
+}
+
+// The running player once their time is used up
+export function getFlaggedPlayer(clock: GameClock, now: number): PlayerSymbol | null {
+  return clock.running !== null && getRemainingMs(clock, clock.running, now) === 0
+    ? clock.running
+    : null;
+}
+
+// Charge the running player for the time since they started
+export function stopClock(clock: GameClock, now: number): GameClock {
+  if (clock.running === null) {
+    return clock;
+  }
+  return {
+    ...clock,
+    remainingMs: {
+      ...clock.remainingMs,
+      [clock.running]: getRemainingMs(clock, clock.running, now),
+    },
+    running: null,
+    runningSince: null,
+  };
+}
+
+export function startClock(clock: GameClock, player: PlayerSymbol, now: number): GameClock {
+  if (clock.running === player) {
+    return clock;
+  }
+  return { ...stopClock(clock, now), running: player, runningSince: now };
+}
+
+// The running player has moved: they get the increment and the other clock starts
+export function pressClock(clock: GameClock, now: number): GameClock {
+  if (clock.running === null) {
+    return clock;
+  }
+  const mover = clock.running;
+  const stopped = stopClock(clock, now);
+  return startClock(
+    {
+      ...stopped,
+      remainingMs: {
+        ...stopped.remainingMs,
+        [mover]: stopped.remainingMs[mover] + clock.timeControl.incrementMs,
+      },
+    },
+    switchTurn(mover),
+    now
+  );
+}
@@ -1,15 +1,73 @@
 import { GameState } from '../models/game-state';
 import { createEmptyBoard } from '../models/board';
-import { GAME_CONFIG } from '../constants/game-config';
+import {
+  GameRules,
+  DEFAULT_GAME_RULES,
+  createGameRules,
+} from '../models/game-rules';
+import {
+  GAME_CONFIG,
+  GAME_STATUS,
+  PlayerSymbol,
+} from '../constants/game-config';
+
+export function createInitialGameState(
+  rules: GameRules = DEFAULT_GAME_RULES,
+  firstPlayer: PlayerSymbol = GAME_CONFIG.INITIAL_TURN
+): GameState {
+  // Throws for sizes or win lengths outside RULE_LIMITS
+  const validRules = createGameRules(rules.boardSize, rules.winLength, rules.variant);
 
-export function createInitialGameState(): GameState {
   return {
-    board: createEmptyBoard(GAME_CONFIG.GRID_SIZE),
-    currentTurn: GAME_CONFIG.INITIAL_TURN,
+    board: createEmptyBoard(validRules.boardSize),
+    rules: validRules,
+    currentTurn: firstPlayer,
     moveInProgress: false,
+    status: GAME_STATUS.IN_PROGRESS,
+    winner: null,
+    winningLine: null,
   };
 }
 
-export { processMove, switchTurn } from './state-transitions';
-export { validateMove } from './move-validator';
+export { processMove, processTimeout, switchTurn } from './state-transitions';
+export { validateMove, getLegalMoves } from './move-validator';
+export { evaluateBoard, findWinningLine, isBoardFull } from './win-detector';
+export {
+  getGameVariant,
+  GAME_VARIANT_LIST,
+  CLASSIC_VARIANT,
+  MISERE_VARIANT,
+  WILD_VARIANT,
+  NOTAKTO_VARIANT,
+  VANISHING_VARIANT,
+} from './game-variants';
+export type { GameVariant } from './game-variants';
+export { createInitialUltimateState, processUltimateMove } from './ultimate-transitions';
+export {
+  validateUltimateMove,
+  getActiveBoards,
+  getUltimateLegalMoves,
+} from './ultimate-validator';
+export { createInitialQubicState, processQubicMove } from './qubic-transitions';
+export { validateQubicMove, getQubicLegalMoves } from './qubic-validator';
+export { evaluateCubeBoard, findCubeWinningLine, getCubeLines } from './qubic-win-detector';
 
+export {
+  createGameSession,
+  getCurrentState,
+  getPlayedMoves,
+  canUndo,
+  canRedo,
+  playSessionMove,
+  jumpToMove,
+  undo,
+  redo,
+  timeOutSession,
+} from './session-transitions';
+export {
+  createMatch,
+  getWinsNeeded,
+  isMatchOver,
+  recordGameResult,
+  resetMatch,
+} from './match-transitions';
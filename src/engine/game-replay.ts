@@ -0,0 +1,27 @@
+import { GameState } from '../models/game-state';
+import { GameSession, MoveRecord } from '../models/game-session';
+import { createInitialGameState } from './game-engine';
+import { createGameSession, jumpToMove, playSessionMove } from './session-transitions';
+
+/*
+ * A session holding every position of a game, rebuilt from its moves alone
+ * by playing them in order (processMove, via playSessionMove) from the
+ * initial state, for watching it back with jumpToMove. Starts at the
+ * initial position. Throws if a move is not legal where it is played.
+ */
+export function buildReplaySession(
+  moves: ReadonlyArray<Pick<MoveRecord, 'position' | 'symbol'>>,
+  initialState: GameState = createInitialGameState()
+): GameSession {
+  const played = moves.reduce((session, { position, symbol }, index) => {
+    const next = playSessionMove(session, position, symbol);
+    if (next === session) {
+      throw new Error(
+        `Move ${index + 1} at row ${position.row + 1}, column ${position.col + 1} is not legal`
+      );
+    }
+    return next;
+  }, createGameSession(initialState));
+
+  return jumpToMove(played, 0);
+}
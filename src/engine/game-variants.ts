@@ -0,0 +1,176 @@
+import { GameState } from '../models/game-state';
+import { Board, CellPosition, createBoard, getCellValue } from '../models/board';
+import {
+  getBitboardPieces,
+  isOnBitboard,
+  placeBitboardPiece,
+  removeBitboardPiece,
+} from '../models/bitboard';
+import {
+  GAME_STATUS,
+  GAME_VARIANTS,
+  GameVariantId,
+  PlayerSymbol,
+  VANISHING_CONFIG,
+} from '../constants/game-config';
+import { GameOutcome, evaluateBoard } from './win-detector';
+
+/*
+ * What changes between rule variants. Players are always X and O and
+ * alternate; variants decide which pieces the player on turn may place,
+ * how a piece lands on the board, who moves next and who a completed
+ * line counts for. Cell-level checks (bounds, occupied, game over) are
+ * shared and stay in validateMove.
+ */
+export interface GameVariant {
+  id: GameVariantId;
+  label: string;
+  description: string;
+  // Pieces the player on turn may place; the first is placed when none is chosen
+  getPlayableSymbols: (state: GameState) => ReadonlyArray<PlayerSymbol>;
+  applyMove: (board: Board, position: CellPosition, symbol: PlayerSymbol) => Board;
+  getNextPlayer: (mover: PlayerSymbol) => PlayerSymbol;
+  // Outcome after `mover` placed the latest piece on `board`
+  getOutcome: (board: Board, winLength: number, mover: PlayerSymbol) => GameOutcome;
+  // Pieces that leave the board on their owner's next move, for display
+  getVanishingCells?: (board: Board) => CellPosition[];
+}
+
+export function switchTurn(current: PlayerSymbol): PlayerSymbol {
+  return current === 'X' ? 'O' : 'X';
+}
+
+// Copy of the board with one more piece; also used for Ultimate sub-boards.
+// Only the bitboard changes, and the placement joins the board's history
+export function updateBoardWithMove(
+  board: Board,
+  position: CellPosition,
+  symbol: PlayerSymbol
+): Board {
+  if (!isOnBitboard(board.bitboard, position)) {
+    return board;
+  }
+
+  const cleared = removeBitboardPiece(board.bitboard, position);
+  return createBoard(placeBitboardPiece(cleared, position, symbol), {
+    position: { row: position.row, col: position.col },
+    placedAt: (board.lastPlacement?.placedAt ?? 0) + 1,
+    previous: board.lastPlacement,
+  });
+}
+
+// A completed line counts for whoever `getWinner` names instead of its symbol
+function withLineWinner(
+  getWinner: (mover: PlayerSymbol) => PlayerSymbol
+): GameVariant['getOutcome'] {
+  return (board, winLength, mover) => {
+    const outcome = evaluateBoard(board, winLength);
+    return outcome.status === GAME_STATUS.WON
+      ? { ...outcome, winner: getWinner(mover) }
+      : outcome;
+  };
+}
+
+export const CLASSIC_VARIANT: GameVariant = {
+  id: GAME_VARIANTS.CLASSIC,
+  label: 'Classic',
+  description: 'Complete a line of your pieces to win.',
+  getPlayableSymbols: state => [state.currentTurn],
+  applyMove: updateBoardWithMove,
+  getNextPlayer: switchTurn,
+  getOutcome: evaluateBoard,
+};
+
+// Completing a line loses, so the other player wins
+export const MISERE_VARIANT: GameVariant = {
+  ...CLASSIC_VARIANT,
+  id: GAME_VARIANTS.MISERE,
+  label: 'Misère',
+  description: 'Complete a line of your pieces and you lose.',
+  getOutcome: withLineWinner(switchTurn),
+};
+
+// Either piece may be placed; a line of either wins for whoever completed it
+export const WILD_VARIANT: GameVariant = {
+  ...CLASSIC_VARIANT,
+  id: GAME_VARIANTS.WILD,
+  label: 'Wild',
+  description: 'Place X or O on each turn; complete a line of either to win.',
+  getPlayableSymbols: state => [state.currentTurn, switchTurn(state.currentTurn)],
+  getOutcome: withLineWinner(mover => mover),
+};
+
+// Both players place X; completing a line loses. A full board always holds
+// a line of X, so the game cannot be drawn
+export const NOTAKTO_VARIANT: GameVariant = {
+  ...CLASSIC_VARIANT,
+  id: GAME_VARIANTS.NOTAKTO,
+  label: 'Notakto',
+  description: 'Both players place X; whoever completes a line loses.',
+  getPlayableSymbols: () => ['X'],
+  getOutcome: withLineWinner(switchTurn),
+};
+
+// A player's pieces, oldest first; pieces set up outside play count as the
+// oldest. Walks back through the placements only until all are found
+function getPiecesByAge(board: Board, symbol: PlayerSymbol): CellPosition[] {
+  const remaining = getBitboardPieces(board.bitboard, symbol);
+  const played: CellPosition[] = [];
+  const visited = new Set<number>();
+
+  for (let link = board.lastPlacement; link && remaining.length > 0; link = link.previous) {
+    const { row, col } = link.position;
+    const index = row * board.size + col;
+    // Only the latest placement on a cell is the piece standing there
+    if (!visited.has(index)) {
+      visited.add(index);
+      if (getCellValue(board, link.position) === symbol) {
+        played.unshift(link.position);
+        remaining.splice(
+          remaining.findIndex(piece => piece.row === row && piece.col === col),
+          1
+        );
+      }
+    }
+  }
+
+  return [...remaining, ...played];
+}
+
+function removePiece(board: Board, position: CellPosition): Board {
+  return createBoard(removeBitboardPiece(board.bitboard, position), board.lastPlacement);
+}
+
+// Each player keeps only their latest pieces, so the board never fills and
+// the game cannot end in a draw. The line is checked after the oldest piece
+// goes, so it must be made from the pieces that stay
+export const VANISHING_VARIANT: GameVariant = {
+  ...CLASSIC_VARIANT,
+  id: GAME_VARIANTS.VANISHING,
+  label: 'Vanishing',
+  description: `Only your last ${VANISHING_CONFIG.PIECES_PER_PLAYER} pieces stay; each new one removes your oldest.`,
+  applyMove: (board, position, symbol) => {
+    const placed = updateBoardWithMove(board, position, symbol);
+    const pieces = getPiecesByAge(placed, symbol);
+    return pieces.length > VANISHING_CONFIG.PIECES_PER_PLAYER
+      ? removePiece(placed, pieces[0])
+      : placed;
+  },
+  getVanishingCells: board =>
+    (['X', 'O'] as const).flatMap(symbol => {
+      const pieces = getPiecesByAge(board, symbol);
+      return pieces.length >= VANISHING_CONFIG.PIECES_PER_PLAYER ? [pieces[0]] : [];
+    }),
+};
+
+export const GAME_VARIANT_LIST: ReadonlyArray<GameVariant> = [
+  CLASSIC_VARIANT,
+  MISERE_VARIANT,
+  WILD_VARIANT,
+  NOTAKTO_VARIANT,
+  VANISHING_VARIANT,
+];
+
+export function getGameVariant(id: GameVariantId = GAME_VARIANTS.CLASSIC): GameVariant {
+  return GAME_VARIANT_LIST.find(variant => variant.id === id) ?? CLASSIC_VARIANT;
+}
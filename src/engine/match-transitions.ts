@@ -0,0 +1,66 @@
+import { MatchState, PlayerScore } from '../models/match';
+import { GameState } from '../models/game-state';
+import { GAME_CONFIG, GAME_STATUS } from '../constants/game-config';
+import { switchTurn } from './state-transitions';
+
+const EMPTY_SCORE: PlayerScore = { wins: 0, losses: 0, draws: 0 };
+
+export function createMatch(bestOf: number): MatchState {
+  if (!Number.isInteger(bestOf) || bestOf < 1 || bestOf % 2 === 0) {
+    throw new Error(`Invalid match length: best of ${bestOf} (must be a positive odd number)`);
+  }
+
+  return {
+    bestOf,
+    scores: { X: EMPTY_SCORE, O: EMPTY_SCORE },
+    gamesPlayed: 0,
+    nextStartingPlayer: GAME_CONFIG.INITIAL_TURN,
+    winner: null,
+  };
+}
+
+export function getWinsNeeded(bestOf: number): number {
+  return Math.floor(bestOf / 2) + 1;
+}
+
+export function isMatchOver(match: MatchState): boolean {
+  return match.winner !== null;
+}
+
+// Adds a finished game to the score; unfinished games and finished matches are ignored
+export function recordGameResult(
+  match: MatchState,
+  game: Pick<GameState, 'status' | 'winner'>
+): MatchState {
+  if (game.status === GAME_STATUS.IN_PROGRESS || isMatchOver(match)) {
+    return match;
+  }
+
+  const { X, O } = match.scores;
+  let scores: MatchState['scores'];
+
+  if (game.winner === 'X') {
+    scores = { X: { ...X, wins: X.wins + 1 }, O: { ...O, losses: O.losses + 1 } };
+  } else if (game.winner === 'O') {
+    scores = { X: { ...X, losses: X.losses + 1 }, O: { ...O, wins: O.wins + 1 } };
+  } else {
+    scores = { X: { ...X, draws: X.draws + 1 }, O: { ...O, draws: O.draws + 1 } };
+  }
+
+  const winsNeeded = getWinsNeeded(match.bestOf);
+  const winner =
+    scores.X.wins >= winsNeeded ? 'X' : scores.O.wins >= winsNeeded ? 'O' : null;
+
+  return {
+    ...match,
+    scores,
+    gamesPlayed: match.gamesPlayed + 1,
+    nextStartingPlayer: switchTurn(match.nextStartingPlayer),
+    winner,
+  };
+}
+
+// Same length, fresh scores
+export function resetMatch(match: MatchState): MatchState {
+  return createMatch(match.bestOf);
+}
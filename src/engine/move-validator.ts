@@ -1,16 +1,31 @@
 import { GameState, MoveResult } from '../models/game-state';
-import { CellPosition } from '../models/board';
-import { MOVE_VALIDATION } from '../constants/game-config';
+import { CellPosition, getCellValue } from '../models/board';
+import { getBitboardMoves } from '../models/bitboard';
+import { MOVE_VALIDATION, GAME_STATUS, PlayerSymbol } from '../constants/game-config';
+import { isBoardFull } from './win-detector';
+import { getGameVariant } from './game-variants';
 
+// `symbol` is the piece chosen by the player; omitted, the variant picks it
 export function validateMove(
   state: GameState,
-  position: CellPosition
+  position: CellPosition,
+  symbol?: PlayerSymbol
 ): MoveResult {
   // Check move processing lock
   if (state.moveInProgress) {
     return { success: false, reason: MOVE_VALIDATION.REASONS.MOVE_IN_PROGRESS };
   }
 
+  // Check game has not already been won
+  if (state.status === GAME_STATUS.WON) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.GAME_OVER };
+  }
+
+  // Check there is any room left to play
+  if (state.status === GAME_STATUS.DRAW || isBoardFull(state.board)) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.BOARD_FULL };
+  }
+
   // Check position bounds
   if (
     position.row < 0 ||
@@ -21,16 +36,27 @@ export function validateMove(
     return { success: false, reason: MOVE_VALIDATION.REASONS.INVALID_POSITION };
   }
 
-  // Find cell at position
-  const cell = state.board.cells.find(
-    c => c.position.row === position.row && c.position.col === position.col
-  );
-
   // Check cell is empty
-  if (cell && cell.value !== null) {
+  if (getCellValue(state.board, position) !== null) {
     return { success: false, reason: MOVE_VALIDATION.REASONS.CELL_OCCUPIED };
   }
 
+  // Check the variant lets the player on turn place this piece
+  if (
+    symbol !== undefined &&
+    !getGameVariant(state.rules.variant).getPlayableSymbols(state).includes(symbol)
+  ) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.SYMBOL_NOT_ALLOWED };
+  }
+
   return { success: true };
 }
 
+// Only the cell differs between moves, so the rest of validateMove is checked
+// once; the empty cells come from the bitboard, in row-major order
+export function getLegalMoves(state: GameState): CellPosition[] {
+  if (state.moveInProgress || state.status !== GAME_STATUS.IN_PROGRESS) {
+    return [];
+  }
+  return getBitboardMoves(state.board.bitboard);
+}
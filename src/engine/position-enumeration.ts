@@ -0,0 +1,82 @@
+import { GameState } from '../models/game-state';
+import { GameRules, DEFAULT_GAME_RULES } from '../models/game-rules';
+import { createInitialGameState } from './game-engine';
+import { getGameVariant } from './game-variants';
+import { getLegalMoves } from './move-validator';
+import { processMove } from './state-transitions';
+import { getBoardKey, getPositionKey } from './board-symmetry';
+
+export interface PositionCensus {
+  positions: GameState[]; // Each reachable position once, breadth-first from the start
+  count: number;
+  canonicalCount: number; // Positions left once rotations and reflections are merged
+  complete: boolean; // False when maxPositions stopped the search early
+}
+
+export interface EnumerationOptions {
+  maxPositions?: number; // Only the 3x3 board stays small; 4x4 has millions
+}
+
+// Pieces and player to move tell positions apart; where pieces vanish by
+// age (Vanishing), so does the order they were placed in
+function getRawKey(state: GameState): string {
+  const key = `${state.currentTurn}:${getBoardKey(state.board)}`;
+  if (!getGameVariant(state.rules.variant).getVanishingCells) {
+    return key;
+  }
+  const order = state.board.cells
+    .filter(cell => cell.value !== null)
+    .sort((a, b) => (a.placedAt ?? 0) - (b.placedAt ?? 0))
+    .map(cell => `${cell.position.row},${cell.position.col}`);
+  return `${key}:${order.join(';')}`;
+}
+
+// Every legal move from `state`, one successor per cell and playable piece
+function getSuccessors(state: GameState): GameState[] {
+  const symbols = getGameVariant(state.rules.variant).getPlayableSymbols(state);
+  return getLegalMoves(state).flatMap(position =>
+    symbols.map(symbol => processMove(state, position, symbol))
+  );
+}
+
+/*
+ * Lists every position reachable by legal play from createInitialGameState,
+ * the empty board included, and counts them both as they are and up to
+ * symmetry. Classic 3x3 has 5478 positions, 765 up to symmetry.
+ */
+export function enumeratePositions(
+  rules: GameRules = DEFAULT_GAME_RULES,
+  options: EnumerationOptions = {}
+): PositionCensus {
+  const maxPositions = options.maxPositions ?? Infinity;
+  const initial = createInitialGameState(rules);
+  const seen = new Set<string>([getRawKey(initial)]);
+  const positions: GameState[] = [initial];
+
+  // `positions` doubles as the breadth-first queue
+  for (let next = 0; next < positions.length; next++) {
+    for (const successor of getSuccessors(positions[next])) {
+      const key = getRawKey(successor);
+      if (seen.has(key)) {
+        continue;
+      }
+      if (positions.length >= maxPositions) {
+        return summarize(positions, false);
+      }
+      seen.add(key);
+      positions.push(successor);
+    }
+  }
+
+  return summarize(positions, true);
+}
+
+function summarize(positions: GameState[], complete: boolean): PositionCensus {
+  const canonical = new Set(positions.map(getPositionKey));
+  return {
+    positions,
+    count: positions.length,
+    canonicalCount: canonical.size,
+    complete,
+  };
+}
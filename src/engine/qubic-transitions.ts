@@ -0,0 +1,54 @@
+import { CubePosition, QubicGameState, createEmptyCubeBoard } from '../models/cube-board';
+import {
+  GAME_CONFIG,
+  GAME_STATUS,
+  PlayerSymbol,
+  QUBIC_CONFIG,
+} from '../constants/game-config';
+import { evaluateCubeBoard } from './qubic-win-detector';
+import { validateQubicMove } from './qubic-validator';
+import { switchTurn } from './state-transitions';
+
+export function createInitialQubicState(
+  firstPlayer: PlayerSymbol = GAME_CONFIG.INITIAL_TURN
+): QubicGameState {
+  return {
+    board: createEmptyCubeBoard(QUBIC_CONFIG.SIZE),
+    currentTurn: firstPlayer,
+    moveInProgress: false,
+    status: GAME_STATUS.IN_PROGRESS,
+    winner: null,
+    winningLine: null,
+  };
+}
+
+export function processQubicMove(state: QubicGameState, position: CubePosition): QubicGameState {
+  if (!validateQubicMove(state, position).success) {
+    return state; // return unchanged
+  }
+
+  const player = state.currentTurn;
+  const board = {
+    ...state.board,
+    cells: state.board.cells.map(cell =>
+      cell.position.layer === position.layer &&
+      cell.position.row === position.row &&
+      cell.position.col === position.col
+        ? { ...cell, value: player }
+        : cell
+    ),
+  };
+
+  // A finished game keeps the last mover as currentTurn
+  const outcome = evaluateCubeBoard(board, QUBIC_CONFIG.WIN_LENGTH);
+  const gameOver = outcome.status !== GAME_STATUS.IN_PROGRESS;
+
+  return {
+    board,
+    currentTurn: gameOver ? player : switchTurn(player),
+    moveInProgress: false,
+    status: outcome.status,
+    winner: outcome.winner,
+    winningLine: outcome.winningLine,
+  };
+}
@@ -0,0 +1,39 @@
+import { MoveResult } from '../models/game-state';
+import {
+  CubePosition,
+  QubicGameState,
+  getCubeCellValue,
+  isOnCube,
+} from '../models/cube-board';
+import { MOVE_VALIDATION, GAME_STATUS } from '../constants/game-config';
+
+// Same checks as validateMove, one dimension up
+export function validateQubicMove(state: QubicGameState, position: CubePosition): MoveResult {
+  if (state.moveInProgress) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.MOVE_IN_PROGRESS };
+  }
+
+  if (state.status === GAME_STATUS.WON) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.GAME_OVER };
+  }
+
+  if (state.status === GAME_STATUS.DRAW) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.BOARD_FULL };
+  }
+
+  if (!isOnCube(state.board, position)) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.INVALID_POSITION };
+  }
+
+  if (getCubeCellValue(state.board, position) !== null) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.CELL_OCCUPIED };
+  }
+
+  return { success: true };
+}
+
+export function getQubicLegalMoves(state: QubicGameState): CubePosition[] {
+  return state.board.cells
+    .map(cell => cell.position)
+    .filter(position => validateQubicMove(state, position).success);
+}
@@ -0,0 +1,71 @@
+import {
+  CubeBoard,
+  CubePosition,
+  getCubeCellValue,
+  isOnCube,
+} from '../models/cube-board';
+import { PlayerSymbol, GameStatus, GAME_STATUS } from '../constants/game-config';
+
+export interface QubicOutcome {
+  status: GameStatus;
+  winner: PlayerSymbol | null;
+  winningLine: CubePosition[] | null;
+}
+
+// One step vector per line orientation: 3 along the axes, 6 face diagonals
+// and 4 space diagonals. Each has its first non-zero component positive, so
+// no line is found twice.
+const CUBE_DIRECTIONS: ReadonlyArray<CubePosition> = [-1, 0, 1]
+  .flatMap(layer => [-1, 0, 1].flatMap(row => [-1, 0, 1].map(col => ({ layer, row, col }))))
+  .filter(({ layer, row, col }) => {
+    const first = [layer, row, col].find(value => value !== 0);
+    return first !== undefined && first > 0;
+  });
+
+// Every straight run of `length` cells on the cube; 76 for 4x4x4 with four in a row
+export function getCubeLines(board: CubeBoard, length: number): CubePosition[][] {
+  const lines: CubePosition[][] = [];
+
+  board.cells.forEach(({ position: start }) => {
+    CUBE_DIRECTIONS.forEach(direction => {
+      const line = Array.from({ length }, (_, step) => ({
+        layer: start.layer + direction.layer * step,
+        row: start.row + direction.row * step,
+        col: start.col + direction.col * step,
+      }));
+      if (line.every(position => isOnCube(board, position))) {
+        lines.push(line);
+      }
+    });
+  });
+
+  return lines;
+}
+
+export function findCubeWinningLine(board: CubeBoard, winLength: number): CubePosition[] | null {
+  return (
+    getCubeLines(board, winLength).find(line => {
+      const symbol = getCubeCellValue(board, line[0]);
+      return (
+        symbol !== null && line.every(position => getCubeCellValue(board, position) === symbol)
+      );
+    }) ?? null
+  );
+}
+
+export function evaluateCubeBoard(board: CubeBoard, winLength: number): QubicOutcome {
+  const winningLine = findCubeWinningLine(board, winLength);
+  if (winningLine) {
+    return {
+      status: GAME_STATUS.WON,
+      winner: getCubeCellValue(board, winningLine[0]) as PlayerSymbol,
+      winningLine,
+    };
+  }
+
+  if (board.cells.every(cell => cell.value !== null)) {
+    return { status: GAME_STATUS.DRAW, winner: null, winningLine: null };
+  }
+
+  return { status: GAME_STATUS.IN_PROGRESS, winner: null, winningLine: null };
+}
@@ -0,0 +1,97 @@
+import { GameSession, MoveRecord } from '../models/game-session';
+import { GameState } from '../models/game-state';
+import { CellPosition } from '../models/board';
+import { PlayerSymbol } from '../constants/game-config';
+import { processMove, processTimeout } from './state-transitions';
+
+export function createGameSession(initialState: GameState): GameSession {
+  return {
+    states: [initialState],
+    moves: [],
+    currentMove: 0,
+  };
+}
+
+export function getCurrentState(session: GameSession): GameState {
+  return session.states[session.currentMove];
+}
+
+// Moves applied to reach the current state (excludes redoable ones)
+export function getPlayedMoves(session: GameSession): MoveRecord[] {
+  return session.moves.slice(0, session.currentMove);
+}
+
+export function canUndo(session: GameSession): boolean {
+  return session.currentMove > 0;
+}
+
+export function canRedo(session: GameSession): boolean {
+  return session.currentMove < session.moves.length;
+}
+
+export function playSessionMove(
+  session: GameSession,
+  position: CellPosition,
+  symbol?: PlayerSymbol
+): GameSession {
+  const current = getCurrentState(session);
+  const next = processMove(current, position, symbol);
+  if (next === current) {
+    return session; // rejected move, unchanged
+  }
+
+  // A new move discards any redoable moves after the current one
+  const moveNumber = session.currentMove + 1;
+  return {
+    states: [...session.states.slice(0, moveNumber), next],
+    moves: [
+      ...getPlayedMoves(session),
+      {
+        player: current.currentTurn,
+        position,
+        moveNumber,
+        ...(symbol !== undefined && { symbol }),
+      },
+    ],
+    currentMove: moveNumber,
+  };
+}
+
+export function jumpToMove(
+  session: GameSession,
+  moveNumber: number
+): GameSession {
+  if (
+    !Number.isInteger(moveNumber) ||
+    moveNumber < 0 ||
+    moveNumber > session.moves.length ||
+    moveNumber === session.currentMove
+  ) {
+    return session;
+  }
+
+  return { ...session, currentMove: moveNumber };
+}
+
+export function undo(session: GameSession): GameSession {
+  return jumpToMove(session, session.currentMove - 1);
+}
+
+export function redo(session: GameSession): GameSession {
+  return jumpToMove(session, session.currentMove + 1);
+}
+
+// The player on turn lost on time: the game ends at the current position, and
+// moves that could have been redone are dropped
+export function timeOutSession(session: GameSession, player: PlayerSymbol): GameSession {
+  const current = getCurrentState(session);
+  const timedOut = processTimeout(current, player);
+  if (timedOut === current) {
+    return session;
+  }
+  return {
+    states: [...session.states.slice(0, session.currentMove), timedOut],
+    moves: getPlayedMoves(session),
+    currentMove: session.currentMove,
+  };
+}
@@ -1,59 +1,57 @@
 import { GameState } from '../models/game-state';
-import { Board, CellPosition, GamePieceValue } from '../models/board';
-import { PlayerSymbol } from '../constants/game-config';
+import { CellPosition } from '../models/board';
+import { PlayerSymbol, GAME_STATUS } from '../constants/game-config';
 import { validateMove } from './move-validator';
+import { getGameVariant } from './game-variants';
 
-export function switchTurn(current: PlayerSymbol): PlayerSymbol {
-  return current === 'X' ? 'O' : 'X';
-}
+export { switchTurn, updateBoardWithMove } from './game-variants';
 
+// `symbol` picks the piece where the variant allows a choice (Wild)
 export function processMove(
   state: GameState,
-  position: CellPosition
+  position: CellPosition,
+  symbol?: PlayerSymbol
 ): GameState {
   // Validate move
-  const validation = validateMove(state, position);
+  const validation = validateMove(state, position, symbol);
   if (!validation.success) {
     return state; // return unchanged
   }
 
   // Create new board with move placed
-  const newBoard = updateBoardWithMove(
+  const variant = getGameVariant(state.rules.variant);
+  const newBoard = variant.applyMove(
     state.board,
     position,
-    state.currentTurn
+    symbol ?? variant.getPlayableSymbols(state)[0]
   );
 
+  // Detect win or draw; a finished game keeps the last mover as currentTurn
+  const outcome = variant.getOutcome(newBoard, state.rules.winLength, state.currentTurn);
+  const gameOver = outcome.status !== GAME_STATUS.IN_PROGRESS;
+
   // Return new state
   return {
     board: newBoard,
-    currentTurn: switchTurn(state.currentTurn),
+    rules: state.rules,
+    currentTurn: gameOver ? state.currentTurn : variant.getNextPlayer(state.currentTurn),
     moveInProgress: false,
+    status: outcome.status,
+    winner: outcome.winner,
+    winningLine: outcome.winningLine,
   };
 }
 
-function updateBoardWithMove(
-  board: Board,
-  position: CellPosition,
-  symbol: PlayerSymbol
-): Board {
-  // Create new cells array with updated cell
-  const newCells = board.cells.map(cell => {
-    if (
-      cell.position.row === position.row &&
-      cell.position.col === position.col
-    ) {
-      return {
-        ...cell,
-        value: symbol as GamePieceValue,
-      };
-    }
-    return cell;
-  });
-
+// `player` ran out of time on their turn: the game ends as a loss for them
+export function processTimeout(state: GameState, player: PlayerSymbol): GameState {
+  if (state.status !== GAME_STATUS.IN_PROGRESS || state.currentTurn !== player) {
+    return state;
+  }
   return {
-    ...board,
-    cells: newCells,
+    ...state,
+    moveInProgress: false,
+    status: GAME_STATUS.WON,
+    winner: getGameVariant(state.rules.variant).getNextPlayer(player),
+    winningLine: null,
   };
 }
-
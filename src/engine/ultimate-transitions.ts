@@ -0,0 +1,88 @@
+import { createEmptyBoard } from '../models/board';
+import {
+  SubBoard,
+  UltimateGameState,
+  UltimatePosition,
+  getSubBoard,
+} from '../models/ultimate-state';
+import {
+  GAME_CONFIG,
+  GAME_STATUS,
+  PlayerSymbol,
+  ULTIMATE_CONFIG,
+} from '../constants/game-config';
+import { evaluateBoard, findWinningLine } from './win-detector';
+import { switchTurn, updateBoardWithMove } from './state-transitions';
+import { validateUltimateMove } from './ultimate-validator';
+
+export function createInitialUltimateState(
+  firstPlayer: PlayerSymbol = GAME_CONFIG.INITIAL_TURN
+): UltimateGameState {
+  const metaBoard = createEmptyBoard(ULTIMATE_CONFIG.META_SIZE);
+
+  return {
+    subBoards: metaBoard.cells.map(() => ({
+      board: createEmptyBoard(ULTIMATE_CONFIG.SUB_BOARD_SIZE),
+      status: GAME_STATUS.IN_PROGRESS,
+      winner: null,
+    })),
+    metaBoard,
+    activeBoard: null, // The first move may go anywhere
+    currentTurn: firstPlayer,
+    moveInProgress: false,
+    status: GAME_STATUS.IN_PROGRESS,
+    winner: null,
+    winningLine: null,
+  };
+}
+
+/*
+ * Places the piece, claims the sub-board if that completed a line there,
+ * then checks the meta-board. The cell played sends the opponent to the
+ * matching sub-board; a finished one gives them a free choice instead.
+ */
+export function processUltimateMove(
+  state: UltimateGameState,
+  position: UltimatePosition
+): UltimateGameState {
+  if (!validateUltimateMove(state, position).success) {
+    return state; // return unchanged
+  }
+
+  const player = state.currentTurn;
+  const target = getSubBoard(state, position.board);
+  const board = updateBoardWithMove(target.board, position.cell, player);
+  const outcome = evaluateBoard(board, ULTIMATE_CONFIG.WIN_LENGTH);
+  const played: SubBoard = { board, status: outcome.status, winner: outcome.winner };
+
+  const subBoards = state.subBoards.map(subBoard => (subBoard === target ? played : subBoard));
+  const metaBoard =
+    outcome.winner !== null
+      ? updateBoardWithMove(state.metaBoard, position.board, outcome.winner)
+      : state.metaBoard;
+
+  // Drawn sub-boards count for nobody, so the game is drawn once every
+  // sub-board is finished without a line of claimed ones
+  const winningLine = findWinningLine(metaBoard, ULTIMATE_CONFIG.WIN_LENGTH);
+  const allFinished = subBoards.every(subBoard => subBoard.status !== GAME_STATUS.IN_PROGRESS);
+  const status = winningLine
+    ? GAME_STATUS.WON
+    : allFinished
+      ? GAME_STATUS.DRAW
+      : GAME_STATUS.IN_PROGRESS;
+  const gameOver = status !== GAME_STATUS.IN_PROGRESS;
+
+  const next = { ...state, subBoards, metaBoard };
+  const sentTo = getSubBoard(next, position.cell);
+
+  return {
+    ...next,
+    activeBoard:
+      !gameOver && sentTo.status === GAME_STATUS.IN_PROGRESS ? position.cell : null,
+    currentTurn: gameOver ? player : switchTurn(player),
+    moveInProgress: false,
+    status,
+    winner: winningLine ? player : null,
+    winningLine,
+  };
+}
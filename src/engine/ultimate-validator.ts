@@ -0,0 +1,84 @@
+import { CellPosition, getCellValue } from '../models/board';
+import { getBitboardMoves } from '../models/bitboard';
+import { MoveResult } from '../models/game-state';
+import {
+  UltimateGameState,
+  UltimatePosition,
+  getSubBoard,
+} from '../models/ultimate-state';
+import { MOVE_VALIDATION, GAME_STATUS } from '../constants/game-config';
+
+function isOnGrid(position: CellPosition, size: number): boolean {
+  return (
+    position.row >= 0 &&
+    position.row < size &&
+    position.col >= 0 &&
+    position.col < size
+  );
+}
+
+// Sub-boards the next move may go to, on the meta grid
+export function getActiveBoards(state: UltimateGameState): CellPosition[] {
+  if (state.status !== GAME_STATUS.IN_PROGRESS) {
+    return [];
+  }
+  if (state.activeBoard) {
+    return [state.activeBoard];
+  }
+  return state.metaBoard.cells
+    .map(cell => cell.position)
+    .filter(position => getSubBoard(state, position).status === GAME_STATUS.IN_PROGRESS);
+}
+
+// Checks shared with validateMove, then the send-to rule
+export function validateUltimateMove(
+  state: UltimateGameState,
+  position: UltimatePosition
+): MoveResult {
+  if (state.moveInProgress) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.MOVE_IN_PROGRESS };
+  }
+
+  if (state.status === GAME_STATUS.WON) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.GAME_OVER };
+  }
+
+  if (state.status === GAME_STATUS.DRAW) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.BOARD_FULL };
+  }
+
+  if (
+    !isOnGrid(position.board, state.metaBoard.size) ||
+    !isOnGrid(position.cell, getSubBoard(state, position.board).board.size)
+  ) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.INVALID_POSITION };
+  }
+
+  // The previous move's cell picks the sub-board, unless that one is finished
+  if (
+    state.activeBoard &&
+    (state.activeBoard.row !== position.board.row ||
+      state.activeBoard.col !== position.board.col)
+  ) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.WRONG_SUB_BOARD };
+  }
+
+  const subBoard = getSubBoard(state, position.board);
+  if (subBoard.status !== GAME_STATUS.IN_PROGRESS) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.SUB_BOARD_CLOSED };
+  }
+
+  if (getCellValue(subBoard.board, position.cell) !== null) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.CELL_OCCUPIED };
+  }
+
+  return { success: true };
+}
+
+export function getUltimateLegalMoves(state: UltimateGameState): UltimatePosition[] {
+  return getActiveBoards(state).flatMap(board =>
+    getBitboardMoves(getSubBoard(state, board).board.bitboard)
+      .map(cell => ({ board, cell }))
+      .filter(position => validateUltimateMove(state, position).success)
+  );
+}
@@ -0,0 +1,28 @@
+import { Board, CellPosition } from '../models/board';
+import { isBitboardFull } from '../models/bitboard';
+import { PlayerSymbol, GameStatus } from '../constants/game-config';
+import { evaluateBitboard, findBitboardLine } from './bitboard-win-detector';
+
+export interface GameOutcome {
+  status: GameStatus;
+  winner: PlayerSymbol | null;
+  winningLine: CellPosition[] | null;
+}
+
+// Board-level entry points; the checks run on the board's bitboard
+
+export function isBoardFull(board: Board): boolean {
+  return isBitboardFull(board.bitboard);
+}
+
+// The first line by row-major start cell, then by LINE_DIRECTIONS order
+export function findWinningLine(
+  board: Board,
+  winLength: number
+): CellPosition[] | null {
+  return findBitboardLine(board.bitboard, winLength);
+}
+
+export function evaluateBoard(board: Board, winLength: number): GameOutcome {
+  return evaluateBitboard(board.bitboard, winLength);
+}
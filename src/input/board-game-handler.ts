@@ -0,0 +1,90 @@
+import { CellPosition } from '../models/board';
+import { MoveResult } from '../models/game-state';
+import { MoveFailureReason } from '../constants/game-config';
+import { getCursorAfterKey, isPlaceKey } from './keyboard-navigation';
+import { BoardRenderer } from '../renderer/renderer';
+
+// How a game drawn as a BoardView maps grid cells to its own moves
+export interface BoardGameInput<State, Position> {
+  gridSize: number; // Side of the drawn grid, for the keyboard cursor
+  toPosition: (cell: CellPosition) => Position | null; // null for cells no move maps to
+  validate: (state: State, position: Position) => MoveResult;
+  play: (state: State, position: Position) => State;
+}
+
+export interface BoardGameHandlerOptions<State> {
+  onStateChange?: (state: State) => void;
+  onCursorChange?: (cursor: CellPosition) => void; // On the drawn grid
+  onMoveRejected?: (position: CellPosition, reason: MoveFailureReason) => void;
+}
+
+export interface BoardGameHandle<State> {
+  getState: () => State;
+  cleanup: () => void;
+}
+
+/*
+ * Local two-player input for games that run outside the store (Ultimate,
+ * Qubic). Hits and the cursor are cells of the drawn grid; `input` maps
+ * them back to a move of the game before validating.
+ */
+export function setupBoardGameHandler<State, Position>(
+  renderer: BoardRenderer,
+  input: BoardGameInput<State, Position>,
+  initialState: State,
+  options: BoardGameHandlerOptions<State> = {}
+): BoardGameHandle<State> {
+  let state = initialState;
+  let cursor: CellPosition = { row: 0, col: 0 };
+
+  const attemptMove = (cellPos: CellPosition) => {
+    const position = input.toPosition(cellPos);
+    if (position === null) {
+      return;
+    }
+
+    const validation = input.validate(state, position);
+    if (!validation.success) {
+      options.onMoveRejected?.(cellPos, validation.reason);
+      return;
+    }
+
+    state = input.play(state, position);
+    options.onStateChange?.(state);
+  };
+
+  const handlePointerDown = (event: PointerEvent) => {
+    const cellPos = renderer.hitTest(event);
+    if (cellPos) {
+      attemptMove(cellPos);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (isPlaceKey(event.key)) {
+      event.preventDefault();
+      attemptMove(cursor);
+      return;
+    }
+
+    const next = getCursorAfterKey(cursor, event.key, input.gridSize);
+    if (next) {
+      event.preventDefault();
+      cursor = next;
+      options.onCursorChange?.(cursor);
+    }
+  };
+
+  // Typed as HTMLElement so the listeners get pointer and keyboard event types
+  const element = renderer.element as HTMLElement;
+  element.addEventListener('pointerdown', handlePointerDown);
+  element.addEventListener('keydown', handleKeyDown);
+
+  return {
+    getState: () => state,
+    cleanup: () => {
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('keydown', handleKeyDown);
+    },
+  };
+}
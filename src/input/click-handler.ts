@@ -1,66 +1,291 @@
-import { GameState } from '../models/game-state';
+import { GameState, MoveResult } from '../models/game-state';
 import { CellPosition } from '../models/board';
-import { processMove } from '../engine/game-engine';
-import { CELL_SIZE } from '../constants/render-config';
-import { GAME_CONFIG } from '../constants/game-config';
-
-export function getCellFromCoordinates(
-  x: number,
-  y: number,
-  cellSize: number,
-  gridSize: number
-): CellPosition | null {
-  const col = Math.floor(x / cellSize);
-  const row = Math.floor(y / cellSize);
-
-  if (row >= 0 && row < gridSize && col >= 0 && col < gridSize) {
-    return { row, col };
-  }
-
-  return null;
+import { GameSession, MoveRecord } from '../models/game-session';
+import { MOVE_VALIDATION, MoveFailureReason, PlayerSymbol } from '../constants/game-config';
+import {
+  getCurrentState,
+  jumpToMove,
+  undo,
+  redo,
+  canUndo,
+  canRedo,
+  validateMove,
+} from '../engine/game-engine';
+import { AI_CONFIG } from '../constants/ai-config';
+import { getCursorAfterKey, isPlaceKey } from './keyboard-navigation';
+import {
+  ComputerOpponent,
+  chooseComputerMove,
+  isComputerTurn,
+} from '../ai/computer-player';
+import { RemoteMoveStatus } from '../network/move-sequencer';
+import { GameStore } from '../store/game-store';
+import { BoardRenderer } from '../renderer/renderer';
+
+export interface ClickHandlerOptions {
+  opponent?: ComputerOpponent | null; // null/omitted for two human players
+  thinkDelayMs?: number;
+  onCursorChange?: (cursor: CellPosition) => void; // Keyboard cursor moved
+  onLocalMove?: (move: MoveRecord) => void; // Forward to the networked peer
+  // Plays out a state change; input stays locked until the promise settles
+  animateChange?: (previous: GameState, next: GameState) => Promise<void>;
+  onHoverChange?: (hover: HoverTarget | null) => void; // null once the pointer leaves
+  onMoveRejected?: (position: CellPosition, reason: MoveFailureReason) => void;
+  getSymbol?: () => PlayerSymbol | undefined; // Piece to place, where the variant allows a choice
 }
 
-export function getCanvasPosition(
-  event: PointerEvent,
-  canvas: HTMLCanvasElement
-): { x: number; y: number } {
-  const rect = canvas.getBoundingClientRect();
-  return {
-    x: event.clientX - rect.left,
-    y: event.clientY - rect.top,
-  };
+// Cell under the pointer and why a move there would be refused, if it would
+export interface HoverTarget {
+  position: CellPosition;
+  reason: MoveFailureReason | null;
+}
+
+// History controls for the running game, plus teardown
+export interface GameplayHandle {
+  undo: () => void;
+  redo: () => void;
+  jumpToMove: (moveNumber: number) => void;
+  playRemoteMove: (move: MoveRecord) => RemoteMoveStatus;
+  cleanup: () => void;
 }
 
+/*
+ * Turns pointer and keyboard input on the renderer's element into store
+ * actions and drives the computer opponent. The store's localPlayer, set by
+ * its last reset, limits networked games to this tab's turns.
+ */
 export function setupClickHandler(
-  canvas: HTMLCanvasElement,
-  initialState: GameState,
-  onStateChange: (newState: GameState) => void
-): () => void {
-  let currentState = initialState;
+  renderer: BoardRenderer,
+  store: GameStore,
+  options: ClickHandlerOptions = {}
+): GameplayHandle {
+  const opponent = options.opponent ?? null;
+  const thinkDelayMs = options.thinkDelayMs ?? AI_CONFIG.THINK_DELAY_MS;
+  const localPlayer = store.getState().localPlayer;
+  let computerTimer: ReturnType<typeof setTimeout> | null = null;
+  let cursor: CellPosition = { row: 0, col: 0 };
+  let changeId = 0; // Identifies the latest change so stale animations are ignored
+  let hover: HoverTarget | null = null;
+
+  // Includes the moveInProgress lock, unlike getCurrentState(session)
+  const currentState = () => store.getState().game;
+
+  const cancelComputerMove = () => {
+    if (computerTimer !== null) {
+      clearTimeout(computerTimer);
+      computerTimer = null;
+    }
+  };
+
+  // Lock input with moveInProgress while the computer thinks, then play its move
+  const scheduleComputerMove = () => {
+    if (!opponent || !isComputerTurn(currentState(), opponent)) {
+      return;
+    }
+
+    store.dispatch({ type: 'lock' });
+
+    computerTimer = setTimeout(() => {
+      computerTimer = null;
+      const move = chooseComputerMove(
+        getCurrentState(store.getState().session),
+        opponent.difficulty
+      );
+      store.dispatch(move ? { type: 'place', position: move } : { type: 'unlock' });
+    }, thinkDelayMs);
+  };
+
+  // Every new position holds the lock while it animates; the computer only
+  // starts thinking once the change has played out
+  const handleSessionChange = (session: GameSession, previous: GameSession) => {
+    const id = ++changeId;
+    if (!options.animateChange) {
+      scheduleComputerMove();
+      refreshHover();
+      return;
+    }
+
+    const finish = () => {
+      if (id === changeId) {
+        store.dispatch({ type: 'unlock' });
+        scheduleComputerMove();
+        refreshHover();
+      }
+    };
+    // A failed animation, thrown or rejected, is reported and still unlocks
+    const fail = (error: unknown) => {
+      console.error('Could not animate the move:', error);
+      finish();
+    };
+
+    store.dispatch({ type: 'lock' });
+    refreshHover();
+    try {
+      options
+        .animateChange(getCurrentState(previous), getCurrentState(session))
+        .then(finish, fail);
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  const unsubscribe = store.subscribe(state => state.session, handleSessionChange);
+
+  // Navigating history cancels pending computer moves; against the computer,
+  // stepping keeps going until it is the human's turn again
+  const navigate = (step: (current: GameSession) => GameSession) => {
+    cancelComputerMove();
+    const { session } = store.getState();
+    let next = step(session);
+    while (
+      opponent &&
+      isComputerTurn(getCurrentState(next), opponent) &&
+      next !== session
+    ) {
+      const further = step(next);
+      if (further === next) {
+        break;
+      }
+      next = further;
+    }
+    store.dispatch({ type: 'unlock' });
+    store.dispatch({ type: 'jump', moveNumber: next.currentMove });
+    // Jumping to the current move changes nothing, so nothing else schedules
+    if (next === session) {
+      scheduleComputerMove();
+    }
+  };
+
+  // Validating against the store's game lets the moveInProgress lock refuse
+  // input while the computer thinks or a move animates; the computer's and
+  // remote player's turns are refused as well
+  const checkMove = (cellPos: CellPosition): MoveResult => {
+    const state = currentState();
+    const validation = validateMove(state, cellPos, options.getSymbol?.());
+    if (!validation.success) {
+      return validation;
+    }
+    if (
+      isComputerTurn(state, opponent) ||
+      (localPlayer !== null && state.currentTurn !== localPlayer)
+    ) {
+      return { success: false, reason: MOVE_VALIDATION.REASONS.NOT_YOUR_TURN };
+    }
+    return { success: true };
+  };
+
+  // Shared by pointer and keyboard input
+  const attemptMove = (cellPos: CellPosition) => {
+    const check = checkMove(cellPos);
+    if (!check.success) {
+      options.onMoveRejected?.(cellPos, check.reason);
+      return;
+    }
+
+    const moveNumber = store.getState().session.currentMove + 1;
+    store.dispatch({ type: 'place', position: cellPos, symbol: options.getSymbol?.() });
+    options.onLocalMove?.(store.getState().session.moves[moveNumber - 1]);
+  };
 
   const handlePointerDown = (event: PointerEvent) => {
-    const canvasPos = getCanvasPosition(event, canvas);
-    const cellPos = getCellFromCoordinates(
-      canvasPos.x,
-      canvasPos.y,
-      CELL_SIZE,
-      GAME_CONFIG.GRID_SIZE
+    const cellPos = renderer.hitTest(event);
+    if (cellPos) {
+      attemptMove(cellPos);
+    }
+  };
+
+  // Report hover only when the cell or its playability changes
+  const setHover = (next: HoverTarget | null) => {
+    if (
+      next?.position.row === hover?.position.row &&
+      next?.position.col === hover?.position.col &&
+      next?.reason === hover?.reason
+    ) {
+      return;
+    }
+    hover = next;
+    options.onHoverChange?.(hover);
+  };
+
+  const hoverCell = (cellPos: CellPosition | null) => {
+    const check = cellPos && checkMove(cellPos);
+    setHover(
+      cellPos && check
+        ? { position: cellPos, reason: check.success ? null : check.reason }
+        : null
     );
+  };
 
-    if (cellPos) {
-      const newState = processMove(currentState, cellPos);
-      if (newState !== currentState) {
-        currentState = newState;
-        onStateChange(newState);
-      }
+  // Re-check the hovered cell after the state or input lock changes
+  const refreshHover = () => hoverCell(hover?.position ?? null);
+
+  // Touch pointers have no hover
+  const handlePointerMove = (event: PointerEvent) => {
+    if (event.pointerType !== 'touch') {
+      hoverCell(renderer.hitTest(event));
     }
   };
 
-  canvas.addEventListener('pointerdown', handlePointerDown);
+  const handlePointerLeave = () => setHover(null);
+
+  // Arrow keys, Home and End move the cursor; Enter or Space places a piece
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (isPlaceKey(event.key)) {
+      event.preventDefault();
+      attemptMove(cursor);
+      return;
+    }
 
-  // Return cleanup function
-  return () => {
-    canvas.removeEventListener('pointerdown', handlePointerDown);
+    const next = getCursorAfterKey(cursor, event.key, currentState().rules.boardSize);
+    if (next) {
+      event.preventDefault();
+      cursor = next;
+      options.onCursorChange?.(cursor);
+    }
   };
-}
 
+  // Every backend's element, HTML or SVG, is a GlobalEventHandlers, whose
+  // event map types the pointer and keyboard listeners
+  const element: GlobalEventHandlers = renderer.element;
+  element.addEventListener('pointerdown', handlePointerDown);
+  element.addEventListener('pointermove', handlePointerMove);
+  element.addEventListener('pointerleave', handlePointerLeave);
+  element.addEventListener('keydown', handleKeyDown);
+
+  // Computer may be the first to move
+  scheduleComputerMove();
+
+  // History is shared with the peer, so it cannot be rewound locally
+  const historyLocked = localPlayer !== null;
+
+  return {
+    undo: () => {
+      if (!historyLocked && canUndo(store.getState().session)) {
+        navigate(undo);
+      }
+    },
+    redo: () => {
+      if (!historyLocked && canRedo(store.getState().session)) {
+        navigate(redo);
+      }
+    },
+    jumpToMove: (moveNumber: number) => {
+      if (!historyLocked) {
+        navigate(current => jumpToMove(current, moveNumber));
+      }
+    },
+    playRemoteMove: (move: MoveRecord) => {
+      store.dispatch({ type: 'remote-move', move });
+      return store.getState().remoteStatus ?? 'rejected';
+    },
+    cleanup: () => {
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('pointermove', handlePointerMove);
+      element.removeEventListener('pointerleave', handlePointerLeave);
+      element.removeEventListener('keydown', handleKeyDown);
+      cancelComputerMove();
+      unsubscribe();
+      changeId++;
+    },
+  };
+}
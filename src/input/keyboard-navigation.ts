@@ -0,0 +1,43 @@
+import { CellPosition } from '../models/board';
+
+export const KEYBOARD_KEYS = {
+  UP: 'ArrowUp',
+  DOWN: 'ArrowDown',
+  LEFT: 'ArrowLeft',
+  RIGHT: 'ArrowRight',
+  HOME: 'Home',
+  END: 'End',
+  ENTER: 'Enter',
+  SPACE: ' ',
+} as const;
+
+export function isPlaceKey(key: string): boolean {
+  return key === KEYBOARD_KEYS.ENTER || key === KEYBOARD_KEYS.SPACE;
+}
+
+// Cursor after a navigation key, clamped to the board; null for other keys
+export function getCursorAfterKey(
+  cursor: CellPosition,
+  key: string,
+  gridSize: number
+): CellPosition | null {
+  const last = gridSize - 1;
+  const clamp = (value: number) => Math.min(Math.max(value, 0), last);
+
+  switch (key) {
+    case KEYBOARD_KEYS.UP:
+      return { row: clamp(cursor.row - 1), col: cursor.col };
+    case KEYBOARD_KEYS.DOWN:
+      return { row: clamp(cursor.row + 1), col: cursor.col };
+    case KEYBOARD_KEYS.LEFT:
+      return { row: cursor.row, col: clamp(cursor.col - 1) };
+    case KEYBOARD_KEYS.RIGHT:
+      return { row: cursor.row, col: clamp(cursor.col + 1) };
+    case KEYBOARD_KEYS.HOME:
+      return { row: 0, col: 0 };
+    case KEYBOARD_KEYS.END:
+      return { row: last, col: last };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,31 @@
+import {
+  CubePosition,
+  QubicGameState,
+  getLayeredGridSize,
+  toCubePosition,
+} from '../models/cube-board';
+import { QUBIC_CONFIG } from '../constants/game-config';
+import { processQubicMove, validateQubicMove } from '../engine/game-engine';
+import { BoardRenderer } from '../renderer/renderer';
+import {
+  BoardGameHandle,
+  BoardGameHandlerOptions,
+  BoardGameInput,
+  setupBoardGameHandler,
+} from './board-game-handler';
+
+// The renderer draws the cube's layers side by side on one grid
+const QUBIC_INPUT: BoardGameInput<QubicGameState, CubePosition> = {
+  gridSize: getLayeredGridSize(QUBIC_CONFIG.SIZE),
+  toPosition: cell => toCubePosition(cell, QUBIC_CONFIG.SIZE),
+  validate: validateQubicMove,
+  play: processQubicMove,
+};
+
+export function setupQubicHandler(
+  renderer: BoardRenderer,
+  initialState: QubicGameState,
+  options: BoardGameHandlerOptions<QubicGameState> = {}
+): BoardGameHandle<QubicGameState> {
+  return setupBoardGameHandler(renderer, QUBIC_INPUT, initialState, options);
+}
@@ -0,0 +1,30 @@
+import {
+  UltimateGameState,
+  UltimatePosition,
+  getUltimateGridSize,
+  toUltimatePosition,
+} from '../models/ultimate-state';
+import { processUltimateMove, validateUltimateMove } from '../engine/game-engine';
+import { BoardRenderer } from '../renderer/renderer';
+import {
+  BoardGameHandle,
+  BoardGameHandlerOptions,
+  BoardGameInput,
+  setupBoardGameHandler,
+} from './board-game-handler';
+
+// The renderer draws the combined 9x9 grid of all sub-boards
+const ULTIMATE_INPUT: BoardGameInput<UltimateGameState, UltimatePosition> = {
+  gridSize: getUltimateGridSize(),
+  toPosition: toUltimatePosition,
+  validate: validateUltimateMove,
+  play: processUltimateMove,
+};
+
+export function setupUltimateHandler(
+  renderer: BoardRenderer,
+  initialState: UltimateGameState,
+  options: BoardGameHandlerOptions<UltimateGameState> = {}
+): BoardGameHandle<UltimateGameState> {
+  return setupBoardGameHandler(renderer, ULTIMATE_INPUT, initialState, options);
+}
@@ -1,23 +1,147 @@
-import { createInitialGameState } from "./engine/game-engine";
-import { setupClickHandler } from "./input/click-handler";
-import { createTurnIndicator, updateTurnIndicator } from "./ui/turn-indicator";
-import { renderBoard } from "./renderer/board-renderer";
+import {
+  createInitialGameState,
+  createInitialQubicState,
+  createInitialUltimateState,
+  createMatch,
+  getCurrentState,
+  getGameVariant,
+  getPlayedMoves,
+  GAME_VARIANT_LIST,
+  isMatchOver,
+  recordGameResult,
+  resetMatch,
+} from "./engine/game-engine";
+import { buildReplaySession } from "./engine/game-replay";
+import {
+  setupClickHandler,
+  GameplayHandle,
+  HoverTarget,
+} from "./input/click-handler";
+import { setupUltimateHandler } from "./input/ultimate-handler";
+import { setupQubicHandler } from "./input/qubic-handler";
+import {
+  BoardGameHandle,
+  BoardGameHandlerOptions,
+} from "./input/board-game-handler";
+import {
+  createTurnIndicator,
+  updateTurnIndicator,
+  formatTurnText,
+  formatResultText,
+  showGameResult,
+  showStatusMessage,
+  announceMove,
+} from "./ui/turn-indicator";
+import { createScoreboard, updateScoreboard } from "./ui/scoreboard";
+import { loadMatch, saveMatch } from "./storage/match-storage";
+import {
+  createRulesSelector,
+  RULES_OPTIONS,
+  RulesOption,
+} from "./ui/rules-selector";
+import {
+  createOpponentSelector,
+  OPPONENT_OPTIONS,
+} from "./ui/opponent-selector";
+import { createMoveHistory, updateMoveHistory } from "./ui/move-history";
+import {
+  createPieceChoiceSelector,
+  createVariantSelector,
+} from "./ui/variant-selector";
+import { createHintToggle } from "./ui/hint-toggle";
+import { createReplayViewer, ReplayViewer } from "./ui/replay-viewer";
+import {
+  ClockController,
+  createClockController,
+  createClockDisplay,
+  createTimeControlSelector,
+  TIME_CONTROL_OPTIONS,
+  updateClockDisplay,
+} from "./ui/game-clock";
+import {
+  createMoveFeedback,
+  showMoveFeedback,
+  clearMoveFeedback,
+} from "./ui/move-feedback";
+import {
+  createThemeSelector,
+  createPieceStyleSelector,
+  applyThemeColors,
+  THEME_OPTIONS,
+  PIECE_STYLE_OPTIONS,
+} from "./ui/theme-selector";
+import {
+  loadThemePreference,
+  saveThemePreference,
+  DEFAULT_THEME_PREFERENCE,
+  ThemePreference,
+} from "./storage/theme-storage";
+import {
+  DEFAULT_THEME,
+  PIECE_STYLES,
+  Theme,
+  resolveTheme,
+  withPieceStyle,
+} from "./models/theme";
+import {
+  FEEDBACK_CONFIG,
+  RENDERER_CONFIG,
+  THEME_CONFIG,
+} from "./constants/render-config";
+import { createBoardAnimator } from "./renderer/board-animator";
+import { getUltimateView } from "./renderer/ultimate-view";
+import { getQubicView } from "./renderer/qubic-view";
+import { BoardRenderer, BoardView } from "./renderer/renderer";
+import {
+  createRenderer,
+  parseRendererBackend,
+} from "./renderer/renderer-factory";
+import {
+  GameRules,
+  DEFAULT_GAME_RULES,
+  isValidGameRules,
+} from "./models/game-rules";
+import { TimeControl } from "./models/game-clock";
+import { ComputerOpponent } from "./ai/computer-player";
+import { CellHint, getMoveHints } from "./ai/game-solver";
+import { GameState } from "./models/game-state";
+import { createBroadcastChannelTransport } from "./network/broadcast-channel-transport";
+import { connectPeer, PeerConnection } from "./network/peer-connection";
+import { createPeerId } from "./network/transport";
+import { NETWORK_CONFIG } from "./constants/network-config";
+import { OpponentOption } from "./ui/opponent-selector";
+import { CellPosition } from "./models/board";
+import {
+  GAME_CONFIG,
+  GAME_STATUS,
+  GAME_VARIANTS,
+  GameVariantId,
+  MATCH_CONFIG,
+  MoveFailureReason,
+  PlayerSymbol,
+} from "./constants/game-config";
+import { MatchState } from "./models/match";
+import { createGameStore } from "./store/game-store";
+import { createLoggingMiddleware } from "./store/middleware";
 import "./style.css";
 
-// Get canvas and context
-const canvas = document.getElementById("gameCanvas") as HTMLCanvasElement;
+// Get board container
+const boardContainer = document.getElementById("boardContainer");
 
-if (!canvas) {
-  throw new Error("Canvas element not found");
+if (!boardContainer) {
+  throw new Error("Board container not found");
 }
 
-const context = canvas.getContext("2d");
-
-if (!context) {
-  throw new Error(
-    "Failed to get canvas context. Your browser may not support Canvas API.",
-  );
-}
+// Mount the board with the backend named in the URL, e.g. ?renderer=svg
+const renderer = createRenderer(
+  parseRendererBackend(
+    new URLSearchParams(window.location.search).get(
+      RENDERER_CONFIG.QUERY_PARAM,
+    ),
+  ),
+);
+renderer.mount(boardContainer);
+const boardElement = renderer.element;
 
 // Get turn indicator container
 const turnIndicatorContainer = document.getElementById("turnIndicatorContainer");
@@ -26,23 +150,621 @@ if (!turnIndicatorContainer) {
   throw new Error("Turn indicator container not found");
 }
 
-// Initialize game state
-const initialState = createInitialGameState();
+// Get rules selector container
+const rulesSelectorContainer = document.getElementById("rulesSelectorContainer");
+
+if (!rulesSelectorContainer) {
+  throw new Error("Rules selector container not found");
+}
+
+// Get scoreboard container
+const scoreboardContainer = document.getElementById("scoreboardContainer");
+
+if (!scoreboardContainer) {
+  throw new Error("Scoreboard container not found");
+}
+
+// Get move history container
+const moveHistoryContainer = document.getElementById("moveHistoryContainer");
+
+if (!moveHistoryContainer) {
+  throw new Error("Move history container not found");
+}
 
 // Create and mount turn indicator
-const turnIndicator = createTurnIndicator(initialState.currentTurn);
+const turnIndicator = createTurnIndicator(createInitialGameState().currentTurn);
 turnIndicatorContainer.appendChild(turnIndicator);
 
-// Render initial board
-renderBoard(initialState.board, context);
+// Each player's remaining time, shown while a clocked game runs
+const clockDisplay = createClockDisplay();
+clockDisplay.hidden = true;
+turnIndicatorContainer.appendChild(clockDisplay);
+
+// Explains refused moves below the turn indicator
+const moveFeedback = createMoveFeedback();
+turnIndicatorContainer.appendChild(moveFeedback);
+
+let gameplay: GameplayHandle | null = null;
+// Running Ultimate or Qubic game, in place of gameplay
+let standalone: { getView: () => BoardView; cleanup: () => void } | null = null;
+// Watching the finished game back; the board takes no input meanwhile
+let replay: ReplayViewer | null = null;
+let selectedRules: GameRules = DEFAULT_GAME_RULES;
+let selectedMode: RulesOption["mode"];
+let selectedVariant: GameVariantId = GAME_VARIANTS.CLASSIC;
+let chosenPiece: PlayerSymbol = GAME_CONFIG.INITIAL_TURN; // Wild: the piece to place
+let hintsEnabled = false;
+let selectedTimeControl: TimeControl | null = null; // null: untimed games
+let clock: ClockController | null = null; // Running with the store game
+// Hints for the last position solved; renderView runs every animation frame
+let hintCache: { state: GameState; hints: CellHint[] | null } | null = null;
+let selectedOpponent: ComputerOpponent | null = null;
+let peer: PeerConnection | null = null;
+let localPlayer: PlayerSymbol | null = null; // Set once a peer tab has joined
+let resultRecorded = false; // Each game counts towards the match once
+let cursor: CellPosition = { row: 0, col: 0 };
+let hover: HoverTarget | null = null; // Cell under the mouse pointer
+let rejectedCell: CellPosition | null = null; // Flashing after a refused move
+let flashTimer: ReturnType<typeof setTimeout> | undefined;
+let feedbackTimer: ReturnType<typeof setTimeout> | undefined;
+let themePreference: ThemePreference =
+  loadThemePreference(window.localStorage) ?? DEFAULT_THEME_PREFERENCE;
+let activeTheme: Theme = DEFAULT_THEME;
+// Redraws every frame while a move animates
+const animator = createBoardAnimator(() => renderView());
+let match: MatchState =
+  loadMatch(window.localStorage) ?? createMatch(MATCH_CONFIG.DEFAULT_BEST_OF);
+
+// Persist and show the match score
+function setMatch(newMatch: MatchState): void {
+  match = newMatch;
+  saveMatch(window.localStorage, match);
+  updateScoreboard(scoreboard, match);
+}
+
+// Running game; input dispatches to it and the view subscribes below
+const store = createGameStore(
+  createInitialGameState(),
+  import.meta.env.DEV ? [createLoggingMiddleware()] : [],
+);
+
+// The piece a move would place: the chosen one where the variant allows it
+function getPieceToPlace(state: GameState): PlayerSymbol {
+  const symbols = getGameVariant(state.rules.variant).getPlayableSymbols(state);
+  return symbols.includes(chosenPiece) ? chosenPiece : symbols[0];
+}
+
+// Perfect-play outcome of each empty cell while hint mode is on
+function getHints(state: GameState): CellHint[] | null {
+  if (!hintsEnabled) {
+    return null;
+  }
+  if (hintCache?.state !== state) {
+    hintCache = { state, hints: getMoveHints(state) };
+  }
+  return hintCache.hints;
+}
+
+// Redraw the board with the cursor, hover preview and any running animation
+function renderView(): void {
+  if (replay) {
+    const replayed = getCurrentState(replay.getSession());
+    renderer.render(replayed.board, {
+      effects: {
+        winLength: replayed.rules.winLength,
+        ...animator.getEffects(),
+      },
+      theme: activeTheme,
+    });
+    return;
+  }
+  if (standalone) {
+    const view = standalone.getView();
+    renderer.render(view.board, {
+      cursor,
+      effects: { rejectedCell, ...view.effects },
+      theme: activeTheme,
+    });
+    return;
+  }
+
+  const displayedState = store.getState().game;
+  const preview =
+    hover && hover.reason === null
+      ? { position: hover.position, symbol: getPieceToPlace(displayedState) }
+      : null;
+  // Vanishing: dim the pieces that go next, while there is a next move
+  const fadingCells =
+    displayedState.status === GAME_STATUS.IN_PROGRESS
+      ? (getGameVariant(displayedState.rules.variant).getVanishingCells?.(
+          displayedState.board,
+        ) ?? null)
+      : null;
+  renderer.render(displayedState.board, {
+    cursor,
+    effects: {
+      winLength: displayedState.rules.winLength,
+      preview,
+      rejectedCell,
+      fadingCells,
+      hints: getHints(displayedState),
+      ...animator.getEffects(),
+    },
+    theme: activeTheme,
+  });
+}
+
+// Ghost piece over playable cells, "not allowed" pointer everywhere else
+function setHover(newHover: HoverTarget | null): void {
+  hover = newHover;
+  boardElement.style.cursor = !hover
+    ? ""
+    : hover.reason
+      ? "not-allowed"
+      : "pointer";
+  renderView();
+}
+
+// Flash the refused cell, shake the board and say why
+function showRejection(
+  position: CellPosition,
+  reason: MoveFailureReason,
+): void {
+  showMoveFeedback(moveFeedback, reason);
+  rejectedCell = position;
+  boardElement.classList.remove("shake");
+  void boardElement.getBoundingClientRect(); // Restart the CSS animation on repeated rejections
+  boardElement.classList.add("shake");
+  renderView();
+
+  clearTimeout(flashTimer);
+  flashTimer = setTimeout(() => {
+    rejectedCell = null;
+    boardElement.classList.remove("shake");
+    renderView();
+  }, FEEDBACK_CONFIG.REJECTION_FLASH_MS);
+
+  clearTimeout(feedbackTimer);
+  feedbackTimer = setTimeout(
+    () => clearMoveFeedback(moveFeedback),
+    FEEDBACK_CONFIG.REJECTION_MESSAGE_MS,
+  );
+}
+
+function formatStatusText(state: GameState): string {
+  return state.status === GAME_STATUS.IN_PROGRESS
+    ? formatTurnText(state.currentTurn)
+    : formatResultText(state.winner);
+}
+
+// An inert board takes no pointer, keyboard or focus
+function setBoardInert(inert: boolean): void {
+  if (boardContainer) {
+    boardContainer.inert = inert;
+  }
+}
+
+// Watch the finished game back from its first move; the board ignores input
+// and the move history gives way to the replay controls until closed
+function startReplay(): void {
+  const session = store.getState().session;
+  replay = createReplayViewer(
+    buildReplaySession(getPlayedMoves(session), session.states[0]),
+    {
+      onPositionChange: (replayed, previous) => {
+        const state = getCurrentState(replayed);
+        const move = replayed.moves[replayed.currentMove - 1];
+        if (move) {
+          announceMove(turnIndicator, move, formatStatusText(state));
+        } else {
+          updateTurnIndicator(turnIndicator, state.currentTurn);
+        }
+        animator.animate(previous.board, state.board, state.rules.winLength);
+        renderView();
+      },
+      onClose: () => {
+        stopReplay();
+        showGameResult(turnIndicator, store.getState().game.winner);
+        renderView();
+      },
+    },
+  );
+  setBoardInert(true);
+  moveHistory.hidden = true;
+  moveHistory.after(replay.element);
+  updateTurnIndicator(turnIndicator, session.states[0].currentTurn);
+  animator.cancel();
+  renderView();
+}
+
+function stopReplay(): void {
+  replay?.dispose();
+  replay = null;
+  setBoardInert(false);
+  moveHistory.hidden = selectedMode !== undefined;
+}
+
+// Board rules and variant for the next store game; a paired tab plays the same
+function getSelectedRules(): GameRules {
+  return { ...selectedRules, variant: selectedVariant };
+}
+
+// Rules chosen by the paired tab, shown in the selectors as if picked here
+function applyPeerRules(rules: GameRules): void {
+  selectedRules = { boardSize: rules.boardSize, winLength: rules.winLength };
+  selectedVariant = rules.variant ?? GAME_VARIANTS.CLASSIC;
+  rulesSelector.value = String(
+    RULES_OPTIONS.findIndex(
+      (option) =>
+        option.mode === undefined &&
+        option.rules.boardSize === rules.boardSize &&
+        option.rules.winLength === rules.winLength,
+    ),
+  );
+  variantSelector.value = String(
+    GAME_VARIANT_LIST.findIndex((variant) => variant.id === selectedVariant),
+  );
+  updateRulesOptions();
+}
 
-// Setup click handler with state change callback
-setupClickHandler(canvas, initialState, (newState) => {
-  // Update board rendering
-  renderBoard(newState.board, context);
+// Start a fresh game with the selected rules and opponent, replacing any previous one
+function startGame(): void {
+  stopReplay();
+  clock?.dispose();
+  clock = null;
+  clockDisplay.hidden = true;
+  gameplay?.cleanup();
+  gameplay = null;
+  standalone?.cleanup();
+  standalone = null;
+  animator.cancel();
+  hover = null;
+  rejectedCell = null;
+  boardElement.style.cursor = "";
+  boardElement.classList.remove("shake");
+  clearMoveFeedback(moveFeedback);
+  moveHistory.hidden = selectedMode !== undefined;
+  pieceChoiceSelector.hidden =
+    selectedMode !== undefined || selectedVariant !== GAME_VARIANTS.WILD;
 
-  // Update turn indicator
-  updateTurnIndicator(turnIndicator, newState.currentTurn);
+  if (selectedMode === "ultimate") {
+    startStandaloneGame(
+      createInitialUltimateState(match.nextStartingPlayer),
+      setupUltimateHandler,
+      getUltimateView,
+    );
+    return;
+  }
+  if (selectedMode === "qubic") {
+    startStandaloneGame(
+      createInitialQubicState(match.nextStartingPlayer),
+      setupQubicHandler,
+      getQubicView,
+    );
+    return;
+  }
+
+  // Networked games wait for the other tab before accepting input
+  if (peer && !localPlayer) {
+    showStatusMessage(turnIndicator, "Waiting for another tab to join…");
+    return;
+  }
+
+  // Reset the store; the starting symbol alternates across the match,
+  // except in networked games where both tabs must agree without a handshake
+  const initialState = createInitialGameState(
+    getSelectedRules(),
+    peer ? GAME_CONFIG.INITIAL_TURN : match.nextStartingPlayer,
+  );
+  cursor = { row: 0, col: 0 };
+  resultRecorded = false;
+  store.dispatch({ type: "reset", state: initialState, localPlayer });
+  startClock();
+
+  // Input dispatches moves to the store
+  gameplay = setupClickHandler(renderer, store, {
+    opponent: selectedOpponent,
+    getSymbol: () =>
+      selectedVariant === GAME_VARIANTS.WILD ? chosenPiece : undefined,
+    onLocalMove: (move) => peer?.sendMove(move),
+    animateChange: (previous, next) =>
+      animator.animate(previous.board, next.board, next.rules.winLength),
+    onHoverChange: (newHover) => setHover(newHover),
+    onMoveRejected: (position, reason) => showRejection(position, reason),
+    onCursorChange: (newCursor) => {
+      cursor = newCursor;
+      renderView();
+    },
+  });
+}
+
+// Timed games between people at this screen or against the computer; a
+// player whose time runs out on their turn loses
+function startClock(): void {
+  if (!selectedTimeControl || peer) {
+    return;
+  }
+  clock = createClockController(selectedTimeControl, {
+    onTick: (running, now) => updateClockDisplay(clockDisplay, running, now),
+    onTimeout: (player) => {
+      store.dispatch({ type: "timeout", player });
+      showStatusMessage(
+        turnIndicator,
+        `Player ${player} ran out of time. ${formatResultText(store.getState().game.winner)}`,
+      );
+    },
+  });
+  clockDisplay.hidden = false;
+  clock.sync(store.getState().session);
+}
+
+// Ultimate and Qubic are played locally by two people: no computer, peer or history
+type StandaloneState = Pick<GameState, "currentTurn" | "status" | "winner">;
+
+function startStandaloneGame<State extends StandaloneState>(
+  initialState: State,
+  setup: (
+    renderer: BoardRenderer,
+    initialState: State,
+    options: BoardGameHandlerOptions<State>,
+  ) => BoardGameHandle<State>,
+  getView: (state: State) => BoardView,
+): void {
+  cursor = { row: 0, col: 0 };
+  updateTurnIndicator(turnIndicator, initialState.currentTurn);
+
+  const handle = setup(renderer, initialState, {
+    onStateChange: (state) => {
+      if (state.status === GAME_STATUS.IN_PROGRESS) {
+        updateTurnIndicator(turnIndicator, state.currentTurn);
+      } else {
+        showGameResult(turnIndicator, state.winner);
+        setMatch(recordGameResult(match, state));
+      }
+      renderView();
+    },
+    onMoveRejected: (position, reason) => showRejection(position, reason),
+    onCursorChange: (newCursor) => {
+      cursor = newCursor;
+      renderView();
+    },
+  });
+  standalone = {
+    getView: () => getView(handle.getState()),
+    cleanup: handle.cleanup,
+  };
+  renderView();
+}
+
+// Board and accessible grid follow the current position
+store.subscribe(
+  (state) => state.game,
+  () => renderView(),
+);
+
+// The player on turn runs their clock; a finished game stops it
+store.subscribe(
+  (state) => state.session,
+  (session) => clock?.sync(session),
+);
+
+// Turn indicator or result, announcing a newly played move
+store.subscribe(
+  (state) => state.session,
+  (session, previous) => {
+    const game = store.getState().game;
+    const lastMove = session.moves[session.currentMove - 1];
+    if (lastMove && session.currentMove > previous.currentMove) {
+      announceMove(turnIndicator, lastMove, formatStatusText(game));
+    } else if (game.status === GAME_STATUS.IN_PROGRESS) {
+      updateTurnIndicator(turnIndicator, game.currentTurn);
+    } else {
+      showGameResult(turnIndicator, game.winner);
+    }
+  },
+);
+
+// Move list and undo/redo availability
+store.subscribe(
+  (state) => state.session,
+  (session) => updateMoveHistory(moveHistory, session),
+);
+
+// Score each game once, the first time it ends
+store.subscribe(
+  (state) => state.game.status,
+  (status) => {
+    if (!resultRecorded && status !== GAME_STATUS.IN_PROGRESS) {
+      resultRecorded = true;
+      setMatch(recordGameResult(match, store.getState().game));
+    }
+  },
+);
+
+// Show or hide the keyboard cursor with focus
+boardElement.addEventListener("focusin", () => renderView());
+boardElement.addEventListener("focusout", () => renderView());
+
+// Create and mount scoreboard; a finished match rolls over into a new one
+const scoreboard = createScoreboard(
+  {
+    onNewGame: () => {
+      if (isMatchOver(match)) {
+        setMatch(resetMatch(match));
+      }
+      peer?.sendNewGame(getSelectedRules());
+      startGame();
+    },
+    onResetMatch: () => {
+      setMatch(resetMatch(match));
+      startGame();
+    },
+    onBestOfChange: (bestOf) => {
+      setMatch(createMatch(bestOf));
+      startGame();
+    },
+  },
+  MATCH_CONFIG.BEST_OF_OPTIONS,
+);
+scoreboardContainer.appendChild(scoreboard);
+updateScoreboard(scoreboard, match);
+
+// Create and mount move history; controls act on the running game
+const moveHistory = createMoveHistory({
+  onUndo: () => gameplay?.undo(),
+  onRedo: () => gameplay?.redo(),
+  onJumpToMove: (moveNumber) => gameplay?.jumpToMove(moveNumber),
+  onReplay: () => startReplay(),
+});
+moveHistoryContainer.appendChild(moveHistory);
+
+// Create and mount rules and opponent selectors; changing either restarts the game
+const rulesSelector = createRulesSelector(
+  RULES_OPTIONS,
+  (option: RulesOption) => {
+    selectedRules = option.rules;
+    selectedMode = option.mode;
+    opponentSelector.disabled = selectedMode !== undefined;
+    variantSelector.disabled = selectedMode !== undefined;
+    hintToggle.disabled = selectedMode !== undefined;
+    timeControlSelector.disabled = selectedMode !== undefined;
+    updateRulesOptions();
+    peer?.sendNewGame(getSelectedRules());
+    startGame();
+  },
+);
+rulesSelectorContainer.appendChild(rulesSelector);
+
+// Rule variant for the next game; Wild also shows which piece to place
+const variantSelector = createVariantSelector(GAME_VARIANT_LIST, (variant) => {
+  selectedVariant = variant.id;
+  updateRulesOptions();
+  peer?.sendNewGame(getSelectedRules());
+  startGame();
 });
+rulesSelectorContainer.appendChild(variantSelector);
+
+const pieceChoiceSelector = createPieceChoiceSelector((symbol) => {
+  chosenPiece = symbol;
+  renderView();
+});
+rulesSelectorContainer.appendChild(pieceChoiceSelector);
+
+// Coaching overlay: shown only where the position is small enough to solve
+const hintToggle = createHintToggle((enabled) => {
+  hintsEnabled = enabled;
+  renderView();
+});
+rulesSelectorContainer.appendChild(hintToggle);
+
+// Time control for the next game; networked games are untimed
+const timeControlSelector = createTimeControlSelector(
+  TIME_CONTROL_OPTIONS,
+  (option) => {
+    selectedTimeControl = option.timeControl;
+    startGame();
+  },
+);
+rulesSelectorContainer.appendChild(timeControlSelector);
+
+// Ultimate and Qubic have no networked play: offered only without a peer.
+// Board rules and variants that cannot be played together rule each other out
+function updateRulesOptions(): void {
+  RULES_OPTIONS.forEach((option, index) => {
+    rulesSelector.options[index].disabled =
+      option.mode !== undefined
+        ? peer !== null
+        : !isValidGameRules({ ...option.rules, variant: selectedVariant });
+  });
+  GAME_VARIANT_LIST.forEach((variant, index) => {
+    variantSelector.options[index].disabled = !isValidGameRules({
+      ...selectedRules,
+      variant: variant.id,
+    });
+  });
+}
+
+// Pair with another same-origin tab over BroadcastChannel, or drop the pairing
+function setRemoteMode(remote: boolean): void {
+  peer?.disconnect();
+  peer = null;
+  localPlayer = null;
+  if (!remote) {
+    return;
+  }
+
+  peer = connectPeer(
+    createBroadcastChannelTransport(NETWORK_CONFIG.BROADCAST_CHANNEL_NAME),
+    createPeerId(),
+    {
+      getRules: () => getSelectedRules(),
+      onPeerJoined: (symbol, rules) => {
+        localPlayer = symbol;
+        applyPeerRules(rules);
+        startGame();
+      },
+      onRemoteMove: (move) => {
+        gameplay?.playRemoteMove(move);
+      },
+      onNewGame: (rules) => {
+        applyPeerRules(rules);
+        startGame();
+      },
+    },
+  );
+}
+
+const opponentSelector = createOpponentSelector(
+  OPPONENT_OPTIONS,
+  (option: OpponentOption) => {
+    selectedOpponent = option.opponent;
+    setRemoteMode(option.remote === true);
+    updateRulesOptions();
+    startGame();
+  },
+);
+rulesSelectorContainer.appendChild(opponentSelector);
+
+// "System theme" follows the OS colour scheme, including live changes
+const darkSchemeQuery =
+  typeof window.matchMedia === "function"
+    ? window.matchMedia(THEME_CONFIG.DARK_SCHEME_QUERY)
+    : null;
+
+// Resolve the preferred theme, restyle the page and redraw immediately
+function applyTheme(): void {
+  activeTheme = withPieceStyle(
+    resolveTheme(themePreference.theme, darkSchemeQuery?.matches ?? false),
+    PIECE_STYLES[themePreference.pieces],
+  );
+  applyThemeColors(document.documentElement, activeTheme);
+  renderView();
+}
+
+function setThemePreference(preference: ThemePreference): void {
+  themePreference = preference;
+  saveThemePreference(window.localStorage, preference);
+  applyTheme();
+}
+
+darkSchemeQuery?.addEventListener("change", () => applyTheme());
+
+// Create and mount theme and piece style selectors
+const themeSelector = createThemeSelector(
+  THEME_OPTIONS,
+  themePreference.theme,
+  (theme) => setThemePreference({ ...themePreference, theme }),
+);
+rulesSelectorContainer.appendChild(themeSelector);
+
+const pieceStyleSelector = createPieceStyleSelector(
+  PIECE_STYLE_OPTIONS,
+  themePreference.pieces,
+  (pieces) => setThemePreference({ ...themePreference, pieces }),
+);
+rulesSelectorContainer.appendChild(pieceStyleSelector);
+
+applyTheme();
+startGame();
 
 console.log("Interactive gameplay initialized!");
@@ -0,0 +1,96 @@
+import { CellPosition, GamePieceValue } from './board';
+import { PlayerSymbol } from '../constants/game-config';
+
+/*
+ * The pieces of a Board, packed into one bitmask per player; every Board
+ * stores its pieces this way. Bit row * size + col is set in `x` or `o` when
+ * that player holds the cell, so lookups and placements are a couple of
+ * integer operations and a move copies two numbers instead of a cells array.
+ * BigInt keeps it working up to 19x19 (361 bits).
+ */
+export interface Bitboard {
+  size: number;
+  x: bigint;
+  o: bigint;
+}
+
+export function createEmptyBitboard(size: number): Bitboard {
+  return { size, x: 0n, o: 0n };
+}
+
+export function isOnBitboard(bitboard: Bitboard, position: CellPosition): boolean {
+  return (
+    position.row >= 0 &&
+    position.row < bitboard.size &&
+    position.col >= 0 &&
+    position.col < bitboard.size
+  );
+}
+
+export function getCellBit(position: CellPosition, size: number): bigint {
+  return 1n << BigInt(position.row * size + position.col);
+}
+
+// Every cell of a `size` board
+export function getFullMask(size: number): bigint {
+  return (1n << BigInt(size * size)) - 1n;
+}
+
+// Null off the board, like getCellValue
+export function getBitboardValue(bitboard: Bitboard, position: CellPosition): GamePieceValue {
+  if (!isOnBitboard(bitboard, position)) {
+    return null;
+  }
+  const bit = getCellBit(position, bitboard.size);
+  if (bitboard.x & bit) {
+    return 'X';
+  }
+  return bitboard.o & bit ? 'O' : null;
+}
+
+// New bitboard with `symbol` at `position`; the cell is assumed empty
+export function placeBitboardPiece(
+  bitboard: Bitboard,
+  position: CellPosition,
+  symbol: PlayerSymbol
+): Bitboard {
+  const bit = getCellBit(position, bitboard.size);
+  return symbol === 'X'
+    ? { ...bitboard, x: bitboard.x | bit }
+    : { ...bitboard, o: bitboard.o | bit };
+}
+
+// New bitboard with `position` empty
+export function removeBitboardPiece(bitboard: Bitboard, position: CellPosition): Bitboard {
+  const bit = getCellBit(position, bitboard.size);
+  return { ...bitboard, x: bitboard.x & ~bit, o: bitboard.o & ~bit };
+}
+
+export function getEmptyMask(bitboard: Bitboard): bigint {
+  return getFullMask(bitboard.size) & ~(bitboard.x | bitboard.o);
+}
+
+export function isBitboardFull(bitboard: Bitboard): boolean {
+  return getEmptyMask(bitboard) === 0n;
+}
+
+// Positions of the set bits of `mask`, in row-major order
+function getMaskPositions(mask: bigint, size: number): CellPosition[] {
+  const positions: CellPosition[] = [];
+  for (let index = 0; mask !== 0n; index++, mask >>= 1n) {
+    if (mask & 1n) {
+      positions.push({ row: Math.floor(index / size), col: index % size });
+    }
+  }
+  return positions;
+}
+
+// Empty cells in row-major order, the same order as getLegalMoves
+export function getBitboardMoves(bitboard: Bitboard): CellPosition[] {
+  return getMaskPositions(getEmptyMask(bitboard), bitboard.size);
+}
+
+// The cells `symbol` holds, in row-major order
+export function getBitboardPieces(bitboard: Bitboard, symbol: PlayerSymbol): CellPosition[] {
+  return getMaskPositions(symbol === 'X' ? bitboard.x : bitboard.o, bitboard.size);
+}
@@ -1,23 +1,149 @@
 // Type definitions for game pieces and board state
+import {
+  Bitboard,
+  createEmptyBitboard,
+  getBitboardValue,
+  placeBitboardPiece,
+  removeBitboardPiece,
+} from "./bitboard";
+
 export type GamePieceValue = "X" | "O" | null;
 
 export interface CellPosition {
-  row: number; // 0-based row index [0-2]
-  col: number; // 0-based column index [0-2]
+  row: number; // 0-based row index [0, size)
+  col: number; // 0-based column index [0, size)
 }
 
+// Row, column, diagonal and anti-diagonal step vectors
+export const LINE_DIRECTIONS: ReadonlyArray<CellPosition> = [
+  { row: 0, col: 1 },
+  { row: 1, col: 0 },
+  { row: 1, col: 1 },
+  { row: 1, col: -1 },
+];
+
 export interface Cell {
-  value: GamePieceValue;
-  position: CellPosition;
+  readonly value: GamePieceValue;
+  readonly position: CellPosition;
+  readonly placedAt?: number; // Placement order of the piece, from 1; unset for empty or preset cells
 }
 
+// A piece put down in play, linked to the one placed before it, so a move
+// adds one link instead of copying the board
+export interface Placement {
+  readonly position: CellPosition;
+  readonly placedAt: number;
+  readonly previous: Placement | null;
+}
+
+/*
+ * The packed bitboard is the board's storage: the engine reads and updates
+ * it without touching cells. `cells` is a row-major view of it, built the
+ * first time it is read, for renderers and notation. Boards are immutable;
+ * make them with the factories below or the engine's updateBoardWithMove.
+ * As JSON a board is its size and cells (see createBoardFromCells).
+ */
 export interface Board {
-  cells: Cell[]; // Length must equal size²
-  size: number; // Grid dimension (3 for tic-tac-toe)
+  readonly size: number; // Grid dimension (3 for classic tic-tac-toe, up to 19)
+  readonly bitboard: Bitboard;
+  readonly lastPlacement: Placement | null; // Latest piece placed in play
+  readonly cells: ReadonlyArray<Cell>; // Length size²
+}
+
+// A board as it travels over the network or is stored: cells in any order
+export interface SerializedBoard {
+  size: number;
+  cells: ReadonlyArray<Cell>;
+}
+
+function buildCells(
+  bitboard: Bitboard,
+  lastPlacement: Placement | null,
+): Cell[] {
+  // The latest placement on a cell wins; older ones were removed or replaced
+  const placedAt = new Map<number, number>();
+  for (let link = lastPlacement; link; link = link.previous) {
+    const index = link.position.row * bitboard.size + link.position.col;
+    if (!placedAt.has(index)) {
+      placedAt.set(index, link.placedAt);
+    }
+  }
+
+  const cells: Cell[] = [];
+  for (let row = 0; row < bitboard.size; row++) {
+    for (let col = 0; col < bitboard.size; col++) {
+      const position = { row, col };
+      const value = getBitboardValue(bitboard, position);
+      const order = placedAt.get(row * bitboard.size + col);
+      cells.push(
+        value !== null && order !== undefined
+          ? { value, position, placedAt: order }
+          : { value, position },
+      );
+    }
+  }
+  return cells;
+}
+
+// Shared by every board, so boards compare equal by their contents
+function toSerializedBoard(this: Board): SerializedBoard {
+  return { size: this.size, cells: this.cells };
+}
+
+export function createBoard(
+  bitboard: Bitboard,
+  lastPlacement: Placement | null = null,
+): Board {
+  let cells: Cell[] | null = null;
+  const board: Board & { toJSON: () => SerializedBoard } = {
+    size: bitboard.size,
+    bitboard,
+    lastPlacement,
+    get cells() {
+      cells ??= buildCells(bitboard, lastPlacement);
+      return cells;
+    },
+    toJSON: toSerializedBoard,
+  };
+  return board;
+}
+
+// Factory function to create empty board
+export function createEmptyBoard(size: number): Board {
+  return createBoard(createEmptyBitboard(size));
+}
+
+// The placement history without any piece put down at `position`
+function forgetPlacement(
+  link: Placement | null,
+  position: CellPosition,
+): Placement | null {
+  if (link === null) {
+    return null;
+  }
+  const previous = forgetPlacement(link.previous, position);
+  if (link.position.row === position.row && link.position.col === position.col) {
+    return previous;
+  }
+  return previous === link.previous ? link : { ...link, previous };
+}
+
+// Sets up a position outside of play: the piece has no placement order.
+// Not for moves; the engine places those with updateBoardWithMove
+export function setCellValue(
+  board: Board,
+  position: CellPosition,
+  value: GamePieceValue,
+): Board {
+  const cleared = removeBitboardPiece(board.bitboard, position);
+  return createBoard(
+    value === null ? cleared : placeBitboardPiece(cleared, position, value),
+    forgetPlacement(board.lastPlacement, position),
+  );
 }
 
 // Validation function
-export function isValidBoard(board: Board): boolean {
+export function isValidBoard(board: SerializedBoard): boolean {
   // Check cell count
   if (board.cells.length !== board.size * board.size) {
     return false;
@@ -33,22 +159,33 @@ export function isValidBoard(board: Board): boolean {
   );
 }
 
-// Factory function to create empty board
-export function createEmptyBoard(size: number): Board {
-  const cells: Cell[] = [];
+// Packs a serialized board back into a Board; check it with isValidBoard first
+export function createBoardFromCells(serialized: SerializedBoard): Board {
+  const placed = serialized.cells
+    .filter((cell) => cell.value !== null && cell.placedAt !== undefined)
+    .sort((a, b) => (a.placedAt ?? 0) - (b.placedAt ?? 0));
+  const lastPlacement = placed.reduce<Placement | null>(
+    (previous, cell) => ({
+      position: cell.position,
+      placedAt: cell.placedAt ?? 0,
+      previous,
+    }),
+    null,
+  );
 
-  for (let row = 0; row < size; row++) {
-    for (let col = 0; col < size; col++) {
-      cells.push({
-        value: null,
-        position: { row, col },
-      });
+  let bitboard = createEmptyBitboard(serialized.size);
+  serialized.cells.forEach((cell) => {
+    if (cell.value !== null) {
+      bitboard = placeBitboardPiece(bitboard, cell.position, cell.value);
     }
-  }
-
-  return {
-    cells,
-    size,
-  };
+  });
+  return createBoard(bitboard, lastPlacement);
 }
 
+// Lookup helper; out-of-bounds positions read as empty
+export function getCellValue(
+  board: Board,
+  position: CellPosition,
+): GamePieceValue {
+  return getBitboardValue(board.bitboard, position);
+}
@@ -0,0 +1,91 @@
+import { Board, CellPosition, GamePieceValue, createEmptyBoard, setCellValue } from './board';
+import { PlayerSymbol, GameStatus } from '../constants/game-config';
+
+export interface CubePosition {
+  layer: number; // 0-based layer index [0, size), top layer first
+  row: number;
+  col: number;
+}
+
+export interface CubeCell {
+  value: GamePieceValue;
+  position: CubePosition;
+}
+
+export interface CubeBoard {
+  cells: CubeCell[]; // Length size³, layer-major then row-major
+  size: number;
+}
+
+export interface QubicGameState {
+  board: CubeBoard;
+  currentTurn: PlayerSymbol;
+  moveInProgress: boolean;
+  status: GameStatus;
+  winner: PlayerSymbol | null;
+  winningLine: CubePosition[] | null;
+}
+
+export function createEmptyCubeBoard(size: number): CubeBoard {
+  const cells: CubeCell[] = [];
+
+  for (let layer = 0; layer < size; layer++) {
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        cells.push({ value: null, position: { layer, row, col } });
+      }
+    }
+  }
+
+  return { cells, size };
+}
+
+export function isOnCube(board: CubeBoard, position: CubePosition): boolean {
+  return [position.layer, position.row, position.col].every(
+    value => Number.isInteger(value) && value >= 0 && value < board.size
+  );
+}
+
+// Out-of-bounds positions read as empty
+export function getCubeCellValue(board: CubeBoard, position: CubePosition): GamePieceValue {
+  if (!isOnCube(board, position)) {
+    return null;
+  }
+  const { size } = board;
+  return board.cells[(position.layer * size + position.row) * size + position.col].value;
+}
+
+/*
+ * The layers are drawn as a square of squares, so the whole cube fits a
+ * plain 2D board: with four layers, the top two sit side by side above
+ * the bottom two on an 8x8 grid.
+ */
+export function getLayersPerRow(size: number): number {
+  return Math.ceil(Math.sqrt(size));
+}
+
+export function getLayeredGridSize(size: number): number {
+  return getLayersPerRow(size) * size;
+}
+
+// Cell on the layered grid to its place in the cube; null for unused grid cells
+export function toCubePosition(position: CellPosition, size: number): CubePosition | null {
+  const perRow = getLayersPerRow(size);
+  const layer = Math.floor(position.row / size) * perRow + Math.floor(position.col / size);
+  return layer < size ? { layer, row: position.row % size, col: position.col % size } : null;
+}
+
+export function fromCubePosition(position: CubePosition, size: number): CellPosition {
+  const perRow = getLayersPerRow(size);
+  return {
+    row: Math.floor(position.layer / perRow) * size + position.row,
+    col: (position.layer % perRow) * size + position.col,
+  };
+}
+
+export function flattenCubeBoard(board: CubeBoard): Board {
+  return board.cells.reduce(
+    (flat, cell) => setCellValue(flat, fromCubePosition(cell.position, board.size), cell.value),
+    createEmptyBoard(getLayeredGridSize(board.size))
+  );
+}
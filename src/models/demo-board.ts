@@ -1,19 +1,13 @@
 import { Board } from "./board";
-import { GRID_SIZE } from "../constants/render-config";
+import { parseBoard } from "../notation/position-notation";
+
+// X at the corners and center, O top-right and bottom-left
+export const DEMO_POSITION = "X.O/.X./O.X";
 
 export function createDemoBoard(): Board {
-  return {
-    size: GRID_SIZE,
-    cells: [
-      { value: "X", position: { row: 0, col: 0 } }, // Top-left
-      { value: null, position: { row: 0, col: 1 } }, // Top-center (empty)
-      { value: "O", position: { row: 0, col: 2 } }, // Top-right
-      { value: null, position: { row: 1, col: 0 } }, // Middle-left (empty)
-      { value: "X", position: { row: 1, col: 1 } }, // Center
-      { value: null, position: { row: 1, col: 2 } }, // Middle-right (empty)
-      { value: "O", position: { row: 2, col: 0 } }, // Bottom-left
-      { value: null, position: { row: 2, col: 1 } }, // Bottom-center (empty)
-      { value: "X", position: { row: 2, col: 2 } }, // Bottom-right
-    ],
-  };
+  const result = parseBoard(DEMO_POSITION);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.value;
 }
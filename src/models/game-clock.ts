@@ -0,0 +1,19 @@
+import { PlayerSymbol } from '../constants/game-config';
+
+// Budget per player, plus time added after each of their moves
+export interface TimeControl {
+  initialMs: number;
+  incrementMs: number;
+}
+
+/*
+ * Chess-style clock. Times are readings of an injected time source in
+ * milliseconds; remainingMs is as of runningSince for the running player
+ * and final for the other.
+ */
+export interface GameClock {
+  timeControl: TimeControl;
+  remainingMs: Record<PlayerSymbol, number>;
+  running: PlayerSymbol | null; // Only the player on turn runs; null when stopped
+  runningSince: number | null;
+}
@@ -0,0 +1,61 @@
+import {
+  GAME_CONFIG,
+  GAME_VARIANTS,
+  GameVariantId,
+  RULE_LIMITS,
+  VANISHING_CONFIG,
+} from '../constants/game-config';
+
+export interface GameRules {
+  boardSize: number; // Grid dimension, RULE_LIMITS.MIN_BOARD_SIZE..MAX_BOARD_SIZE
+  winLength: number; // Pieces in a row needed to win, MIN_WIN_LENGTH..boardSize
+  variant?: GameVariantId; // Omitted for the classic game
+}
+
+export const DEFAULT_GAME_RULES: GameRules = {
+  boardSize: GAME_CONFIG.GRID_SIZE,
+  winLength: GAME_CONFIG.WIN_LENGTH,
+};
+
+export const GAME_RULE_PRESETS = {
+  CLASSIC: DEFAULT_GAME_RULES,
+  FOUR_IN_A_ROW: { boardSize: 5, winLength: 4 },
+  GOMOKU: { boardSize: 15, winLength: 5 },
+} as const satisfies Record<string, GameRules>;
+
+// Validation function
+export function isValidGameRules(rules: GameRules): boolean {
+  return (
+    Number.isInteger(rules.boardSize) &&
+    Number.isInteger(rules.winLength) &&
+    rules.boardSize >= RULE_LIMITS.MIN_BOARD_SIZE &&
+    rules.boardSize <= RULE_LIMITS.MAX_BOARD_SIZE &&
+    rules.winLength >= RULE_LIMITS.MIN_WIN_LENGTH &&
+    rules.winLength <= rules.boardSize &&
+    (rules.variant === undefined ||
+      Object.values<string>(GAME_VARIANTS).includes(rules.variant)) &&
+    // Vanishing pieces leave too few on the board for a longer line
+    (rules.variant !== GAME_VARIANTS.VANISHING ||
+      rules.winLength <= VANISHING_CONFIG.PIECES_PER_PLAYER)
+  );
+}
+
+// Factory function; rejects combinations outside RULE_LIMITS
+export function createGameRules(
+  boardSize: number,
+  winLength: number,
+  variant?: GameVariantId
+): GameRules {
+  const rules: GameRules = variant ? { boardSize, winLength, variant } : { boardSize, winLength };
+
+  if (!isValidGameRules(rules)) {
+    throw new Error(
+      `Invalid game rules: ${boardSize}x${boardSize} board with ${winLength} in a row ` +
+        `(board size must be ${RULE_LIMITS.MIN_BOARD_SIZE}-${RULE_LIMITS.MAX_BOARD_SIZE}, ` +
+        `win length ${RULE_LIMITS.MIN_WIN_LENGTH}-board size, ` +
+        `at most ${VANISHING_CONFIG.PIECES_PER_PLAYER} with vanishing pieces)`
+    );
+  }
+
+  return rules;
+}
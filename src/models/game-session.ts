@@ -0,0 +1,16 @@
+import { CellPosition } from './board';
+import { GameState } from './game-state';
+import { PlayerSymbol } from '../constants/game-config';
+
+export interface MoveRecord {
+  player: PlayerSymbol;
+  position: CellPosition;
+  moveNumber: number; // 1-based, matches index into GameSession.states
+  symbol?: PlayerSymbol; // Piece chosen by the player, where the variant allows a choice
+}
+
+export interface GameSession {
+  states: GameState[]; // states[0] is the initial state, states[n] follows move n
+  moves: MoveRecord[]; // Every recorded move, including undone ones still redoable
+  currentMove: number; // Moves currently applied, 0..moves.length
+}
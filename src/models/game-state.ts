@@ -1,13 +1,21 @@
-import { Board } from './board';
-import { PlayerSymbol, MoveFailureReason } from '../constants/game-config';
+import { Board, CellPosition } from './board';
+import { GameRules } from './game-rules';
+import {
+  PlayerSymbol,
+  MoveFailureReason,
+  GameStatus,
+} from '../constants/game-config';
 
 export interface GameState {
   board: Board;
+  rules: GameRules; // Board size and win length this game is played under
   currentTurn: PlayerSymbol;
   moveInProgress: boolean;
+  status: GameStatus;
+  winner: PlayerSymbol | null; // Set only when status is 'won'
+  winningLine: CellPosition[] | null; // Cells of the completed line, in order
 }
 
 export type MoveResult =
   | { success: true }
   | { success: false; reason: MoveFailureReason };
-
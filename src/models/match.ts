@@ -0,0 +1,15 @@
+import { PlayerSymbol } from '../constants/game-config';
+
+export interface PlayerScore {
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export interface MatchState {
+  bestOf: number; // Odd number of games; first to a majority wins the match
+  scores: Record<PlayerSymbol, PlayerScore>;
+  gamesPlayed: number;
+  nextStartingPlayer: PlayerSymbol; // Alternates every game
+  winner: PlayerSymbol | null; // Set once a player reaches a majority
+}
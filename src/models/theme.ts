@@ -0,0 +1,175 @@
+export interface ThemeColors {
+  // Canvas
+  background: string;
+  grid: string;
+  xPiece: string;
+  oPiece: string;
+  cursor: string;
+  strike: string;
+  rejected: string; // Flash over a cell where a move was refused
+  // Page chrome, applied as CSS custom properties
+  page: string;
+  surface: string;
+  text: string;
+  accent: string;
+  accentSoft: string;
+  border: string;
+  muted: string;
+}
+
+// Line widths and spacing in canvas pixels at REFERENCE_CELL_SIZE
+export interface ThemeStyle {
+  gridLineWidth: number;
+  pieceLineWidth: number;
+  piecePadding: number;
+  minPieceLineWidth: number;
+  cursorLineWidth: number;
+  cursorInset: number;
+  strikeLineWidth: number;
+}
+
+// How X and O are drawn: stroked shapes, text glyphs (e.g. emoji) or images
+export type PieceStyle =
+  | { kind: 'strokes' }
+  | { kind: 'glyphs'; X: string; O: string }
+  | { kind: 'images'; X: CanvasImageSource; O: CanvasImageSource };
+
+export interface Theme {
+  id: string;
+  label: string;
+  colors: ThemeColors;
+  style: ThemeStyle;
+  pieces: PieceStyle;
+}
+
+export const PIECE_STYLES = {
+  strokes: { kind: 'strokes' },
+  emoji: { kind: 'glyphs', X: '❌', O: '⭕' },
+} as const satisfies Record<string, PieceStyle>;
+
+export type PieceStyleId = keyof typeof PIECE_STYLES;
+
+const DEFAULT_STYLE: ThemeStyle = {
+  gridLineWidth: 2,
+  pieceLineWidth: 8,
+  piecePadding: 20,
+  minPieceLineWidth: 2,
+  cursorLineWidth: 4,
+  cursorInset: 4,
+  strikeLineWidth: 6,
+};
+
+const LIGHT_THEME: Theme = {
+  id: 'light',
+  label: 'Light',
+  colors: {
+    background: '#FFFFFF',
+    grid: '#333333',
+    xPiece: '#FF6B6B',
+    oPiece: '#4ECDC4',
+    cursor: '#2563EB',
+    strike: '#333333',
+    rejected: 'rgba(220, 38, 38, 0.35)',
+    page: '#F5F5F5',
+    surface: '#FFFFFF',
+    text: '#333333',
+    accent: '#2563EB',
+    accentSoft: '#DBEAFE',
+    border: '#333333',
+    muted: '#999999',
+  },
+  style: DEFAULT_STYLE,
+  pieces: PIECE_STYLES.strokes,
+};
+
+const DARK_THEME: Theme = {
+  id: 'dark',
+  label: 'Dark',
+  colors: {
+    background: '#1F2937',
+    grid: '#D1D5DB',
+    xPiece: '#F87171',
+    oPiece: '#5EEAD4',
+    cursor: '#60A5FA',
+    strike: '#F3F4F6',
+    rejected: 'rgba(248, 113, 113, 0.4)',
+    page: '#111827',
+    surface: '#1F2937',
+    text: '#F3F4F6',
+    accent: '#93C5FD',
+    accentSoft: '#1E3A8A',
+    border: '#9CA3AF',
+    muted: '#6B7280',
+  },
+  style: DEFAULT_STYLE,
+  pieces: PIECE_STYLES.strokes,
+};
+
+// Pure colours on black with heavier lines
+const HIGH_CONTRAST_THEME: Theme = {
+  id: 'high-contrast',
+  label: 'High contrast',
+  colors: {
+    background: '#000000',
+    grid: '#FFFFFF',
+    xPiece: '#FFFF00',
+    oPiece: '#00FFFF',
+    cursor: '#FF00FF',
+    strike: '#FFFFFF',
+    rejected: 'rgba(255, 0, 0, 0.6)',
+    page: '#000000',
+    surface: '#000000',
+    text: '#FFFFFF',
+    accent: '#FFFF00',
+    accentSoft: '#000000',
+    border: '#FFFFFF',
+    muted: '#BBBBBB',
+  },
+  style: {
+    ...DEFAULT_STYLE,
+    gridLineWidth: 4,
+    pieceLineWidth: 12,
+    minPieceLineWidth: 3,
+    cursorLineWidth: 6,
+    strikeLineWidth: 8,
+  },
+  pieces: PIECE_STYLES.strokes,
+};
+
+// Okabe-Ito vermillion and blue stay distinct under common colour-vision deficiencies
+const COLOR_BLIND_THEME: Theme = {
+  ...LIGHT_THEME,
+  id: 'color-blind',
+  label: 'Colour-blind safe',
+  colors: {
+    ...LIGHT_THEME.colors,
+    xPiece: '#D55E00',
+    oPiece: '#0072B2',
+    cursor: '#E69F00',
+    strike: '#000000',
+    rejected: 'rgba(213, 94, 0, 0.35)',
+  },
+};
+
+export const THEME_PRESETS = {
+  LIGHT: LIGHT_THEME,
+  DARK: DARK_THEME,
+  HIGH_CONTRAST: HIGH_CONTRAST_THEME,
+  COLOR_BLIND: COLOR_BLIND_THEME,
+} as const satisfies Record<string, Theme>;
+
+export const DEFAULT_THEME: Theme = LIGHT_THEME;
+
+export function findTheme(id: string): Theme | null {
+  return Object.values(THEME_PRESETS).find(theme => theme.id === id) ?? null;
+}
+
+// Any choice that is not a preset id (THEME_CONFIG.SYSTEM_CHOICE) follows
+// the system colour scheme
+export function resolveTheme(choice: string, prefersDark: boolean): Theme {
+  return findTheme(choice) ?? (prefersDark ? DARK_THEME : LIGHT_THEME);
+}
+
+export function withPieceStyle(theme: Theme, pieces: PieceStyle): Theme {
+  return { ...theme, pieces };
+}
@@ -0,0 +1,64 @@
+import { Board, CellPosition, createEmptyBoard, getCellValue, setCellValue } from './board';
+import {
+  PlayerSymbol,
+  GameStatus,
+  ULTIMATE_CONFIG,
+} from '../constants/game-config';
+
+// A move names the sub-board on the meta grid and the cell inside it
+export interface UltimatePosition {
+  board: CellPosition;
+  cell: CellPosition;
+}
+
+export interface SubBoard {
+  board: Board;
+  status: GameStatus; // 'won' once claimed, 'draw' when full with no line
+  winner: PlayerSymbol | null;
+}
+
+export interface UltimateGameState {
+  subBoards: SubBoard[]; // Row-major over the meta grid
+  metaBoard: Board; // Claimed sub-boards as X/O; open and drawn ones stay empty
+  activeBoard: CellPosition | null; // Where the next move must go; null is a free choice
+  currentTurn: PlayerSymbol;
+  moveInProgress: boolean;
+  status: GameStatus;
+  winner: PlayerSymbol | null;
+  winningLine: CellPosition[] | null; // Meta-board positions of the claimed line
+}
+
+export function getSubBoard(state: UltimateGameState, position: CellPosition): SubBoard {
+  return state.subBoards[position.row * state.metaBoard.size + position.col];
+}
+
+// Side length of the combined grid, in cells
+export function getUltimateGridSize(): number {
+  return ULTIMATE_CONFIG.META_SIZE * ULTIMATE_CONFIG.SUB_BOARD_SIZE;
+}
+
+// Cell on the combined 9x9 grid (as drawn and hit tested) to sub-board and cell
+export function toUltimatePosition(position: CellPosition): UltimatePosition {
+  const size = ULTIMATE_CONFIG.SUB_BOARD_SIZE;
+  return {
+    board: { row: Math.floor(position.row / size), col: Math.floor(position.col / size) },
+    cell: { row: position.row % size, col: position.col % size },
+  };
+}
+
+export function fromUltimatePosition(position: UltimatePosition): CellPosition {
+  const size = ULTIMATE_CONFIG.SUB_BOARD_SIZE;
+  return {
+    row: position.board.row * size + position.cell.row,
+    col: position.board.col * size + position.cell.col,
+  };
+}
+
+// Every sub-board's pieces on one combined grid
+export function flattenUltimateBoard(state: UltimateGameState): Board {
+  const empty = createEmptyBoard(getUltimateGridSize());
+  return empty.cells.reduce((board, { position }) => {
+    const { board: subBoard, cell: inner } = toUltimatePosition(position);
+    return setCellValue(board, position, getCellValue(getSubBoard(state, subBoard).board, inner));
+  }, empty);
+}
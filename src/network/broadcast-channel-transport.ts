@@ -0,0 +1,30 @@
+import { GameTransport, PeerMessage, isPeerMessage } from './transport';
+
+// Same-origin tabs sharing a channel name see each other's messages; no server needed
+export function createBroadcastChannelTransport(
+  channelName: string,
+  createChannel: (name: string) => BroadcastChannel = name => new BroadcastChannel(name)
+): GameTransport {
+  const channel = createChannel(channelName);
+  const listeners = new Set<(message: PeerMessage) => void>();
+
+  channel.onmessage = (event: MessageEvent) => {
+    if (isPeerMessage(event.data)) {
+      listeners.forEach(listener => listener(event.data));
+    }
+  };
+
+  return {
+    send: message => channel.postMessage(message),
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close: () => {
+      listeners.clear();
+      channel.close();
+    },
+  };
+}
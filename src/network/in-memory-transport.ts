@@ -0,0 +1,35 @@
+import { GameTransport, PeerMessage } from './transport';
+
+type Listener = (message: PeerMessage) => void;
+
+// Two connected transports delivering synchronously; for tests and local wiring
+export function createInMemoryTransportPair(): [GameTransport, GameTransport] {
+  const listeners: [Set<Listener>, Set<Listener>] = [new Set(), new Set()];
+  const closed = [false, false];
+
+  const createEnd = (self: 0 | 1): GameTransport => {
+    const other = self === 0 ? 1 : 0;
+    return {
+      send: message => {
+        if (closed[self] || closed[other]) {
+          return;
+        }
+        // Copy like structured cloning would, so peers never share objects
+        const copy: PeerMessage = JSON.parse(JSON.stringify(message));
+        listeners[other].forEach(listener => listener(copy));
+      },
+      subscribe: listener => {
+        listeners[self].add(listener);
+        return () => {
+          listeners[self].delete(listener);
+        };
+      },
+      close: () => {
+        closed[self] = true;
+        listeners[self].clear();
+      },
+    };
+  };
+
+  return [createEnd(0), createEnd(1)];
+}
@@ -0,0 +1,112 @@
+import { GameSession, MoveRecord } from '../models/game-session';
+import { PlayerSymbol, MoveFailureReason, MOVE_VALIDATION } from '../constants/game-config';
+import {
+  getCurrentState,
+  playSessionMove,
+} from '../engine/session-transitions';
+import { validateMove } from '../engine/move-validator';
+
+export type RemoteMoveStatus = 'applied' | 'duplicate' | 'buffered' | 'rejected';
+
+export interface RemoteMoveOutcome {
+  session: GameSession;
+  pending: MoveRecord[]; // Early moves waiting for the gap before them to fill
+  status: RemoteMoveStatus;
+  reason?: MoveFailureReason; // Set when status is 'rejected'
+}
+
+function isSameMove(a: MoveRecord, b: MoveRecord): boolean {
+  return (
+    a.player === b.player &&
+    a.moveNumber === b.moveNumber &&
+    a.symbol === b.symbol &&
+    a.position.row === b.position.row &&
+    a.position.col === b.position.col
+  );
+}
+
+function reject(
+  session: GameSession,
+  pending: MoveRecord[],
+  reason: MoveFailureReason
+): RemoteMoveOutcome {
+  return { session, pending, status: 'rejected', reason };
+}
+
+/*
+ * Applies a move received from a peer. Moves are numbered, so repeats of an
+ * already-applied move are ignored, moves that arrive early wait in `pending`,
+ * and everything else goes through validateMove before it touches the board.
+ */
+export function receiveRemoteMove(
+  session: GameSession,
+  pending: MoveRecord[],
+  move: MoveRecord,
+  remotePlayer: PlayerSymbol
+): RemoteMoveOutcome {
+  if (move.player !== remotePlayer) {
+    return reject(session, pending, MOVE_VALIDATION.REASONS.NOT_YOUR_TURN);
+  }
+
+  const nextMoveNumber = session.currentMove + 1;
+
+  // Already applied: identical repeats are harmless, anything else conflicts
+  if (move.moveNumber < nextMoveNumber) {
+    const applied = session.moves[move.moveNumber - 1];
+    return applied && isSameMove(applied, move)
+      ? { session, pending, status: 'duplicate' }
+      : reject(session, pending, MOVE_VALIDATION.REASONS.OUT_OF_ORDER);
+  }
+
+  // Arrived early: hold until the moves before it have been played
+  if (move.moveNumber > nextMoveNumber) {
+    const state = getCurrentState(session);
+    const maxMoveNumber = state.board.size * state.board.size;
+    if (move.moveNumber > maxMoveNumber) {
+      return reject(session, pending, MOVE_VALIDATION.REASONS.OUT_OF_ORDER);
+    }
+    if (pending.some(waiting => waiting.moveNumber === move.moveNumber)) {
+      return { session, pending, status: 'duplicate' };
+    }
+    return { session, pending: [...pending, move], status: 'buffered' };
+  }
+
+  const state = getCurrentState(session);
+  if (state.currentTurn !== move.player) {
+    return reject(session, pending, MOVE_VALIDATION.REASONS.NOT_YOUR_TURN);
+  }
+
+  const validation = validateMove(state, move.position, move.symbol);
+  if (!validation.success) {
+    return reject(session, pending, validation.reason);
+  }
+
+  // Apply, then play any buffered move that is now next in line
+  return {
+    ...drainPendingMoves(
+      playSessionMove(session, move.position, move.symbol),
+      pending,
+      remotePlayer
+    ),
+    status: 'applied',
+  };
+}
+
+// Plays buffered moves that have become next; call after every local move too.
+// A buffered move that turns out to be illegal is dropped.
+export function drainPendingMoves(
+  session: GameSession,
+  pending: MoveRecord[],
+  remotePlayer: PlayerSymbol
+): { session: GameSession; pending: MoveRecord[] } {
+  const upcoming = pending.find(
+    waiting => waiting.moveNumber === session.currentMove + 1
+  );
+  if (!upcoming) {
+    return { session, pending };
+  }
+
+  const remaining = pending.filter(waiting => waiting !== upcoming);
+  const outcome = receiveRemoteMove(session, remaining, upcoming, remotePlayer);
+  return { session: outcome.session, pending: outcome.pending };
+}
@@ -0,0 +1,80 @@
+import { MoveRecord } from '../models/game-session';
+import { GameRules } from '../models/game-rules';
+import { PlayerSymbol } from '../constants/game-config';
+import { GameTransport, assignLocalSymbol } from './transport';
+
+export interface PeerConnectionHandlers {
+  getRules: () => GameRules; // The rules this side would play, sent when pairing
+  onPeerJoined: (localPlayer: PlayerSymbol, rules: GameRules) => void;
+  onRemoteMove: (move: MoveRecord) => void;
+  onNewGame: (rules: GameRules) => void;
+}
+
+export interface PeerConnection {
+  sendMove: (move: MoveRecord) => void;
+  sendNewGame: (rules: GameRules) => void;
+  disconnect: () => void;
+}
+
+/*
+ * Pairs this player with one peer over a transport. Both sides announce
+ * themselves with 'hello' and answer a new peer's hello once, then derive
+ * seats from their peer ids and play X's rules. A hello from a different
+ * peer (e.g. the other tab reloaded) re-pairs and starts over. Each new game
+ * carries the rules of whoever started it.
+ */
+export function connectPeer(
+  transport: GameTransport,
+  localPeerId: string,
+  handlers: PeerConnectionHandlers
+): PeerConnection {
+  let remotePeerId: string | null = null;
+
+  const unsubscribe = transport.subscribe(message => {
+    if (message.peerId === localPeerId) {
+      return;
+    }
+
+    if (message.type === 'hello') {
+      if (message.peerId !== remotePeerId) {
+        remotePeerId = message.peerId;
+        const localRules = handlers.getRules();
+        transport.send({ type: 'hello', peerId: localPeerId, rules: localRules });
+        const localPlayer = assignLocalSymbol(localPeerId, remotePeerId);
+        handlers.onPeerJoined(localPlayer, localPlayer === 'X' ? localRules : message.rules);
+      }
+      return;
+    }
+
+    // Ignore strangers until they have said hello
+    if (message.peerId !== remotePeerId) {
+      return;
+    }
+
+    if (message.type === 'move') {
+      handlers.onRemoteMove({
+        player: message.player,
+        position: message.position,
+        moveNumber: message.moveNumber,
+        ...(message.symbol !== undefined && { symbol: message.symbol }),
+      });
+    } else {
+      handlers.onNewGame(message.rules);
+    }
+  });
+
+  transport.send({ type: 'hello', peerId: localPeerId, rules: handlers.getRules() });
+
+  return {
+    sendMove: move => {
+      transport.send({ type: 'move', peerId: localPeerId, ...move });
+    },
+    sendNewGame: rules => {
+      transport.send({ type: 'new-game', peerId: localPeerId, rules });
+    },
+    disconnect: () => {
+      unsubscribe();
+      transport.close();
+    },
+  };
+}
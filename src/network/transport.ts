@@ -0,0 +1,67 @@
+import { CellPosition } from '../models/board';
+import { GameRules, isValidGameRules } from '../models/game-rules';
+import { PlayerSymbol } from '../constants/game-config';
+
+export type PeerMessage =
+  // Both carry the rules, variant included, so the two boards stay in step
+  | { type: 'hello'; peerId: string; rules: GameRules }
+  | {
+      type: 'move';
+      peerId: string;
+      moveNumber: number;
+      player: PlayerSymbol;
+      position: CellPosition;
+      symbol?: PlayerSymbol; // Chosen piece, in variants that allow a choice
+    }
+  | { type: 'new-game'; peerId: string; rules: GameRules };
+
+// Carries peer messages between players; implementations never echo a
+// sender's own messages back to it
+export interface GameTransport {
+  send: (message: PeerMessage) => void;
+  subscribe: (listener: (message: PeerMessage) => void) => () => void;
+  close: () => void;
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+// Incoming data is untrusted; anything malformed is dropped
+export function isPeerMessage(value: unknown): value is PeerMessage {
+  const message = value as Record<string, unknown> | null;
+  if (typeof message !== 'object' || message === null || typeof message.peerId !== 'string') {
+    return false;
+  }
+
+  switch (message.type) {
+    case 'hello':
+    case 'new-game': {
+      const rules = message.rules as GameRules | null;
+      return typeof rules === 'object' && rules !== null && isValidGameRules(rules);
+    }
+    case 'move': {
+      const position = message.position as Record<string, unknown> | null;
+      return (
+        isNonNegativeInteger(message.moveNumber) &&
+        (message.player === 'X' || message.player === 'O') &&
+        typeof position === 'object' &&
+        position !== null &&
+        isNonNegativeInteger(position.row) &&
+        isNonNegativeInteger(position.col) &&
+        (message.symbol === undefined || message.symbol === 'X' || message.symbol === 'O')
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+// Lower peer id plays X, so both sides agree without a server
+export function assignLocalSymbol(localPeerId: string, remotePeerId: string): PlayerSymbol {
+  return localPeerId < remotePeerId ? 'X' : 'O';
+}
+
+export function createPeerId(random: () => number = Math.random): string {
+  return random().toString(36).slice(2, 10);
+}
@@ -0,0 +1,27 @@
+import { CellPosition } from '../models/board';
+import { ParseResult, parseSuccess, parseFailure } from './parse-result';
+
+// Algebraic cell names: column letter from 'a' (left), row number from 1 (top)
+const FIRST_COLUMN_CODE = 'a'.charCodeAt(0);
+const CELL_PATTERN = /^([a-z])([1-9][0-9]?)$/;
+
+export function formatCell(position: CellPosition): string {
+  return `${String.fromCharCode(FIRST_COLUMN_CODE + position.col)}${position.row + 1}`;
+}
+
+export function parseCell(text: string, boardSize: number): ParseResult<CellPosition> {
+  const match = CELL_PATTERN.exec(text.trim().toLowerCase());
+  if (!match) {
+    return parseFailure(`Invalid coordinate "${text}": expected a column letter and row number, e.g. "b2"`);
+  }
+
+  const col = match[1].charCodeAt(0) - FIRST_COLUMN_CODE;
+  const row = Number(match[2]) - 1;
+
+  if (row < 0 || row >= boardSize || col >= boardSize) {
+    const lastCell = formatCell({ row: boardSize - 1, col: boardSize - 1 });
+    return parseFailure(`Invalid coordinate "${text}": outside the ${boardSize}x${boardSize} board (a1-${lastCell})`);
+  }
+
+  return parseSuccess({ row, col });
+}
@@ -0,0 +1,200 @@
+import { CellPosition } from '../models/board';
+import { GameState } from '../models/game-state';
+import { GameSession } from '../models/game-session';
+import { GameRules, isValidGameRules } from '../models/game-rules';
+import {
+  PlayerSymbol,
+  MoveFailureReason,
+  GAME_CONFIG,
+  RULE_LIMITS,
+} from '../constants/game-config';
+import { createInitialGameState } from '../engine/game-engine';
+import { validateMove } from '../engine/move-validator';
+import { processMove, switchTurn } from '../engine/state-transitions';
+import { getPlayedMoves } from '../engine/session-transitions';
+import { formatCell, parseCell } from './cell-notation';
+import { ParseResult, parseSuccess, parseFailure } from './parse-result';
+
+/*
+ * Game records are a tag header followed by the moves in algebraic notation:
+ *
+ *   [Size "3"]
+ *   [WinLength "3"]
+ *   [X "Alice"]
+ *   [O "Bob"]
+ *
+ *   b2 a1 c3
+ *
+ * An optional [First "O"] tag records games where O moved first.
+ * Moves may carry move numbers ("1.") and a player prefix ("Xb2"), which is
+ * checked against whose turn it is.
+ */
+
+export interface GameRecord {
+  rules: GameRules;
+  players: Record<PlayerSymbol, string>;
+  firstPlayer: PlayerSymbol;
+  moves: CellPosition[];
+}
+
+const HEADER_PATTERN = /^\[(\w+)\s+"([^"]*)"\]$/;
+const MOVE_NUMBER_PATTERN = /^\d+\.$/;
+const PLAYER_PREFIX_PATTERN = /^([XO])(?=[a-z])/;
+
+export const DEFAULT_PLAYER_NAMES: Record<PlayerSymbol, string> = {
+  X: 'Player X',
+  O: 'Player O',
+};
+
+const MOVE_FAILURE_MESSAGES: Record<MoveFailureReason, string> = {
+  'cell-occupied': 'the cell is already occupied',
+  'move-in-progress': 'another move is still in progress',
+  'invalid-position': 'the cell is outside the board',
+  'board-full': 'the board is already full',
+  'game-over': 'the game has already been won',
+  'not-your-turn': 'it is not that player\'s turn',
+  'out-of-order': 'the move is out of order',
+  'wrong-sub-board': 'the move must be played in another sub-board',
+  'sub-board-closed': 'that sub-board is already finished',
+  'symbol-not-allowed': 'that piece cannot be placed in this variant',
+};
+
+export function createGameRecord(
+  session: GameSession,
+  players: Record<PlayerSymbol, string> = DEFAULT_PLAYER_NAMES
+): GameRecord {
+  return {
+    rules: session.states[0].rules,
+    players,
+    firstPlayer: session.states[0].currentTurn,
+    moves: getPlayedMoves(session).map(move => move.position),
+  };
+}
+
+// Header values cannot contain double quotes
+function formatTagValue(value: string | number): string {
+  return `"${String(value).replace(/"/g, "'")}"`;
+}
+
+export function serializeGameRecord(record: GameRecord): string {
+  const header = [
+    `[Size ${formatTagValue(record.rules.boardSize)}]`,
+    `[WinLength ${formatTagValue(record.rules.winLength)}]`,
+    `[X ${formatTagValue(record.players.X)}]`,
+    `[O ${formatTagValue(record.players.O)}]`,
+  ];
+  if (record.firstPlayer !== GAME_CONFIG.INITIAL_TURN) {
+    header.push(`[First ${formatTagValue(record.firstPlayer)}]`);
+  }
+  return `${header.join('\n')}\n\n${record.moves.map(formatCell).join(' ')}\n`;
+}
+
+// Replays every move from a fresh game, failing on the first illegal one
+export function replayGameRecord(record: GameRecord): ParseResult<GameState> {
+  let state = createInitialGameState(record.rules, record.firstPlayer);
+
+  for (let index = 0; index < record.moves.length; index++) {
+    const move = record.moves[index];
+    const validation = validateMove(state, move);
+    if (!validation.success) {
+      return parseFailure(
+        `Move ${index + 1} (${formatCell(move)}): ${MOVE_FAILURE_MESSAGES[validation.reason]}`
+      );
+    }
+    state = processMove(state, move);
+  }
+
+  return parseSuccess(state);
+}
+
+function parseHeaderNumber(tags: Map<string, string>, tag: string): number | null {
+  const value = tags.get(tag);
+  return value !== undefined && /^\d+$/.test(value) ? Number(value) : null;
+}
+
+export function parseGameRecord(text: string): ParseResult<GameRecord> {
+  const tags = new Map<string, string>();
+  const moveTokens: string[] = [];
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      const match = HEADER_PATTERN.exec(line);
+      if (!match) {
+        return parseFailure(`Invalid header line "${line}": expected [Tag "value"]`);
+      }
+      const [, tag, value] = match;
+      if (!['Size', 'WinLength', 'X', 'O', 'First'].includes(tag)) {
+        return parseFailure(`Unknown header tag "${tag}"`);
+      }
+      if (tags.has(tag)) {
+        return parseFailure(`Duplicate header tag "${tag}"`);
+      }
+      tags.set(tag, value);
+    } else if (line.length > 0) {
+      moveTokens.push(...line.split(/\s+/));
+    }
+  }
+
+  const boardSize = parseHeaderNumber(tags, 'Size');
+  const winLength = parseHeaderNumber(tags, 'WinLength');
+  if (boardSize === null || winLength === null) {
+    return parseFailure('Game record needs numeric [Size "n"] and [WinLength "k"] headers');
+  }
+
+  const rules = { boardSize, winLength };
+  if (!isValidGameRules(rules)) {
+    return parseFailure(
+      `Invalid rules: ${boardSize}x${boardSize} board with ${winLength} in a row ` +
+        `(board size must be ${RULE_LIMITS.MIN_BOARD_SIZE}-${RULE_LIMITS.MAX_BOARD_SIZE})`
+    );
+  }
+
+  const first = tags.get('First') ?? GAME_CONFIG.INITIAL_TURN;
+  if (first !== 'X' && first !== 'O') {
+    return parseFailure(`Invalid [First "${first}"] header: expected X or O`);
+  }
+
+  const moves: CellPosition[] = [];
+  let expectedPlayer: PlayerSymbol = first;
+
+  for (const token of moveTokens) {
+    if (MOVE_NUMBER_PATTERN.test(token)) {
+      continue;
+    }
+
+    const prefix = PLAYER_PREFIX_PATTERN.exec(token);
+    const cellText = prefix ? token.slice(1) : token;
+    if (prefix && prefix[1] !== expectedPlayer) {
+      return parseFailure(
+        `Move ${moves.length + 1} (${token}): out of alternating order, expected ${expectedPlayer} to move`
+      );
+    }
+
+    const cell = parseCell(cellText, boardSize);
+    if (!cell.success) {
+      return parseFailure(`Move ${moves.length + 1}: ${cell.error}`);
+    }
+
+    moves.push(cell.value);
+    expectedPlayer = switchTurn(expectedPlayer);
+  }
+
+  const record: GameRecord = {
+    rules,
+    players: {
+      X: tags.get('X') ?? DEFAULT_PLAYER_NAMES.X,
+      O: tags.get('O') ?? DEFAULT_PLAYER_NAMES.O,
+    },
+    firstPlayer: first,
+    moves,
+  };
+
+  // Reject records whose moves cannot actually be played
+  const replay = replayGameRecord(record);
+  if (!replay.success) {
+    return replay;
+  }
+
+  return parseSuccess(record);
+}
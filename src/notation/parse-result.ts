@@ -0,0 +1,11 @@
+export type ParseResult<T> =
+  | { success: true; value: T }
+  | { success: false; error: string };
+
+export function parseSuccess<T>(value: T): ParseResult<T> {
+  return { success: true, value };
+}
+
+export function parseFailure<T>(error: string): ParseResult<T> {
+  return { success: false, error };
+}
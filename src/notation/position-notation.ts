@@ -0,0 +1,112 @@
+import { Board, GamePieceValue, createEmptyBoard, setCellValue } from '../models/board';
+import { GameState } from '../models/game-state';
+import { GameRules, isValidGameRules } from '../models/game-rules';
+import { GAME_CONFIG, GAME_STATUS, RULE_LIMITS } from '../constants/game-config';
+import { evaluateBoard } from '../engine/win-detector';
+import { switchTurn } from '../engine/state-transitions';
+import { ParseResult, parseSuccess, parseFailure } from './parse-result';
+
+// Position strings list rows top to bottom, separated by '/', e.g. "X.O/.X./O.X"
+const ROW_SEPARATOR = '/';
+const EMPTY_MARK = '.';
+
+function formatPiece(value: GamePieceValue): string {
+  return value ?? EMPTY_MARK;
+}
+
+export function serializeBoard(board: Board): string {
+  const rows: string[] = [];
+  for (let row = 0; row < board.size; row++) {
+    const cells = board.cells
+      .filter(cell => cell.position.row === row)
+      .sort((a, b) => a.position.col - b.position.col);
+    rows.push(cells.map(cell => formatPiece(cell.value)).join(''));
+  }
+  return rows.join(ROW_SEPARATOR);
+}
+
+export function parseBoard(text: string): ParseResult<Board> {
+  const rows = text.trim().split(ROW_SEPARATOR);
+  const size = rows.length;
+
+  if (size < RULE_LIMITS.MIN_BOARD_SIZE || size > RULE_LIMITS.MAX_BOARD_SIZE) {
+    return parseFailure(
+      `Invalid position "${text}": expected ${RULE_LIMITS.MIN_BOARD_SIZE}-${RULE_LIMITS.MAX_BOARD_SIZE} rows, found ${size}`
+    );
+  }
+
+  let board = createEmptyBoard(size);
+  for (let row = 0; row < size; row++) {
+    const marks = rows[row];
+    if (marks.length !== size) {
+      return parseFailure(
+        `Invalid position "${text}": row ${row + 1} has ${marks.length} cells, expected ${size}`
+      );
+    }
+
+    for (let col = 0; col < size; col++) {
+      const mark = marks[col].toUpperCase();
+      if (mark !== 'X' && mark !== 'O' && mark !== EMPTY_MARK) {
+        return parseFailure(
+          `Invalid position "${text}": unexpected "${marks[col]}" in row ${row + 1}, use X, O or ${EMPTY_MARK}`
+        );
+      }
+      board = setCellValue(board, { row, col }, mark === EMPTY_MARK ? null : mark);
+    }
+  }
+
+  return parseSuccess(board);
+}
+
+// Builds a playable state; piece counts must fit alternating turns from INITIAL_TURN
+export function parsePosition(
+  text: string,
+  winLength: number = GAME_CONFIG.WIN_LENGTH
+): ParseResult<GameState> {
+  const parsed = parseBoard(text);
+  if (!parsed.success) {
+    return parsed;
+  }
+
+  const board = parsed.value;
+  const rules: GameRules = { boardSize: board.size, winLength };
+  if (!isValidGameRules(rules)) {
+    return parseFailure(
+      `Invalid position "${text}": win length ${winLength} does not fit a ${board.size}x${board.size} board`
+    );
+  }
+
+  const first = GAME_CONFIG.INITIAL_TURN;
+  const second = switchTurn(first);
+  const firstCount = board.cells.filter(cell => cell.value === first).length;
+  const secondCount = board.cells.filter(cell => cell.value === second).length;
+  if (firstCount !== secondCount && firstCount !== secondCount + 1) {
+    return parseFailure(
+      `Invalid position "${text}": ${firstCount} ${first} and ${secondCount} ${second} pieces are out of alternating order`
+    );
+  }
+
+  const nextTurn = firstCount === secondCount ? first : second;
+  const lastMover = switchTurn(nextTurn);
+  const outcome = evaluateBoard(board, winLength);
+
+  // Play stops at a win, so the winner must have made the last move
+  if (outcome.winner !== null && outcome.winner !== lastMover) {
+    return parseFailure(
+      `Invalid position "${text}": ${outcome.winner} has already won but ${lastMover} moved afterwards`
+    );
+  }
+
+  const gameOver = outcome.status !== GAME_STATUS.IN_PROGRESS;
+
+  return parseSuccess({
+    board,
+    rules,
+    // A finished game keeps the last mover as currentTurn
+    currentTurn: gameOver ? lastMover : nextTurn,
+    moveInProgress: false,
+    status: outcome.status,
+    winner: outcome.winner,
+    winningLine: outcome.winningLine,
+  });
+}
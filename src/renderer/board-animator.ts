@@ -0,0 +1,182 @@
+import { Board, Cell, CellPosition } from "../models/board";
+import { findWinningLine } from "../engine/win-detector";
+import { ANIMATION_CONFIG } from "../constants/render-config";
+import { RenderEffects } from "./board-renderer";
+
+// What changed between two boards that is worth animating
+export interface AnimationPlan {
+  newPiece: CellPosition | null;
+  strike: boolean; // A line was completed by this change
+}
+
+export interface FrameScheduler {
+  requestFrame: (callback: (time: number) => void) => number;
+  cancelFrame: (id: number) => void;
+}
+
+export interface BoardAnimatorOptions {
+  prefersReducedMotion?: () => boolean;
+  scheduler?: FrameScheduler;
+}
+
+export interface BoardAnimator {
+  // Resolves when the change has finished animating (or was superseded)
+  animate: (previous: Board, next: Board, winLength: number) => Promise<void>;
+  getEffects: () => RenderEffects; // Progress for the frame being drawn
+  cancel: () => void;
+}
+
+// The single cell that went from empty to filled, or null for any other change
+// (undo, jumps, several moves at once). Pieces may leave the board alongside
+// it (vanishing pieces) as long as the new one is the latest placed
+export function findNewPiece(
+  previous: Board,
+  next: Board,
+): CellPosition | null {
+  if (previous.size !== next.size) {
+    return null;
+  }
+
+  let placed: Cell | null = null;
+  let removed = false;
+  for (let i = 0; i < next.cells.length; i++) {
+    const before = previous.cells[i].value;
+    const after = next.cells[i].value;
+    if (before === after) {
+      continue;
+    }
+    if (after === null) {
+      removed = true;
+      continue;
+    }
+    if (before !== null || placed !== null) {
+      return null;
+    }
+    placed = next.cells[i];
+  }
+
+  // Undoing a vanishing move brings back an older piece; that isn't a placement
+  const order = placed?.placedAt ?? 0;
+  if (removed && previous.cells.some((cell) => (cell.placedAt ?? 0) >= order)) {
+    return null;
+  }
+  return placed?.position ?? null;
+}
+
+export function planAnimation(
+  previous: Board,
+  next: Board,
+  winLength: number,
+): AnimationPlan {
+  const newPiece = findNewPiece(previous, next);
+  return {
+    newPiece,
+    strike:
+      newPiece !== null &&
+      findWinningLine(previous, winLength) === null &&
+      findWinningLine(next, winLength) !== null,
+  };
+}
+
+export function getAnimationDuration(plan: AnimationPlan): number {
+  if (!plan.newPiece) {
+    return 0;
+  }
+  return (
+    ANIMATION_CONFIG.PIECE_DURATION_MS +
+    (plan.strike ? ANIMATION_CONFIG.STRIKE_DURATION_MS : 0)
+  );
+}
+
+// The piece draws in first, then the strike-through follows
+export function getAnimationEffects(
+  plan: AnimationPlan,
+  elapsedMs: number,
+): RenderEffects {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  const strikeElapsedMs = elapsedMs - ANIMATION_CONFIG.PIECE_DURATION_MS;
+
+  return {
+    newPiece: plan.newPiece,
+    pieceProgress: clamp(elapsedMs / ANIMATION_CONFIG.PIECE_DURATION_MS),
+    strikeProgress: plan.strike
+      ? clamp(strikeElapsedMs / ANIMATION_CONFIG.STRIKE_DURATION_MS)
+      : 1,
+  };
+}
+
+export function prefersReducedMotion(): boolean {
+  return (
+    typeof window.matchMedia === "function" &&
+    window.matchMedia(ANIMATION_CONFIG.REDUCED_MOTION_QUERY).matches
+  );
+}
+
+const browserScheduler: FrameScheduler = {
+  requestFrame: (callback) => window.requestAnimationFrame(callback),
+  cancelFrame: (id) => window.cancelAnimationFrame(id),
+};
+
+/*
+ * Drives move animations with requestAnimationFrame. `onFrame` redraws the
+ * board and reads the current progress through getEffects(). Starting a new
+ * animation finishes the previous one immediately.
+ */
+export function createBoardAnimator(
+  onFrame: () => void,
+  options: BoardAnimatorOptions = {},
+): BoardAnimator {
+  const reducedMotion = options.prefersReducedMotion ?? prefersReducedMotion;
+  const scheduler = options.scheduler ?? browserScheduler;
+  let effects: RenderEffects = {};
+  let frameId: number | null = null;
+  let finish: (() => void) | null = null;
+
+  const cancel = () => {
+    if (frameId !== null) {
+      scheduler.cancelFrame(frameId);
+      frameId = null;
+    }
+    effects = {};
+    finish?.();
+    finish = null;
+  };
+
+  const animate = (previous: Board, next: Board, winLength: number) => {
+    cancel();
+
+    const plan = planAnimation(previous, next, winLength);
+    const duration = getAnimationDuration(plan);
+    if (duration === 0 || reducedMotion()) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve) => {
+      finish = resolve;
+      effects = getAnimationEffects(plan, 0);
+      onFrame();
+
+      let start: number | null = null;
+      const step = (time: number) => {
+        start ??= time;
+        const elapsed = time - start;
+        effects = getAnimationEffects(plan, elapsed);
+        if (elapsed >= duration) {
+          frameId = null;
+          cancel();
+          onFrame();
+          return;
+        }
+        onFrame();
+        frameId = scheduler.requestFrame(step);
+      };
+      frameId = scheduler.requestFrame(step);
+    });
+  };
+
+  return {
+    animate,
+    getEffects: () => effects,
+    cancel,
+  };
+}
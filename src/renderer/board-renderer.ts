@@ -1,91 +1,453 @@
-import { Board } from "../models/board";
-import { CELL_SIZE, COLORS, RENDER_STYLE } from "../constants/render-config";
+import { Board, CellPosition } from "../models/board";
+import { DEFAULT_THEME, Theme, ThemeStyle } from "../models/theme";
+import { PlayerSymbol } from "../constants/game-config";
+import { findWinningLine } from "../engine/win-detector";
+import { CellHint } from "../ai/game-solver";
+import {
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  FEEDBACK_CONFIG,
+  HINT_CONFIG,
+  LAYERED_BOARD_CONFIG,
+  REFERENCE_CELL_SIZE,
+  SUB_BOARD_CONFIG,
+  VANISHING_PIECE_CONFIG,
+  getCellSize,
+} from "../constants/render-config";
+
+// Optional extras on top of the plain board; progress values run 0..1
+export interface RenderEffects {
+  winLength?: number; // Strike through a completed line of this length
+  newPiece?: CellPosition | null; // Piece drawn at pieceProgress
+  pieceProgress?: number;
+  strikeProgress?: number;
+  preview?: { position: CellPosition; symbol: PlayerSymbol } | null; // Ghost piece
+  rejectedCell?: CellPosition | null; // Flashed after a refused move
+  subBoards?: SubBoardEffects | null; // Ultimate: the board is split into sub-boards
+  winningCells?: CellPosition[] | null; // Qubic: a win that isn't a straight line here
+  fadingCells?: CellPosition[] | null; // Vanishing: pieces removed on their owner's next move
+  hints?: CellHint[] | null; // Hint mode heatmap over the empty cells
+}
+
+// Sub-boards of `size` cells a side; positions are on the meta grid
+export interface SubBoardEffects {
+  size: number;
+  active: CellPosition[]; // Open to the next move
+  claimed: { position: CellPosition; symbol: PlayerSymbol }[];
+}
 
 export function renderBoard(
   board: Board,
   context: CanvasRenderingContext2D,
+  cursor: CellPosition | null = null,
+  effects: RenderEffects = {},
+  theme: Theme = DEFAULT_THEME,
 ): void {
-  // Clear canvas
-  context.clearRect(0, 0, CELL_SIZE * board.size, CELL_SIZE * board.size);
+  // Cell size follows the board's dimension so any N×N grid fills the canvas
+  const cellSize = getCellSize(board.size);
+
+  // Clear canvas; the theme background shows through from CSS
+  context.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  // Highlight the sub-boards the next move may go to
+  const subBoards = effects.subBoards ?? null;
+  subBoards?.active.forEach((position) =>
+    drawCellFill(
+      position,
+      cellSize * subBoards.size,
+      context,
+      theme.colors.accentSoft,
+    ),
+  );
+
+  // Flash a refused cell underneath its piece
+  if (effects.rejectedCell) {
+    drawCellFill(effects.rejectedCell, cellSize, context, theme.colors.rejected);
+  }
+
+  // Tint each cell of a winning line that cannot be struck through
+  if (effects.winningCells) {
+    context.globalAlpha = LAYERED_BOARD_CONFIG.WINNING_CELL_ALPHA;
+    effects.winningCells.forEach((position) =>
+      drawCellFill(position, cellSize, context, theme.colors.strike),
+    );
+    context.globalAlpha = 1;
+  }
 
   // Draw grid
-  drawGrid(board.size, context);
+  drawGrid(board.size, cellSize, context, theme);
+  if (subBoards) {
+    drawSubBoardGrid(board.size, cellSize, subBoards.size, context, theme);
+  }
 
-  // Draw pieces
+  // Draw pieces; only the newly placed one can be partially drawn
   board.cells.forEach((cell) => {
-    if (cell.value === "X") {
-      drawXPiece(cell.position, context);
-    } else if (cell.value === "O") {
-      drawOPiece(cell.position, context);
+    const progress = isSamePosition(cell.position, effects.newPiece)
+      ? (effects.pieceProgress ?? 1)
+      : 1;
+    if (cell.value !== null) {
+      const fading = !!effects.fadingCells?.some((position) =>
+        isSamePosition(position, cell.position),
+      );
+      context.globalAlpha = fading ? VANISHING_PIECE_CONFIG.FADE_ALPHA : 1;
+      drawPiece(cell.value, cell.position, cellSize, context, theme, progress);
+      context.globalAlpha = 1;
     }
     // null values (empty cells) don't draw anything
   });
+
+  // Claimed sub-boards fade under one large piece
+  subBoards?.claimed.forEach(({ position, symbol }) => {
+    const subBoardSize = cellSize * subBoards.size;
+    context.globalAlpha = SUB_BOARD_CONFIG.CLAIMED_FADE_ALPHA;
+    drawCellFill(position, subBoardSize, context, theme.colors.background);
+    context.globalAlpha = 1;
+    drawPiece(symbol, position, subBoardSize, context, theme, 1);
+  });
+
+  // Hint overlay on the empty cells, over the grid and under the ghost piece
+  if (effects.hints) {
+    drawHints(effects.hints, cellSize, context, theme);
+  }
+
+  // Ghost of the piece that would be placed under the pointer
+  if (effects.preview) {
+    context.globalAlpha = FEEDBACK_CONFIG.PREVIEW_ALPHA;
+    drawPiece(
+      effects.preview.symbol,
+      effects.preview.position,
+      cellSize,
+      context,
+      theme,
+      1,
+    );
+    context.globalAlpha = 1;
+  }
+
+  // Strike through a completed line, found from the board itself
+  const winningLine =
+    effects.winLength !== undefined
+      ? findWinningLine(board, effects.winLength)
+      : null;
+  if (winningLine) {
+    drawStrike(
+      winningLine,
+      cellSize,
+      context,
+      theme,
+      effects.strikeProgress ?? 1,
+    );
+  }
+
+  // Draw keyboard cursor on top of the pieces
+  if (cursor) {
+    drawCursor(cursor, cellSize, context, theme);
+  }
 }
 
-function drawGrid(size: number, context: CanvasRenderingContext2D): void {
-  context.strokeStyle = COLORS.grid;
-  context.lineWidth = RENDER_STYLE.gridLineWidth;
+function drawGrid(
+  size: number,
+  cellSize: number,
+  context: CanvasRenderingContext2D,
+  theme: Theme,
+): void {
+  context.strokeStyle = theme.colors.grid;
+  context.lineWidth = theme.style.gridLineWidth;
   context.beginPath();
 
   // Vertical lines
   for (let i = 1; i < size; i++) {
-    const x = i * CELL_SIZE;
+    const x = i * cellSize;
     context.moveTo(x, 0);
-    context.lineTo(x, CELL_SIZE * size);
+    context.lineTo(x, cellSize * size);
   }
 
   // Horizontal lines
   for (let i = 1; i < size; i++) {
-    const y = i * CELL_SIZE;
+    const y = i * cellSize;
     context.moveTo(0, y);
-    context.lineTo(CELL_SIZE * size, y);
+    context.lineTo(cellSize * size, y);
   }
 
   context.stroke();
 }
 
+// Heavier lines between sub-boards
+function drawSubBoardGrid(
+  size: number,
+  cellSize: number,
+  subBoardSize: number,
+  context: CanvasRenderingContext2D,
+  theme: Theme,
+): void {
+  context.strokeStyle = theme.colors.grid;
+  context.lineWidth = theme.style.gridLineWidth * SUB_BOARD_CONFIG.LINE_SCALE;
+  context.beginPath();
+  for (let i = subBoardSize; i < size; i += subBoardSize) {
+    context.moveTo(i * cellSize, 0);
+    context.lineTo(i * cellSize, cellSize * size);
+    context.moveTo(0, i * cellSize);
+    context.lineTo(cellSize * size, i * cellSize);
+  }
+  context.stroke();
+}
+
+function drawCellFill(
+  position: CellPosition,
+  cellSize: number,
+  context: CanvasRenderingContext2D,
+  color: string,
+): void {
+  context.fillStyle = color;
+  context.fillRect(
+    position.col * cellSize,
+    position.row * cellSize,
+    cellSize,
+    cellSize,
+  );
+}
+
+export function isSamePosition(
+  a: CellPosition,
+  b: CellPosition | null | undefined,
+): boolean {
+  return !!b && a.row === b.row && a.col === b.col;
+}
+
+// Point `progress` of the way from one point to another
+export function interpolate(from: number, to: number, progress: number): number {
+  return from + (to - from) * progress;
+}
+
+// Piece padding and stroke width shrink with the cell on larger boards
+export function getPieceMetrics(
+  cellSize: number,
+  style: ThemeStyle,
+): {
+  padding: number;
+  lineWidth: number;
+} {
+  const scale = cellSize / REFERENCE_CELL_SIZE;
+  return {
+    padding: style.piecePadding * scale,
+    lineWidth: Math.max(
+      style.minPieceLineWidth,
+      style.pieceLineWidth * scale,
+    ),
+  };
+}
+
+function drawPiece(
+  symbol: PlayerSymbol,
+  position: CellPosition,
+  cellSize: number,
+  context: CanvasRenderingContext2D,
+  theme: Theme,
+  progress: number,
+): void {
+  if (theme.pieces.kind !== "strokes") {
+    drawPieceImage(symbol, position, cellSize, context, theme, progress);
+  } else if (symbol === "X") {
+    drawXPiece(position, cellSize, context, theme, progress);
+  } else {
+    drawOPiece(position, cellSize, context, theme, progress);
+  }
+}
+
+// The two strokes draw in sequence, each taking half of `progress`
 function drawXPiece(
-  position: { row: number; col: number },
+  position: CellPosition,
+  cellSize: number,
   context: CanvasRenderingContext2D,
+  theme: Theme,
+  progress: number,
 ): void {
-  const x = position.col * CELL_SIZE;
-  const y = position.row * CELL_SIZE;
-  const padding = RENDER_STYLE.piecePadding;
+  const x = position.col * cellSize;
+  const y = position.row * cellSize;
+  const { padding, lineWidth } = getPieceMetrics(cellSize, theme.style);
 
-  context.strokeStyle = COLORS.xPiece;
-  context.lineWidth = RENDER_STYLE.pieceLineWidth;
+  context.strokeStyle = theme.colors.xPiece;
+  context.lineWidth = lineWidth;
   context.lineCap = "round";
 
+  const near = padding;
+  const far = cellSize - padding;
+  const first = Math.min(1, progress * 2);
+  const second = Math.max(0, progress * 2 - 1);
+
   context.beginPath();
   // Diagonal from top-left to bottom-right
-  context.moveTo(x + padding, y + padding);
-  context.lineTo(x + CELL_SIZE - padding, y + CELL_SIZE - padding);
+  context.moveTo(x + near, y + near);
+  context.lineTo(
+    x + interpolate(near, far, first),
+    y + interpolate(near, far, first),
+  );
   // Diagonal from top-right to bottom-left
-  context.moveTo(x + CELL_SIZE - padding, y + padding);
-  context.lineTo(x + padding, y + CELL_SIZE - padding);
+  if (second > 0) {
+    context.moveTo(x + far, y + near);
+    context.lineTo(
+      x + interpolate(far, near, second),
+      y + interpolate(near, far, second),
+    );
+  }
   context.stroke();
 }
 
+// The circle sweeps clockwise from the top
 function drawOPiece(
-  position: { row: number; col: number },
+  position: CellPosition,
+  cellSize: number,
+  context: CanvasRenderingContext2D,
+  theme: Theme,
+  progress: number,
+): void {
+  const x = position.col * cellSize;
+  const y = position.row * cellSize;
+  const { padding, lineWidth } = getPieceMetrics(cellSize, theme.style);
+
+  context.strokeStyle = theme.colors.oPiece;
+  context.lineWidth = lineWidth;
+
+  const centerX = x + cellSize / 2;
+  const centerY = y + cellSize / 2;
+  const radius = cellSize / 2 - padding;
+  const start = -Math.PI / 2;
+
+  context.beginPath();
+  context.arc(centerX, centerY, radius, start, start + Math.PI * 2 * progress);
+  context.stroke();
+}
+
+// Glyph and image pieces grow from the cell centre as they draw in
+function drawPieceImage(
+  symbol: PlayerSymbol,
+  position: CellPosition,
+  cellSize: number,
+  context: CanvasRenderingContext2D,
+  theme: Theme,
+  progress: number,
+): void {
+  const { padding } = getPieceMetrics(cellSize, theme.style);
+  const size = (cellSize - padding * 2) * progress;
+  const centerX = (position.col + 0.5) * cellSize;
+  const centerY = (position.row + 0.5) * cellSize;
+
+  if (size <= 0) {
+    return;
+  }
+
+  if (theme.pieces.kind === "images") {
+    context.drawImage(
+      theme.pieces[symbol],
+      centerX - size / 2,
+      centerY - size / 2,
+      size,
+      size,
+    );
+  } else if (theme.pieces.kind === "glyphs") {
+    context.fillStyle =
+      symbol === "X" ? theme.colors.xPiece : theme.colors.oPiece;
+    context.font = `${size}px sans-serif`;
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    context.fillText(theme.pieces[symbol], centerX, centerY);
+  }
+}
+
+// "W2": win on your second move from here, "D": draw, "L1": lost after this move
+export function formatHintLabel(hint: CellHint): string {
+  return hint.outcome === "draw"
+    ? "D"
+    : `${hint.outcome === "win" ? "W" : "L"}${hint.moves}`;
+}
+
+// Quicker results are tinted more strongly
+export function getHintAlpha(hint: CellHint): number {
+  return hint.outcome === "draw"
+    ? HINT_CONFIG.DRAW_ALPHA
+    : HINT_CONFIG.MAX_ALPHA / hint.moves;
+}
+
+// Heatmap tint plus a short label in each hinted cell
+function drawHints(
+  hints: CellHint[],
+  cellSize: number,
   context: CanvasRenderingContext2D,
+  theme: Theme,
 ): void {
-  const x = position.col * CELL_SIZE;
-  const y = position.row * CELL_SIZE;
-  const padding = RENDER_STYLE.piecePadding;
+  hints.forEach((hint) => {
+    context.globalAlpha = getHintAlpha(hint);
+    drawCellFill(
+      hint.position,
+      cellSize,
+      context,
+      HINT_CONFIG.COLORS[hint.outcome],
+    );
+  });
+  context.globalAlpha = 1;
+
+  context.fillStyle = theme.colors.text;
+  context.font = `${cellSize * HINT_CONFIG.LABEL_SCALE}px sans-serif`;
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  hints.forEach((hint) =>
+    context.fillText(
+      formatHintLabel(hint),
+      (hint.position.col + 0.5) * cellSize,
+      (hint.position.row + 0.5) * cellSize,
+    ),
+  );
+}
 
-  context.strokeStyle = COLORS.oPiece;
-  context.lineWidth = RENDER_STYLE.pieceLineWidth;
+// Runs from the centre of the first cell to the centre of the last
+function drawStrike(
+  line: CellPosition[],
+  cellSize: number,
+  context: CanvasRenderingContext2D,
+  theme: Theme,
+  progress: number,
+): void {
+  if (progress <= 0) {
+    return;
+  }
 
-  const centerX = x + CELL_SIZE / 2;
-  const centerY = y + CELL_SIZE / 2;
-  const radius = CELL_SIZE / 2 - padding;
+  const first = line[0];
+  const last = line[line.length - 1];
+  const startX = (first.col + 0.5) * cellSize;
+  const startY = (first.row + 0.5) * cellSize;
+  const endX = (last.col + 0.5) * cellSize;
+  const endY = (last.row + 0.5) * cellSize;
 
+  context.strokeStyle = theme.colors.strike;
+  context.lineWidth = theme.style.strikeLineWidth;
+  context.lineCap = "round";
   context.beginPath();
-  context.arc(centerX, centerY, radius, 0, Math.PI * 2);
+  context.moveTo(startX, startY);
+  context.lineTo(
+    interpolate(startX, endX, progress),
+    interpolate(startY, endY, progress),
+  );
   context.stroke();
 }
 
+function drawCursor(
+  position: CellPosition,
+  cellSize: number,
+  context: CanvasRenderingContext2D,
+  theme: Theme,
+): void {
+  const inset = theme.style.cursorInset;
+
+  context.strokeStyle = theme.colors.cursor;
+  context.lineWidth = theme.style.cursorLineWidth;
+  context.strokeRect(
+    position.col * cellSize + inset,
+    position.row * cellSize + inset,
+    cellSize - inset * 2,
+    cellSize - inset * 2,
+  );
+}
+
 export function clear(context: CanvasRenderingContext2D): void {
   const canvas = context.canvas;
   context.clearRect(0, 0, canvas.width, canvas.height);
@@ -0,0 +1,92 @@
+import { GAME_CONFIG } from "../constants/game-config";
+import {
+  createAccessibleGrid,
+  setActiveCell,
+  updateAccessibleGrid,
+} from "../ui/accessible-grid";
+import { renderBoard } from "./board-renderer";
+import { observeCanvasSize, resizeCanvas } from "./canvas-sizing";
+import { hitTestBoard } from "./hit-test";
+import { BoardRenderer, RenderOptions } from "./renderer";
+import { Board } from "../models/board";
+import {
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  RENDERER_CONFIG,
+} from "../constants/render-config";
+
+/*
+ * Draws with the 2D canvas API. The accessible grid is mounted as fallback
+ * content and the canvas points aria-activedescendant at the cursor cell.
+ * The backing store tracks the on-screen size once mounted.
+ */
+export function createCanvasRenderer(
+  canvas: HTMLCanvasElement = document.createElement("canvas"),
+): BoardRenderer {
+  const context = canvas.getContext("2d");
+
+  if (!context) {
+    throw new Error(
+      "Failed to get canvas context. Your browser may not support Canvas API.",
+    );
+  }
+
+  canvas.width = CANVAS_WIDTH;
+  canvas.height = CANVAS_HEIGHT;
+  canvas.classList.add("board", "board-canvas");
+  canvas.tabIndex = 0;
+  canvas.setAttribute("role", "application");
+  canvas.setAttribute("aria-label", RENDERER_CONFIG.BOARD_LABEL);
+
+  const accessibleGrid = createAccessibleGrid();
+  canvas.appendChild(accessibleGrid);
+
+  let gridSize: number = GAME_CONFIG.GRID_SIZE;
+  let lastFrame: { board: Board; options: RenderOptions } | null = null;
+  let stopObserving = () => {};
+
+  const render = (board: Board, options: RenderOptions = {}) => {
+    const cursor = options.cursor ?? null;
+    gridSize = board.size;
+    lastFrame = { board, options };
+    const focused = document.activeElement === canvas;
+    renderBoard(
+      board,
+      context,
+      focused ? cursor : null,
+      options.effects,
+      options.theme,
+    );
+    updateAccessibleGrid(
+      accessibleGrid,
+      board,
+      cursor,
+      options.effects?.hints ?? null,
+    );
+    if (cursor) {
+      setActiveCell(canvas, cursor);
+    } else {
+      canvas.removeAttribute("aria-activedescendant");
+    }
+  };
+
+  return {
+    element: canvas,
+    mount: (container) => {
+      container.appendChild(canvas);
+      // Resizing clears the canvas, so redraw the last frame straight away
+      stopObserving = observeCanvasSize(canvas, (pixelSize) => {
+        resizeCanvas(canvas, context, pixelSize);
+        if (lastFrame) {
+          render(lastFrame.board, lastFrame.options);
+        }
+      });
+    },
+    render,
+    hitTest: (point) => hitTestBoard(point, canvas, gridSize),
+    dispose: () => {
+      stopObserving();
+      canvas.remove();
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from "../constants/render-config";
+
+// Backing-store width for an observed canvas: exact device pixels when the
+// browser reports them, otherwise CSS pixels times devicePixelRatio
+export function getBackingStoreSize(
+  entry: ResizeObserverEntry,
+  devicePixelRatio: number,
+): number {
+  const devicePixels = entry.devicePixelContentBoxSize?.[0]?.inlineSize;
+  const size = devicePixels ?? entry.contentRect.width * devicePixelRatio;
+  return Math.max(1, Math.round(size));
+}
+
+// Resize the square backing store and map board units onto it
+export function resizeCanvas(
+  canvas: HTMLCanvasElement,
+  context: CanvasRenderingContext2D,
+  pixelSize: number,
+): void {
+  // Assigning width/height clears the canvas, so skip it when nothing changed
+  if (canvas.width !== pixelSize || canvas.height !== pixelSize) {
+    canvas.width = pixelSize;
+    canvas.height = pixelSize;
+  }
+  context.setTransform(
+    pixelSize / CANVAS_WIDTH,
+    0,
+    0,
+    pixelSize / CANVAS_HEIGHT,
+    0,
+    0,
+  );
+}
+
+/*
+ * Reports the canvas's backing-store size whenever its on-screen size or
+ * the device pixel ratio changes. Browsers without ResizeObserver keep the
+ * size from the HTML attributes. Returns a function that stops observing.
+ */
+export function observeCanvasSize(
+  canvas: HTMLCanvasElement,
+  onResize: (pixelSize: number) => void,
+  getDevicePixelRatio: () => number = () => window.devicePixelRatio || 1,
+): () => void {
+  if (typeof ResizeObserver === "undefined") {
+    return () => {};
+  }
+
+  const observer = new ResizeObserver((entries) => {
+    const entry = entries[entries.length - 1];
+    if (entry) {
+      onResize(getBackingStoreSize(entry, getDevicePixelRatio()));
+    }
+  });
+
+  // device-pixel-content-box also fires on zoom and monitor changes, but not
+  // every browser supports it
+  try {
+    observer.observe(canvas, { box: "device-pixel-content-box" });
+  } catch {
+    observer.observe(canvas);
+  }
+
+  return () => observer.disconnect();
+}
@@ -0,0 +1,219 @@
+import { Board, CellPosition, getCellValue } from "../models/board";
+import { CellHint } from "../ai/game-solver";
+import { DEFAULT_THEME, Theme } from "../models/theme";
+import { GAME_CONFIG, PlayerSymbol } from "../constants/game-config";
+import { HINT_CONFIG, RENDERER_CONFIG } from "../constants/render-config";
+import { findWinningLine } from "../engine/win-detector";
+import {
+  findCellHint,
+  formatCellLabel,
+  getGridCellId,
+} from "../ui/accessible-grid";
+import {
+  formatHintLabel,
+  getHintAlpha,
+  isSamePosition,
+} from "./board-renderer";
+import { hitTestBoard } from "./hit-test";
+import { BoardRenderer, RenderOptions } from "./renderer";
+
+// Theme colours as custom properties for the .board-dom rules in style.css
+function applyBoardColors(element: HTMLElement, theme: Theme): void {
+  const { colors } = theme;
+  element.style.setProperty("--x-piece", colors.xPiece);
+  element.style.setProperty("--o-piece", colors.oPiece);
+  element.style.setProperty("--grid", colors.grid);
+  element.style.setProperty("--cursor", colors.cursor);
+  element.style.setProperty("--strike", colors.strike);
+  element.style.setProperty("--rejected", colors.rejected);
+  element.style.setProperty("--hint-text", colors.text);
+}
+
+// Short hint label shown in an empty cell
+function createHintLabel(hint: CellHint): HTMLSpanElement {
+  const label = document.createElement("span");
+  label.className = "hint-label";
+  label.textContent = formatHintLabel(hint);
+  return label;
+}
+
+// Text glyph or <img> for a piece; image sources other than <img> show the letter
+function createPieceContent(symbol: PlayerSymbol, theme: Theme): Node {
+  const image = theme.pieces.kind === "images" ? theme.pieces[symbol] : null;
+  if (image instanceof HTMLImageElement) {
+    const element = document.createElement("img");
+    element.src = image.src;
+    element.alt = "";
+    return element;
+  }
+  return document.createTextNode(
+    theme.pieces.kind === "glyphs" ? theme.pieces[symbol] : symbol,
+  );
+}
+
+/*
+ * Draws the board as a grid of <button>s: no canvas needed, and each cell
+ * takes native focus. Focus follows the cursor with a roving tabindex, so
+ * only the cursor cell is in the tab order. Effects become classes on the
+ * cells (placing, winning, preview, rejected, vanishing, hinted, and the
+ * Ultimate sub-board classes) for style.css to animate; hints also set the
+ * tint colour and strength as custom properties.
+ */
+export function createDomRenderer(): BoardRenderer {
+  const element = document.createElement("div");
+  element.className = "board board-dom";
+  element.setAttribute("role", "grid");
+  element.setAttribute("aria-label", RENDERER_CONFIG.BOARD_LABEL);
+
+  let gridSize: number = GAME_CONFIG.GRID_SIZE;
+  let buttons: HTMLButtonElement[] = [];
+
+  // Rebuilt only when the board size changes, so focus survives a render
+  const layOut = (size: number) => {
+    const rows: HTMLDivElement[] = [];
+    buttons = [];
+    for (let row = 0; row < size; row++) {
+      const rowElement = document.createElement("div");
+      rowElement.setAttribute("role", "row");
+      for (let col = 0; col < size; col++) {
+        const button = document.createElement("button");
+        button.type = "button";
+        button.id = getGridCellId({ row, col });
+        button.className = "board-cell";
+        button.setAttribute("role", "gridcell");
+        rowElement.appendChild(button);
+        buttons.push(button);
+      }
+      rows.push(rowElement);
+    }
+    element.style.setProperty("--board-size", String(size));
+    element.replaceChildren(...rows);
+  };
+
+  const render = (board: Board, options: RenderOptions = {}) => {
+    const theme = options.theme ?? DEFAULT_THEME;
+    const effects = options.effects ?? {};
+    const cursor: CellPosition = options.cursor ?? { row: 0, col: 0 };
+    if (buttons.length !== board.size * board.size) {
+      layOut(board.size);
+    }
+    gridSize = board.size;
+    applyBoardColors(element, theme);
+
+    const winningLine =
+      effects.winLength !== undefined && (effects.strikeProgress ?? 1) > 0
+        ? findWinningLine(board, effects.winLength)
+        : null;
+    const placing = (effects.pieceProgress ?? 1) < 1 ? effects.newPiece : null;
+    const subBoards = effects.subBoards ?? null;
+
+    buttons.forEach((button, index) => {
+      const position = {
+        row: Math.floor(index / board.size),
+        col: index % board.size,
+      };
+      const value = getCellValue(board, position);
+      const preview =
+        value === null &&
+        effects.preview &&
+        isSamePosition(position, effects.preview.position)
+          ? effects.preview.symbol
+          : null;
+      const shown = value ?? preview;
+      const hint = findCellHint(effects.hints, position);
+
+      button.setAttribute("aria-label", formatCellLabel(position, value, hint));
+      if (isSamePosition(position, cursor)) {
+        button.tabIndex = 0;
+        button.setAttribute("aria-selected", "true");
+      } else {
+        button.tabIndex = -1;
+        button.removeAttribute("aria-selected");
+      }
+      button.classList.toggle("piece-x", shown === "X");
+      button.classList.toggle("piece-o", shown === "O");
+      button.classList.toggle("placing", isSamePosition(position, placing));
+      button.classList.toggle("preview", preview !== null);
+      button.classList.toggle(
+        "vanishing",
+        value !== null &&
+          !!effects.fadingCells?.some((cell) => isSamePosition(cell, position)),
+      );
+      button.classList.toggle(
+        "rejected",
+        isSamePosition(position, effects.rejectedCell),
+      );
+      button.classList.toggle(
+        "winning",
+        !!winningLine?.some((cell) => isSamePosition(cell, position)) ||
+          !!effects.winningCells?.some((cell) =>
+            isSamePosition(cell, position),
+          ),
+      );
+
+      // Ultimate: heavier edges between sub-boards, plus their state
+      const subBoard = subBoards && {
+        row: Math.floor(position.row / subBoards.size),
+        col: Math.floor(position.col / subBoards.size),
+      };
+      const claimed = subBoards?.claimed.find((claim) =>
+        isSamePosition(claim.position, subBoard),
+      );
+      button.classList.toggle(
+        "sub-board-edge-right",
+        !!subBoards &&
+          (position.col + 1) % subBoards.size === 0 &&
+          position.col < board.size - 1,
+      );
+      button.classList.toggle(
+        "sub-board-edge-bottom",
+        !!subBoards &&
+          (position.row + 1) % subBoards.size === 0 &&
+          position.row < board.size - 1,
+      );
+      button.classList.toggle(
+        "active-board",
+        !!subBoards?.active.some((active) => isSamePosition(active, subBoard)),
+      );
+      button.classList.toggle("claimed-x", claimed?.symbol === "X");
+      button.classList.toggle("claimed-o", claimed?.symbol === "O");
+      button.classList.toggle("hinted", hint !== null);
+      if (hint) {
+        button.style.setProperty("--hint", HINT_CONFIG.COLORS[hint.outcome]);
+        button.style.setProperty(
+          "--hint-alpha",
+          `${Math.round(getHintAlpha(hint) * 100)}%`,
+        );
+      } else {
+        button.style.removeProperty("--hint");
+        button.style.removeProperty("--hint-alpha");
+      }
+      button.replaceChildren(
+        ...(shown
+          ? [createPieceContent(shown, theme)]
+          : hint
+            ? [createHintLabel(hint)]
+            : []),
+      );
+    });
+
+    // Keep keyboard focus on the cursor cell while the board has it
+    const cursorButton = buttons[cursor.row * board.size + cursor.col];
+    if (
+      element.contains(document.activeElement) &&
+      document.activeElement !== cursorButton
+    ) {
+      cursorButton.focus();
+    }
+  };
+
+  return {
+    element,
+    mount: (container) => {
+      container.appendChild(element);
+    },
+    render,
+    hitTest: (point) => hitTestBoard(point, element, gridSize),
+    dispose: () => element.remove(),
+  };
+}
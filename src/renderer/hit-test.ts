@@ -0,0 +1,61 @@
+import { CellPosition } from "../models/board";
+import {
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  getCellSize,
+} from "../constants/render-config";
+
+// Viewport coordinates, as reported by pointer events
+export interface ClientPoint {
+  clientX: number;
+  clientY: number;
+}
+
+export function getCellFromCoordinates(
+  x: number,
+  y: number,
+  cellSize: number,
+  gridSize: number,
+): CellPosition | null {
+  const col = Math.floor(x / cellSize);
+  const row = Math.floor(y / cellSize);
+
+  if (row >= 0 && row < gridSize && col >= 0 && col < gridSize) {
+    return { row, col };
+  }
+
+  return null;
+}
+
+// Point in board units (0..CANVAS_WIDTH) however large CSS draws the board
+// element; offsets skip the border, and scaling uses the content box
+export function getBoardPosition(
+  point: ClientPoint,
+  element: Element,
+): { x: number; y: number } {
+  const rect = element.getBoundingClientRect();
+  // An element that has not been laid out (clientWidth 0) is taken as unscaled
+  const scaleX =
+    element.clientWidth > 0 ? CANVAS_WIDTH / element.clientWidth : 1;
+  const scaleY =
+    element.clientHeight > 0 ? CANVAS_HEIGHT / element.clientHeight : 1;
+  return {
+    x: (point.clientX - rect.left - element.clientLeft) * scaleX,
+    y: (point.clientY - rect.top - element.clientTop) * scaleY,
+  };
+}
+
+// Cell under a viewport point on a square board drawn by `element`
+export function hitTestBoard(
+  point: ClientPoint,
+  element: Element,
+  gridSize: number,
+): CellPosition | null {
+  const position = getBoardPosition(point, element);
+  return getCellFromCoordinates(
+    position.x,
+    position.y,
+    getCellSize(gridSize),
+    gridSize,
+  );
+}
@@ -0,0 +1,22 @@
+import {
+  QubicGameState,
+  flattenCubeBoard,
+  fromCubePosition,
+} from "../models/cube-board";
+import { BoardView } from "./renderer";
+
+// The cube's layers side by side, outlined like sub-boards; a winning line
+// runs across layers, so its cells are tinted rather than struck through
+export function getQubicView(state: QubicGameState): BoardView {
+  const { size } = state.board;
+  return {
+    board: flattenCubeBoard(state.board),
+    effects: {
+      subBoards: { size, active: [], claimed: [] },
+      winningCells:
+        state.winningLine?.map((position) =>
+          fromCubePosition(position, size),
+        ) ?? null,
+    },
+  };
+}
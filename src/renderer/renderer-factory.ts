@@ -0,0 +1,26 @@
+import {
+  RENDERER_BACKENDS,
+  RENDERER_CONFIG,
+  RendererBackend,
+} from "../constants/render-config";
+import { createCanvasRenderer } from "./canvas-renderer";
+import { createDomRenderer } from "./dom-renderer";
+import { BoardRenderer } from "./renderer";
+import { createSvgRenderer } from "./svg-renderer";
+
+// Backend named in a query string value; unknown or missing names get the default
+export function parseRendererBackend(value: string | null): RendererBackend {
+  const backend = RENDERER_BACKENDS.find((name) => name === value);
+  return backend ?? RENDERER_CONFIG.DEFAULT_BACKEND;
+}
+
+export function createRenderer(backend: RendererBackend): BoardRenderer {
+  switch (backend) {
+    case "canvas":
+      return createCanvasRenderer();
+    case "svg":
+      return createSvgRenderer();
+    case "dom":
+      return createDomRenderer();
+  }
+}
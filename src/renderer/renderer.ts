@@ -0,0 +1,32 @@
+import { Board, CellPosition } from "../models/board";
+import { Theme } from "../models/theme";
+import { RenderEffects } from "./board-renderer";
+import { ClientPoint } from "./hit-test";
+
+// Everything drawn alongside the board itself
+export interface RenderOptions {
+  cursor?: CellPosition | null; // Keyboard cursor; drawn only while the board has focus
+  effects?: RenderEffects;
+  theme?: Theme;
+}
+
+// A game whose own board isn't a plain grid (Ultimate, Qubic), laid out as one
+export interface BoardView {
+  board: Board;
+  effects: RenderEffects; // Structure of the layout, e.g. sub-board outlines
+}
+
+/*
+ * A way of drawing the board. Every backend exposes one focusable element
+ * that receives pointer and keyboard input, mirrors the cells for screen
+ * readers (ids from getGridCellId, cursor marked aria-selected), and maps
+ * viewport points back to cells of the board it last rendered. Callers
+ * render again when focus enters or leaves the element.
+ */
+export interface BoardRenderer {
+  readonly element: HTMLElement | SVGSVGElement;
+  mount: (container: HTMLElement) => void;
+  render: (board: Board, options?: RenderOptions) => void;
+  hitTest: (point: ClientPoint) => CellPosition | null;
+  dispose: () => void; // Unmounts and stops any observers
+}
@@ -0,0 +1,453 @@
+import { Board, CellPosition, getCellValue } from "../models/board";
+import { DEFAULT_THEME, Theme } from "../models/theme";
+import { GAME_CONFIG, PlayerSymbol } from "../constants/game-config";
+import {
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  FEEDBACK_CONFIG,
+  HINT_CONFIG,
+  LAYERED_BOARD_CONFIG,
+  RENDERER_CONFIG,
+  SUB_BOARD_CONFIG,
+  VANISHING_PIECE_CONFIG,
+  getCellSize,
+} from "../constants/render-config";
+import { findWinningLine } from "../engine/win-detector";
+import { CellHint } from "../ai/game-solver";
+import {
+  findCellHint,
+  formatCellLabel,
+  getGridCellId,
+} from "../ui/accessible-grid";
+import {
+  formatHintLabel,
+  getHintAlpha,
+  getPieceMetrics,
+  interpolate,
+  isSamePosition,
+} from "./board-renderer";
+import { hitTestBoard } from "./hit-test";
+import { BoardRenderer, RenderOptions } from "./renderer";
+
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+
+function createSvgElement(
+  tag: string,
+  attributes: Record<string, string | number> = {},
+): SVGElement {
+  const element = document.createElementNS(SVG_NAMESPACE, tag);
+  Object.entries(attributes).forEach(([name, value]) =>
+    element.setAttribute(name, String(value)),
+  );
+  return element;
+}
+
+// Grid lines as a single path, every `step` cells
+function createGrid(
+  size: number,
+  cellSize: number,
+  theme: Theme,
+  step = 1,
+  className = "board-grid",
+): SVGElement {
+  const extent = cellSize * size;
+  const segments: string[] = [];
+  for (let i = step; i < size; i += step) {
+    segments.push(
+      `M${i * cellSize} 0V${extent}`,
+      `M0 ${i * cellSize}H${extent}`,
+    );
+  }
+  return createSvgElement("path", {
+    class: className,
+    d: segments.join(""),
+    stroke: theme.colors.grid,
+    "stroke-width":
+      step === 1
+        ? theme.style.gridLineWidth
+        : theme.style.gridLineWidth * SUB_BOARD_CONFIG.LINE_SCALE,
+    fill: "none",
+  });
+}
+
+function createCellFill(
+  position: CellPosition,
+  cellSize: number,
+  className: string,
+  fill: string,
+): SVGElement {
+  return createSvgElement("rect", {
+    class: className,
+    x: position.col * cellSize,
+    y: position.row * cellSize,
+    width: cellSize,
+    height: cellSize,
+    fill,
+  });
+}
+
+// Heatmap tint plus a short label, as the canvas draws them
+function createHint(
+  hint: CellHint,
+  cellSize: number,
+  theme: Theme,
+): SVGElement {
+  const group = createSvgElement("g", {
+    class: `board-hint board-hint-${hint.outcome}`,
+  });
+  const tint = createCellFill(
+    hint.position,
+    cellSize,
+    "board-hint-tint",
+    HINT_CONFIG.COLORS[hint.outcome],
+  );
+  tint.setAttribute("opacity", String(getHintAlpha(hint)));
+  const label = createSvgElement("text", {
+    class: "board-hint-label",
+    x: (hint.position.col + 0.5) * cellSize,
+    y: (hint.position.row + 0.5) * cellSize,
+    fill: theme.colors.text,
+    "font-size": cellSize * HINT_CONFIG.LABEL_SCALE,
+    "text-anchor": "middle",
+    "dominant-baseline": "central",
+  });
+  label.textContent = formatHintLabel(hint);
+  group.append(tint, label);
+  return group;
+}
+
+// Transparent cell targets that carry the screen-reader labels
+function createCells(
+  board: Board,
+  cursor: CellPosition | null,
+  hints: CellHint[] | null,
+): SVGElement {
+  const cellSize = getCellSize(board.size);
+  const grid = createSvgElement("g", {
+    role: "grid",
+    "aria-label": "Game board",
+  });
+
+  for (let row = 0; row < board.size; row++) {
+    const rowElement = createSvgElement("g", { role: "row" });
+    for (let col = 0; col < board.size; col++) {
+      const position = { row, col };
+      const cell = createSvgElement("rect", {
+        id: getGridCellId(position),
+        class: "board-cell",
+        role: "gridcell",
+        "aria-label": formatCellLabel(
+          position,
+          getCellValue(board, position),
+          findCellHint(hints, position),
+        ),
+        x: col * cellSize,
+        y: row * cellSize,
+        width: cellSize,
+        height: cellSize,
+        fill: "transparent",
+      });
+      if (isSamePosition(position, cursor)) {
+        cell.setAttribute("aria-selected", "true");
+      }
+      rowElement.appendChild(cell);
+    }
+    grid.appendChild(rowElement);
+  }
+
+  return grid;
+}
+
+// Same geometry as the canvas pieces: X strokes in sequence, O sweeps from the top
+function createPiece(
+  symbol: PlayerSymbol,
+  position: CellPosition,
+  cellSize: number,
+  theme: Theme,
+  progress: number,
+): SVGElement {
+  const x = position.col * cellSize;
+  const y = position.row * cellSize;
+  const { padding, lineWidth } = getPieceMetrics(cellSize, theme.style);
+  const color = symbol === "X" ? theme.colors.xPiece : theme.colors.oPiece;
+  const pieceClass = `board-piece board-piece-${symbol.toLowerCase()}`;
+
+  if (theme.pieces.kind !== "strokes") {
+    const size = (cellSize - padding * 2) * progress;
+    const image = theme.pieces.kind === "images" ? theme.pieces[symbol] : null;
+    // Only <img> sources have a URL an SVG <image> can load; others show the glyph
+    if (image instanceof HTMLImageElement) {
+      return createSvgElement("image", {
+        class: pieceClass,
+        href: image.src,
+        x: x + cellSize / 2 - size / 2,
+        y: y + cellSize / 2 - size / 2,
+        width: size,
+        height: size,
+      });
+    }
+    const text = createSvgElement("text", {
+      class: pieceClass,
+      x: x + cellSize / 2,
+      y: y + cellSize / 2,
+      fill: color,
+      "font-size": size,
+      "text-anchor": "middle",
+      "dominant-baseline": "central",
+    });
+    text.textContent =
+      theme.pieces.kind === "glyphs" ? theme.pieces[symbol] : symbol;
+    return text;
+  }
+
+  const stroke = {
+    class: pieceClass,
+    stroke: color,
+    "stroke-width": lineWidth,
+    "stroke-linecap": "round",
+    fill: "none",
+  };
+
+  if (symbol === "X") {
+    const near = padding;
+    const far = cellSize - padding;
+    const first = Math.min(1, progress * 2);
+    const second = Math.max(0, progress * 2 - 1);
+    let d =
+      `M${x + near} ${y + near}` +
+      `L${x + interpolate(near, far, first)} ${y + interpolate(near, far, first)}`;
+    if (second > 0) {
+      d +=
+        `M${x + far} ${y + near}` +
+        `L${x + interpolate(far, near, second)} ${y + interpolate(near, far, second)}`;
+    }
+    return createSvgElement("path", { ...stroke, d });
+  }
+
+  const centerX = x + cellSize / 2;
+  const centerY = y + cellSize / 2;
+  return createSvgElement("circle", {
+    ...stroke,
+    cx: centerX,
+    cy: centerY,
+    r: cellSize / 2 - padding,
+    // A unit path length lets the dash array reveal `progress` of the circle
+    pathLength: 1,
+    "stroke-dasharray": `${progress} 1`,
+    transform: `rotate(-90 ${centerX} ${centerY})`,
+  });
+}
+
+function createStrike(
+  line: CellPosition[],
+  cellSize: number,
+  theme: Theme,
+  progress: number,
+): SVGElement {
+  const first = line[0];
+  const last = line[line.length - 1];
+  const startX = (first.col + 0.5) * cellSize;
+  const startY = (first.row + 0.5) * cellSize;
+  const endX = (last.col + 0.5) * cellSize;
+  const endY = (last.row + 0.5) * cellSize;
+
+  return createSvgElement("line", {
+    class: "board-strike",
+    x1: startX,
+    y1: startY,
+    x2: interpolate(startX, endX, progress),
+    y2: interpolate(startY, endY, progress),
+    stroke: theme.colors.strike,
+    "stroke-width": theme.style.strikeLineWidth,
+    "stroke-linecap": "round",
+  });
+}
+
+/*
+ * Draws the board as SVG in board units, so it stays crisp at any zoom
+ * without tracking device pixels. Elements carry board-* classes for
+ * styling; theme colours are set as presentation attributes, which CSS
+ * rules override.
+ */
+export function createSvgRenderer(): BoardRenderer {
+  const svg = createSvgElement("svg", {
+    class: "board board-svg",
+    viewBox: `0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`,
+    tabindex: 0,
+    role: "application",
+    "aria-label": RENDERER_CONFIG.BOARD_LABEL,
+  }) as SVGSVGElement;
+
+  let gridSize: number = GAME_CONFIG.GRID_SIZE;
+
+  const render = (board: Board, options: RenderOptions = {}) => {
+    const theme = options.theme ?? DEFAULT_THEME;
+    const effects = options.effects ?? {};
+    const cursor = options.cursor ?? null;
+    const cellSize = getCellSize(board.size);
+    const layers: SVGElement[] = [];
+    gridSize = board.size;
+
+    // Highlight the sub-boards the next move may go to
+    const subBoards = effects.subBoards ?? null;
+    subBoards?.active.forEach((position) =>
+      layers.push(
+        createCellFill(
+          position,
+          cellSize * subBoards.size,
+          "board-active",
+          theme.colors.accentSoft,
+        ),
+      ),
+    );
+
+    // Flash a refused cell underneath its piece
+    if (effects.rejectedCell) {
+      layers.push(
+        createCellFill(
+          effects.rejectedCell,
+          cellSize,
+          "board-rejected",
+          theme.colors.rejected,
+        ),
+      );
+    }
+
+    // Tint each cell of a winning line that cannot be struck through
+    effects.winningCells?.forEach((position) => {
+      const tint = createCellFill(
+        position,
+        cellSize,
+        "board-winning-cell",
+        theme.colors.strike,
+      );
+      tint.setAttribute(
+        "opacity",
+        String(LAYERED_BOARD_CONFIG.WINNING_CELL_ALPHA),
+      );
+      layers.push(tint);
+    });
+
+    layers.push(createGrid(board.size, cellSize, theme));
+    if (subBoards) {
+      layers.push(
+        createGrid(
+          board.size,
+          cellSize,
+          theme,
+          subBoards.size,
+          "board-sub-grid",
+        ),
+      );
+    }
+
+    // Only the newly placed piece can be partially drawn
+    board.cells.forEach((cell) => {
+      const progress = isSamePosition(cell.position, effects.newPiece)
+        ? (effects.pieceProgress ?? 1)
+        : 1;
+      if (cell.value !== null && progress > 0) {
+        const piece = createPiece(
+          cell.value,
+          cell.position,
+          cellSize,
+          theme,
+          progress,
+        );
+        if (
+          effects.fadingCells?.some((position) =>
+            isSamePosition(position, cell.position),
+          )
+        ) {
+          piece.setAttribute(
+            "opacity",
+            String(VANISHING_PIECE_CONFIG.FADE_ALPHA),
+          );
+        }
+        layers.push(piece);
+      }
+    });
+
+    // Claimed sub-boards fade under one large piece
+    subBoards?.claimed.forEach(({ position, symbol }) => {
+      const subBoardSize = cellSize * subBoards.size;
+      const fade = createCellFill(
+        position,
+        subBoardSize,
+        "board-claimed",
+        theme.colors.background,
+      );
+      fade.setAttribute("opacity", String(SUB_BOARD_CONFIG.CLAIMED_FADE_ALPHA));
+      layers.push(fade, createPiece(symbol, position, subBoardSize, theme, 1));
+    });
+
+    // Hint overlay on the empty cells, over the grid and under the ghost piece
+    effects.hints?.forEach((hint) =>
+      layers.push(createHint(hint, cellSize, theme)),
+    );
+
+    // Ghost of the piece that would be placed under the pointer
+    if (effects.preview) {
+      const ghost = createSvgElement("g", {
+        class: "board-preview",
+        opacity: FEEDBACK_CONFIG.PREVIEW_ALPHA,
+      });
+      ghost.appendChild(
+        createPiece(
+          effects.preview.symbol,
+          effects.preview.position,
+          cellSize,
+          theme,
+          1,
+        ),
+      );
+      layers.push(ghost);
+    }
+
+    const winningLine =
+      effects.winLength !== undefined
+        ? findWinningLine(board, effects.winLength)
+        : null;
+    const strikeProgress = effects.strikeProgress ?? 1;
+    if (winningLine && strikeProgress > 0) {
+      layers.push(createStrike(winningLine, cellSize, theme, strikeProgress));
+    }
+
+    // Keyboard cursor on top of the pieces while the board has focus
+    if (cursor && document.activeElement === svg) {
+      const inset = theme.style.cursorInset;
+      layers.push(
+        createSvgElement("rect", {
+          class: "board-cursor",
+          x: cursor.col * cellSize + inset,
+          y: cursor.row * cellSize + inset,
+          width: cellSize - inset * 2,
+          height: cellSize - inset * 2,
+          stroke: theme.colors.cursor,
+          "stroke-width": theme.style.cursorLineWidth,
+          fill: "none",
+        }),
+      );
+    }
+
+    // Labelled cells for screen readers; transparent, so they only add hit area
+    layers.push(createCells(board, cursor, effects.hints ?? null));
+    svg.replaceChildren(...layers);
+
+    if (cursor) {
+      svg.setAttribute("aria-activedescendant", getGridCellId(cursor));
+    } else {
+      svg.removeAttribute("aria-activedescendant");
+    }
+  };
+
+  return {
+    element: svg,
+    mount: (container) => {
+      container.appendChild(svg);
+    },
+    render,
+    hitTest: (point) => hitTestBoard(point, svg, gridSize),
+    dispose: () => svg.remove(),
+  };
+}
@@ -0,0 +1,27 @@
+import {
+  UltimateGameState,
+  flattenUltimateBoard,
+  getSubBoard,
+} from "../models/ultimate-state";
+import { ULTIMATE_CONFIG } from "../constants/game-config";
+import { getActiveBoards } from "../engine/ultimate-validator";
+import { BoardView } from "./renderer";
+
+// An Ultimate game as one combined board for the renderers, plus its sub-boards
+export function getUltimateView(state: UltimateGameState): BoardView {
+  const claimed = state.metaBoard.cells.flatMap(({ position }) => {
+    const { winner } = getSubBoard(state, position);
+    return winner ? [{ position, symbol: winner }] : [];
+  });
+
+  return {
+    board: flattenUltimateBoard(state),
+    effects: {
+      subBoards: {
+        size: ULTIMATE_CONFIG.SUB_BOARD_SIZE,
+        active: getActiveBoards(state),
+        claimed,
+      },
+    },
+  };
+}
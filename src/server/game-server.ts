@@ -0,0 +1,236 @@
+import { randomUUID } from 'node:crypto';
+import { AddressInfo } from 'node:net';
+import { WebSocketServer, WebSocket } from 'ws';
+import { GAME_STATUS, PlayerSymbol } from '../constants/game-config';
+import { SERVER_CONFIG } from '../constants/network-config';
+import { ClientMessage, ServerMessage, parseClientMessage } from './protocol';
+import { Room, createJoinCode, createRoom, joinRoom, playRoomMove, resetRoom } from './room';
+
+export interface GameServerOptions {
+  port?: number; // 0 picks a free port
+  host?: string;
+  random?: () => number; // Join code source
+  roomGraceMs?: number; // How long an empty room waits for a reconnection
+}
+
+export interface GameServer {
+  port: number;
+  close: () => Promise<void>;
+}
+
+interface ClientSeat {
+  code: string;
+  seat: PlayerSymbol | null;
+}
+
+function send(socket: WebSocket, message: ServerMessage): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+/*
+ * Authoritative room server. Clients never hold the game state: every move
+ * goes through the engine here, and each accepted change is broadcast as the
+ * full GameState so players, spectators and reconnecting clients all resync
+ * the same way. Rooms outlive their connections so a seat can be reclaimed
+ * with its token, but only for roomGraceMs: a room nobody is connected to
+ * is then dropped.
+ */
+export function startGameServer(options: GameServerOptions = {}): Promise<GameServer> {
+  const rooms = new Map<string, Room>();
+  const clients = new Map<WebSocket, ClientSeat>();
+  const random = options.random ?? Math.random;
+  const roomGraceMs = options.roomGraceMs ?? SERVER_CONFIG.ROOM_GRACE_MS;
+  const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  let closing = false;
+
+  function createUniqueCode(): string {
+    let code = createJoinCode(random);
+    while (rooms.has(code)) {
+      code = createJoinCode(random);
+    }
+    return code;
+  }
+
+  function getConnectedSeats(code: string): Record<PlayerSymbol, boolean> {
+    const connected = { X: false, O: false };
+    for (const client of clients.values()) {
+      if (client.code === code && client.seat) {
+        connected[client.seat] = true;
+      }
+    }
+    return connected;
+  }
+
+  function isRoomEmpty(code: string): boolean {
+    return ![...clients.values()].some(client => client.code === code);
+  }
+
+  // Starts the grace period once the last client has left; a join cancels it
+  function scheduleRoomExpiry(code: string): void {
+    if (closing || !rooms.has(code) || !isRoomEmpty(code) || expiryTimers.has(code)) {
+      return;
+    }
+    expiryTimers.set(
+      code,
+      setTimeout(() => {
+        expiryTimers.delete(code);
+        if (isRoomEmpty(code)) {
+          rooms.delete(code);
+        }
+      }, roomGraceMs)
+    );
+  }
+
+  function cancelRoomExpiry(code: string): void {
+    clearTimeout(expiryTimers.get(code));
+    expiryTimers.delete(code);
+  }
+
+  function broadcastState(code: string): void {
+    const room = rooms.get(code);
+    if (!room) {
+      return;
+    }
+    const message: ServerMessage = {
+      type: 'state',
+      state: room.state,
+      connected: getConnectedSeats(code),
+    };
+    for (const [socket, client] of clients) {
+      if (client.code === code) {
+        send(socket, message);
+      }
+    }
+  }
+
+  function enterRoom(socket: WebSocket, room: Room, token?: string, spectator?: boolean): void {
+    const previous = clients.get(socket);
+    const join = joinRoom(room, randomUUID, token, spectator);
+    rooms.set(room.code, join.room);
+    clients.set(socket, { code: room.code, seat: join.seat });
+    cancelRoomExpiry(room.code);
+
+    send(socket, {
+      type: 'joined',
+      code: room.code,
+      seat: join.seat,
+      token: join.token,
+      state: join.room.state,
+    });
+    if (previous && previous.code !== room.code) {
+      broadcastState(previous.code);
+      scheduleRoomExpiry(previous.code);
+    }
+    broadcastState(room.code);
+  }
+
+  function handleMessage(socket: WebSocket, message: ClientMessage): void {
+    const client = clients.get(socket);
+
+    switch (message.type) {
+      case 'create-room': {
+        let room: Room;
+        try {
+          room = createRoom(createUniqueCode(), message.rules);
+        } catch (error) {
+          send(socket, { type: 'error', message: (error as Error).message });
+          return;
+        }
+        enterRoom(socket, room);
+        return;
+      }
+      case 'join-room': {
+        const room = rooms.get(message.code);
+        if (!room) {
+          send(socket, { type: 'error', message: `No room with code ${message.code}` });
+          return;
+        }
+        enterRoom(socket, room, message.token, message.spectator);
+        return;
+      }
+      case 'move': {
+        const room = client && rooms.get(client.code);
+        if (!client || !room) {
+          send(socket, { type: 'error', message: 'Join a room before playing' });
+          return;
+        }
+        const result = playRoomMove(room, client.seat, message.position);
+        if (!result.success) {
+          send(socket, { type: 'move-rejected', reason: result.reason });
+          return;
+        }
+        rooms.set(room.code, result.room);
+        broadcastState(room.code);
+        return;
+      }
+      case 'new-game': {
+        const room = client && rooms.get(client.code);
+        if (!client?.seat || !room) {
+          send(socket, { type: 'error', message: 'Only seated players can start a new game' });
+          return;
+        }
+        // Either player could otherwise wipe a game the other is winning
+        if (room.state.status === GAME_STATUS.IN_PROGRESS) {
+          send(socket, { type: 'error', message: 'Finish the game before starting a new one' });
+          return;
+        }
+        rooms.set(room.code, resetRoom(room));
+        broadcastState(room.code);
+        return;
+      }
+    }
+  }
+
+  const server = new WebSocketServer({
+    port: options.port ?? SERVER_CONFIG.DEFAULT_PORT,
+    host: options.host ?? SERVER_CONFIG.HOST,
+  });
+
+  server.on('connection', socket => {
+    socket.on('message', data => {
+      const message = parseClientMessage(data.toString());
+      if (!message) {
+        send(socket, { type: 'error', message: 'Malformed message' });
+        return;
+      }
+      handleMessage(socket, message);
+    });
+
+    const leave = () => {
+      const client = clients.get(socket);
+      clients.delete(socket);
+      if (client) {
+        broadcastState(client.code);
+        scheduleRoomExpiry(client.code);
+      }
+    };
+
+    socket.on('close', leave);
+    // ws reports bad frames here; unhandled, the error would take the server down
+    socket.on('error', () => {
+      socket.terminate();
+      leave();
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.once('listening', () => {
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        close: () =>
+          new Promise(done => {
+            closing = true;
+            expiryTimers.forEach(timer => clearTimeout(timer));
+            expiryTimers.clear();
+            for (const socket of clients.keys()) {
+              socket.terminate();
+            }
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
@@ -0,0 +1,19 @@
+import { SERVER_CONFIG } from '../constants/network-config';
+import { startGameServer } from './game-server';
+
+// Entry point for `npm run server`; a non-empty PORT overrides the default
+const port = Number(process.env.PORT || SERVER_CONFIG.DEFAULT_PORT);
+
+if (!Number.isInteger(port) || port < 0 || port > 65535) {
+  console.error(`Invalid PORT "${process.env.PORT}": expected an integer from 0 to 65535`);
+  process.exitCode = 1;
+} else {
+  startGameServer({ port })
+    .then(server => {
+      console.log(`Game server listening on ws://${SERVER_CONFIG.HOST}:${server.port}`);
+    })
+    .catch((error: Error) => {
+      console.error(`Could not start the game server: ${error.message}`);
+      process.exitCode = 1;
+    });
+}
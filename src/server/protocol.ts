@@ -0,0 +1,83 @@
+import { CellPosition } from '../models/board';
+import { GameState } from '../models/game-state';
+import { GameRules } from '../models/game-rules';
+import { PlayerSymbol, MoveFailureReason } from '../constants/game-config';
+
+export type ClientMessage =
+  | { type: 'create-room'; rules?: GameRules }
+  | { type: 'join-room'; code: string; token?: string; spectator?: boolean }
+  | { type: 'move'; position: CellPosition }
+  | { type: 'new-game' };
+
+// seat is null for spectators; token lets a seated player reconnect
+export type ServerMessage =
+  | {
+      type: 'joined';
+      code: string;
+      seat: PlayerSymbol | null;
+      token: string | null;
+      state: GameState;
+    }
+  | { type: 'state'; state: GameState; connected: Record<PlayerSymbol, boolean> }
+  | { type: 'move-rejected'; reason: MoveFailureReason }
+  | { type: 'error'; message: string };
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Socket data is untrusted; returns null for anything malformed
+export function parseClientMessage(data: string): ClientMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!isRecord(message)) {
+    return null;
+  }
+
+  switch (message.type) {
+    case 'create-room': {
+      const rules = message.rules;
+      if (rules === undefined) {
+        return { type: 'create-room' };
+      }
+      return isRecord(rules) &&
+        typeof rules.boardSize === 'number' &&
+        typeof rules.winLength === 'number'
+        ? { type: 'create-room', rules: { boardSize: rules.boardSize, winLength: rules.winLength } }
+        : null;
+    }
+    case 'join-room':
+      if (
+        typeof message.code !== 'string' ||
+        (message.token !== undefined && typeof message.token !== 'string')
+      ) {
+        return null;
+      }
+      return {
+        type: 'join-room',
+        code: message.code.toUpperCase(),
+        token: message.token,
+        spectator: message.spectator === true,
+      };
+    case 'move': {
+      const position = message.position;
+      return isRecord(position) &&
+        isNonNegativeInteger(position.row) &&
+        isNonNegativeInteger(position.col)
+        ? { type: 'move', position: { row: position.row as number, col: position.col as number } }
+        : null;
+    }
+    case 'new-game':
+      return { type: 'new-game' };
+    default:
+      return null;
+  }
+}
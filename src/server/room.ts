@@ -0,0 +1,105 @@
+import { CellPosition } from '../models/board';
+import { GameState } from '../models/game-state';
+import { GameRules } from '../models/game-rules';
+import {
+  GAME_CONFIG,
+  GAME_STATUS,
+  MOVE_VALIDATION,
+  MoveFailureReason,
+  PlayerSymbol,
+} from '../constants/game-config';
+import { SERVER_CONFIG } from '../constants/network-config';
+import {
+  createInitialGameState,
+  processMove,
+  validateMove,
+} from '../engine/game-engine';
+
+export interface Room {
+  code: string;
+  state: GameState;
+  seats: Record<PlayerSymbol, string | null>; // Reconnect token of each seated player
+}
+
+export interface RoomJoin {
+  room: Room;
+  seat: PlayerSymbol | null; // null for spectators
+  token: string | null;
+}
+
+export type RoomMoveResult =
+  | { success: true; room: Room }
+  | { success: false; reason: MoveFailureReason };
+
+export function createJoinCode(random: () => number = Math.random): string {
+  const alphabet = SERVER_CONFIG.JOIN_CODE_ALPHABET;
+  let code = '';
+  for (let i = 0; i < SERVER_CONFIG.JOIN_CODE_LENGTH; i++) {
+    code += alphabet[Math.floor(random() * alphabet.length)];
+  }
+  return code;
+}
+
+// Throws for rules outside RULE_LIMITS, like createInitialGameState
+export function createRoom(code: string, rules?: GameRules): Room {
+  return {
+    code,
+    state: createInitialGameState(rules),
+    seats: { X: null, O: null },
+  };
+}
+
+/*
+ * Seats a newcomer. A token matching a seat reclaims it (reconnection);
+ * otherwise players take the first free seat, X before O, and everyone
+ * else watches as a spectator.
+ */
+export function joinRoom(
+  room: Room,
+  createToken: () => string,
+  token?: string,
+  spectator = false
+): RoomJoin {
+  const reclaimed = GAME_CONFIG.PLAYERS.find(seat => token && room.seats[seat] === token);
+  if (reclaimed) {
+    return { room, seat: reclaimed, token: token! };
+  }
+
+  const free = spectator
+    ? undefined
+    : GAME_CONFIG.PLAYERS.find(seat => room.seats[seat] === null);
+  if (!free) {
+    return { room, seat: null, token: null };
+  }
+
+  const newToken = createToken();
+  return {
+    room: { ...room, seats: { ...room.seats, [free]: newToken } },
+    seat: free,
+    token: newToken,
+  };
+}
+
+// The engine stays the authority; the room only adds seat ownership
+export function playRoomMove(
+  room: Room,
+  seat: PlayerSymbol | null,
+  position: CellPosition
+): RoomMoveResult {
+  const { state } = room;
+  if (state.status === GAME_STATUS.IN_PROGRESS && seat !== state.currentTurn) {
+    return { success: false, reason: MOVE_VALIDATION.REASONS.NOT_YOUR_TURN };
+  }
+
+  const validation = validateMove(state, position);
+  if (!validation.success) {
+    return { success: false, reason: validation.reason };
+  }
+
+  return { success: true, room: { ...room, state: processMove(state, position) } };
+}
+
+// Same rules and seats, fresh board
+export function resetRoom(room: Room): Room {
+  return { ...room, state: createInitialGameState(room.state.rules) };
+}
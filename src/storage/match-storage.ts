@@ -0,0 +1,66 @@
+import { MatchState, PlayerScore } from '../models/match';
+import { MATCH_CONFIG } from '../constants/game-config';
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isPlayerScore(value: unknown): value is PlayerScore {
+  const score = value as PlayerScore | null;
+  return (
+    typeof score === 'object' &&
+    score !== null &&
+    isCount(score.wins) &&
+    isCount(score.losses) &&
+    isCount(score.draws)
+  );
+}
+
+function isSymbol(value: unknown): boolean {
+  return value === 'X' || value === 'O';
+}
+
+export function isValidMatchState(value: unknown): value is MatchState {
+  const match = value as MatchState | null;
+  return (
+    typeof match === 'object' &&
+    match !== null &&
+    isCount(match.bestOf) &&
+    match.bestOf % 2 === 1 &&
+    isCount(match.gamesPlayed) &&
+    typeof match.scores === 'object' &&
+    match.scores !== null &&
+    isPlayerScore(match.scores.X) &&
+    isPlayerScore(match.scores.O) &&
+    isSymbol(match.nextStartingPlayer) &&
+    (match.winner === null || isSymbol(match.winner))
+  );
+}
+
+// Returns null when nothing is saved or the saved value is unreadable
+export function loadMatch(storage: Storage): MatchState | null {
+  let raw: string | null;
+  try {
+    raw = storage.getItem(MATCH_CONFIG.STORAGE_KEY);
+  } catch {
+    return null; // Storage blocked (e.g. privacy mode)
+  }
+  if (raw === null) {
+    return null;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isValidMatchState(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveMatch(storage: Storage, match: MatchState): void {
+  try {
+    storage.setItem(MATCH_CONFIG.STORAGE_KEY, JSON.stringify(match));
+  } catch {
+    // Quota exceeded or storage blocked; the match still works in memory
+  }
+}
@@ -0,0 +1,51 @@
+import { PIECE_STYLES, PieceStyleId } from '../models/theme';
+import { THEME_CONFIG } from '../constants/render-config';
+
+export interface ThemePreference {
+  theme: string; // Preset id, or THEME_CONFIG.SYSTEM_CHOICE
+  pieces: PieceStyleId;
+}
+
+export const DEFAULT_THEME_PREFERENCE: ThemePreference = {
+  theme: THEME_CONFIG.SYSTEM_CHOICE,
+  pieces: 'strokes',
+};
+
+export function isValidThemePreference(value: unknown): value is ThemePreference {
+  const preference = value as ThemePreference | null;
+  return (
+    typeof preference === 'object' &&
+    preference !== null &&
+    typeof preference.theme === 'string' &&
+    typeof preference.pieces === 'string' &&
+    Object.keys(PIECE_STYLES).includes(preference.pieces)
+  );
+}
+
+// Returns null when nothing is saved or the saved value is unreadable
+export function loadThemePreference(storage: Storage): ThemePreference | null {
+  let raw: string | null;
+  try {
+    raw = storage.getItem(THEME_CONFIG.STORAGE_KEY);
+  } catch {
+    return null; // Storage blocked (e.g. privacy mode)
+  }
+  if (raw === null) {
+    return null;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isValidThemePreference(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveThemePreference(storage: Storage, preference: ThemePreference): void {
+  try {
+    storage.setItem(THEME_CONFIG.STORAGE_KEY, JSON.stringify(preference));
+  } catch {
+    // Quota exceeded or storage blocked; the theme still applies for this visit
+  }
+}
@@ -0,0 +1,22 @@
+import { CellPosition } from '../models/board';
+import { GameState } from '../models/game-state';
+import { MoveRecord } from '../models/game-session';
+import { PlayerSymbol } from '../constants/game-config';
+
+export type GameAction =
+  // New game from this position; localPlayer is set for networked games
+  | { type: 'reset'; state: GameState; localPlayer?: PlayerSymbol | null }
+  // Move for whoever is on turn (human or computer); symbol where the variant allows a choice
+  | { type: 'place'; position: CellPosition; symbol?: PlayerSymbol }
+  // Move received from the networked peer
+  | { type: 'remote-move'; move: MoveRecord }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'jump'; moveNumber: number }
+  // The player on turn ran out of time and loses
+  | { type: 'timeout'; player: PlayerSymbol }
+  // Hold moveInProgress while the computer thinks or a move animates
+  | { type: 'lock' }
+  | { type: 'unlock' };
+
+export type GameActionType = GameAction['type'];
@@ -0,0 +1,118 @@
+import { GameState } from '../models/game-state';
+import { GameSession, MoveRecord } from '../models/game-session';
+import { PlayerSymbol } from '../constants/game-config';
+import {
+  createGameSession,
+  getCurrentState,
+  playSessionMove,
+  jumpToMove,
+  undo,
+  redo,
+  timeOutSession,
+  validateMove,
+} from '../engine/game-engine';
+import { switchTurn } from '../engine/state-transitions';
+import {
+  RemoteMoveStatus,
+  receiveRemoteMove,
+  drainPendingMoves,
+} from '../network/move-sequencer';
+import { GameAction } from './game-actions';
+
+export interface GameStoreState {
+  session: GameSession;
+  game: GameState; // Current position; moveInProgress is held while input is locked
+  localPlayer: PlayerSymbol | null; // Symbol played here in networked games
+  pendingRemoteMoves: MoveRecord[]; // Peer moves that arrived early
+  remoteStatus: RemoteMoveStatus | null; // Outcome of the latest remote-move action
+}
+
+export function createGameStoreState(
+  initial: GameState,
+  localPlayer: PlayerSymbol | null = null
+): GameStoreState {
+  const session = createGameSession(initial);
+  return {
+    session,
+    game: getCurrentState(session),
+    localPlayer,
+    pendingRemoteMoves: [],
+    remoteStatus: null,
+  };
+}
+
+// A new position always releases the input lock
+function withSession(
+  state: GameStoreState,
+  session: GameSession,
+  pendingRemoteMoves: MoveRecord[] = state.pendingRemoteMoves
+): GameStoreState {
+  if (session === state.session && pendingRemoteMoves === state.pendingRemoteMoves) {
+    return state;
+  }
+  return { ...state, session, game: getCurrentState(session), pendingRemoteMoves };
+}
+
+// Pure transition for every store action; illegal moves leave the state unchanged
+export function gameReducer(state: GameStoreState, action: GameAction): GameStoreState {
+  switch (action.type) {
+    case 'reset':
+      return createGameStoreState(action.state, action.localPlayer ?? null);
+
+    case 'place': {
+      const current = getCurrentState(state.session);
+      if (!validateMove(current, action.position, action.symbol).success) {
+        return state;
+      }
+      const session = playSessionMove(state.session, action.position, action.symbol);
+      if (state.localPlayer === null) {
+        return withSession(state, session);
+      }
+      // A peer move that arrived early may now be playable
+      const drained = drainPendingMoves(
+        session,
+        state.pendingRemoteMoves,
+        switchTurn(state.localPlayer)
+      );
+      return withSession(state, drained.session, drained.pending);
+    }
+
+    case 'remote-move': {
+      if (state.localPlayer === null) {
+        return { ...state, remoteStatus: 'rejected' };
+      }
+      const outcome = receiveRemoteMove(
+        state.session,
+        state.pendingRemoteMoves,
+        action.move,
+        switchTurn(state.localPlayer)
+      );
+      return {
+        ...withSession(state, outcome.session, outcome.pending),
+        remoteStatus: outcome.status,
+      };
+    }
+
+    case 'undo':
+      return withSession(state, undo(state.session));
+
+    case 'redo':
+      return withSession(state, redo(state.session));
+
+    case 'jump':
+      return withSession(state, jumpToMove(state.session, action.moveNumber));
+
+    case 'timeout':
+      return withSession(state, timeOutSession(state.session, action.player));
+
+    case 'lock':
+      return state.game.moveInProgress
+        ? state
+        : { ...state, game: { ...state.game, moveInProgress: true } };
+
+    case 'unlock':
+      return state.game.moveInProgress
+        ? { ...state, game: getCurrentState(state.session) }
+        : state;
+  }
+}
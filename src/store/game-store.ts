@@ -0,0 +1,93 @@
+import { GameState } from '../models/game-state';
+import { GameAction } from './game-actions';
+import { GameStoreState, createGameStoreState, gameReducer } from './game-reducer';
+
+export interface MiddlewareApi {
+  getState: () => GameStoreState;
+  dispatch: (action: GameAction) => void;
+}
+
+// Sees every action before the reducer; call `next` to pass it on (or don't,
+// to drop it). State read after `next` returns includes the action's effect.
+export type Middleware = (
+  api: MiddlewareApi,
+  action: GameAction,
+  next: (action: GameAction) => void
+) => void;
+
+export interface GameStore {
+  getState: () => GameStoreState;
+  dispatch: (action: GameAction) => void;
+  // Calls the listener whenever the selected value changes (by identity)
+  subscribe: <T>(
+    selector: (state: GameStoreState) => T,
+    listener: (value: T, previous: T) => void
+  ) => () => void;
+}
+
+interface Subscription {
+  selector: (state: GameStoreState) => unknown;
+  listener: (value: unknown, previous: unknown) => void;
+  last: unknown;
+}
+
+/*
+ * Single source of truth for the running game. Listeners may dispatch while
+ * being notified; each subscription remembers the last value it saw, so it
+ * hears about the newest state once rather than every intermediate one.
+ */
+export function createGameStore(
+  initial: GameState,
+  middleware: Middleware[] = []
+): GameStore {
+  let state = createGameStoreState(initial);
+  const subscriptions = new Set<Subscription>();
+
+  const notify = () => {
+    for (const subscription of [...subscriptions]) {
+      if (!subscriptions.has(subscription)) {
+        continue; // Unsubscribed by an earlier listener
+      }
+      const value = subscription.selector(state);
+      if (!Object.is(value, subscription.last)) {
+        const previous = subscription.last;
+        subscription.last = value;
+        subscription.listener(value, previous);
+      }
+    }
+  };
+
+  const reduce = (action: GameAction) => {
+    const next = gameReducer(state, action);
+    if (next !== state) {
+      state = next;
+      notify();
+    }
+  };
+
+  const api: MiddlewareApi = {
+    getState: () => state,
+    dispatch: action => dispatch(action),
+  };
+
+  const dispatch = middleware.reduceRight<(action: GameAction) => void>(
+    (next, handle) => action => handle(api, action, next),
+    reduce
+  );
+
+  return {
+    getState: () => state,
+    dispatch,
+    subscribe: (selector, listener) => {
+      const subscription: Subscription = {
+        selector,
+        listener: listener as Subscription['listener'],
+        last: selector(state),
+      };
+      subscriptions.add(subscription);
+      return () => {
+        subscriptions.delete(subscription);
+      };
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import { GameStoreState } from './game-reducer';
+import { GameAction } from './game-actions';
+import { Middleware } from './game-store';
+
+// Logs each action with the state before and after it
+export function createLoggingMiddleware(
+  log: (message: string, details: unknown) => void = console.debug
+): Middleware {
+  return (api, action, next) => {
+    const before = api.getState();
+    next(action);
+    log(`[game] ${action.type}`, { action, before, after: api.getState() });
+  };
+}
+
+// Saves the selected slice after every action that changed it
+export function createPersistenceMiddleware<T>(
+  select: (state: GameStoreState) => T,
+  save: (value: T) => void
+): Middleware {
+  return (api, action, next) => {
+    const before = select(api.getState());
+    next(action);
+    const after = select(api.getState());
+    if (!Object.is(before, after)) {
+      save(after);
+    }
+  };
+}
+
+// Reports actions that changed the state, e.g. to an analytics endpoint
+export function createAnalyticsMiddleware(
+  track: (action: GameAction, state: GameStoreState) => void
+): Middleware {
+  return (api, action, next) => {
+    const before = api.getState();
+    next(action);
+    const after = api.getState();
+    if (after !== before) {
+      track(action, after);
+    }
+  };
+}
@@ -0,0 +1,79 @@
+import { Board, CellPosition, GamePieceValue, getCellValue } from '../models/board';
+import { CellHint } from '../ai/game-solver';
+
+// Hint mode adds the outcome of playing there, e.g. "win in 2"
+export function formatCellLabel(
+  position: CellPosition,
+  value: GamePieceValue,
+  hint: CellHint | null = null
+): string {
+  const label = `row ${position.row + 1}, column ${position.col + 1}, ${value ?? 'empty'}`;
+  if (!hint) {
+    return label;
+  }
+  return hint.outcome === 'draw'
+    ? `${label}, draw`
+    : `${label}, ${hint.outcome} in ${hint.moves}`;
+}
+
+export function findCellHint(
+  hints: CellHint[] | null | undefined,
+  position: CellPosition
+): CellHint | null {
+  return (
+    hints?.find(hint => hint.position.row === position.row && hint.position.col === position.col) ??
+    null
+  );
+}
+
+export function getGridCellId(position: CellPosition): string {
+  return `boardCell-${position.row}-${position.col}`;
+}
+
+// Screen-reader mirror of the canvas board; mounted as canvas fallback content
+export function createAccessibleGrid(): HTMLDivElement {
+  const element = document.createElement('div');
+  element.id = 'accessibleGrid';
+  element.className = 'accessible-grid';
+  element.setAttribute('role', 'grid');
+  element.setAttribute('aria-label', 'Game board');
+  return element;
+}
+
+export function updateAccessibleGrid(
+  element: HTMLDivElement,
+  board: Board,
+  cursor: CellPosition | null,
+  hints: CellHint[] | null = null
+): void {
+  const rows: HTMLDivElement[] = [];
+
+  for (let row = 0; row < board.size; row++) {
+    const rowElement = document.createElement('div');
+    rowElement.setAttribute('role', 'row');
+
+    for (let col = 0; col < board.size; col++) {
+      const position = { row, col };
+      const cellElement = document.createElement('div');
+      cellElement.id = getGridCellId(position);
+      cellElement.setAttribute('role', 'gridcell');
+      cellElement.setAttribute(
+        'aria-label',
+        formatCellLabel(position, getCellValue(board, position), findCellHint(hints, position))
+      );
+      if (cursor && row === cursor.row && col === cursor.col) {
+        cellElement.setAttribute('aria-selected', 'true');
+      }
+      rowElement.appendChild(cellElement);
+    }
+
+    rows.push(rowElement);
+  }
+
+  element.replaceChildren(...rows);
+}
+
+// Point the focused element at the cursor cell so screen readers follow it
+export function setActiveCell(focusTarget: HTMLElement, cursor: CellPosition): void {
+  focusTarget.setAttribute('aria-activedescendant', getGridCellId(cursor));
+}
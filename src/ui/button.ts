@@ -0,0 +1,9 @@
+// Plain button for the toolbars next to the board
+export function createButton(label: string, className: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = className;
+  button.textContent = label;
+  button.addEventListener('click', onClick);
+  return button;
+}
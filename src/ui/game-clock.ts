@@ -0,0 +1,170 @@
+import { GameSession } from '../models/game-session';
+import { GameClock, TimeControl } from '../models/game-clock';
+import { CLOCK_CONFIG, GAME_CONFIG, GAME_STATUS, PlayerSymbol } from '../constants/game-config';
+import {
+  createGameClock,
+  getFlaggedPlayer,
+  getRemainingMs,
+  pressClock,
+  startClock,
+  stopClock,
+} from '../engine/clock-transitions';
+import { getCurrentState } from '../engine/session-transitions';
+
+export interface TimeControlOption {
+  label: string;
+  timeControl: TimeControl | null; // null plays without a clock
+}
+
+export const TIME_CONTROL_OPTIONS: ReadonlyArray<TimeControlOption> = [
+  { label: 'No clock', timeControl: null },
+  { label: '1 min', timeControl: { initialMs: 60_000, incrementMs: 0 } },
+  { label: '3 min + 2 s', timeControl: { initialMs: 180_000, incrementMs: 2_000 } },
+  { label: '5 min', timeControl: { initialMs: 300_000, incrementMs: 0 } },
+];
+
+export function createTimeControlSelector(
+  options: ReadonlyArray<TimeControlOption>,
+  onChange: (option: TimeControlOption) => void
+): HTMLSelectElement {
+  const element = document.createElement('select');
+  element.id = 'timeControlSelector';
+  element.className = 'time-control-selector';
+  element.setAttribute('aria-label', 'Time control');
+
+  options.forEach((option, index) => {
+    const optionElement = document.createElement('option');
+    optionElement.value = String(index);
+    optionElement.textContent = option.label;
+    element.appendChild(optionElement);
+  });
+
+  element.addEventListener('change', () => {
+    const selected = options[Number(element.value)];
+    if (selected) {
+      onChange(selected);
+    }
+  });
+
+  return element;
+}
+
+// "4:05"; tenths once time is low, e.g. "0:07.3"
+export function formatClockTime(ms: number): string {
+  if (ms < CLOCK_CONFIG.LOW_TIME_MS) {
+    const tenths = Math.floor(ms / 100);
+    return `0:0${Math.floor(tenths / 10)}.${tenths % 10}`;
+  }
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// One face per player; the running one is marked for styling
+export function createClockDisplay(): HTMLDivElement {
+  const element = document.createElement('div');
+  element.id = 'gameClock';
+  element.className = 'game-clock';
+  element.setAttribute('aria-label', 'Game clock');
+
+  GAME_CONFIG.PLAYERS.forEach(player => {
+    const face = document.createElement('div');
+    face.className = `clock-face clock-${player.toLowerCase()}`;
+    face.dataset.player = player;
+    element.appendChild(face);
+  });
+
+  return element;
+}
+
+export function updateClockDisplay(element: HTMLDivElement, clock: GameClock, now: number): void {
+  element.querySelectorAll<HTMLDivElement>('.clock-face').forEach(face => {
+    const player: PlayerSymbol = face.dataset.player === 'O' ? 'O' : 'X';
+    const remaining = getRemainingMs(clock, player, now);
+    face.textContent = `${player} ${formatClockTime(remaining)}`;
+    face.classList.toggle('running', clock.running === player);
+    face.classList.toggle('low-time', remaining < CLOCK_CONFIG.LOW_TIME_MS);
+  });
+}
+
+export interface ClockControllerOptions {
+  now?: () => number; // Time source in milliseconds; defaults to Date.now
+  onTick: (clock: GameClock, now: number) => void;
+  onTimeout: (player: PlayerSymbol) => void;
+}
+
+export interface ClockController {
+  sync: (session: GameSession) => void;
+  getClock: () => GameClock;
+  dispose: () => void;
+}
+
+// Was `session` reached by playing a new move on `previous`? A redo steps
+// forward onto a move already recorded, so it does not count
+function isNewMove(previous: GameSession | null, session: GameSession): boolean {
+  return (
+    previous !== null &&
+    session.currentMove === previous.currentMove + 1 &&
+    session.moves[session.currentMove - 1] !== previous.moves[previous.currentMove]
+  );
+}
+
+/*
+ * Runs a game clock alongside a game: sync it with every session change and
+ * the player on turn runs. Only a newly played move earns the mover the
+ * increment; undo, redo and jumps just hand the clock to the player on turn.
+ * A finished game stops it. While running it ticks every
+ * CLOCK_CONFIG.TICK_MS and reports the player who runs out of time once.
+ */
+export function createClockController(
+  timeControl: TimeControl,
+  options: ClockControllerOptions
+): ClockController {
+  const now = options.now ?? Date.now;
+  let clock = createGameClock(timeControl);
+  let ticker: ReturnType<typeof setInterval> | null = null;
+  let synced: GameSession | null = null;
+
+  const stopTicking = () => {
+    if (ticker !== null) {
+      clearInterval(ticker);
+      ticker = null;
+    }
+  };
+
+  const tick = () => {
+    const time = now();
+    const flagged = getFlaggedPlayer(clock, time);
+    if (flagged) {
+      clock = stopClock(clock, time);
+      stopTicking();
+    }
+    options.onTick(clock, time);
+    if (flagged) {
+      options.onTimeout(flagged);
+    }
+  };
+
+  const sync = (session: GameSession) => {
+    const time = now();
+    const state = getCurrentState(session);
+    if (state.status !== GAME_STATUS.IN_PROGRESS) {
+      clock = stopClock(clock, time);
+      stopTicking();
+    } else if (clock.running !== null && isNewMove(synced, session)) {
+      clock = pressClock(clock, time);
+    } else {
+      clock = startClock(clock, state.currentTurn, time);
+    }
+    synced = session;
+    if (clock.running !== null && ticker === null) {
+      ticker = setInterval(tick, CLOCK_CONFIG.TICK_MS);
+    }
+    options.onTick(clock, time);
+  };
+
+  return {
+    sync,
+    getClock: () => clock,
+    dispose: stopTicking,
+  };
+}
@@ -0,0 +1,18 @@
+// Switches the hint heatmap on and off; the pressed state is the setting
+export function createHintToggle(onChange: (enabled: boolean) => void): HTMLButtonElement {
+  const element = document.createElement('button');
+  element.type = 'button';
+  element.id = 'hintToggle';
+  element.className = 'hint-toggle';
+  element.textContent = 'Hints';
+  element.title = 'Mark each empty cell with its result under perfect play';
+  element.setAttribute('aria-pressed', 'false');
+
+  element.addEventListener('click', () => {
+    const enabled = element.getAttribute('aria-pressed') !== 'true';
+    element.setAttribute('aria-pressed', String(enabled));
+    onChange(enabled);
+  });
+
+  return element;
+}
@@ -0,0 +1,38 @@
+import { MoveFailureReason } from '../constants/game-config';
+
+// Player-facing explanation for each refused move
+export const REJECTION_MESSAGES: Record<MoveFailureReason, string> = {
+  'cell-occupied': 'That cell is already taken.',
+  'move-in-progress': 'Hold on, a move is still being played.',
+  'invalid-position': 'That spot is outside the board.',
+  'board-full': 'The board is full. Start a new game to play again.',
+  'game-over': 'The game is over. Start a new game to play again.',
+  'not-your-turn': "It's not your turn yet.",
+  'out-of-order': 'That move arrived out of order.',
+  'wrong-sub-board': 'You must play in the highlighted board.',
+  'sub-board-closed': 'That board is already finished. Pick an open one.',
+  'symbol-not-allowed': "You can't place that piece in this variant.",
+};
+
+export function formatRejectionMessage(reason: MoveFailureReason): string {
+  return REJECTION_MESSAGES[reason];
+}
+
+export function createMoveFeedback(): HTMLDivElement {
+  const element = document.createElement('div');
+  element.id = 'moveFeedback';
+  element.className = 'move-feedback';
+
+  // Read out immediately; the element stays empty until a move is refused
+  element.setAttribute('role', 'alert');
+
+  return element;
+}
+
+export function showMoveFeedback(element: HTMLDivElement, reason: MoveFailureReason): void {
+  element.textContent = formatRejectionMessage(reason);
+}
+
+export function clearMoveFeedback(element: HTMLDivElement): void {
+  element.textContent = '';
+}
@@ -0,0 +1,86 @@
+import { GameSession, MoveRecord } from '../models/game-session';
+import { canUndo, canRedo, getCurrentState } from '../engine/session-transitions';
+import { GAME_STATUS } from '../constants/game-config';
+import { createButton } from './button';
+
+export interface MoveHistoryControls {
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpToMove: (moveNumber: number) => void;
+  onReplay: () => void;
+}
+
+export function formatMoveText(move: MoveRecord): string {
+  return `${move.moveNumber}. ${move.player} at row ${move.position.row + 1}, column ${move.position.col + 1}`;
+}
+
+export function createMoveHistory(controls: MoveHistoryControls): HTMLDivElement {
+  const element = document.createElement('div');
+  element.id = 'moveHistory';
+  element.className = 'move-history';
+
+  const toolbar = document.createElement('div');
+  toolbar.className = 'move-history-controls';
+  toolbar.appendChild(createButton('Undo', 'undo-button', controls.onUndo));
+  toolbar.appendChild(createButton('Redo', 'redo-button', controls.onRedo));
+  toolbar.appendChild(createButton('Replay', 'replay-button', controls.onReplay));
+  element.appendChild(toolbar);
+
+  const list = document.createElement('ol');
+  list.className = 'move-list';
+  list.setAttribute('aria-label', 'Moves');
+  // One delegated listener; each entry carries its move number
+  list.addEventListener('click', event => {
+    const entry = (event.target as HTMLElement).closest('button[data-move]');
+    if (entry instanceof HTMLButtonElement) {
+      controls.onJumpToMove(Number(entry.dataset.move));
+    }
+  });
+  element.appendChild(list);
+
+  return element;
+}
+
+export function updateMoveHistory(element: HTMLDivElement, session: GameSession): void {
+  const undoButton = element.querySelector<HTMLButtonElement>('.undo-button');
+  const redoButton = element.querySelector<HTMLButtonElement>('.redo-button');
+  const replayButton = element.querySelector<HTMLButtonElement>('.replay-button');
+  const list = element.querySelector<HTMLOListElement>('.move-list');
+
+  if (undoButton) {
+    undoButton.disabled = !canUndo(session);
+  }
+  if (redoButton) {
+    redoButton.disabled = !canRedo(session);
+  }
+  // Replays are for finished games
+  if (replayButton) {
+    replayButton.disabled = getCurrentState(session).status === GAME_STATUS.IN_PROGRESS;
+  }
+  if (!list) {
+    return;
+  }
+
+  const entries = [
+    { moveNumber: 0, text: 'Game start' },
+    ...session.moves.map(move => ({ moveNumber: move.moveNumber, text: formatMoveText(move) })),
+  ];
+
+  list.replaceChildren(
+    ...entries.map(({ moveNumber, text }) => {
+      const item = document.createElement('li');
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.dataset.move = String(moveNumber);
+      button.textContent = text;
+      // Undone moves stay listed until a new move branches off
+      if (moveNumber === session.currentMove) {
+        button.setAttribute('aria-current', 'step');
+      } else if (moveNumber > session.currentMove) {
+        button.classList.add('undone');
+      }
+      item.appendChild(button);
+      return item;
+    }),
+  );
+}
@@ -0,0 +1,52 @@
+import { ComputerOpponent } from '../ai/computer-player';
+import { AI_CONFIG } from '../constants/ai-config';
+
+export interface OpponentOption {
+  label: string;
+  opponent: ComputerOpponent | null; // null for a second human player
+  remote?: boolean; // Second human plays from another browser tab
+}
+
+// The human always plays X against the computer
+export const OPPONENT_OPTIONS: ReadonlyArray<OpponentOption> = [
+  { label: 'Two players', opponent: null },
+  {
+    label: 'vs Computer (easy)',
+    opponent: { symbol: 'O', difficulty: AI_CONFIG.DIFFICULTIES.EASY },
+  },
+  {
+    label: 'vs Computer (medium)',
+    opponent: { symbol: 'O', difficulty: AI_CONFIG.DIFFICULTIES.MEDIUM },
+  },
+  {
+    label: 'vs Computer (hard)',
+    opponent: { symbol: 'O', difficulty: AI_CONFIG.DIFFICULTIES.HARD },
+  },
+  { label: 'Another browser tab', opponent: null, remote: true },
+];
+
+export function createOpponentSelector(
+  options: ReadonlyArray<OpponentOption>,
+  onChange: (option: OpponentOption) => void
+): HTMLSelectElement {
+  const element = document.createElement('select');
+  element.id = 'opponentSelector';
+  element.className = 'opponent-selector';
+  element.setAttribute('aria-label', 'Opponent');
+
+  options.forEach((option, index) => {
+    const optionElement = document.createElement('option');
+    optionElement.value = String(index);
+    optionElement.textContent = option.label;
+    element.appendChild(optionElement);
+  });
+
+  element.addEventListener('change', () => {
+    const selected = options[Number(element.value)];
+    if (selected) {
+      onChange(selected);
+    }
+  });
+
+  return element;
+}
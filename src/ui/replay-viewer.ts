@@ -0,0 +1,153 @@
+import { GameState } from '../models/game-state';
+import { GameSession } from '../models/game-session';
+import { getCurrentState, jumpToMove } from '../engine/session-transitions';
+import { REPLAY_CONFIG } from '../constants/render-config';
+import { createButton } from './button';
+
+export interface ReplayViewerOptions {
+  // A new position is shown; `previous` is the one before it
+  onPositionChange: (session: GameSession, previous: GameState) => void;
+  onClose: () => void;
+}
+
+export interface ReplayViewer {
+  element: HTMLDivElement;
+  getSession: () => GameSession;
+  dispose: () => void; // Stops playback and removes the controls
+}
+
+export function formatReplayPosition(session: GameSession): string {
+  return `Move ${session.currentMove} of ${session.moves.length}`;
+}
+
+/*
+ * Playback controls for a session built by buildReplaySession: play/pause,
+ * a step either way, a slider over every move and the playback speed.
+ * Playing from the last move starts over; playback stops at the end.
+ */
+export function createReplayViewer(
+  initialSession: GameSession,
+  options: ReplayViewerOptions
+): ReplayViewer {
+  let session = initialSession;
+  let speed = REPLAY_CONFIG.DEFAULT_SPEED;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const element = document.createElement('div');
+  element.id = 'replayViewer';
+  element.className = 'replay-viewer';
+  element.setAttribute('role', 'group');
+  element.setAttribute('aria-label', 'Replay');
+
+  const position = document.createElement('div');
+  position.className = 'replay-position';
+
+  const slider = document.createElement('input');
+  slider.type = 'range';
+  slider.className = 'replay-slider';
+  slider.min = '0';
+  slider.max = String(session.moves.length);
+  slider.setAttribute('aria-label', 'Replay move');
+  slider.addEventListener('input', () => {
+    const moveNumber = Number(slider.value);
+    pause();
+    show(moveNumber);
+  });
+
+  const backButton = createButton('Back', 'replay-back', () => {
+    pause();
+    show(session.currentMove - 1);
+  });
+  const playButton = createButton('Play', 'replay-play', () => {
+    if (timer !== null) {
+      pause();
+      return;
+    }
+    if (session.currentMove === session.moves.length) {
+      show(0);
+    }
+    play();
+  });
+  const forwardButton = createButton('Forward', 'replay-forward', () => {
+    pause();
+    show(session.currentMove + 1);
+  });
+
+  const speedSelector = document.createElement('select');
+  speedSelector.className = 'replay-speed';
+  speedSelector.setAttribute('aria-label', 'Replay speed');
+  REPLAY_CONFIG.SPEEDS.forEach(option => {
+    const optionElement = document.createElement('option');
+    optionElement.value = String(option);
+    optionElement.textContent = `${option}×`;
+    speedSelector.appendChild(optionElement);
+  });
+  speedSelector.value = String(speed);
+  speedSelector.addEventListener('change', () => {
+    speed = Number(speedSelector.value);
+    // The next move comes at the new pace
+    if (timer !== null) {
+      pause();
+      play();
+    }
+  });
+
+  const toolbar = document.createElement('div');
+  toolbar.className = 'replay-controls';
+  toolbar.append(
+    backButton,
+    playButton,
+    forwardButton,
+    speedSelector,
+    createButton('Close', 'replay-close', options.onClose)
+  );
+  element.append(position, slider, toolbar);
+
+  const update = () => {
+    position.textContent = formatReplayPosition(session);
+    slider.value = String(session.currentMove);
+    backButton.disabled = session.currentMove === 0;
+    forwardButton.disabled = session.currentMove === session.moves.length;
+    playButton.textContent = timer !== null ? 'Pause' : 'Play';
+  };
+
+  const show = (moveNumber: number) => {
+    const next = jumpToMove(session, moveNumber);
+    if (next !== session) {
+      const previous = getCurrentState(session);
+      session = next;
+      options.onPositionChange(session, previous);
+    }
+    update();
+  };
+
+  const play = () => {
+    timer = setTimeout(() => {
+      timer = null;
+      show(session.currentMove + 1);
+      if (session.currentMove < session.moves.length) {
+        play();
+      }
+    }, REPLAY_CONFIG.MOVE_INTERVAL_MS / speed);
+    update();
+  };
+
+  const pause = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    update();
+  };
+
+  update();
+
+  return {
+    element,
+    getSession: () => session,
+    dispose: () => {
+      pause();
+      element.remove();
+    },
+  };
+}
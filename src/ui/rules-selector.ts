@@ -0,0 +1,48 @@
+import { GameRules, GAME_RULE_PRESETS } from '../models/game-rules';
+
+export interface RulesOption {
+  label: string;
+  rules: GameRules;
+  // Played on its own board instead: nine sub-boards under the send-to rule,
+  // or a 4x4x4 cube; rules then only describe it
+  mode?: 'ultimate' | 'qubic';
+}
+
+export const RULES_OPTIONS: ReadonlyArray<RulesOption> = [
+  { label: 'Classic 3×3', rules: GAME_RULE_PRESETS.CLASSIC },
+  { label: '5×5, four in a row', rules: GAME_RULE_PRESETS.FOUR_IN_A_ROW },
+  { label: '15×15 Gomoku, five in a row', rules: GAME_RULE_PRESETS.GOMOKU },
+  { label: 'Ultimate, nine boards', rules: GAME_RULE_PRESETS.CLASSIC, mode: 'ultimate' },
+  { label: '3D Qubic, 4×4×4', rules: { boardSize: 4, winLength: 4 }, mode: 'qubic' },
+];
+
+export function formatRulesLabel(rules: GameRules): string {
+  return `${rules.boardSize}×${rules.boardSize}, ${rules.winLength} in a row`;
+}
+
+export function createRulesSelector(
+  options: ReadonlyArray<RulesOption>,
+  onChange: (option: RulesOption) => void
+): HTMLSelectElement {
+  const element = document.createElement('select');
+  element.id = 'rulesSelector';
+  element.className = 'rules-selector';
+  element.setAttribute('aria-label', 'Game variant');
+
+  options.forEach((option, index) => {
+    const optionElement = document.createElement('option');
+    optionElement.value = String(index);
+    optionElement.textContent = option.label;
+    optionElement.title = formatRulesLabel(option.rules);
+    element.appendChild(optionElement);
+  });
+
+  element.addEventListener('change', () => {
+    const selected = options[Number(element.value)];
+    if (selected) {
+      onChange(selected);
+    }
+  });
+
+  return element;
+}
@@ -0,0 +1,82 @@
+import { PlayerSymbol } from '../constants/game-config';
+import { MatchState, PlayerScore } from '../models/match';
+import { createButton } from './button';
+
+export interface ScoreboardControls {
+  onNewGame: () => void;
+  onResetMatch: () => void;
+  onBestOfChange: (bestOf: number) => void;
+}
+
+export function formatScoreText(player: PlayerSymbol, score: PlayerScore): string {
+  return `${player}: ${score.wins}W ${score.losses}L ${score.draws}D`;
+}
+
+export function formatMatchText(match: MatchState): string {
+  if (match.winner) {
+    return `Player ${match.winner} wins the match!`;
+  }
+  return `Game ${match.gamesPlayed + 1} of best of ${match.bestOf}`;
+}
+
+export function createScoreboard(
+  controls: ScoreboardControls,
+  bestOfOptions: ReadonlyArray<number>
+): HTMLDivElement {
+  const element = document.createElement('div');
+  element.id = 'scoreboard';
+  element.className = 'scoreboard';
+
+  const summary = document.createElement('div');
+  summary.className = 'match-summary';
+  element.appendChild(summary);
+
+  const scores = document.createElement('div');
+  scores.className = 'match-scores';
+  element.appendChild(scores);
+
+  const bestOfSelector = document.createElement('select');
+  bestOfSelector.className = 'best-of-selector';
+  bestOfSelector.setAttribute('aria-label', 'Match length');
+  bestOfOptions.forEach(bestOf => {
+    const option = document.createElement('option');
+    option.value = String(bestOf);
+    option.textContent = `Best of ${bestOf}`;
+    bestOfSelector.appendChild(option);
+  });
+  bestOfSelector.addEventListener('change', () => {
+    controls.onBestOfChange(Number(bestOfSelector.value));
+  });
+
+  const toolbar = document.createElement('div');
+  toolbar.className = 'scoreboard-controls';
+  toolbar.appendChild(bestOfSelector);
+  toolbar.appendChild(createButton('New game', 'new-game-button', controls.onNewGame));
+  toolbar.appendChild(createButton('Reset match', 'reset-match-button', controls.onResetMatch));
+  element.appendChild(toolbar);
+
+  return element;
+}
+
+export function updateScoreboard(element: HTMLDivElement, match: MatchState): void {
+  const summary = element.querySelector<HTMLDivElement>('.match-summary');
+  const scores = element.querySelector<HTMLDivElement>('.match-scores');
+  const bestOfSelector = element.querySelector<HTMLSelectElement>('.best-of-selector');
+
+  if (summary) {
+    summary.textContent = formatMatchText(match);
+  }
+  if (scores) {
+    scores.replaceChildren(
+      ...(['X', 'O'] as const).map(player => {
+        const line = document.createElement('div');
+        line.className = 'player-score';
+        line.textContent = formatScoreText(player, match.scores[player]);
+        return line;
+      })
+    );
+  }
+  if (bestOfSelector) {
+    bestOfSelector.value = String(match.bestOf);
+  }
+}
@@ -0,0 +1,83 @@
+import { PieceStyleId, THEME_PRESETS, Theme } from '../models/theme';
+import { THEME_CONFIG } from '../constants/render-config';
+
+export interface ThemeOption {
+  label: string;
+  value: string; // Preset id, or THEME_CONFIG.SYSTEM_CHOICE
+}
+
+export interface PieceStyleOption {
+  label: string;
+  value: PieceStyleId;
+}
+
+export const THEME_OPTIONS: ReadonlyArray<ThemeOption> = [
+  { label: 'System theme', value: THEME_CONFIG.SYSTEM_CHOICE },
+  ...Object.values(THEME_PRESETS).map(theme => ({ label: theme.label, value: theme.id })),
+];
+
+export const PIECE_STYLE_OPTIONS: ReadonlyArray<PieceStyleOption> = [
+  { label: 'Drawn pieces', value: 'strokes' },
+  { label: 'Emoji pieces', value: 'emoji' },
+];
+
+function createSelect<T extends string>(
+  id: string,
+  ariaLabel: string,
+  options: ReadonlyArray<{ label: string; value: T }>,
+  selected: T,
+  onChange: (value: T) => void
+): HTMLSelectElement {
+  const element = document.createElement('select');
+  element.id = id;
+  element.className = 'theme-selector';
+  element.setAttribute('aria-label', ariaLabel);
+
+  options.forEach(option => {
+    const optionElement = document.createElement('option');
+    optionElement.value = option.value;
+    optionElement.textContent = option.label;
+    element.appendChild(optionElement);
+  });
+  element.value = selected;
+
+  element.addEventListener('change', () => {
+    const match = options.find(option => option.value === element.value);
+    if (match) {
+      onChange(match.value);
+    }
+  });
+
+  return element;
+}
+
+export function createThemeSelector(
+  options: ReadonlyArray<ThemeOption>,
+  selected: string,
+  onChange: (theme: string) => void
+): HTMLSelectElement {
+  return createSelect('themeSelector', 'Colour theme', options, selected, onChange);
+}
+
+export function createPieceStyleSelector(
+  options: ReadonlyArray<PieceStyleOption>,
+  selected: PieceStyleId,
+  onChange: (pieces: PieceStyleId) => void
+): HTMLSelectElement {
+  return createSelect('pieceStyleSelector', 'Piece style', options, selected, onChange);
+}
+
+// style.css reads the page colours from these custom properties
+export function applyThemeColors(root: HTMLElement, theme: Theme): void {
+  const { colors } = theme;
+  root.dataset.theme = theme.id;
+  root.style.setProperty('--board-background', colors.background);
+  root.style.setProperty('--page-background', colors.page);
+  root.style.setProperty('--surface', colors.surface);
+  root.style.setProperty('--text', colors.text);
+  root.style.setProperty('--accent', colors.accent);
+  root.style.setProperty('--accent-soft', colors.accentSoft);
+  root.style.setProperty('--border', colors.border);
+  root.style.setProperty('--muted', colors.muted);
+}
+
@@ -1,4 +1,5 @@
 import { PlayerSymbol } from '../constants/game-config';
+import { MoveRecord } from '../models/game-session';
 
 export function formatTurnText(player: PlayerSymbol): string {
   return `Player ${player}'s Turn`;
@@ -22,3 +23,28 @@ export function updateTurnIndicator(element: HTMLDivElement, player: PlayerSymbo
   element.textContent = formatTurnText(player);
 }
 
+
+export function formatResultText(winner: PlayerSymbol | null): string {
+  return winner ? `Player ${winner} Wins!` : "It's a Draw!";
+}
+
+export function showGameResult(element: HTMLDivElement, winner: PlayerSymbol | null): void {
+  element.textContent = formatResultText(winner);
+}
+
+// Free-form status, e.g. while waiting for a networked opponent
+export function showStatusMessage(element: HTMLDivElement, message: string): void {
+  element.textContent = message;
+}
+
+export function formatMoveAnnouncement(move: MoveRecord): string {
+  return `${move.player} placed at row ${move.position.row + 1}, column ${move.position.col + 1}.`;
+}
+
+// Visually shows the turn or result text; the live region also reads the move just played
+export function announceMove(element: HTMLDivElement, move: MoveRecord, statusText: string): void {
+  const announcement = document.createElement('span');
+  announcement.className = 'visually-hidden';
+  announcement.textContent = `${formatMoveAnnouncement(move)} `;
+  element.replaceChildren(announcement, statusText);
+}
@@ -0,0 +1,52 @@
+import { GameVariant } from '../engine/game-variants';
+import { GAME_CONFIG, PlayerSymbol } from '../constants/game-config';
+
+export function createVariantSelector(
+  variants: ReadonlyArray<GameVariant>,
+  onChange: (variant: GameVariant) => void
+): HTMLSelectElement {
+  const element = document.createElement('select');
+  element.id = 'variantSelector';
+  element.className = 'variant-selector';
+  element.setAttribute('aria-label', 'Rule variant');
+
+  variants.forEach((variant, index) => {
+    const optionElement = document.createElement('option');
+    optionElement.value = String(index);
+    optionElement.textContent = variant.label;
+    optionElement.title = variant.description;
+    element.appendChild(optionElement);
+  });
+
+  element.addEventListener('change', () => {
+    const selected = variants[Number(element.value)];
+    if (selected) {
+      onChange(selected);
+    }
+  });
+
+  return element;
+}
+
+// Which piece to place, for variants that let the player choose (Wild)
+export function createPieceChoiceSelector(
+  onChange: (symbol: PlayerSymbol) => void
+): HTMLSelectElement {
+  const element = document.createElement('select');
+  element.id = 'pieceChoiceSelector';
+  element.className = 'piece-choice-selector';
+  element.setAttribute('aria-label', 'Piece to place');
+
+  GAME_CONFIG.PLAYERS.forEach(symbol => {
+    const optionElement = document.createElement('option');
+    optionElement.value = symbol;
+    optionElement.textContent = `Place ${symbol}`;
+    element.appendChild(optionElement);
+  });
+
+  element.addEventListener('change', () => {
+    onChange(element.value === 'O' ? 'O' : 'X');
+  });
+
+  return element;
+}
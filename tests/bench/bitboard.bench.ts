@@ -0,0 +1,146 @@
+import { bench, describe } from 'vitest';
+import { createInitialGameState, processMove } from '../../src/engine/game-engine';
+import { getLegalMoves } from '../../src/engine/move-validator';
+import { CellPosition, GamePieceValue, LINE_DIRECTIONS } from '../../src/models/board';
+import { GameRules } from '../../src/models/game-rules';
+import { GAME_STATUS, PlayerSymbol } from '../../src/constants/game-config';
+
+// Deterministic pseudo-random source, so every run plays the same games
+function seededRandom(seed: number): () => number {
+  let value = seed;
+  return () => {
+    value = (value * 1103515245 + 12345) % 2147483648;
+    return value / 2147483648;
+  };
+}
+
+const GAMES = 20;
+
+// Random games to the end, recorded once so both boards replay the same moves
+function recordGames(rules: GameRules): CellPosition[][] {
+  const random = seededRandom(1);
+  const games: CellPosition[][] = [];
+  for (let game = 0; game < GAMES; game++) {
+    let state = createInitialGameState(rules);
+    const moves: CellPosition[] = [];
+    while (state.status === GAME_STATUS.IN_PROGRESS) {
+      const legal = getLegalMoves(state);
+      const move = legal[Math.floor(random() * legal.length)];
+      moves.push(move);
+      state = processMove(state, move);
+    }
+    games.push(moves);
+  }
+  return games;
+}
+
+/*
+ * The board as it was before packing: a cells array read with `find`,
+ * copied whole on every move, and scanned cell by cell for a line.
+ */
+interface CellsBoard {
+  size: number;
+  cells: { value: GamePieceValue; position: CellPosition; placedAt?: number }[];
+}
+
+function createCellsBoard(size: number): CellsBoard {
+  const cells: CellsBoard['cells'] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      cells.push({ value: null, position: { row, col } });
+    }
+  }
+  return { size, cells };
+}
+
+function getCellsValue(board: CellsBoard, position: CellPosition): GamePieceValue {
+  const cell = board.cells.find(
+    c => c.position.row === position.row && c.position.col === position.col
+  );
+  return cell ? cell.value : null;
+}
+
+function getCellsMoves(board: CellsBoard): CellPosition[] {
+  return board.cells
+    .map(cell => cell.position)
+    .filter(position => getCellsValue(board, position) === null);
+}
+
+function placeCellsPiece(
+  board: CellsBoard,
+  position: CellPosition,
+  symbol: PlayerSymbol
+): CellsBoard {
+  const placedAt = board.cells.reduce((last, cell) => Math.max(last, cell.placedAt ?? 0), 0) + 1;
+  return {
+    ...board,
+    cells: board.cells.map(cell =>
+      cell.position.row === position.row && cell.position.col === position.col
+        ? { ...cell, value: symbol, placedAt }
+        : cell
+    ),
+  };
+}
+
+function hasCellsLine(board: CellsBoard, winLength: number): boolean {
+  for (let row = 0; row < board.size; row++) {
+    for (let col = 0; col < board.size; col++) {
+      const symbol = getCellsValue(board, { row, col });
+      if (symbol === null) {
+        continue;
+      }
+      for (const direction of LINE_DIRECTIONS) {
+        let length = 0;
+        while (
+          length < winLength &&
+          getCellsValue(board, {
+            row: row + direction.row * length,
+            col: col + direction.col * length,
+          }) === symbol
+        ) {
+          length++;
+        }
+        if (length === winLength) {
+          return true;
+        }
+      }
+    }
+  }
+  return false;
+}
+
+// Each move lists the legal moves, places the piece and checks for a result
+function replayOnCells(rules: GameRules, games: CellPosition[][]): void {
+  for (const moves of games) {
+    let board = createCellsBoard(rules.boardSize);
+    let player: PlayerSymbol = 'X';
+    for (const move of moves) {
+      getCellsMoves(board);
+      board = placeCellsPiece(board, move, player);
+      if (hasCellsLine(board, rules.winLength) || board.cells.every(cell => cell.value !== null)) {
+        break;
+      }
+      player = player === 'X' ? 'O' : 'X';
+    }
+  }
+}
+
+function replayOnEngine(rules: GameRules, games: CellPosition[][]): void {
+  for (const moves of games) {
+    let state = createInitialGameState(rules);
+    for (const move of moves) {
+      getLegalMoves(state);
+      state = processMove(state, move);
+    }
+  }
+}
+
+describe.each([
+  { boardSize: 3, winLength: 3 },
+  { boardSize: 7, winLength: 4 },
+])('$boardSize x $boardSize, $winLength in a row', rules => {
+  const games = recordGames(rules);
+
+  bench('cells', () => replayOnCells(rules, games));
+  bench('packed', () => replayOnEngine(rules, games));
+});
@@ -0,0 +1,46 @@
+import { bench, describe } from 'vitest';
+import { createInitialGameState, processMove } from '../../src/engine/game-engine';
+import { getLegalMoves } from '../../src/engine/move-validator';
+import { chooseMinimaxMove } from '../../src/ai/minimax-strategy';
+import { chooseHeuristicMove } from '../../src/ai/heuristic-strategy';
+import { getMoveHints } from '../../src/ai/game-solver';
+import { GameState } from '../../src/models/game-state';
+import { GameRules } from '../../src/models/game-rules';
+
+// Deterministic pseudo-random source, so every run searches the same position
+function seededRandom(seed: number): () => number {
+  let value = seed;
+  return () => {
+    value = (value * 1103515245 + 12345) % 2147483648;
+    return value / 2147483648;
+  };
+}
+
+// The same opening of `moves` random moves every time
+function playOpening(rules: GameRules, moves: number): GameState {
+  const random = seededRandom(7);
+  let state = createInitialGameState(rules);
+  for (let move = 0; move < moves; move++) {
+    const legal = getLegalMoves(state);
+    state = processMove(state, legal[Math.floor(random() * legal.length)]);
+  }
+  return state;
+}
+
+describe('computer players', () => {
+  const classic = createInitialGameState();
+  const gomoku = playOpening({ boardSize: 15, winLength: 5 }, 12);
+
+  bench('hints for the empty 3 x 3 board', () => {
+    getMoveHints(classic);
+  });
+  bench('minimax on the empty 3 x 3 board', () => {
+    chooseMinimaxMove(classic);
+  });
+  bench('minimax on a 15 x 15 opening', () => {
+    chooseMinimaxMove(gomoku);
+  });
+  bench('heuristic on a 15 x 15 opening', () => {
+    chooseHeuristicMove(gomoku, seededRandom(3));
+  });
+});
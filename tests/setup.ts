@@ -1,17 +1,22 @@
 import { vi } from "vitest";
 
-// Mock Canvas API for unit tests
-HTMLCanvasElement.prototype.getContext = vi.fn(() => ({
-  fillRect: vi.fn(),
-  clearRect: vi.fn(),
-  strokeRect: vi.fn(),
-  beginPath: vi.fn(),
-  moveTo: vi.fn(),
-  lineTo: vi.fn(),
-  arc: vi.fn(),
-  stroke: vi.fn(),
-  fill: vi.fn(),
-  strokeStyle: "",
-  lineWidth: 0,
-  lineCap: "butt" as CanvasLineCap,
-})) as any;
+// Mock Canvas API for unit tests; server tests run in the node environment without a DOM
+if (typeof HTMLCanvasElement !== "undefined") {
+  HTMLCanvasElement.prototype.getContext = vi.fn(() => ({
+    fillRect: vi.fn(),
+    clearRect: vi.fn(),
+    strokeRect: vi.fn(),
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    arc: vi.fn(),
+    stroke: vi.fn(),
+    fill: vi.fn(),
+    fillText: vi.fn(),
+    drawImage: vi.fn(),
+    setTransform: vi.fn(),
+    strokeStyle: "",
+    lineWidth: 0,
+    lineCap: "butt" as CanvasLineCap,
+  })) as any;
+}
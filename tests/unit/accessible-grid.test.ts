@@ -0,0 +1,75 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createAccessibleGrid,
+  updateAccessibleGrid,
+  formatCellLabel,
+  setActiveCell,
+} from '../../src/ui/accessible-grid';
+import { createDemoBoard } from '../../src/models/demo-board';
+
+describe('formatCellLabel', () => {
+  test('uses 1-based row and column with the piece', () => {
+    expect(formatCellLabel({ row: 1, col: 2 }, 'X')).toBe('row 2, column 3, X');
+  });
+
+  test('labels empty cells', () => {
+    expect(formatCellLabel({ row: 0, col: 0 }, null)).toBe('row 1, column 1, empty');
+  });
+
+  test('adds the hinted outcome', () => {
+    const position = { row: 0, col: 0 };
+    expect(formatCellLabel(position, null, { position, outcome: 'win', moves: 3 })).toBe(
+      'row 1, column 1, empty, win in 3'
+    );
+    expect(formatCellLabel(position, null, { position, outcome: 'draw', moves: 5 })).toBe(
+      'row 1, column 1, empty, draw'
+    );
+  });
+});
+
+describe('createAccessibleGrid', () => {
+  test('creates a labelled ARIA grid', () => {
+    const element = createAccessibleGrid();
+    expect(element.getAttribute('role')).toBe('grid');
+    expect(element.getAttribute('aria-label')).toBe('Game board');
+  });
+});
+
+describe('updateAccessibleGrid', () => {
+  test('mirrors the board as rows of grid cells', () => {
+    const element = createAccessibleGrid();
+    updateAccessibleGrid(element, createDemoBoard(), { row: 0, col: 0 });
+
+    const rows = element.querySelectorAll('[role="row"]');
+    expect(rows).toHaveLength(3);
+    const cells = element.querySelectorAll('[role="gridcell"]');
+    expect(cells).toHaveLength(9);
+    expect(cells[2].getAttribute('aria-label')).toBe('row 1, column 3, O');
+    expect(cells[1].getAttribute('aria-label')).toBe('row 1, column 2, empty');
+  });
+
+  test('marks the cursor cell as selected', () => {
+    const element = createAccessibleGrid();
+    updateAccessibleGrid(element, createDemoBoard(), { row: 2, col: 1 });
+
+    const selected = element.querySelectorAll('[aria-selected="true"]');
+    expect(selected).toHaveLength(1);
+    expect(selected[0].id).toBe('boardCell-2-1');
+  });
+
+  test('replaces previous cells on update', () => {
+    const element = createAccessibleGrid();
+    updateAccessibleGrid(element, createDemoBoard(), { row: 0, col: 0 });
+    updateAccessibleGrid(element, createDemoBoard(), { row: 0, col: 0 });
+
+    expect(element.querySelectorAll('[role="gridcell"]')).toHaveLength(9);
+  });
+});
+
+describe('setActiveCell', () => {
+  test('points aria-activedescendant at the cursor cell', () => {
+    const target = document.createElement('canvas');
+    setActiveCell(target, { row: 1, col: 2 });
+    expect(target.getAttribute('aria-activedescendant')).toBe('boardCell-1-2');
+  });
+});
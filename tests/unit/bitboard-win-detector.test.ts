@@ -0,0 +1,109 @@
+import { describe, test, expect } from 'vitest';
+import {
+  evaluateBitboard,
+  findBitboardLine,
+  isWinningPlacement,
+} from '../../src/engine/bitboard-win-detector';
+import { createInitialGameState, processMove } from '../../src/engine/game-engine';
+import { getLegalMoves } from '../../src/engine/move-validator';
+import { GAME_STATUS } from '../../src/constants/game-config';
+import { parseBoard } from '../../src/notation/position-notation';
+import { Board, CellPosition, LINE_DIRECTIONS } from '../../src/models/board';
+
+function board(text: string): Board {
+  const parsed = parseBoard(text);
+  if (!parsed.success) {
+    throw new Error(parsed.error);
+  }
+  return parsed.value;
+}
+
+// Reference: the cell-by-cell scan the engine used before boards were packed
+function scanForLine(position: Board, winLength: number): CellPosition[] | null {
+  const valueAt = ({ row, col }: CellPosition) =>
+    row >= 0 && row < position.size && col >= 0 && col < position.size
+      ? position.cells[row * position.size + col].value
+      : null;
+
+  for (const { position: start, value } of position.cells) {
+    if (value === null) {
+      continue;
+    }
+    for (const direction of LINE_DIRECTIONS) {
+      const line = Array.from({ length: winLength }, (_, step) => ({
+        row: start.row + direction.row * step,
+        col: start.col + direction.col * step,
+      }));
+      if (line.every(cell => valueAt(cell) === value)) {
+        return line;
+      }
+    }
+  }
+  return null;
+}
+
+describe('evaluateBitboard', () => {
+  test.each([
+    ['empty board', '.../.../...', 3, 'in-progress', null],
+    ['row', 'XXX/OO./...', 3, 'won', 'X'],
+    ['column', 'O.X/O.X/O..', 3, 'won', 'O'],
+    ['diagonal', 'X.O/.XO/..X', 3, 'won', 'X'],
+    ['anti-diagonal', 'X.O/XO./O..', 3, 'won', 'O'],
+    ['draw', 'XOX/XOO/OXX', 3, 'draw', null],
+    ['four on five', '...../.XXXX/..O../.O.O./O....', 4, 'won', 'X'],
+    ['anti-diagonal of four', '....X/...X./..X../.X.../O....', 4, 'won', 'X'],
+  ])('%s', (_name, text, winLength, status, winner) => {
+    const position = board(text);
+    expect(evaluateBitboard(position.bitboard, winLength)).toEqual({
+      status,
+      winner,
+      winningLine: scanForLine(position, winLength),
+    });
+  });
+});
+
+describe('findBitboardLine', () => {
+  test.each([
+    ['two rows', 'XXX/OOO/...', 3],
+    ['column before a later row', 'X.O/XOO/XXX', 3],
+    ['column before anti-diagonal from the same cell', '..X/.XX/X.X', 3],
+    ['five of six', 'OXXXXX/....../....../....../....../......', 5],
+  ])('reports the line the cell scan finds first: %s', (_name, text, winLength) => {
+    const position = board(text);
+    expect(findBitboardLine(position.bitboard, winLength)).toEqual(
+      scanForLine(position, winLength)
+    );
+  });
+
+  test('agrees with the cell scan over whole games', () => {
+    let seed = 5;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+    for (let game = 0; game < 20; game++) {
+      let state = createInitialGameState({ boardSize: 7, winLength: 4 });
+      while (state.status === GAME_STATUS.IN_PROGRESS) {
+        const moves = getLegalMoves(state);
+        state = processMove(state, moves[Math.floor(random() * moves.length)]);
+        expect(findBitboardLine(state.board.bitboard, 4)).toEqual(scanForLine(state.board, 4));
+      }
+    }
+  });
+});
+
+describe('isWinningPlacement', () => {
+  test('checks only the lines through the placed piece', () => {
+    const packed = board('XXX/OO./...').bitboard;
+
+    expect(isWinningPlacement(packed, { row: 0, col: 1 }, 3)).toBe(true);
+    expect(isWinningPlacement(packed, { row: 1, col: 0 }, 3)).toBe(false);
+    // No piece there at all
+    expect(isWinningPlacement(packed, { row: 2, col: 2 }, 3)).toBe(false);
+  });
+
+  test('finds lines shorter than the board', () => {
+    const packed = board('...../.OOOO/...../...../.....').bitboard;
+
+    expect(isWinningPlacement(packed, { row: 1, col: 4 }, 4)).toBe(true);
+    expect(isWinningPlacement(packed, { row: 1, col: 4 }, 5)).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createEmptyBitboard,
+  getBitboardMoves,
+  getBitboardPieces,
+  getBitboardValue,
+  isBitboardFull,
+  placeBitboardPiece,
+  removeBitboardPiece,
+} from '../../src/models/bitboard';
+import { parseBoard, serializeBoard } from '../../src/notation/position-notation';
+import { getLegalMoves } from '../../src/engine/move-validator';
+import { createInitialGameState, processMove } from '../../src/engine/game-engine';
+import { Board, createBoard } from '../../src/models/board';
+
+function board(text: string): Board {
+  const parsed = parseBoard(text);
+  if (!parsed.success) {
+    throw new Error(parsed.error);
+  }
+  return parsed.value;
+}
+
+describe('Board storage', () => {
+  test('round-trips a position', () => {
+    const original = board('X.O./.XO./..../O..X');
+    expect(serializeBoard(createBoard(original.bitboard))).toBe(serializeBoard(original));
+  });
+
+  test('packs each player into its own mask', () => {
+    const packed = board('XO./.../..X').bitboard;
+    expect(packed).toEqual({ size: 3, x: 0b100000001n, o: 0b10n });
+  });
+
+  test('handles the largest board', () => {
+    const empty = createEmptyBitboard(19);
+    const corner = placeBitboardPiece(empty, { row: 18, col: 18 }, 'O');
+
+    expect(getBitboardValue(corner, { row: 18, col: 18 })).toBe('O');
+    expect(createBoard(corner).cells[360].value).toBe('O');
+  });
+});
+
+describe('getBitboardValue', () => {
+  test('reads pieces and treats off-board cells as empty', () => {
+    const packed = board('X../.O./...').bitboard;
+
+    expect(getBitboardValue(packed, { row: 0, col: 0 })).toBe('X');
+    expect(getBitboardValue(packed, { row: 1, col: 1 })).toBe('O');
+    expect(getBitboardValue(packed, { row: 2, col: 2 })).toBeNull();
+    expect(getBitboardValue(packed, { row: 0, col: 3 })).toBeNull();
+    expect(getBitboardValue(packed, { row: -1, col: 0 })).toBeNull();
+  });
+});
+
+describe('placeBitboardPiece', () => {
+  test('returns a new bitboard and leaves the original alone', () => {
+    const empty = createEmptyBitboard(3);
+    const placed = placeBitboardPiece(empty, { row: 1, col: 2 }, 'X');
+
+    expect(getBitboardValue(placed, { row: 1, col: 2 })).toBe('X');
+    expect(getBitboardValue(empty, { row: 1, col: 2 })).toBeNull();
+  });
+});
+
+describe('removeBitboardPiece', () => {
+  test('empties the cell whoever held it', () => {
+    const packed = board('XO./.../...').bitboard;
+
+    expect(removeBitboardPiece(packed, { row: 0, col: 0 })).toEqual({ size: 3, x: 0n, o: 0b10n });
+    expect(removeBitboardPiece(packed, { row: 0, col: 1 })).toEqual({ size: 3, x: 1n, o: 0n });
+  });
+});
+
+describe('getBitboardMoves', () => {
+  test('lists empty cells in the same order as getLegalMoves', () => {
+    const text = 'X.O/.X./O..';
+    const state = { ...createInitialGameState(), board: board(text) };
+
+    expect(getBitboardMoves(board(text).bitboard)).toEqual(getLegalMoves(state));
+  });
+
+  test('is empty once the board is full', () => {
+    const full = board('XOX/XOO/OXX').bitboard;
+
+    expect(getBitboardMoves(full)).toEqual([]);
+    expect(isBitboardFull(full)).toBe(true);
+    expect(isBitboardFull(createEmptyBitboard(3))).toBe(false);
+  });
+});
+
+describe('getBitboardPieces', () => {
+  test("lists one player's cells in row-major order", () => {
+    const packed = board('X.O/.X./O.X').bitboard;
+
+    expect(getBitboardPieces(packed, 'O')).toEqual([
+      { row: 0, col: 2 },
+      { row: 2, col: 0 },
+    ]);
+    expect(getBitboardPieces(packed, 'X')).toHaveLength(3);
+  });
+});
+
+describe('boards in play', () => {
+  test('a move sets its bit and links the placement', () => {
+    const initial = createInitialGameState();
+    const state = processMove(processMove(initial, { row: 1, col: 1 }), { row: 0, col: 2 });
+
+    expect(state.board.bitboard).toEqual({ size: 3, x: 1n << 4n, o: 1n << 2n });
+    expect(state.board.lastPlacement).toEqual({
+      position: { row: 0, col: 2 },
+      placedAt: 2,
+      previous: { position: { row: 1, col: 1 }, placedAt: 1, previous: null },
+    });
+    expect(initial.board.bitboard).toEqual(createEmptyBitboard(3));
+  });
+
+  test('vanishing pieces leave the bitboard', () => {
+    let state = createInitialGameState({ boardSize: 3, winLength: 3, variant: 'vanishing' });
+    for (const [row, col] of [[0, 0], [1, 0], [0, 1], [1, 1], [2, 2], [2, 0], [0, 2]]) {
+      state = processMove(state, { row, col });
+    }
+
+    expect(getBitboardValue(state.board.bitboard, { row: 0, col: 0 })).toBeNull();
+    expect(getBitboardPieces(state.board.bitboard, 'X')).toHaveLength(3);
+    expect(state.board.cells[0]).toEqual({ value: null, position: { row: 0, col: 0 } });
+  });
+});
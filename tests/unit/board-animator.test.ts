@@ -0,0 +1,170 @@
+import { describe, test, expect, vi } from "vitest";
+import {
+  createBoardAnimator,
+  findNewPiece,
+  planAnimation,
+  getAnimationDuration,
+  getAnimationEffects,
+  FrameScheduler,
+} from "../../src/renderer/board-animator";
+import { parseBoard } from "../../src/notation/position-notation";
+import { Board, createBoardFromCells } from "../../src/models/board";
+import { ANIMATION_CONFIG } from "../../src/constants/render-config";
+
+function board(text: string): Board {
+  const parsed = parseBoard(text);
+  if (!parsed.success) {
+    throw new Error(parsed.error);
+  }
+  return parsed.value;
+}
+
+// The same pieces, with placement order by cell index
+function withOrder(board: Board, order: Record<number, number>): Board {
+  return createBoardFromCells({
+    size: board.size,
+    cells: board.cells.map((cell, index) =>
+      order[index] === undefined ? cell : { ...cell, placedAt: order[index] },
+    ),
+  });
+}
+
+// Frames run only when the test calls tick()
+function createManualScheduler() {
+  let callbacks = new Map<number, (time: number) => void>();
+  let nextId = 1;
+  const scheduler: FrameScheduler = {
+    requestFrame: (callback) => {
+      callbacks.set(nextId, callback);
+      return nextId++;
+    },
+    cancelFrame: (id) => {
+      callbacks.delete(id);
+    },
+  };
+  const tick = (time: number) => {
+    const due = callbacks;
+    callbacks = new Map();
+    due.forEach((callback) => callback(time));
+  };
+  return { scheduler, tick };
+}
+
+describe("findNewPiece", () => {
+  test("finds the single placed piece", () => {
+    expect(findNewPiece(board("X../.../..."), board("X../.O./..."))).toEqual({
+      row: 1,
+      col: 1,
+    });
+  });
+
+  test("finds a piece placed as an older one vanishes", () => {
+    const previous = withOrder(board("XX./O../..."), { 0: 1, 3: 2, 1: 3 });
+    const next = withOrder(board(".X./O../..X"), { 1: 3, 3: 2, 8: 4 });
+
+    expect(findNewPiece(previous, next)).toEqual({ row: 2, col: 2 });
+    // Undoing it brings the older piece back, which is not a placement
+    expect(findNewPiece(next, previous)).toBeNull();
+  });
+
+  test("ignores removals and multi-piece changes", () => {
+    expect(findNewPiece(board("X../.../..."), board(".../.../..."))).toBeNull();
+    expect(findNewPiece(board(".../.../..."), board("X../.O./..."))).toBeNull();
+    expect(findNewPiece(board("X../.../..."), board("X../.../..."))).toBeNull();
+  });
+});
+
+describe("planAnimation", () => {
+  test("strikes through only when the new piece completes a line", () => {
+    const winning = planAnimation(board("XX./OO./..."), board("XXX/OO./..."), 3);
+    const quiet = planAnimation(board("X../.../..."), board("X../.O./..."), 3);
+
+    expect(winning).toEqual({ newPiece: { row: 0, col: 2 }, strike: true });
+    expect(quiet.strike).toBe(false);
+    expect(getAnimationDuration(winning)).toBe(
+      ANIMATION_CONFIG.PIECE_DURATION_MS + ANIMATION_CONFIG.STRIKE_DURATION_MS,
+    );
+  });
+
+  test("has nothing to animate without a new piece", () => {
+    const plan = planAnimation(board("X../.../..."), board(".../.../..."), 3);
+    expect(getAnimationDuration(plan)).toBe(0);
+  });
+});
+
+describe("getAnimationEffects", () => {
+  const plan = { newPiece: { row: 0, col: 0 }, strike: true };
+
+  test("draws the piece before the strike", () => {
+    const halfway = getAnimationEffects(plan, ANIMATION_CONFIG.PIECE_DURATION_MS / 2);
+    expect(halfway.pieceProgress).toBeCloseTo(0.5);
+    expect(halfway.strikeProgress).toBe(0);
+
+    const striking = getAnimationEffects(
+      plan,
+      ANIMATION_CONFIG.PIECE_DURATION_MS + ANIMATION_CONFIG.STRIKE_DURATION_MS / 2,
+    );
+    expect(striking.pieceProgress).toBe(1);
+    expect(striking.strikeProgress).toBeCloseTo(0.5);
+  });
+});
+
+describe("createBoardAnimator", () => {
+  test("advances frame by frame and resolves at the end", async () => {
+    const { scheduler, tick } = createManualScheduler();
+    const onFrame = vi.fn();
+    const animator = createBoardAnimator(onFrame, {
+      scheduler,
+      prefersReducedMotion: () => false,
+    });
+    const done = vi.fn();
+
+    animator
+      .animate(board(".../.../..."), board("X../.../..."), 3)
+      .then(done);
+    expect(animator.getEffects().pieceProgress).toBe(0);
+
+    tick(1000);
+    tick(1000 + ANIMATION_CONFIG.PIECE_DURATION_MS / 2);
+    expect(animator.getEffects().pieceProgress).toBeCloseTo(0.5);
+
+    tick(1000 + ANIMATION_CONFIG.PIECE_DURATION_MS);
+    await Promise.resolve();
+
+    expect(done).toHaveBeenCalledOnce();
+    expect(animator.getEffects()).toEqual({});
+    expect(onFrame).toHaveBeenCalledTimes(4);
+  });
+
+  test("skips animation when reduced motion is preferred", async () => {
+    const { scheduler } = createManualScheduler();
+    const requestFrame = vi.spyOn(scheduler, "requestFrame");
+    const animator = createBoardAnimator(vi.fn(), {
+      scheduler,
+      prefersReducedMotion: () => true,
+    });
+
+    await animator.animate(board(".../.../..."), board("X../.../..."), 3);
+
+    expect(requestFrame).not.toHaveBeenCalled();
+    expect(animator.getEffects()).toEqual({});
+  });
+
+  test("a new animation settles the previous one", async () => {
+    const { scheduler } = createManualScheduler();
+    const animator = createBoardAnimator(vi.fn(), {
+      scheduler,
+      prefersReducedMotion: () => false,
+    });
+    const first = vi.fn();
+
+    animator
+      .animate(board(".../.../..."), board("X../.../..."), 3)
+      .then(first);
+    animator.animate(board("X../.../..."), board("X../.O./..."), 3);
+    await Promise.resolve();
+
+    expect(first).toHaveBeenCalledOnce();
+    expect(animator.getEffects().newPiece).toEqual({ row: 1, col: 1 });
+  });
+});
@@ -0,0 +1,367 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import { BoardRenderer } from '../../src/renderer/renderer';
+import { createCanvasRenderer } from '../../src/renderer/canvas-renderer';
+import { createSvgRenderer } from '../../src/renderer/svg-renderer';
+import { createDomRenderer } from '../../src/renderer/dom-renderer';
+import { createRenderer, parseRendererBackend } from '../../src/renderer/renderer-factory';
+import { createEmptyBoard, setCellValue, Board } from '../../src/models/board';
+import { getGridCellId } from '../../src/ui/accessible-grid';
+import { getCellSize } from '../../src/constants/render-config';
+import { THEME_PRESETS, PIECE_STYLES, withPieceStyle } from '../../src/models/theme';
+import { CellHint } from '../../src/ai/game-solver';
+
+// X in the centre, O top-left
+function createPlayedBoard(size = 3): Board {
+  const board = setCellValue(createEmptyBoard(size), { row: 1, col: 1 }, 'X');
+  return setCellValue(board, { row: 0, col: 0 }, 'O');
+}
+
+// Middle row of X completed on a 3x3 board
+function createWonBoard(): Board {
+  const board = setCellValue(createPlayedBoard(), { row: 1, col: 0 }, 'X');
+  return setCellValue(board, { row: 1, col: 2 }, 'X');
+}
+
+// A win, a draw and a loss on three of the empty cells of the played board
+const HINTS: CellHint[] = [
+  { position: { row: 0, col: 1 }, outcome: 'win', moves: 2 },
+  { position: { row: 0, col: 2 }, outcome: 'draw', moves: 4 },
+  { position: { row: 2, col: 2 }, outcome: 'loss', moves: 1 },
+];
+
+function cellElement(renderer: BoardRenderer, row: number, col: number): Element | null {
+  return renderer.element.querySelector(`#${getGridCellId({ row, col })}`);
+}
+
+// The same contract for every backend
+describe.each([
+  ['canvas', createCanvasRenderer],
+  ['svg', createSvgRenderer],
+  ['dom', createDomRenderer],
+] as const)('%s renderer', (_name, createBackend) => {
+  let renderer: BoardRenderer;
+  let container: HTMLDivElement;
+
+  afterEach(() => {
+    renderer.dispose();
+    container.remove();
+  });
+
+  function mountRenderer() {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    renderer = createBackend();
+    renderer.mount(container);
+  }
+
+  test('mount places the element in the container', () => {
+    mountRenderer();
+    expect(renderer.element.parentElement).toBe(container);
+  });
+
+  test('labels every cell for screen readers', () => {
+    mountRenderer();
+    renderer.render(createPlayedBoard());
+
+    expect(cellElement(renderer, 1, 1)?.getAttribute('aria-label')).toBe('row 2, column 2, X');
+    expect(cellElement(renderer, 0, 0)?.getAttribute('aria-label')).toBe('row 1, column 1, O');
+    expect(cellElement(renderer, 2, 2)?.getAttribute('aria-label')).toBe(
+      'row 3, column 3, empty'
+    );
+  });
+
+  test('marks the cursor cell as selected', () => {
+    mountRenderer();
+    renderer.render(createPlayedBoard(), { cursor: { row: 2, col: 1 } });
+
+    expect(cellElement(renderer, 2, 1)?.getAttribute('aria-selected')).toBe('true');
+    expect(cellElement(renderer, 1, 1)?.hasAttribute('aria-selected')).toBe(false);
+  });
+
+  test('follows the board size between renders', () => {
+    mountRenderer();
+    renderer.render(createPlayedBoard(3));
+    renderer.render(createPlayedBoard(5));
+
+    expect(cellElement(renderer, 4, 4)).not.toBeNull();
+  });
+
+  test('hit tests against the last rendered board', () => {
+    mountRenderer();
+    renderer.render(createPlayedBoard(5));
+    const cellSize = getCellSize(5);
+
+    expect(renderer.hitTest({ clientX: cellSize * 3.5, clientY: cellSize * 0.5 })).toEqual({
+      row: 0,
+      col: 3,
+    });
+    expect(renderer.hitTest({ clientX: cellSize * 5.5, clientY: 0 })).toBeNull();
+  });
+
+  test('draws every effect without errors', () => {
+    mountRenderer();
+    const board = createWonBoard();
+
+    expect(() =>
+      renderer.render(board, {
+        cursor: { row: 0, col: 0 },
+        effects: {
+          winLength: 3,
+          newPiece: { row: 1, col: 2 },
+          pieceProgress: 0.5,
+          strikeProgress: 0.5,
+          preview: { position: { row: 2, col: 2 }, symbol: 'O' },
+          rejectedCell: { row: 0, col: 0 },
+        },
+        theme: withPieceStyle(THEME_PRESETS.DARK, PIECE_STYLES.emoji),
+      })
+    ).not.toThrow();
+  });
+
+  test('describes hinted cells to screen readers', () => {
+    mountRenderer();
+    renderer.render(createPlayedBoard(), { effects: { hints: HINTS } });
+
+    expect(cellElement(renderer, 0, 1)?.getAttribute('aria-label')).toBe(
+      'row 1, column 2, empty, win in 2'
+    );
+    expect(cellElement(renderer, 0, 2)?.getAttribute('aria-label')).toBe(
+      'row 1, column 3, empty, draw'
+    );
+    expect(cellElement(renderer, 2, 2)?.getAttribute('aria-label')).toBe(
+      'row 3, column 3, empty, loss in 1'
+    );
+    expect(cellElement(renderer, 1, 0)?.getAttribute('aria-label')).toBe(
+      'row 2, column 1, empty'
+    );
+  });
+
+  test('dispose removes the element', () => {
+    mountRenderer();
+    renderer.dispose();
+    expect(container.contains(renderer.element)).toBe(false);
+  });
+});
+
+describe('svg renderer', () => {
+  test('draws pieces, grid and strike as classed elements', () => {
+    const renderer = createSvgRenderer();
+    const board = createWonBoard();
+    renderer.render(board, { effects: { winLength: 3 } });
+
+    expect(renderer.element.querySelectorAll('.board-piece-x')).toHaveLength(3);
+    expect(renderer.element.querySelectorAll('.board-piece-o')).toHaveLength(1);
+    expect(renderer.element.querySelector('.board-grid')).not.toBeNull();
+    expect(renderer.element.querySelector('.board-strike')).not.toBeNull();
+  });
+
+  test('draws the cursor only while focused', () => {
+    const renderer = createSvgRenderer();
+    document.body.appendChild(renderer.element);
+    renderer.render(createPlayedBoard(), { cursor: { row: 0, col: 0 } });
+    expect(renderer.element.querySelector('.board-cursor')).toBeNull();
+
+    (renderer.element as SVGSVGElement).focus();
+    renderer.render(createPlayedBoard(), { cursor: { row: 0, col: 0 } });
+    expect(renderer.element.querySelector('.board-cursor')).not.toBeNull();
+    renderer.dispose();
+  });
+
+  test('a partly drawn O reveals part of its circle', () => {
+    const renderer = createSvgRenderer();
+    renderer.render(createPlayedBoard(), {
+      effects: { newPiece: { row: 0, col: 0 }, pieceProgress: 0.25 },
+    });
+
+    const circle = renderer.element.querySelector('circle.board-piece-o');
+    expect(circle?.getAttribute('stroke-dasharray')).toBe('0.25 1');
+  });
+
+  test('highlights active sub-boards and marks claimed ones', () => {
+    const renderer = createSvgRenderer();
+    renderer.render(createEmptyBoard(9), {
+      effects: {
+        subBoards: {
+          size: 3,
+          active: [{ row: 0, col: 1 }, { row: 2, col: 2 }],
+          claimed: [{ position: { row: 1, col: 1 }, symbol: 'X' }],
+        },
+      },
+    });
+
+    expect(renderer.element.querySelectorAll('.board-active')).toHaveLength(2);
+    expect(renderer.element.querySelector('.board-sub-grid')).not.toBeNull();
+    expect(renderer.element.querySelectorAll('.board-claimed')).toHaveLength(1);
+    expect(renderer.element.querySelectorAll('.board-piece-x')).toHaveLength(1);
+  });
+
+  test('tints each winning cell', () => {
+    const renderer = createSvgRenderer();
+    renderer.render(createEmptyBoard(8), {
+      effects: { winningCells: [{ row: 0, col: 0 }, { row: 4, col: 4 }] },
+    });
+
+    expect(renderer.element.querySelectorAll('.board-winning-cell')).toHaveLength(2);
+  });
+
+  test('tints and labels hinted cells', () => {
+    const renderer = createSvgRenderer();
+    renderer.render(createPlayedBoard(), { effects: { hints: HINTS } });
+
+    const hints = [...renderer.element.querySelectorAll('.board-hint')];
+    expect(hints.map(hint => hint.querySelector('text')?.textContent)).toEqual(['W2', 'D', 'L1']);
+    expect(renderer.element.querySelector('.board-hint-win rect')?.getAttribute('opacity')).toBe(
+      String(0.55 / 2)
+    );
+  });
+
+  test('dims pieces that are about to vanish', () => {
+    const renderer = createSvgRenderer();
+    renderer.render(createPlayedBoard(), {
+      effects: { fadingCells: [{ row: 0, col: 0 }] },
+    });
+
+    expect(renderer.element.querySelector('.board-piece-o')?.getAttribute('opacity')).not.toBeNull();
+    expect(renderer.element.querySelector('.board-piece-x')?.getAttribute('opacity')).toBeNull();
+  });
+});
+
+describe('dom renderer', () => {
+  test('renders one button per cell showing its piece', () => {
+    const renderer = createDomRenderer();
+    renderer.render(createPlayedBoard());
+
+    const buttons = renderer.element.querySelectorAll('button');
+    expect(buttons).toHaveLength(9);
+    expect(buttons[4].textContent).toBe('X');
+    expect(buttons[4].classList.contains('piece-x')).toBe(true);
+    expect(buttons[0].textContent).toBe('O');
+  });
+
+  test('only the cursor cell is in the tab order', () => {
+    const renderer = createDomRenderer();
+    renderer.render(createPlayedBoard(), { cursor: { row: 2, col: 0 } });
+
+    const tabbable = [...renderer.element.querySelectorAll('button')].filter(
+      button => button.tabIndex === 0
+    );
+    expect(tabbable.map(button => button.id)).toEqual([getGridCellId({ row: 2, col: 0 })]);
+  });
+
+  test('moves focus with the cursor while the board has it', () => {
+    const renderer = createDomRenderer();
+    document.body.appendChild(renderer.element);
+    renderer.render(createPlayedBoard(), { cursor: { row: 0, col: 0 } });
+    renderer.element.querySelector('button')!.focus();
+
+    renderer.render(createPlayedBoard(), { cursor: { row: 0, col: 1 } });
+
+    expect(document.activeElement?.id).toBe(getGridCellId({ row: 0, col: 1 }));
+    renderer.dispose();
+  });
+
+  test('keeps the cell buttons across renders of the same size', () => {
+    const renderer = createDomRenderer();
+    renderer.render(createEmptyBoard(3));
+    const first = renderer.element.querySelector('button');
+
+    renderer.render(createPlayedBoard());
+
+    expect(renderer.element.querySelector('button')).toBe(first);
+  });
+
+  test('shows the hover preview and winning cells as classes', () => {
+    const renderer = createDomRenderer();
+    const board = createWonBoard();
+    renderer.render(board, {
+      effects: { winLength: 3, preview: { position: { row: 2, col: 2 }, symbol: 'O' } },
+    });
+
+    const buttons = renderer.element.querySelectorAll('button');
+    expect(buttons[8].classList.contains('preview')).toBe(true);
+    expect(buttons[8].textContent).toBe('O');
+    expect([...buttons].filter(button => button.classList.contains('winning'))).toHaveLength(3);
+  });
+
+  test('marks cells by the sub-board they belong to', () => {
+    const renderer = createDomRenderer();
+    renderer.render(createEmptyBoard(9), {
+      effects: {
+        subBoards: {
+          size: 3,
+          active: [{ row: 0, col: 1 }],
+          claimed: [{ position: { row: 2, col: 0 }, symbol: 'O' }],
+        },
+      },
+    });
+
+    const buttons = [...renderer.element.querySelectorAll('button')];
+    const withClass = (name: string) => buttons.filter(button => button.classList.contains(name));
+    expect(withClass('active-board').map(button => button.id)).toContain(
+      getGridCellId({ row: 2, col: 5 })
+    );
+    expect(withClass('active-board')).toHaveLength(9);
+    expect(withClass('claimed-o')).toHaveLength(9);
+    expect(buttons[8 * 9 + 0].classList.contains('claimed-o')).toBe(true);
+    // Two inner edges in each direction, across all nine rows or columns
+    expect(withClass('sub-board-edge-right')).toHaveLength(18);
+    expect(withClass('sub-board-edge-bottom')).toHaveLength(18);
+  });
+
+  test('marks pieces that are about to vanish', () => {
+    const renderer = createDomRenderer();
+    renderer.render(createPlayedBoard(), {
+      effects: { fadingCells: [{ row: 0, col: 0 }, { row: 2, col: 2 }] },
+    });
+
+    // The empty corner has no piece to fade
+    const vanishing = [...renderer.element.querySelectorAll('button.vanishing')];
+    expect(vanishing.map(button => button.id)).toEqual([getGridCellId({ row: 0, col: 0 })]);
+  });
+
+  test('tints and labels hinted cells', () => {
+    const renderer = createDomRenderer();
+    renderer.render(createPlayedBoard(), { effects: { hints: HINTS } });
+
+    const hinted = [...renderer.element.querySelectorAll<HTMLButtonElement>('button.hinted')];
+    expect(hinted.map(button => button.textContent)).toEqual(['W2', 'D', 'L1']);
+    expect(hinted[2].style.getPropertyValue('--hint-alpha')).toBe('55%');
+
+    renderer.render(createPlayedBoard());
+    expect(renderer.element.querySelector('button.hinted')).toBeNull();
+    expect(renderer.element.querySelectorAll('button')[1].textContent).toBe('');
+  });
+
+  test('marks winning cells that are not a straight line', () => {
+    const renderer = createDomRenderer();
+    renderer.render(createEmptyBoard(8), {
+      effects: { winningCells: [{ row: 0, col: 1 }, { row: 4, col: 5 }] },
+    });
+
+    const winning = [...renderer.element.querySelectorAll('button.winning')];
+    expect(winning.map(button => button.id)).toEqual([
+      getGridCellId({ row: 0, col: 1 }),
+      getGridCellId({ row: 4, col: 5 }),
+    ]);
+  });
+});
+
+describe('createRenderer', () => {
+  test('creates the requested backend', () => {
+    expect(createRenderer('canvas').element.tagName).toBe('CANVAS');
+    expect(createRenderer('svg').element.tagName).toBe('svg');
+    expect(createRenderer('dom').element.tagName).toBe('DIV');
+  });
+});
+
+describe('parseRendererBackend', () => {
+  test('accepts known backends', () => {
+    expect(parseRendererBackend('svg')).toBe('svg');
+    expect(parseRendererBackend('dom')).toBe('dom');
+  });
+
+  test('falls back to canvas', () => {
+    expect(parseRendererBackend(null)).toBe('canvas');
+    expect(parseRendererBackend('webgl')).toBe('canvas');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, test, expect } from 'vitest';
+import {
+  BOARD_TRANSFORMS,
+  canonicalizeBoard,
+  getCanonicalKey,
+  getPositionKey,
+  invertTransform,
+  toOriginalPosition,
+  transformBoard,
+  transformPosition,
+} from '../../src/engine/board-symmetry';
+import { createInitialGameState, processMove } from '../../src/engine/game-engine';
+import { parseBoard, serializeBoard } from '../../src/notation/position-notation';
+import { Board, getCellValue } from '../../src/models/board';
+
+function board(text: string): Board {
+  const parsed = parseBoard(text);
+  if (!parsed.success) {
+    throw new Error(parsed.error);
+  }
+  return parsed.value;
+}
+
+describe('transformBoard', () => {
+  test('rotates clockwise and mirrors', () => {
+    const original = board('XO./.../...');
+
+    expect(serializeBoard(transformBoard(original, 'rotate90'))).toBe('..X/..O/...');
+    expect(serializeBoard(transformBoard(original, 'rotate180'))).toBe('.../.../.OX');
+    expect(serializeBoard(transformBoard(original, 'flipHorizontal'))).toBe('.OX/.../...');
+    expect(serializeBoard(transformBoard(original, 'flipDiagonal'))).toBe('X../O../...');
+    expect(serializeBoard(transformBoard(original, 'flipAntiDiagonal'))).toBe(
+      '.../..O/..X'
+    );
+  });
+
+  test('keeps cells in row-major order with matching positions', () => {
+    const rotated = transformBoard(board('X..O/..../..../...X'), 'rotate270');
+    rotated.cells.forEach((cell, index) => {
+      expect(cell.position).toEqual({ row: Math.floor(index / 4), col: index % 4 });
+    });
+  });
+
+  test.each(BOARD_TRANSFORMS)('%s is undone by its inverse on any size', transform => {
+    const original = board('XO..O/.X.../..O../...X./O....');
+    const restored = transformBoard(
+      transformBoard(original, transform),
+      invertTransform(transform)
+    );
+    expect(serializeBoard(restored)).toBe(serializeBoard(original));
+  });
+});
+
+describe('canonicalizeBoard', () => {
+  test('gives every symmetric board the same key', () => {
+    const original = board('X../.O./..X');
+    const keys = BOARD_TRANSFORMS.map(transform =>
+      getCanonicalKey(transformBoard(original, transform))
+    );
+    expect(new Set(keys).size).toBe(1);
+    expect(getCanonicalKey(board('XX./.../...'))).not.toBe(getCanonicalKey(original));
+  });
+
+  test('keeps the orientation of a board that is already canonical', () => {
+    const canonical = canonicalizeBoard(board('.../.../...'));
+    expect(canonical.transform).toBe('identity');
+    expect(canonical.key).toBe('.../.../...');
+  });
+
+  test('maps moves on the canonical board back to the original', () => {
+    const original = board('..../..../..../X...');
+    const canonical = canonicalizeBoard(original);
+    const corner = canonical.board.cells.find(cell => cell.value === 'X');
+
+    expect(corner).toBeDefined();
+    const restored = toOriginalPosition(corner!.position, canonical);
+    expect(getCellValue(original, restored)).toBe('X');
+    expect(restored).toEqual({ row: 3, col: 0 });
+  });
+
+  test('transformPosition agrees with transformBoard', () => {
+    const original = board('X.../..O./..../....');
+    BOARD_TRANSFORMS.forEach(transform => {
+      const moved = transformPosition({ row: 1, col: 2 }, transform, 4);
+      expect(getCellValue(transformBoard(original, transform), moved)).toBe('O');
+    });
+  });
+});
+
+describe('getPositionKey', () => {
+  test('is shared by symmetric positions with the same player to move', () => {
+    const start = createInitialGameState();
+    const topLeft = processMove(start, { row: 0, col: 0 });
+    const bottomRight = processMove(start, { row: 2, col: 2 });
+    const edge = processMove(start, { row: 0, col: 1 });
+
+    expect(getPositionKey(topLeft)).toBe(getPositionKey(bottomRight));
+    expect(getPositionKey(topLeft)).not.toBe(getPositionKey(edge));
+  });
+
+  test('tells rules and the player to move apart', () => {
+    const classic = createInitialGameState();
+    const misere = createInitialGameState({ boardSize: 3, winLength: 3, variant: 'misere' });
+
+    expect(getPositionKey(classic)).not.toBe(getPositionKey(misere));
+    expect(getPositionKey(classic)).not.toBe(
+      getPositionKey(createInitialGameState(undefined, 'O'))
+    );
+  });
+});
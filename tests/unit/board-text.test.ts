@@ -0,0 +1,37 @@
+import { describe, test, expect } from 'vitest';
+import { formatBoardText } from '../../src/cli/board-text';
+import { createEmptyBoard, setCellValue } from '../../src/models/board';
+import { createDemoBoard } from '../../src/models/demo-board';
+
+describe('formatBoardText', () => {
+  test('draws an empty board with labels', () => {
+    expect(formatBoardText(createEmptyBoard(3), 'ascii')).toBe(
+      ['   a   b   c', '1    |   |', '  ---+---+---', '2    |   |', '  ---+---+---', '3    |   |'].join('\n')
+    );
+  });
+
+  test('draws pieces with box-drawing characters by default', () => {
+    const board = setCellValue(
+      setCellValue(createEmptyBoard(3), { row: 0, col: 0 }, 'X'),
+      { row: 1, col: 1 },
+      'O'
+    );
+
+    const lines = formatBoardText(board).split('\n');
+    expect(lines[1]).toBe('1  X │   │');
+    expect(lines[2]).toBe('  ───┼───┼───');
+    expect(lines[3]).toBe('2    │ O │');
+  });
+
+  test('pads row numbers on boards with two-digit rows', () => {
+    const lines = formatBoardText(createEmptyBoard(10), 'ascii').split('\n');
+    expect(lines[0].startsWith('    a   b')).toBe(true);
+    expect(lines[1].startsWith(' 1 ')).toBe(true);
+    expect(lines[lines.length - 1].startsWith('10 ')).toBe(true);
+  });
+
+  test('has one row line per board row', () => {
+    const lines = formatBoardText(createDemoBoard()).split('\n');
+    expect(lines).toHaveLength(1 + 3 + 2);
+  });
+});
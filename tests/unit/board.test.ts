@@ -1,10 +1,21 @@
 import { describe, test, expect } from "vitest";
-import { isValidBoard, Board } from "../../src/models/board";
+import {
+  isValidBoard,
+  SerializedBoard,
+  createBoardFromCells,
+  createEmptyBoard,
+  getCellValue,
+  setCellValue,
+} from "../../src/models/board";
 import { createDemoBoard } from "../../src/models/demo-board";
+import {
+  createInitialGameState,
+  processMove,
+} from "../../src/engine/game-engine";
 
 describe("Board validation", () => {
   test("valid 3x3 board passes validation", () => {
-    const board: Board = {
+    const board: SerializedBoard = {
       size: 3,
       cells: Array.from({ length: 9 }, (_, i) => ({
         value: null,
@@ -16,7 +27,7 @@ describe("Board validation", () => {
   });
 
   test("board with wrong cell count fails validation", () => {
-    const board: Board = { size: 3, cells: [] };
+    const board: SerializedBoard = { size: 3, cells: [] };
     expect(isValidBoard(board)).toBe(false);
   });
 
@@ -26,3 +37,100 @@ describe("Board validation", () => {
     expect(board.cells).toHaveLength(9);
   });
 });
+
+describe("getCellValue", () => {
+  test("returns value at position", () => {
+    const board = createDemoBoard();
+    expect(getCellValue(board, { row: 0, col: 0 })).toBe("X");
+    expect(getCellValue(board, { row: 0, col: 2 })).toBe("O");
+    expect(getCellValue(board, { row: 0, col: 1 })).toBeNull();
+  });
+
+  test("returns null outside the board", () => {
+    const board = createEmptyBoard(3);
+    expect(getCellValue(board, { row: 3, col: 0 })).toBeNull();
+    expect(getCellValue(board, { row: 0, col: -1 })).toBeNull();
+  });
+});
+
+describe("cells", () => {
+  test("are a row-major view of the pieces, with placement order", () => {
+    let state = createInitialGameState();
+    state = processMove(state, { row: 2, col: 1 });
+    state = processMove(state, { row: 0, col: 0 });
+
+    expect(state.board.cells).toHaveLength(9);
+    expect(state.board.cells[7]).toEqual({
+      value: "X",
+      position: { row: 2, col: 1 },
+      placedAt: 1,
+    });
+    expect(state.board.cells[0].placedAt).toBe(2);
+    expect(state.board.cells[1]).toEqual({
+      value: null,
+      position: { row: 0, col: 1 },
+    });
+  });
+
+  test("are built once, on first read", () => {
+    const board = processMove(createInitialGameState(), {
+      row: 1,
+      col: 1,
+    }).board;
+    expect(board.cells).toBe(board.cells);
+  });
+
+  test("are what a board turns into as JSON", () => {
+    const board = setCellValue(createEmptyBoard(3), { row: 0, col: 1 }, "O");
+    const json = JSON.parse(JSON.stringify(board));
+
+    expect(json).toEqual({ size: 3, cells: board.cells });
+    expect(createBoardFromCells(json)).toEqual(board);
+  });
+});
+
+describe("setCellValue", () => {
+  test("returns a new board and leaves the original alone", () => {
+    const empty = createEmptyBoard(3);
+    const board = setCellValue(empty, { row: 1, col: 2 }, "X");
+
+    expect(getCellValue(board, { row: 1, col: 2 })).toBe("X");
+    expect(getCellValue(empty, { row: 1, col: 2 })).toBeNull();
+    expect(
+      getCellValue(setCellValue(board, { row: 1, col: 2 }, null), {
+        row: 1,
+        col: 2,
+      }),
+    ).toBeNull();
+  });
+
+  test("replaces a played piece without its placement order", () => {
+    const played = processMove(createInitialGameState(), {
+      row: 0,
+      col: 0,
+    }).board;
+    const board = setCellValue(played, { row: 0, col: 0 }, "O");
+
+    expect(board.cells[0]).toEqual({
+      value: "O",
+      position: { row: 0, col: 0 },
+    });
+    expect(board.lastPlacement).toBeNull();
+  });
+});
+
+describe("createBoardFromCells", () => {
+  test("reads cells in any order and keeps placement order", () => {
+    const played = processMove(
+      processMove(createInitialGameState(), { row: 2, col: 2 }),
+      { row: 0, col: 1 },
+    ).board;
+    const board = createBoardFromCells({
+      size: 3,
+      cells: [...played.cells].reverse(),
+    });
+
+    expect(board.bitboard).toEqual(played.bitboard);
+    expect(board.cells).toEqual(played.cells);
+  });
+});
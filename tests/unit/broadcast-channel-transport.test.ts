@@ -0,0 +1,49 @@
+import { describe, test, expect, vi } from 'vitest';
+import { createBroadcastChannelTransport } from '../../src/network/broadcast-channel-transport';
+import { DEFAULT_GAME_RULES } from '../../src/models/game-rules';
+
+const rules = DEFAULT_GAME_RULES;
+
+// Minimal stand-in; jsdom has no BroadcastChannel
+function createFakeChannel() {
+  return {
+    onmessage: null as ((event: MessageEvent) => void) | null,
+    postMessage: vi.fn(),
+    close: vi.fn(),
+  };
+}
+
+describe('createBroadcastChannelTransport', () => {
+  test('opens the named channel and posts messages', () => {
+    const channel = createFakeChannel();
+    const createChannel = vi.fn(() => channel as unknown as BroadcastChannel);
+    const transport = createBroadcastChannelTransport('room', createChannel);
+
+    transport.send({ type: 'hello', peerId: 'a', rules });
+
+    expect(createChannel).toHaveBeenCalledWith('room');
+    expect(channel.postMessage).toHaveBeenCalledWith({ type: 'hello', peerId: 'a', rules });
+  });
+
+  test('forwards valid incoming messages and drops malformed ones', () => {
+    const channel = createFakeChannel();
+    const transport = createBroadcastChannelTransport('room', () => channel as unknown as BroadcastChannel);
+    const listener = vi.fn();
+    transport.subscribe(listener);
+
+    channel.onmessage!({ data: { type: 'hello', peerId: 'b', rules } } as MessageEvent);
+    channel.onmessage!({ data: { type: 'move', peerId: 'b' } } as MessageEvent);
+
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener).toHaveBeenCalledWith({ type: 'hello', peerId: 'b', rules });
+  });
+
+  test('close shuts the channel', () => {
+    const channel = createFakeChannel();
+    const transport = createBroadcastChannelTransport('room', () => channel as unknown as BroadcastChannel);
+
+    transport.close();
+
+    expect(channel.close).toHaveBeenCalledOnce();
+  });
+});
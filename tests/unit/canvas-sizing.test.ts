@@ -0,0 +1,105 @@
+import { describe, test, expect, vi, afterEach } from "vitest";
+import {
+  getBackingStoreSize,
+  resizeCanvas,
+  observeCanvasSize,
+} from "../../src/renderer/canvas-sizing";
+import { CANVAS_WIDTH } from "../../src/constants/render-config";
+
+function createEntry(
+  cssWidth: number,
+  devicePixels?: number,
+): ResizeObserverEntry {
+  return {
+    contentRect: { width: cssWidth, height: cssWidth },
+    devicePixelContentBoxSize:
+      devicePixels === undefined
+        ? undefined
+        : [{ inlineSize: devicePixels, blockSize: devicePixels }],
+  } as unknown as ResizeObserverEntry;
+}
+
+describe("getBackingStoreSize", () => {
+  test("prefers the exact device pixel size", () => {
+    expect(getBackingStoreSize(createEntry(300, 601), 2)).toBe(601);
+  });
+
+  test("falls back to CSS size times devicePixelRatio", () => {
+    expect(getBackingStoreSize(createEntry(300), 2)).toBe(600);
+    expect(getBackingStoreSize(createEntry(333.3), 1.5)).toBe(500);
+  });
+
+  test("never returns an empty backing store", () => {
+    expect(getBackingStoreSize(createEntry(0), 2)).toBe(1);
+  });
+});
+
+describe("resizeCanvas", () => {
+  test("sizes the backing store and scales board units onto it", () => {
+    const canvas = document.createElement("canvas");
+    const context = { setTransform: vi.fn() } as any;
+
+    resizeCanvas(canvas, context, 900);
+
+    expect(canvas.width).toBe(900);
+    expect(canvas.height).toBe(900);
+    const scale = 900 / CANVAS_WIDTH;
+    expect(context.setTransform).toHaveBeenCalledWith(scale, 0, 0, scale, 0, 0);
+  });
+});
+
+describe("observeCanvasSize", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("reports backing-store sizes from the observer", () => {
+    let callback: ResizeObserverCallback = () => {};
+    const observe = vi.fn();
+    const disconnect = vi.fn();
+    vi.stubGlobal(
+      "ResizeObserver",
+      vi.fn(function (this: unknown, cb: ResizeObserverCallback) {
+        callback = cb;
+        return { observe, disconnect };
+      }),
+    );
+    const onResize = vi.fn();
+    const canvas = document.createElement("canvas");
+
+    const stop = observeCanvasSize(canvas, onResize, () => 3);
+    callback([createEntry(200)], {} as ResizeObserver);
+    stop();
+
+    expect(observe).toHaveBeenCalledWith(canvas, {
+      box: "device-pixel-content-box",
+    });
+    expect(onResize).toHaveBeenCalledWith(600);
+    expect(disconnect).toHaveBeenCalledOnce();
+  });
+
+  test("falls back to the content box when device pixels are unsupported", () => {
+    const observe = vi.fn((_target: Element, options?: ResizeObserverOptions) => {
+      if (options) {
+        throw new Error("unsupported box");
+      }
+    });
+    vi.stubGlobal(
+      "ResizeObserver",
+      vi.fn(function () {
+        return { observe, disconnect: vi.fn() };
+      }),
+    );
+
+    observeCanvasSize(document.createElement("canvas"), vi.fn());
+
+    expect(observe).toHaveBeenCalledTimes(2);
+    expect(observe.mock.lastCall).toHaveLength(1);
+  });
+
+  test("does nothing without ResizeObserver", () => {
+    vi.stubGlobal("ResizeObserver", undefined);
+    const stop = observeCanvasSize(document.createElement("canvas"), vi.fn());
+    expect(() => stop()).not.toThrow();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, test, expect } from 'vitest';
+import { formatCell, parseCell } from '../../src/notation/cell-notation';
+
+describe('formatCell', () => {
+  test('names columns by letter and rows from 1', () => {
+    expect(formatCell({ row: 0, col: 0 })).toBe('a1');
+    expect(formatCell({ row: 1, col: 1 })).toBe('b2');
+    expect(formatCell({ row: 2, col: 0 })).toBe('a3');
+  });
+
+  test('handles two-digit rows on large boards', () => {
+    expect(formatCell({ row: 18, col: 18 })).toBe('s19');
+  });
+});
+
+describe('parseCell', () => {
+  test('parses a valid coordinate', () => {
+    expect(parseCell('c3', 3)).toEqual({ success: true, value: { row: 2, col: 2 } });
+  });
+
+  test('accepts upper case and surrounding whitespace', () => {
+    expect(parseCell(' B1 ', 3)).toEqual({ success: true, value: { row: 0, col: 1 } });
+  });
+
+  test('round-trips every cell of a 15x15 board', () => {
+    for (let row = 0; row < 15; row++) {
+      for (let col = 0; col < 15; col++) {
+        expect(parseCell(formatCell({ row, col }), 15)).toEqual({
+          success: true,
+          value: { row, col },
+        });
+      }
+    }
+  });
+
+  test('rejects malformed text', () => {
+    for (const text of ['', 'b', '2b', 'b0', 'bb2', 'b2x']) {
+      const result = parseCell(text, 3);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Invalid coordinate');
+      }
+    }
+  });
+
+  test('rejects cells outside the board', () => {
+    const result = parseCell('d1', 3);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain('outside the 3x3 board (a1-c3)');
+    }
+    expect(parseCell('a4', 3).success).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, test, expect } from 'vitest';
+import { parseCliArgs } from '../../src/cli/cli-args';
+import { DEFAULT_GAME_RULES } from '../../src/models/game-rules';
+
+describe('parseCliArgs', () => {
+  test('defaults to classic rules and Unicode drawing', () => {
+    expect(parseCliArgs([])).toEqual({
+      success: true,
+      value: { rules: DEFAULT_GAME_RULES, charset: 'unicode', script: null, help: false },
+    });
+  });
+
+  test('reads board size, win length and flags', () => {
+    const result = parseCliArgs(['--size', '5', '--win', '4', '--ascii', '--script']);
+    expect(result).toEqual({
+      success: true,
+      value: { rules: { boardSize: 5, winLength: 4 }, charset: 'ascii', script: true, help: false },
+    });
+  });
+
+  test('--interactive overrides stdin detection', () => {
+    const result = parseCliArgs(['--interactive']);
+    expect(result.success && result.value.script).toBe(false);
+  });
+
+  test('rejects rules outside the limits', () => {
+    const result = parseCliArgs(['--size', '2']);
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain('Invalid game rules');
+  });
+
+  test('rejects missing or non-numeric values', () => {
+    expect(parseCliArgs(['--size'])).toEqual({ success: false, error: '--size expects a whole number' });
+    expect(parseCliArgs(['--win', 'three']).success).toBe(false);
+  });
+
+  test('rejects unknown options', () => {
+    const result = parseCliArgs(['--colour']);
+    expect(!result.success && result.error.startsWith('Unknown option "--colour"')).toBe(true);
+  });
+});
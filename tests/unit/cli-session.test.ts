@@ -0,0 +1,86 @@
+import { describe, test, expect } from 'vitest';
+import { createCliSession, runScript } from '../../src/cli/cli-session';
+import { CLI_REJECTION_MESSAGES } from '../../src/cli/move-input';
+
+describe('createCliSession', () => {
+  test('shows the board and next player after a move', () => {
+    const session = createCliSession();
+    const reply = session.handleLine('b2');
+
+    expect(reply.kind).toBe('output');
+    expect(reply.kind === 'output' && reply.lines[1]).toBe("Player O's Turn");
+    expect(session.getState().board.cells[4].value).toBe('X');
+  });
+
+  test('plays several moves from one line', () => {
+    const session = createCliSession();
+    session.handleLine('a1; b1; a2');
+
+    expect(session.getState().currentTurn).toBe('O');
+  });
+
+  test('reports refused moves without changing the game', () => {
+    const session = createCliSession();
+    session.handleLine('a1');
+
+    expect(session.handleLine('a1')).toEqual({
+      kind: 'error',
+      message: CLI_REJECTION_MESSAGES['cell-occupied'],
+    });
+    expect(session.getState().currentTurn).toBe('O');
+  });
+
+  test('new starts over with the same rules', () => {
+    const session = createCliSession({ rules: { boardSize: 5, winLength: 4 } });
+    session.handleLine('a1');
+    session.handleLine('new');
+
+    expect(session.getState().board.size).toBe(5);
+    expect(session.getState().board.cells.every(cell => cell.value === null)).toBe(true);
+  });
+
+  test('recognises quit, help, blank lines and comments', () => {
+    const session = createCliSession();
+
+    expect(session.handleLine(' QUIT ')).toEqual({ kind: 'quit' });
+    expect(session.handleLine('help').kind).toBe('output');
+    expect(session.handleLine('')).toEqual({ kind: 'output', lines: [] });
+    expect(session.handleLine('# opening')).toEqual({ kind: 'output', lines: [] });
+  });
+});
+
+describe('runScript', () => {
+  test('plays every line and prints the final board', () => {
+    const result = runScript('a1\nb1\na2\nb2\na3\n');
+
+    expect(result.errors).toEqual([]);
+    expect(result.state.winner).toBe('X');
+    expect(result.output.endsWith('Player X Wins!')).toBe(true);
+  });
+
+  test('collects refused lines with their line numbers', () => {
+    const result = runScript('a1\na1\nzz\nb1\n');
+
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]).toBe(`line 2: ${CLI_REJECTION_MESSAGES['cell-occupied']}`);
+    expect(result.errors[1].startsWith('line 3: Invalid move "zz"')).toBe(true);
+    expect(result.state.board.cells[1].value).toBe('O');
+  });
+
+  test('reports moves after the game has ended', () => {
+    const result = runScript('a1; b1; a2; b2; a3\nc3');
+
+    expect(result.errors).toEqual([`line 2: ${CLI_REJECTION_MESSAGES['game-over']}`]);
+  });
+
+  test('stops reading at quit', () => {
+    const result = runScript('a1\nquit\nb1\n');
+
+    expect(result.state.board.cells.filter(cell => cell.value !== null)).toHaveLength(1);
+  });
+
+  test('uses the ASCII charset when asked', () => {
+    const result = runScript('', { charset: 'ascii' });
+    expect(result.output).toContain('---+---+---');
+  });
+});
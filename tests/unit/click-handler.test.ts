@@ -1,61 +1,484 @@
-import { describe, test, expect } from 'vitest';
-import { getCellFromCoordinates } from '../../src/input/click-handler';
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { setupClickHandler, ClickHandlerOptions } from '../../src/input/click-handler';
+import { createInitialGameState } from '../../src/engine/game-engine';
+import { GameState } from '../../src/models/game-state';
+import { GameSession } from '../../src/models/game-session';
+import { PlayerSymbol } from '../../src/constants/game-config';
+import { getCellSize } from '../../src/constants/render-config';
+import { createGameStore } from '../../src/store/game-store';
+import { createCanvasRenderer } from '../../src/renderer/canvas-renderer';
 
-describe('getCellFromCoordinates', () => {
-  test('maps top-left cell correctly', () => {
-    const position = getCellFromCoordinates(50, 50, 100, 3);
-    expect(position).toEqual({ row: 0, col: 0 });
+// Dispatch a pointerdown at the centre of a cell on a 3x3 board
+function clickCell(canvas: HTMLCanvasElement, row: number, col: number) {
+  const cellSize = getCellSize(3);
+  canvas.dispatchEvent(
+    new MouseEvent('pointerdown', {
+      clientX: col * cellSize + cellSize / 2,
+      clientY: row * cellSize + cellSize / 2,
+    })
+  );
+}
+
+// Start a fresh game in a store, reporting every position change
+function setupWithStore(
+  canvas: HTMLCanvasElement,
+  onStateChange: (state: GameState, session: GameSession) => void,
+  options: ClickHandlerOptions & { localPlayer?: PlayerSymbol } = {}
+) {
+  const { localPlayer, ...handlerOptions } = options;
+  const store = createGameStore(createInitialGameState());
+  store.dispatch({ type: 'reset', state: createInitialGameState(), localPlayer });
+  store.subscribe(
+    state => state.game,
+    game => onStateChange(game, store.getState().session)
+  );
+  return setupClickHandler(createCanvasRenderer(canvas), store, handlerOptions);
+}
+
+describe('setupClickHandler with a computer opponent', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('computer replies after the human move', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    setupWithStore(canvas, onStateChange, {
+      opponent: { symbol: 'O', difficulty: 'medium' },
+      thinkDelayMs: 100,
+    });
+
+    clickCell(canvas, 0, 0);
+
+    // Human move, then the thinking lock
+    const locked: GameState = onStateChange.mock.calls[1][0];
+    expect(locked.moveInProgress).toBe(true);
+    expect(locked.currentTurn).toBe('O');
+
+    vi.advanceTimersByTime(100);
+
+    const afterComputer: GameState = onStateChange.mock.lastCall![0];
+    expect(afterComputer.moveInProgress).toBe(false);
+    expect(afterComputer.currentTurn).toBe('X');
+    expect(afterComputer.board.cells.filter(c => c.value === 'O')).toHaveLength(1);
+  });
+
+  test('ignores clicks while the computer is thinking', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    setupWithStore(canvas, onStateChange, {
+      opponent: { symbol: 'O', difficulty: 'easy' },
+      thinkDelayMs: 100,
+    });
+
+    clickCell(canvas, 0, 0);
+    const callsBefore = onStateChange.mock.calls.length;
+    clickCell(canvas, 2, 2);
+
+    expect(onStateChange).toHaveBeenCalledTimes(callsBefore);
+  });
+
+  test('computer opens when it plays first', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    setupWithStore(canvas, onStateChange, {
+      opponent: { symbol: 'X', difficulty: 'hard' },
+      thinkDelayMs: 100,
+    });
+
+    vi.advanceTimersByTime(100);
+
+    const state: GameState = onStateChange.mock.lastCall![0];
+    expect(state.currentTurn).toBe('O');
+    expect(state.board.cells.filter(c => c.value === 'X')).toHaveLength(1);
+  });
+
+  test('cleanup cancels a pending computer move', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    const { cleanup } = setupWithStore(canvas, onStateChange, {
+      opponent: { symbol: 'O', difficulty: 'easy' },
+      thinkDelayMs: 100,
+    });
+
+    clickCell(canvas, 0, 0);
+    const callsBefore = onStateChange.mock.calls.length;
+    cleanup();
+    vi.advanceTimersByTime(100);
+
+    expect(onStateChange).toHaveBeenCalledTimes(callsBefore);
+  });
+
+  test('two-player mode places both symbols from clicks', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    setupWithStore(canvas, onStateChange);
+
+    clickCell(canvas, 0, 0);
+    clickCell(canvas, 1, 1);
+
+    const state: GameState = onStateChange.mock.lastCall![0];
+    expect(state.currentTurn).toBe('X');
+    expect(onStateChange).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('setupClickHandler history controls', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('undo and redo report the session', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    const handle = setupWithStore(canvas, onStateChange);
+
+    clickCell(canvas, 0, 0);
+    clickCell(canvas, 1, 1);
+    handle.undo();
+
+    const [state, session] = onStateChange.mock.lastCall!;
+    expect(state.currentTurn).toBe('O');
+    expect(session.currentMove).toBe(1);
+
+    handle.redo();
+    expect(onStateChange.mock.lastCall![1].currentMove).toBe(2);
+  });
+
+  test('clicking after undo branches the history', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    const handle = setupWithStore(canvas, onStateChange);
+
+    clickCell(canvas, 0, 0);
+    clickCell(canvas, 1, 1);
+    handle.jumpToMove(0);
+    clickCell(canvas, 2, 2);
+
+    const session = onStateChange.mock.lastCall![1];
+    expect(session.moves).toHaveLength(1);
+    expect(session.moves[0].position).toEqual({ row: 2, col: 2 });
+  });
+
+  test('undo against the computer returns to the human turn', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    const handle = setupWithStore(canvas, onStateChange, {
+      opponent: { symbol: 'O', difficulty: 'easy' },
+      thinkDelayMs: 100,
+    });
+
+    clickCell(canvas, 0, 0);
+    vi.advanceTimersByTime(100);
+    handle.undo();
+
+    const [state, session] = onStateChange.mock.lastCall!;
+    expect(session.currentMove).toBe(0);
+    expect(state.currentTurn).toBe('X');
+    expect(state.moveInProgress).toBe(false);
+  });
+
+  test('undo while the computer thinks cancels its move', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    const handle = setupWithStore(canvas, onStateChange, {
+      opponent: { symbol: 'O', difficulty: 'easy' },
+      thinkDelayMs: 100,
+    });
+
+    clickCell(canvas, 0, 0);
+    handle.undo();
+    vi.advanceTimersByTime(100);
+
+    const [state, session] = onStateChange.mock.lastCall!;
+    expect(session.moves).toHaveLength(1);
+    expect(session.currentMove).toBe(0);
+    expect(state.board.cells.every((cell: { value: unknown }) => cell.value === null)).toBe(true);
+  });
+});
+
+describe('setupClickHandler keyboard input', () => {
+  function pressKey(canvas: HTMLCanvasElement, key: string) {
+    canvas.dispatchEvent(new KeyboardEvent('keydown', { key, cancelable: true }));
+  }
+
+  test('arrow keys move the cursor and report it', () => {
+    const canvas = document.createElement('canvas');
+    const onCursorChange = vi.fn();
+    setupWithStore(canvas, vi.fn(), { onCursorChange });
+
+    pressKey(canvas, 'ArrowRight');
+    pressKey(canvas, 'ArrowDown');
+
+    expect(onCursorChange).toHaveBeenLastCalledWith({ row: 1, col: 1 });
+  });
+
+  test('Enter places a piece at the cursor', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    setupWithStore(canvas, onStateChange);
+
+    pressKey(canvas, 'End');
+    pressKey(canvas, 'Enter');
+
+    const state: GameState = onStateChange.mock.lastCall![0];
+    expect(state.board.cells[8].value).toBe('X');
+  });
+
+  test('Space places a piece and prevents scrolling', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    setupWithStore(canvas, onStateChange);
+
+    const event = new KeyboardEvent('keydown', { key: ' ', cancelable: true });
+    canvas.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(onStateChange).toHaveBeenCalledOnce();
+  });
+
+  test('placing on an occupied cell is ignored', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    setupWithStore(canvas, onStateChange);
+
+    pressKey(canvas, 'Enter');
+    pressKey(canvas, 'Enter');
+
+    expect(onStateChange).toHaveBeenCalledOnce();
+  });
+
+  test('other keys are left alone', () => {
+    const canvas = document.createElement('canvas');
+    setupWithStore(canvas, vi.fn());
+
+    const event = new KeyboardEvent('keydown', { key: 'Tab', cancelable: true });
+    canvas.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(false);
   });
+});
+
+describe('setupClickHandler networked play', () => {
+  test('accepts input only on the local player turn', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    setupWithStore(canvas, onStateChange, { localPlayer: 'O' });
 
-  test('maps center cell correctly', () => {
-    const position = getCellFromCoordinates(150, 150, 100, 3);
-    expect(position).toEqual({ row: 1, col: 1 });
+    clickCell(canvas, 0, 0);
+
+    expect(onStateChange).not.toHaveBeenCalled();
   });
 
-  test('maps bottom-right cell correctly', () => {
-    const position = getCellFromCoordinates(250, 250, 100, 3);
-    expect(position).toEqual({ row: 2, col: 2 });
+  test('reports local moves for the peer', () => {
+    const canvas = document.createElement('canvas');
+    const onLocalMove = vi.fn();
+    setupWithStore(canvas, vi.fn(), { localPlayer: 'X', onLocalMove });
+
+    clickCell(canvas, 1, 2);
+
+    expect(onLocalMove).toHaveBeenCalledWith({
+      player: 'X',
+      position: { row: 1, col: 2 },
+      moveNumber: 1,
+    });
   });
 
-  test('returns null for coordinates outside grid', () => {
-    const position = getCellFromCoordinates(350, 250, 100, 3);
-    expect(position).toBeNull();
+  test('applies valid remote moves and rejects illegal ones', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    const handle = setupWithStore(canvas, onStateChange, {
+      localPlayer: 'O',
+    });
+
+    expect(handle.playRemoteMove({ player: 'X', position: { row: 1, col: 1 }, moveNumber: 1 })).toBe('applied');
+    expect(onStateChange.mock.lastCall![0].currentTurn).toBe('O');
+
+    clickCell(canvas, 0, 0);
+    expect(handle.playRemoteMove({ player: 'X', position: { row: 0, col: 0 }, moveNumber: 3 })).toBe('rejected');
+    expect(handle.playRemoteMove({ player: 'O', position: { row: 2, col: 2 }, moveNumber: 3 })).toBe('rejected');
   });
 
-  test('handles cell boundaries correctly', () => {
-    // Click on boundary line (assigned to right/bottom cell)
-    const position = getCellFromCoordinates(100, 100, 100, 3);
-    expect(position).toEqual({ row: 1, col: 1 });
+  test('ignores remote moves in local play', () => {
+    const canvas = document.createElement('canvas');
+    const handle = setupWithStore(canvas, vi.fn());
+
+    expect(handle.playRemoteMove({ player: 'X', position: { row: 1, col: 1 }, moveNumber: 1 })).toBe('rejected');
   });
 
-  test('maps top-center cell correctly', () => {
-    const position = getCellFromCoordinates(150, 50, 100, 3);
-    expect(position).toEqual({ row: 0, col: 1 });
+  test('history controls are disabled in networked play', () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    const handle = setupWithStore(canvas, onStateChange, { localPlayer: 'X' });
+
+    clickCell(canvas, 0, 0);
+    handle.undo();
+
+    expect(onStateChange).toHaveBeenCalledOnce();
   });
+});
 
-  test('maps middle-left cell correctly', () => {
-    const position = getCellFromCoordinates(50, 150, 100, 3);
-    expect(position).toEqual({ row: 1, col: 0 });
+describe('setupClickHandler move animation', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
   });
 
-  test('returns null for negative coordinates', () => {
-    const position = getCellFromCoordinates(-10, 50, 100, 3);
-    expect(position).toBeNull();
+  afterEach(() => {
+    vi.useRealTimers();
   });
 
-  test('returns null for y coordinate outside grid', () => {
-    const position = getCellFromCoordinates(50, 350, 100, 3);
-    expect(position).toBeNull();
+  test('locks input until the animation finishes', async () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    let finish = () => {};
+    const animateChange = vi.fn(
+      (_previous: GameState, _next: GameState) =>
+        new Promise<void>(resolve => (finish = resolve))
+    );
+    setupWithStore(canvas, onStateChange, { animateChange });
+
+    clickCell(canvas, 0, 0);
+    clickCell(canvas, 1, 1);
+
+    const locked: GameState = onStateChange.mock.lastCall![0];
+    expect(locked.moveInProgress).toBe(true);
+    expect(locked.board.cells[4].value).toBeNull();
+    expect(animateChange.mock.calls[0][1].board.cells[0].value).toBe('X');
+
+    finish();
+    await Promise.resolve();
+    clickCell(canvas, 1, 1);
+
+    expect(onStateChange.mock.lastCall![1].moves).toHaveLength(2);
   });
 
-  test('maps corner boundary correctly', () => {
-    const position = getCellFromCoordinates(0, 0, 100, 3);
-    expect(position).toEqual({ row: 0, col: 0 });
+  test('the computer waits for the animation before thinking', async () => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    let finish = () => {};
+    setupWithStore(canvas, onStateChange, {
+      opponent: { symbol: 'O', difficulty: 'easy' },
+      thinkDelayMs: 100,
+      animateChange: () => new Promise<void>(resolve => (finish = resolve)),
+    });
+
+    clickCell(canvas, 0, 0);
+    vi.advanceTimersByTime(100);
+    expect(onStateChange.mock.lastCall![1].moves).toHaveLength(1);
+
+    finish();
+    await Promise.resolve();
+    vi.advanceTimersByTime(100);
+
+    const afterComputer: GameState = onStateChange.mock.lastCall![0];
+    expect(afterComputer.board.cells.filter(c => c.value === 'O')).toHaveLength(1);
   });
 
-  test('handles edge of grid correctly', () => {
-    const position = getCellFromCoordinates(299, 299, 100, 3);
-    expect(position).toEqual({ row: 2, col: 2 });
+  test.each([
+    [
+      'throws',
+      () => {
+        throw new Error('render failed');
+      },
+    ],
+    ['rejects', () => Promise.reject(new Error('render failed'))],
+  ])('unlocks input when the animation %s', async (_name, animateChange) => {
+    const canvas = document.createElement('canvas');
+    const onStateChange = vi.fn();
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    setupWithStore(canvas, onStateChange, { animateChange });
+
+    clickCell(canvas, 0, 0);
+    await Promise.resolve();
+    clickCell(canvas, 1, 1);
+
+    expect(onStateChange.mock.lastCall![1].moves).toHaveLength(2);
+    expect(logError).toHaveBeenCalledWith('Could not animate the move:', expect.any(Error));
+    logError.mockRestore();
   });
 });
 
+describe('setupClickHandler hover and rejection feedback', () => {
+  function moveOverCell(canvas: HTMLCanvasElement, row: number, col: number, pointerType = 'mouse') {
+    const cellSize = getCellSize(3);
+    const event = new MouseEvent('pointermove', {
+      clientX: col * cellSize + cellSize / 2,
+      clientY: row * cellSize + cellSize / 2,
+    });
+    Object.defineProperty(event, 'pointerType', { value: pointerType });
+    canvas.dispatchEvent(event);
+  }
+
+  test('reports rejected moves with the validation reason', () => {
+    const canvas = document.createElement('canvas');
+    const onMoveRejected = vi.fn();
+    setupWithStore(canvas, vi.fn(), { onMoveRejected });
+
+    clickCell(canvas, 0, 0);
+    clickCell(canvas, 0, 0);
+
+    expect(onMoveRejected).toHaveBeenCalledOnce();
+    expect(onMoveRejected).toHaveBeenCalledWith({ row: 0, col: 0 }, 'cell-occupied');
+  });
+
+  test('reports moves on the remote player turn as not-your-turn', () => {
+    const canvas = document.createElement('canvas');
+    const onMoveRejected = vi.fn();
+    setupWithStore(canvas, vi.fn(), {
+      localPlayer: 'O',
+      onMoveRejected,
+    });
+
+    clickCell(canvas, 1, 1);
+
+    expect(onMoveRejected).toHaveBeenCalledWith({ row: 1, col: 1 }, 'not-your-turn');
+  });
+
+  test('describes the hovered cell and skips repeats', () => {
+    const canvas = document.createElement('canvas');
+    const onHoverChange = vi.fn();
+    setupWithStore(canvas, vi.fn(), { onHoverChange });
+
+    moveOverCell(canvas, 1, 1);
+    moveOverCell(canvas, 1, 1);
+
+    expect(onHoverChange).toHaveBeenCalledOnce();
+    expect(onHoverChange).toHaveBeenCalledWith({ position: { row: 1, col: 1 }, reason: null });
+  });
+
+  test('refreshes the hover after a move fills the cell', () => {
+    const canvas = document.createElement('canvas');
+    const onHoverChange = vi.fn();
+    setupWithStore(canvas, vi.fn(), { onHoverChange });
+
+    moveOverCell(canvas, 2, 0);
+    clickCell(canvas, 2, 0);
+
+    expect(onHoverChange).toHaveBeenLastCalledWith({
+      position: { row: 2, col: 0 },
+      reason: 'cell-occupied',
+    });
+  });
+
+  test('clears the hover when the pointer leaves and ignores touch', () => {
+    const canvas = document.createElement('canvas');
+    const onHoverChange = vi.fn();
+    setupWithStore(canvas, vi.fn(), { onHoverChange });
+
+    moveOverCell(canvas, 0, 1, 'touch');
+    expect(onHoverChange).not.toHaveBeenCalled();
+
+    moveOverCell(canvas, 0, 1);
+    canvas.dispatchEvent(new MouseEvent('pointerleave'));
+
+    expect(onHoverChange).toHaveBeenLastCalledWith(null);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createGameClock,
+  getFlaggedPlayer,
+  getRemainingMs,
+  pressClock,
+  startClock,
+  stopClock,
+} from '../../src/engine/clock-transitions';
+
+const blitz = { initialMs: 60_000, incrementMs: 2_000 };
+
+describe('createGameClock', () => {
+  test('gives both players the full budget, stopped', () => {
+    const clock = createGameClock(blitz);
+
+    expect(clock.remainingMs).toEqual({ X: 60_000, O: 60_000 });
+    expect(clock.running).toBeNull();
+    expect(getRemainingMs(clock, 'X', 5_000)).toBe(60_000);
+  });
+});
+
+describe('startClock and stopClock', () => {
+  test('only the running player loses time', () => {
+    const clock = startClock(createGameClock(blitz), 'X', 1_000);
+
+    expect(getRemainingMs(clock, 'X', 11_000)).toBe(50_000);
+    expect(getRemainingMs(clock, 'O', 11_000)).toBe(60_000);
+  });
+
+  test('stopping charges the running player and freezes both clocks', () => {
+    const stopped = stopClock(startClock(createGameClock(blitz), 'O', 0), 4_000);
+
+    expect(stopped.running).toBeNull();
+    expect(stopped.remainingMs).toEqual({ X: 60_000, O: 56_000 });
+    expect(getRemainingMs(stopped, 'O', 100_000)).toBe(56_000);
+  });
+
+  test('starting the running player again keeps their start time', () => {
+    const clock = startClock(createGameClock(blitz), 'X', 0);
+    expect(startClock(clock, 'X', 5_000)).toBe(clock);
+  });
+});
+
+describe('pressClock', () => {
+  test('adds the increment to the mover and starts the other player', () => {
+    const pressed = pressClock(startClock(createGameClock(blitz), 'X', 0), 10_000);
+
+    expect(pressed.running).toBe('O');
+    expect(pressed.runningSince).toBe(10_000);
+    expect(pressed.remainingMs.X).toBe(52_000);
+    expect(getRemainingMs(pressed, 'O', 13_000)).toBe(57_000);
+  });
+
+  test('does nothing while stopped', () => {
+    const clock = createGameClock(blitz);
+    expect(pressClock(clock, 1_000)).toBe(clock);
+  });
+});
+
+describe('getFlaggedPlayer', () => {
+  test('reports the running player once their time is used up', () => {
+    const clock = startClock(createGameClock({ initialMs: 1_000, incrementMs: 0 }), 'O', 0);
+
+    expect(getFlaggedPlayer(clock, 999)).toBeNull();
+    expect(getFlaggedPlayer(clock, 1_000)).toBe('O');
+    expect(getRemainingMs(clock, 'O', 5_000)).toBe(0);
+    expect(getFlaggedPlayer(stopClock(clock, 5_000), 5_000)).toBeNull();
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, test, expect } from 'vitest';
+import {
+  chooseComputerMove,
+  isComputerTurn,
+} from '../../src/ai/computer-player';
+import { chooseRandomMove } from '../../src/ai/random-strategy';
+import { chooseHeuristicMove } from '../../src/ai/heuristic-strategy';
+import { chooseMinimaxMove } from '../../src/ai/minimax-strategy';
+import { createInitialGameState, processMove } from '../../src/engine/game-engine';
+import { GameState } from '../../src/models/game-state';
+import { AIDifficulty } from '../../src/constants/ai-config';
+
+// Deterministic pseudo-random source for repeatable games
+function seededRandom(seed: number): () => number {
+  let value = seed;
+  return () => {
+    value = (value * 1103515245 + 12345) % 2147483648;
+    return value / 2147483648;
+  };
+}
+
+function playMoves(moves: Array<[number, number]>, state = createInitialGameState()): GameState {
+  return moves.reduce(
+    (current, [row, col]) => processMove(current, { row, col }),
+    state
+  );
+}
+
+function playOut(
+  xDifficulty: AIDifficulty,
+  oDifficulty: AIDifficulty,
+  random: () => number
+): GameState {
+  let state = createInitialGameState();
+  while (state.status === 'in-progress') {
+    const difficulty = state.currentTurn === 'X' ? xDifficulty : oDifficulty;
+    const move = chooseComputerMove(state, difficulty, random);
+    if (!move) {
+      break;
+    }
+    state = processMove(state, move);
+  }
+  return state;
+}
+
+describe('chooseRandomMove', () => {
+  test('returns a legal move', () => {
+    const state = playMoves([[0, 0], [1, 1]]);
+    const move = chooseRandomMove(state, seededRandom(1));
+    expect(move).not.toBeNull();
+    expect(processMove(state, move!)).not.toBe(state);
+  });
+
+  test('uses the random source to pick', () => {
+    const state = createInitialGameState();
+    expect(chooseRandomMove(state, () => 0)).toEqual({ row: 0, col: 0 });
+    expect(chooseRandomMove(state, () => 0.99)).toEqual({ row: 2, col: 2 });
+  });
+
+  test('returns null once the game is over', () => {
+    const won = playMoves([[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]]);
+    expect(chooseRandomMove(won)).toBeNull();
+  });
+});
+
+describe('chooseHeuristicMove', () => {
+  test('takes a winning move', () => {
+    // X X . / O O . / . . .  with X to move
+    const state = playMoves([[0, 0], [1, 0], [0, 1], [1, 1]]);
+    expect(chooseHeuristicMove(state)).toEqual({ row: 0, col: 2 });
+  });
+
+  test('blocks the opponent when it cannot win', () => {
+    // X X . / O . . / . . .  with O to move
+    const state = playMoves([[0, 0], [1, 0], [0, 1]]);
+    expect(chooseHeuristicMove(state)).toEqual({ row: 0, col: 2 });
+  });
+
+  test('prefers the center on an open board', () => {
+    expect(chooseHeuristicMove(createInitialGameState())).toEqual({ row: 1, col: 1 });
+  });
+
+  test('falls back to a corner when the center is taken', () => {
+    const state = playMoves([[1, 1]]);
+    const move = chooseHeuristicMove(state, () => 0);
+    expect([0, 2]).toContain(move?.row);
+    expect([0, 2]).toContain(move?.col);
+  });
+
+  test('returns null once the game is over', () => {
+    const won = playMoves([[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]]);
+    expect(chooseHeuristicMove(won)).toBeNull();
+  });
+
+  test('in misère, avoids completing its own line', () => {
+    // X X . / O O . / . . X  with O to move: c2 would complete O's row
+    const state = playMoves(
+      [[0, 0], [1, 0], [0, 1], [1, 1], [2, 2]],
+      createInitialGameState({ boardSize: 3, winLength: 3, variant: 'misere' })
+    );
+    for (let seed = 0; seed < 5; seed++) {
+      expect(chooseHeuristicMove(state, seededRandom(seed))).not.toEqual({ row: 1, col: 2 });
+    }
+  });
+});
+
+describe('chooseMinimaxMove', () => {
+  test('takes an immediate win', () => {
+    const state = playMoves([[0, 0], [1, 0], [0, 1], [1, 1]]);
+    expect(chooseMinimaxMove(state)).toEqual({ row: 0, col: 2 });
+  });
+
+  test('prefers winning now over blocking', () => {
+    // X X . / O O . / X . .  with O to move: O wins at (1,2)
+    const state = playMoves([[0, 0], [1, 0], [0, 1], [1, 1], [2, 0]]);
+    expect(chooseMinimaxMove(state)).toEqual({ row: 1, col: 2 });
+  });
+
+  test('blocks a fork setup by answering a corner with the center', () => {
+    const state = playMoves([[0, 0]]);
+    expect(chooseMinimaxMove(state)).toEqual({ row: 1, col: 1 });
+  });
+
+  test('perfect play against itself is a draw', () => {
+    const state = playOut('hard', 'hard', seededRandom(7));
+    expect(state.status).toBe('draw');
+  });
+
+  test('never loses to random play', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const asX = playOut('hard', 'easy', seededRandom(seed));
+      expect(asX.winner).not.toBe('O');
+      const asO = playOut('easy', 'hard', seededRandom(seed));
+      expect(asO.winner).not.toBe('X');
+    }
+  });
+
+  test('finds a winning move on a large board', () => {
+    let state = createInitialGameState({ boardSize: 15, winLength: 5 });
+    // X: four in row 7, O: scattered
+    const moves: Array<[number, number]> = [
+      [7, 5], [0, 0], [7, 6], [0, 14], [7, 7], [14, 0], [7, 8], [14, 14],
+    ];
+    state = playMoves(moves, state);
+    const move = chooseMinimaxMove(state);
+    expect(move).not.toBeNull();
+    expect(processMove(state, move!).winner).toBe('X');
+  });
+});
+
+describe('isComputerTurn', () => {
+  const opponent = { symbol: 'O' as const, difficulty: 'easy' as const };
+
+  test('is false without an opponent', () => {
+    expect(isComputerTurn(playMoves([[0, 0]]), null)).toBe(false);
+  });
+
+  test('follows currentTurn', () => {
+    expect(isComputerTurn(createInitialGameState(), opponent)).toBe(false);
+    expect(isComputerTurn(playMoves([[0, 0]]), opponent)).toBe(true);
+  });
+
+  test('is false once the game is over', () => {
+    const won = playMoves([[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]]);
+    expect(isComputerTurn(won, { ...opponent, symbol: 'X' })).toBe(false);
+  });
+});
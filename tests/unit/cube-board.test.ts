@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createEmptyCubeBoard,
+  flattenCubeBoard,
+  fromCubePosition,
+  getCubeCellValue,
+  getLayeredGridSize,
+  isOnCube,
+  toCubePosition,
+} from '../../src/models/cube-board';
+import { getCellValue } from '../../src/models/board';
+
+describe('createEmptyCubeBoard', () => {
+  test('creates size³ empty cells, layer by layer', () => {
+    const board = createEmptyCubeBoard(4);
+
+    expect(board.cells).toHaveLength(64);
+    expect(board.cells.every(cell => cell.value === null)).toBe(true);
+    expect(board.cells[16].position).toEqual({ layer: 1, row: 0, col: 0 });
+  });
+});
+
+describe('getCubeCellValue', () => {
+  test('reads a placed piece', () => {
+    const board = createEmptyCubeBoard(4);
+    board.cells[(2 * 4 + 1) * 4 + 3].value = 'O';
+
+    expect(getCubeCellValue(board, { layer: 2, row: 1, col: 3 })).toBe('O');
+  });
+
+  test('reads positions off the cube as empty', () => {
+    const board = createEmptyCubeBoard(4);
+
+    expect(isOnCube(board, { layer: 4, row: 0, col: 0 })).toBe(false);
+    expect(getCubeCellValue(board, { layer: 0, row: -1, col: 0 })).toBeNull();
+  });
+});
+
+describe('layered grid', () => {
+  test('four layers fit an 8x8 grid, two by two', () => {
+    expect(getLayeredGridSize(4)).toBe(8);
+    expect(fromCubePosition({ layer: 0, row: 0, col: 0 }, 4)).toEqual({ row: 0, col: 0 });
+    expect(fromCubePosition({ layer: 1, row: 0, col: 0 }, 4)).toEqual({ row: 0, col: 4 });
+    expect(fromCubePosition({ layer: 3, row: 2, col: 1 }, 4)).toEqual({ row: 6, col: 5 });
+  });
+
+  test('maps every grid cell back to its layer and cell', () => {
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const position = toCubePosition({ row, col }, 4);
+        expect(position).not.toBeNull();
+        expect(fromCubePosition(position!, 4)).toEqual({ row, col });
+      }
+    }
+  });
+
+  test('grid cells past the last layer map to nothing', () => {
+    // Three layers of 3x3 leave the bottom-right block of a 6x6 grid unused
+    expect(toCubePosition({ row: 4, col: 4 }, 3)).toBeNull();
+  });
+
+  test('flattens every layer onto the grid', () => {
+    const board = createEmptyCubeBoard(4);
+    board.cells[(3 * 4 + 2) * 4 + 1].value = 'X'; // Layer 3, row 2, col 1
+
+    const flat = flattenCubeBoard(board);
+
+    expect(flat.size).toBe(8);
+    expect(getCellValue(flat, { row: 6, col: 5 })).toBe('X');
+    expect(flat.cells.filter(cell => cell.value !== null)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createClockController,
+  createClockDisplay,
+  createTimeControlSelector,
+  formatClockTime,
+  TIME_CONTROL_OPTIONS,
+  updateClockDisplay,
+} from '../../src/ui/game-clock';
+import { createGameClock, startClock } from '../../src/engine/clock-transitions';
+import {
+  createGameSession,
+  playSessionMove,
+  redo,
+  timeOutSession,
+  undo,
+} from '../../src/engine/session-transitions';
+import { createInitialGameState } from '../../src/engine/game-engine';
+
+const start = createGameSession(createInitialGameState());
+const afterX = playSessionMove(start, { row: 1, col: 1 });
+
+describe('formatClockTime', () => {
+  test('shows minutes and seconds, rounding up', () => {
+    expect(formatClockTime(300_000)).toBe('5:00');
+    expect(formatClockTime(65_400)).toBe('1:06');
+    expect(formatClockTime(10_000)).toBe('0:10');
+  });
+
+  test('shows tenths when time is low', () => {
+    expect(formatClockTime(7_350)).toBe('0:07.3');
+    expect(formatClockTime(0)).toBe('0:00.0');
+  });
+});
+
+describe('createTimeControlSelector', () => {
+  test('lists the options and reports the chosen one', () => {
+    const onChange = vi.fn();
+    const element = createTimeControlSelector(TIME_CONTROL_OPTIONS, onChange);
+    expect(element.options).toHaveLength(TIME_CONTROL_OPTIONS.length);
+    expect(element.options[0].textContent).toBe('No clock');
+
+    element.value = '1';
+    element.dispatchEvent(new Event('change'));
+    expect(onChange).toHaveBeenCalledWith(TIME_CONTROL_OPTIONS[1]);
+  });
+});
+
+describe('updateClockDisplay', () => {
+  test('shows both times and marks the running and low clocks', () => {
+    const element = createClockDisplay();
+    const clock = startClock(createGameClock({ initialMs: 15_000, incrementMs: 0 }), 'O', 0);
+    updateClockDisplay(element, clock, 6_000);
+
+    const [x, o] = Array.from(element.querySelectorAll('.clock-face'));
+    expect(x.textContent).toBe('X 0:15');
+    expect(o.textContent).toBe('O 0:09.0');
+    expect(x.classList.contains('running')).toBe(false);
+    expect(o.classList.contains('running')).toBe(true);
+    expect(o.classList.contains('low-time')).toBe(true);
+  });
+});
+
+describe('createClockController', () => {
+  let time: number;
+  const now = () => time;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    time = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const advance = (ms: number) => {
+    time += ms;
+    vi.advanceTimersByTime(ms);
+  };
+
+  test('runs the clock of the player on turn', () => {
+    const onTick = vi.fn();
+    const controller = createClockController(
+      { initialMs: 60_000, incrementMs: 1_000 },
+      { now, onTick, onTimeout: vi.fn() }
+    );
+
+    controller.sync(start);
+    advance(5_000);
+    controller.sync(afterX);
+    advance(2_000);
+
+    const clock = controller.getClock();
+    expect(clock.running).toBe('O');
+    expect(clock.remainingMs.X).toBe(56_000);
+    expect(onTick).toHaveBeenLastCalledWith(clock, 7_000);
+    controller.dispose();
+  });
+
+  test('reports a timeout once and stops', () => {
+    const onTimeout = vi.fn();
+    const controller = createClockController(
+      { initialMs: 1_000, incrementMs: 0 },
+      { now, onTick: vi.fn(), onTimeout }
+    );
+
+    controller.sync(start);
+    advance(1_500);
+    advance(1_500);
+
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+    expect(onTimeout).toHaveBeenCalledWith('X');
+    expect(controller.getClock().running).toBeNull();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  test('a finished game stops the clock', () => {
+    const onTimeout = vi.fn();
+    const controller = createClockController(
+      { initialMs: 1_000, incrementMs: 0 },
+      { now, onTick: vi.fn(), onTimeout }
+    );
+
+    controller.sync(start);
+    advance(400);
+    controller.sync(timeOutSession(start, 'X'));
+    advance(5_000);
+
+    expect(onTimeout).not.toHaveBeenCalled();
+    expect(controller.getClock().remainingMs.X).toBe(600);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+  test('undo and redo hand over the clock without an increment', () => {
+    const controller = createClockController(
+      { initialMs: 60_000, incrementMs: 2_000 },
+      { now, onTick: vi.fn(), onTimeout: vi.fn() }
+    );
+
+    controller.sync(start);
+    advance(1_000);
+    controller.sync(afterX); // X moved: +2 s
+    advance(3_000);
+    const undone = undo(afterX);
+    controller.sync(undone); // O spent 3 s thinking; X is on turn again
+    advance(1_000);
+    controller.sync(redo(undone));
+    advance(1_000);
+    controller.sync(undo(redo(undone)));
+
+    const clock = controller.getClock();
+    expect(clock.running).toBe('X');
+    expect(clock.remainingMs).toEqual({ X: 60_000, O: 56_000 });
+    controller.dispose();
+  });
+
+  test('a move played after an undo earns the increment', () => {
+    const controller = createClockController(
+      { initialMs: 60_000, incrementMs: 2_000 },
+      { now, onTick: vi.fn(), onTimeout: vi.fn() }
+    );
+
+    controller.sync(afterX);
+    advance(1_000);
+    const undone = undo(afterX);
+    controller.sync(undone);
+    advance(1_000);
+    controller.sync(playSessionMove(undone, { row: 0, col: 0 }));
+
+    const clock = controller.getClock();
+    expect(clock.running).toBe('O');
+    expect(clock.remainingMs).toEqual({ X: 61_000, O: 59_000 });
+    controller.dispose();
+  });
+});
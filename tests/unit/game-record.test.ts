@@ -0,0 +1,162 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createGameRecord,
+  serializeGameRecord,
+  parseGameRecord,
+  replayGameRecord,
+  GameRecord,
+} from '../../src/notation/game-record';
+import {
+  createGameSession,
+  playSessionMove,
+  undo,
+} from '../../src/engine/session-transitions';
+import { createInitialGameState } from '../../src/engine/game-engine';
+
+const SAMPLE = `[Size "3"]
+[WinLength "3"]
+[X "Alice"]
+[O "Bob"]
+
+b2 a1 c3
+`;
+
+function expectFailure(text: string, message: string) {
+  const result = parseGameRecord(text);
+  expect(result.success).toBe(false);
+  if (!result.success) {
+    expect(result.error).toContain(message);
+  }
+}
+
+describe('serializeGameRecord', () => {
+  test('writes header and algebraic moves', () => {
+    const record: GameRecord = {
+      rules: { boardSize: 3, winLength: 3 },
+      players: { X: 'Alice', O: 'Bob' },
+      firstPlayer: 'X',
+      moves: [
+        { row: 1, col: 1 },
+        { row: 0, col: 0 },
+        { row: 2, col: 2 },
+      ],
+    };
+    expect(serializeGameRecord(record)).toBe(SAMPLE);
+  });
+
+  test('keeps header values quotable', () => {
+    const text = serializeGameRecord({
+      rules: { boardSize: 3, winLength: 3 },
+      players: { X: 'The "Ace"', O: 'Bob' },
+      firstPlayer: 'X',
+      moves: [],
+    });
+    expect(text).toContain(`[X "The 'Ace'"]`);
+  });
+});
+
+describe('parseGameRecord', () => {
+  test('reads header and moves', () => {
+    const result = parseGameRecord(SAMPLE);
+    expect(result).toEqual({
+      success: true,
+      value: {
+        rules: { boardSize: 3, winLength: 3 },
+        players: { X: 'Alice', O: 'Bob' },
+        firstPlayer: 'X',
+        moves: [
+          { row: 1, col: 1 },
+          { row: 0, col: 0 },
+          { row: 2, col: 2 },
+        ],
+      },
+    });
+  });
+
+  test('round-trips a serialized record', () => {
+    const result = parseGameRecord(SAMPLE);
+    expect(result.success && serializeGameRecord(result.value)).toBe(SAMPLE);
+  });
+
+  test('accepts move numbers and player prefixes', () => {
+    const result = parseGameRecord('[Size "3"]\n[WinLength "3"]\n1. Xb2 Oa1 2. Xc3');
+    expect(result.success && result.value.moves).toHaveLength(3);
+  });
+
+  test('defaults player names', () => {
+    const result = parseGameRecord('[Size "5"]\n[WinLength "4"]\n');
+    expect(result.success && result.value.players).toEqual({ X: 'Player X', O: 'Player O' });
+  });
+
+  test('reads which player moved first', () => {
+    const result = parseGameRecord('[Size "3"]\n[WinLength "3"]\n[First "O"]\nOb2 Xa1');
+    expect(result.success && result.value.firstPlayer).toBe('O');
+    expectFailure('[Size "3"]\n[WinLength "3"]\n[First "O"]\nXb2', 'expected O to move');
+    expectFailure('[Size "3"]\n[WinLength "3"]\n[First "Z"]', 'Invalid [First "Z"] header');
+  });
+
+  test('rejects a bad coordinate', () => {
+    expectFailure('[Size "3"]\n[WinLength "3"]\nb2 d4', 'Move 2: Invalid coordinate "d4"');
+  });
+
+  test('rejects a move onto an occupied cell', () => {
+    expectFailure('[Size "3"]\n[WinLength "3"]\nb2 a1 b2', 'Move 3 (b2): the cell is already occupied');
+  });
+
+  test('rejects moves out of alternating order', () => {
+    expectFailure('[Size "3"]\n[WinLength "3"]\nXb2 Xa1', 'Move 2 (Xa1): out of alternating order, expected O');
+  });
+
+  test('rejects moves after the game is won', () => {
+    expectFailure('[Size "3"]\n[WinLength "3"]\na1 a2 b1 b2 c1 c2', 'Move 6 (c2): the game has already been won');
+  });
+
+  test('rejects missing or invalid rules', () => {
+    expectFailure('b2', 'needs numeric [Size "n"] and [WinLength "k"] headers');
+    expectFailure('[Size "3"]\n[WinLength "4"]\n', 'Invalid rules');
+  });
+
+  test('rejects malformed, unknown and duplicate headers', () => {
+    expectFailure('[Size 3]\n[WinLength "3"]', 'Invalid header line');
+    expectFailure('[Size "3"]\n[WinLength "3"]\n[Event "Cup"]', 'Unknown header tag "Event"');
+    expectFailure('[Size "3"]\n[Size "4"]\n[WinLength "3"]', 'Duplicate header tag "Size"');
+  });
+});
+
+describe('replayGameRecord', () => {
+  test('rebuilds the final state', () => {
+    const result = parseGameRecord('[Size "3"]\n[WinLength "3"]\na1 a2 b1 b2 c1');
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const replay = replayGameRecord(result.value);
+      expect(replay.success && replay.value.winner).toBe('X');
+    }
+  });
+});
+
+describe('createGameRecord', () => {
+  test('records only the played moves of a session', () => {
+    let session = createGameSession(createInitialGameState({ boardSize: 5, winLength: 4 }));
+    session = playSessionMove(session, { row: 2, col: 2 });
+    session = playSessionMove(session, { row: 0, col: 4 });
+    session = undo(session);
+
+    const record = createGameRecord(session);
+
+    expect(record.rules).toEqual({ boardSize: 5, winLength: 4 });
+    expect(record.moves).toEqual([{ row: 2, col: 2 }]);
+    expect(serializeGameRecord(record)).toContain('\n\nc3\n');
+  });
+
+  test('records an O-first game with a First header', () => {
+    let session = createGameSession(createInitialGameState(undefined, 'O'));
+    session = playSessionMove(session, { row: 1, col: 1 });
+
+    const record = createGameRecord(session);
+    const text = serializeGameRecord(record);
+
+    expect(record.firstPlayer).toBe('O');
+    expect(text).toContain('[First "O"]');
+    expect(parseGameRecord(text)).toEqual({ success: true, value: record });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, test, expect } from 'vitest';
+import { gameReducer, createGameStoreState } from '../../src/store/game-reducer';
+import { createInitialGameState } from '../../src/engine/game-engine';
+
+const center = { row: 1, col: 1 };
+
+describe('gameReducer', () => {
+  test('place plays a move for the player on turn', () => {
+    const state = gameReducer(createGameStoreState(createInitialGameState()), {
+      type: 'place',
+      position: center,
+    });
+
+    expect(state.session.moves).toHaveLength(1);
+    expect(state.game.board.cells[4].value).toBe('X');
+    expect(state.game.currentTurn).toBe('O');
+  });
+
+  test('place puts down the chosen piece where the variant allows it', () => {
+    const wild = createInitialGameState({ boardSize: 3, winLength: 3, variant: 'wild' });
+    const state = gameReducer(createGameStoreState(wild), {
+      type: 'place',
+      position: center,
+      symbol: 'O',
+    });
+
+    expect(state.game.board.cells[4].value).toBe('O');
+    expect(state.session.moves[0]).toMatchObject({ player: 'X', symbol: 'O' });
+    expect(
+      gameReducer(createGameStoreState(createInitialGameState()), {
+        type: 'place',
+        position: center,
+        symbol: 'O',
+      }).session.moves
+    ).toHaveLength(0);
+  });
+
+  test('illegal moves return the same state', () => {
+    const initial = gameReducer(createGameStoreState(createInitialGameState()), {
+      type: 'place',
+      position: center,
+    });
+
+    expect(gameReducer(initial, { type: 'place', position: center })).toBe(initial);
+    expect(gameReducer(initial, { type: 'place', position: { row: 5, col: 0 } })).toBe(initial);
+  });
+
+  test('a locked board still accepts the move it was waiting for', () => {
+    const locked = gameReducer(createGameStoreState(createInitialGameState()), { type: 'lock' });
+    expect(locked.game.moveInProgress).toBe(true);
+
+    const state = gameReducer(locked, { type: 'place', position: center });
+    expect(state.game.moveInProgress).toBe(false);
+    expect(state.session.moves).toHaveLength(1);
+  });
+
+  test('lock and unlock are no-ops when already in that state', () => {
+    const initial = createGameStoreState(createInitialGameState());
+    const locked = gameReducer(initial, { type: 'lock' });
+
+    expect(gameReducer(initial, { type: 'unlock' })).toBe(initial);
+    expect(gameReducer(locked, { type: 'lock' })).toBe(locked);
+    expect(gameReducer(locked, { type: 'unlock' }).game.moveInProgress).toBe(false);
+  });
+
+  test('undo, redo and jump move through the history', () => {
+    let state = createGameStoreState(createInitialGameState());
+    state = gameReducer(state, { type: 'place', position: center });
+    state = gameReducer(state, { type: 'place', position: { row: 0, col: 0 } });
+
+    state = gameReducer(state, { type: 'undo' });
+    expect(state.session.currentMove).toBe(1);
+    state = gameReducer(state, { type: 'redo' });
+    expect(state.session.currentMove).toBe(2);
+    state = gameReducer(state, { type: 'jump', moveNumber: 0 });
+    expect(state.game.board.cells.every(cell => cell.value === null)).toBe(true);
+  });
+
+  test('reset starts a new game with the local player', () => {
+    const played = gameReducer(createGameStoreState(createInitialGameState()), {
+      type: 'place',
+      position: center,
+    });
+    const state = gameReducer(played, {
+      type: 'reset',
+      state: createInitialGameState(),
+      localPlayer: 'O',
+    });
+
+    expect(state.session.moves).toHaveLength(0);
+    expect(state.localPlayer).toBe('O');
+  });
+
+  test('timeout ends the game as a loss for the player on turn', () => {
+    const initial = createGameStoreState(createInitialGameState());
+    const state = gameReducer(initial, { type: 'timeout', player: 'X' });
+
+    expect(state.game.status).toBe('won');
+    expect(state.game.winner).toBe('O');
+    expect(gameReducer(initial, { type: 'timeout', player: 'O' })).toBe(initial);
+  });
+
+  test('remote moves are rejected in local play', () => {
+    const state = gameReducer(createGameStoreState(createInitialGameState()), {
+      type: 'remote-move',
+      move: { moveNumber: 1, player: 'X', position: center },
+    });
+
+    expect(state.remoteStatus).toBe('rejected');
+    expect(state.session.moves).toHaveLength(0);
+  });
+
+  test('early remote moves wait until the local move is played', () => {
+    let state = createGameStoreState(createInitialGameState(), 'X');
+    state = gameReducer(state, {
+      type: 'remote-move',
+      move: { moveNumber: 2, player: 'O', position: center },
+    });
+    expect(state.remoteStatus).toBe('buffered');
+    expect(state.pendingRemoteMoves).toHaveLength(1);
+
+    state = gameReducer(state, { type: 'place', position: { row: 0, col: 0 } });
+    expect(state.session.moves).toHaveLength(2);
+    expect(state.pendingRemoteMoves).toHaveLength(0);
+    expect(state.game.currentTurn).toBe('X');
+  });
+});
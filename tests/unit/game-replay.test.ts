@@ -0,0 +1,64 @@
+import { describe, test, expect } from 'vitest';
+import { buildReplaySession } from '../../src/engine/game-replay';
+import {
+  createGameSession,
+  createInitialGameState,
+  getCurrentState,
+  jumpToMove,
+  playSessionMove,
+} from '../../src/engine/game-engine';
+import { CellPosition } from '../../src/models/board';
+
+// X takes the top row while O plays the middle row
+const X_WINS: CellPosition[] = [
+  { row: 0, col: 0 },
+  { row: 1, col: 0 },
+  { row: 0, col: 1 },
+  { row: 1, col: 1 },
+  { row: 0, col: 2 },
+];
+
+describe('buildReplaySession', () => {
+  test('rebuilds every position and starts at the beginning', () => {
+    const replay = buildReplaySession(X_WINS.map(position => ({ position })));
+
+    expect(replay.currentMove).toBe(0);
+    expect(replay.states).toHaveLength(6);
+    expect(replay.moves.map(move => move.player)).toEqual(['X', 'O', 'X', 'O', 'X']);
+    const end = getCurrentState(jumpToMove(replay, 5));
+    expect(end.status).toBe('won');
+    expect(end.winner).toBe('X');
+  });
+
+  test('matches the session the game was played in', () => {
+    const initial = createInitialGameState(undefined, 'O');
+    const played = X_WINS.reduce(
+      (session, position) => playSessionMove(session, position),
+      createGameSession(initial)
+    );
+
+    const replay = buildReplaySession(played.moves, initial);
+
+    expect(replay.states).toEqual(played.states);
+    expect(replay.moves).toEqual(played.moves);
+  });
+
+  test('keeps the piece chosen in variants that allow one', () => {
+    const initial = createInitialGameState({ boardSize: 3, winLength: 3, variant: 'wild' });
+    const replay = buildReplaySession([{ position: { row: 1, col: 1 }, symbol: 'O' }], initial);
+
+    expect(replay.moves[0]).toEqual({
+      player: 'X',
+      position: { row: 1, col: 1 },
+      moveNumber: 1,
+      symbol: 'O',
+    });
+    expect(getCurrentState(jumpToMove(replay, 1)).board.cells[4].value).toBe('O');
+  });
+
+  test('rejects a move that is not legal', () => {
+    expect(() =>
+      buildReplaySession([{ position: { row: 0, col: 0 } }, { position: { row: 0, col: 0 } }])
+    ).toThrow('Move 2 at row 1, column 1 is not legal');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createGameRules,
+  isValidGameRules,
+  DEFAULT_GAME_RULES,
+  GAME_RULE_PRESETS,
+} from '../../src/models/game-rules';
+import { createInitialGameState } from '../../src/engine/game-engine';
+import { GameVariantId } from '../../src/constants/game-config';
+
+describe('isValidGameRules', () => {
+  test('accepts the classic rules', () => {
+    expect(isValidGameRules(DEFAULT_GAME_RULES)).toBe(true);
+  });
+
+  test('accepts every preset', () => {
+    Object.values(GAME_RULE_PRESETS).forEach(rules => {
+      expect(isValidGameRules(rules)).toBe(true);
+    });
+  });
+
+  test('accepts the size limits', () => {
+    expect(isValidGameRules({ boardSize: 3, winLength: 3 })).toBe(true);
+    expect(isValidGameRules({ boardSize: 19, winLength: 5 })).toBe(true);
+  });
+
+  test('rejects board sizes outside 3-19', () => {
+    expect(isValidGameRules({ boardSize: 2, winLength: 2 })).toBe(false);
+    expect(isValidGameRules({ boardSize: 20, winLength: 5 })).toBe(false);
+  });
+
+  test('rejects win length longer than the board', () => {
+    expect(isValidGameRules({ boardSize: 4, winLength: 5 })).toBe(false);
+  });
+
+  test('rejects win length below 3', () => {
+    expect(isValidGameRules({ boardSize: 5, winLength: 2 })).toBe(false);
+  });
+
+  test('rejects non-integer values', () => {
+    expect(isValidGameRules({ boardSize: 4.5, winLength: 3 })).toBe(false);
+  });
+
+  test('accepts known variants only', () => {
+    expect(isValidGameRules({ boardSize: 3, winLength: 3, variant: 'misere' })).toBe(true);
+    expect(
+      isValidGameRules({ boardSize: 3, winLength: 3, variant: 'chaos' as GameVariantId })
+    ).toBe(false);
+  });
+
+  test('rejects vanishing pieces with lines longer than the pieces kept', () => {
+    expect(isValidGameRules({ boardSize: 5, winLength: 3, variant: 'vanishing' })).toBe(true);
+    expect(isValidGameRules({ boardSize: 5, winLength: 4, variant: 'vanishing' })).toBe(false);
+    expect(isValidGameRules({ ...GAME_RULE_PRESETS.GOMOKU, variant: 'vanishing' })).toBe(false);
+  });
+});
+
+describe('createGameRules', () => {
+  test('returns rules for a valid combination', () => {
+    expect(createGameRules(5, 4)).toEqual({ boardSize: 5, winLength: 4 });
+  });
+
+  test('throws for an invalid combination', () => {
+    expect(() => createGameRules(3, 4)).toThrow(/Invalid game rules/);
+    expect(() => createGameRules(5, 4, 'vanishing')).toThrow(/with vanishing pieces/);
+  });
+});
+
+describe('createInitialGameState', () => {
+  test('uses classic rules by default', () => {
+    const state = createInitialGameState();
+    expect(state.rules).toEqual({ boardSize: 3, winLength: 3 });
+    expect(state.board.size).toBe(3);
+    expect(state.board.cells).toHaveLength(9);
+    expect(state.status).toBe('in-progress');
+  });
+
+  test('builds a board matching the rules', () => {
+    const state = createInitialGameState(GAME_RULE_PRESETS.GOMOKU);
+    expect(state.rules.winLength).toBe(5);
+    expect(state.board.size).toBe(15);
+    expect(state.board.cells).toHaveLength(225);
+  });
+
+  test('lets either player move first', () => {
+    expect(createInitialGameState().currentTurn).toBe('X');
+    expect(createInitialGameState(DEFAULT_GAME_RULES, 'O').currentTurn).toBe('O');
+  });
+
+  test('throws for invalid rules', () => {
+    expect(() => createInitialGameState({ boardSize: 25, winLength: 5 })).toThrow();
+  });
+
+  test('keeps the rule variant', () => {
+    const state = createInitialGameState({ boardSize: 4, winLength: 3, variant: 'notakto' });
+    expect(state.rules).toEqual({ boardSize: 4, winLength: 3, variant: 'notakto' });
+  });
+});
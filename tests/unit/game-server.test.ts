@@ -0,0 +1,296 @@
+// @vitest-environment node
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { connect as connectTcp } from 'node:net';
+import { WebSocket } from 'ws';
+import { startGameServer, GameServer } from '../../src/server/game-server';
+import { parseClientMessage, ServerMessage } from '../../src/server/protocol';
+
+type MessageOf<T extends ServerMessage['type']> = Extract<ServerMessage, { type: T }>;
+
+// Minimal localhost client that queues server messages until a test asks for them
+interface TestClient {
+  send: (message: unknown) => void;
+  next: <T extends ServerMessage['type']>(
+    type: T,
+    matches?: (message: MessageOf<T>) => boolean
+  ) => Promise<MessageOf<T>>;
+  close: () => void;
+}
+
+function connectClient(port: number): Promise<TestClient> {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+  const queue: ServerMessage[] = [];
+  const waiting: Array<() => void> = [];
+
+  socket.on('message', data => {
+    queue.push(JSON.parse(data.toString()));
+    waiting.splice(0).forEach(wake => wake());
+  });
+
+  // Joins also broadcast state, so tests pass `matches` to skip stale updates
+  const next = async <T extends ServerMessage['type']>(
+    type: T,
+    matches: (message: MessageOf<T>) => boolean = () => true
+  ): Promise<MessageOf<T>> => {
+    for (;;) {
+      const index = queue.findIndex(
+        message => message.type === type && matches(message as MessageOf<T>)
+      );
+      if (index !== -1) {
+        // Drop anything older than the match so later waits see newer messages
+        const [message] = queue.splice(0, index + 1).slice(-1);
+        return message as MessageOf<T>;
+      }
+      await new Promise<void>(wake => waiting.push(wake));
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    socket.once('error', reject);
+    socket.once('open', () =>
+      resolve({
+        send: message => socket.send(typeof message === 'string' ? message : JSON.stringify(message)),
+        next,
+        close: () => socket.close(),
+      })
+    );
+  });
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('parseClientMessage', () => {
+  test('parses valid messages', () => {
+    expect(parseClientMessage('{"type":"create-room"}')).toEqual({ type: 'create-room' });
+    expect(parseClientMessage('{"type":"join-room","code":"abcd"}')).toEqual({
+      type: 'join-room',
+      code: 'ABCD',
+      token: undefined,
+      spectator: false,
+    });
+    expect(parseClientMessage('{"type":"move","position":{"row":1,"col":2}}')).toEqual({
+      type: 'move',
+      position: { row: 1, col: 2 },
+    });
+  });
+
+  test('rejects malformed messages', () => {
+    expect(parseClientMessage('not json')).toBeNull();
+    expect(parseClientMessage('{"type":"move","position":{"row":-1,"col":0}}')).toBeNull();
+    expect(parseClientMessage('{"type":"join-room"}')).toBeNull();
+    expect(parseClientMessage('{"type":"create-room","rules":"big"}')).toBeNull();
+    expect(parseClientMessage('{"type":"resign"}')).toBeNull();
+  });
+});
+
+describe('startGameServer', () => {
+  let server: GameServer;
+  const clients: TestClient[] = [];
+
+  async function connect(): Promise<TestClient> {
+    const client = await connectClient(server.port);
+    clients.push(client);
+    return client;
+  }
+
+  // Creates a room and seats two players in it
+  async function setupRoom() {
+    const x = await connect();
+    x.send({ type: 'create-room' });
+    const created = await x.next('joined');
+
+    const o = await connect();
+    o.send({ type: 'join-room', code: created.code });
+    const joined = await o.next('joined');
+
+    return { x, o, code: created.code, xToken: created.token!, oJoined: joined };
+  }
+
+  // Alternate moves, X first, waiting for each to be broadcast
+  async function playMoves(x: TestClient, o: TestClient, moves: Array<[number, number]>) {
+    for (const [index, [row, col]] of moves.entries()) {
+      const player = index % 2 === 0 ? x : o;
+      player.send({ type: 'move', position: { row, col } });
+      await x.next('state', ({ state }) => state.board.cells[row * 3 + col].value !== null);
+    }
+  }
+
+  beforeEach(async () => {
+    server = await startGameServer({ port: 0 });
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach(client => client.close());
+    await server.close();
+  });
+
+  test('creates a room and seats two players', async () => {
+    const { code, oJoined } = await setupRoom();
+
+    expect(code).toMatch(/^[A-Z2-9]{4}$/);
+    expect(oJoined.seat).toBe('O');
+    expect(oJoined.state.status).toBe('in-progress');
+  });
+
+  test('creates rooms with custom rules and rejects invalid ones', async () => {
+    const client = await connect();
+    client.send({ type: 'create-room', rules: { boardSize: 5, winLength: 4 } });
+    expect((await client.next('joined')).state.board.size).toBe(5);
+
+    client.send({ type: 'create-room', rules: { boardSize: 50, winLength: 4 } });
+    expect((await client.next('error')).message).toMatch(/Invalid game rules/);
+  });
+
+  test('broadcasts accepted moves to everyone in the room', async () => {
+    const { x, o, code } = await setupRoom();
+    const spectator = await connect();
+    spectator.send({ type: 'join-room', code });
+    expect((await spectator.next('joined')).seat).toBeNull();
+
+    x.send({ type: 'move', position: { row: 1, col: 1 } });
+
+    for (const client of [x, o, spectator]) {
+      const { state } = await client.next('state', ({ state }) => state.currentTurn === 'O');
+      expect(state.board.cells.filter(cell => cell.value === 'X')).toHaveLength(1);
+    }
+  });
+
+  test('rejects out-of-turn and illegal moves with a reason', async () => {
+    const { x, o } = await setupRoom();
+
+    o.send({ type: 'move', position: { row: 0, col: 0 } });
+    expect((await o.next('move-rejected')).reason).toBe('not-your-turn');
+
+    x.send({ type: 'move', position: { row: 0, col: 0 } });
+    await o.next('state', ({ state }) => state.currentTurn === 'O');
+    o.send({ type: 'move', position: { row: 0, col: 0 } });
+    expect((await o.next('move-rejected')).reason).toBe('cell-occupied');
+    o.send({ type: 'move', position: { row: 5, col: 5 } });
+    expect((await o.next('move-rejected')).reason).toBe('invalid-position');
+  });
+
+  test('rejects moves from spectators', async () => {
+    const { code } = await setupRoom();
+    const spectator = await connect();
+    spectator.send({ type: 'join-room', code, spectator: true });
+    await spectator.next('joined');
+
+    spectator.send({ type: 'move', position: { row: 0, col: 0 } });
+    expect((await spectator.next('move-rejected')).reason).toBe('not-your-turn');
+  });
+
+  test('resyncs the full state when a player reconnects', async () => {
+    const { x, o, code, xToken } = await setupRoom();
+    x.send({ type: 'move', position: { row: 2, col: 0 } });
+    await o.next('state', ({ state }) => state.currentTurn === 'O');
+
+    x.close();
+    await o.next('state', ({ connected }) => !connected.X);
+
+    const back = await connect();
+    back.send({ type: 'join-room', code, token: xToken });
+    const rejoined = await back.next('joined');
+
+    expect(rejoined.seat).toBe('X');
+    expect(rejoined.state.board.cells.find(cell => cell.value === 'X')?.position).toEqual({
+      row: 2,
+      col: 0,
+    });
+    const { connected } = await o.next('state', ({ connected }) => connected.X);
+    expect(connected).toEqual({ X: true, O: true });
+  });
+
+  test('starts a new game in the same room once the game is over', async () => {
+    const { x, o } = await setupRoom();
+    await playMoves(x, o, [[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]]);
+
+    o.send({ type: 'new-game' });
+    const { state } = await x.next('state', ({ state }) => state.currentTurn === 'X');
+
+    expect(state.board.cells.every(cell => cell.value === null)).toBe(true);
+  });
+
+  test('refuses a new game while the game is still being played', async () => {
+    const { x, o } = await setupRoom();
+    await playMoves(x, o, [[1, 1]]);
+
+    o.send({ type: 'new-game' });
+    expect((await o.next('error')).message).toMatch(/Finish the game/);
+
+    o.send({ type: 'move', position: { row: 0, col: 0 } });
+    const { state } = await x.next('state', ({ state }) => state.currentTurn === 'X');
+    expect(state.board.cells.filter(cell => cell.value !== null)).toHaveLength(2);
+  });
+
+  test('drops a room once it has been empty for the grace period', async () => {
+    await server.close();
+    server = await startGameServer({ port: 0, roomGraceMs: 100 });
+    const { x, o, code, xToken } = await setupRoom();
+
+    // Back within the grace period: the room and seat are still there
+    x.close();
+    o.close();
+    await wait(20);
+    const back = await connect();
+    back.send({ type: 'join-room', code, token: xToken });
+    expect((await back.next('joined')).seat).toBe('X');
+
+    await wait(150);
+    const spectator = await connect();
+    spectator.send({ type: 'join-room', code });
+    await spectator.next('joined');
+
+    back.close();
+    spectator.close();
+    await wait(150);
+    const late = await connect();
+    late.send({ type: 'join-room', code });
+    expect((await late.next('error')).message).toMatch(/No room/);
+  });
+
+  test('reports unknown rooms and malformed messages', async () => {
+    const client = await connect();
+    client.send({ type: 'join-room', code: 'ZZZZ' });
+    expect((await client.next('error')).message).toMatch(/No room/);
+
+    client.send('garbage');
+    expect((await client.next('error')).message).toBe('Malformed message');
+
+    client.send({ type: 'move', position: { row: 0, col: 0 } });
+    expect((await client.next('error')).message).toMatch(/Join a room/);
+  });
+
+  test('drops a client that sends an invalid frame and keeps serving', async () => {
+    const { x, o } = await setupRoom();
+
+    // Hand-rolled upgrade, then a masked frame with the reserved opcode 0x3
+    const raw = connectTcp(server.port, '127.0.0.1');
+    await new Promise<void>(resolve => raw.once('connect', () => resolve()));
+    raw.write(
+      [
+        'GET / HTTP/1.1',
+        `Host: 127.0.0.1:${server.port}`,
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==',
+        'Sec-WebSocket-Version: 13',
+        '',
+        '',
+      ].join('\r\n')
+    );
+    await new Promise<void>(resolve => raw.once('data', () => resolve()));
+    raw.write(Buffer.from([0x83, 0x80, 0, 0, 0, 0]));
+    await new Promise<void>(resolve => raw.once('close', () => resolve()));
+
+    const late = await connect();
+    late.send({ type: 'join-room', code: 'ZZZZ' });
+    expect((await late.next('error')).message).toMatch(/No room/);
+
+    x.send({ type: 'move', position: { row: 1, col: 1 } });
+    expect((await o.next('state', ({ state }) => state.currentTurn === 'O')).state.status).toBe(
+      'in-progress'
+    );
+  });
+});
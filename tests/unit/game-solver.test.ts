@@ -0,0 +1,100 @@
+import { describe, test, expect } from 'vitest';
+import { CellHint, canSolvePosition, getMoveHints } from '../../src/ai/game-solver';
+import { createInitialGameState, processMove } from '../../src/engine/game-engine';
+import { GameState } from '../../src/models/game-state';
+import { GameVariantId } from '../../src/constants/game-config';
+import { CellPosition } from '../../src/models/board';
+
+function playMoves(
+  moves: Array<[number, number]>,
+  state = createInitialGameState()
+): GameState {
+  return moves.reduce(
+    (current, [row, col]) => processMove(current, { row, col }),
+    state
+  );
+}
+
+function startVariant(variant: GameVariantId): GameState {
+  return createInitialGameState({ boardSize: 3, winLength: 3, variant });
+}
+
+function hintAt(hints: CellHint[] | null, position: CellPosition): CellHint | undefined {
+  return hints?.find(
+    hint => hint.position.row === position.row && hint.position.col === position.col
+  );
+}
+
+describe('getMoveHints', () => {
+  test('every opening move draws with perfect play', () => {
+    const hints = getMoveHints(createInitialGameState());
+
+    expect(hints).toHaveLength(9);
+    expect(hints?.every(hint => hint.outcome === 'draw' && hint.moves === 0)).toBe(true);
+  });
+
+  test('marks only empty cells', () => {
+    const hints = getMoveHints(playMoves([[1, 1]]));
+
+    expect(hints).toHaveLength(8);
+    expect(hintAt(hints, { row: 1, col: 1 })).toBeUndefined();
+  });
+
+  test('finds an immediate win', () => {
+    // X: top-left and top-middle; O: middle-left and centre
+    const hints = getMoveHints(playMoves([[0, 0], [1, 0], [0, 1], [1, 1]]));
+
+    expect(hintAt(hints, { row: 0, col: 2 })).toEqual({
+      position: { row: 0, col: 2 },
+      outcome: 'win',
+      moves: 1,
+    });
+  });
+
+  test('counts the moves of a forced win', () => {
+    // O answered the corner with an edge; the centre forks on X's third move
+    const hints = getMoveHints(playMoves([[0, 0], [0, 1]]));
+
+    expect(hintAt(hints, { row: 1, col: 1 })).toMatchObject({ outcome: 'win', moves: 3 });
+  });
+
+  test('marks moves that leave a line open as losses', () => {
+    // X threatens the top row; O must block
+    const hints = getMoveHints(playMoves([[0, 0], [1, 1], [0, 1]]));
+
+    expect(hintAt(hints, { row: 0, col: 2 })?.outcome).not.toBe('loss');
+    expect(hintAt(hints, { row: 2, col: 2 })).toMatchObject({ outcome: 'loss', moves: 1 });
+  });
+
+  test('follows the variant: completing a line in misère loses', () => {
+    const state = [[0, 0], [1, 0], [0, 1], [2, 2]].reduce(
+      (current, [row, col]) => processMove(current, { row, col }),
+      startVariant('misere')
+    );
+
+    expect(hintAt(getMoveHints(state), { row: 0, col: 2 })).toMatchObject({
+      outcome: 'loss',
+      moves: 1,
+    });
+  });
+
+  test('counts the better piece where either may be placed', () => {
+    // Wild is a first-player win, but only through the centre
+    const hints = getMoveHints(startVariant('wild'));
+
+    expect(hintAt(hints, { row: 1, col: 1 })?.outcome).toBe('win');
+    expect(hintAt(hints, { row: 0, col: 0 })?.outcome).toBe('draw');
+  });
+});
+
+describe('canSolvePosition', () => {
+  test('declines large, finished and vanishing positions', () => {
+    const won = playMoves([[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]]);
+
+    expect(canSolvePosition(createInitialGameState())).toBe(true);
+    expect(canSolvePosition(createInitialGameState({ boardSize: 4, winLength: 4 }))).toBe(false);
+    expect(canSolvePosition(won)).toBe(false);
+    expect(canSolvePosition(startVariant('vanishing'))).toBe(false);
+    expect(getMoveHints(won)).toBeNull();
+  });
+});
@@ -6,8 +6,12 @@ describe('GameState', () => {
   test('has required properties', () => {
     const state: GameState = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X',
       moveInProgress: false,
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
     };
 
     expect(state.board).toBeDefined();
@@ -18,8 +22,12 @@ describe('GameState', () => {
   test('board is valid Board type', () => {
     const state: GameState = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X',
       moveInProgress: false,
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
     };
 
     expect(state.board.size).toBe(3);
@@ -29,14 +37,22 @@ describe('GameState', () => {
   test('currentTurn is X or O', () => {
     const stateX: GameState = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X',
       moveInProgress: false,
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
     };
 
     const stateO: GameState = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'O',
       moveInProgress: false,
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
     };
 
     expect(stateX.currentTurn).toBe('X');
@@ -46,8 +62,12 @@ describe('GameState', () => {
   test('moveInProgress is boolean', () => {
     const state: GameState = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X',
       moveInProgress: true,
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
     };
 
     expect(typeof state.moveInProgress).toBe('boolean');
@@ -0,0 +1,91 @@
+import { describe, test, expect, vi } from 'vitest';
+import { createGameStore, Middleware } from '../../src/store/game-store';
+import { createInitialGameState } from '../../src/engine/game-engine';
+
+const center = { row: 1, col: 1 };
+
+describe('createGameStore', () => {
+  test('dispatch updates the state', () => {
+    const store = createGameStore(createInitialGameState());
+
+    store.dispatch({ type: 'place', position: center });
+
+    expect(store.getState().game.board.cells[4].value).toBe('X');
+  });
+
+  test('listeners hear about changes to their selected value', () => {
+    const store = createGameStore(createInitialGameState());
+    const onTurn = vi.fn();
+    store.subscribe(state => state.game.currentTurn, onTurn);
+
+    store.dispatch({ type: 'place', position: center });
+
+    expect(onTurn).toHaveBeenCalledWith('O', 'X');
+  });
+
+  test('listeners are skipped when their value is unchanged', () => {
+    const store = createGameStore(createInitialGameState());
+    const onSession = vi.fn();
+    store.subscribe(state => state.session, onSession);
+
+    store.dispatch({ type: 'lock' });
+    store.dispatch({ type: 'undo' });
+
+    expect(onSession).not.toHaveBeenCalled();
+  });
+
+  test('unsubscribe stops notifications', () => {
+    const store = createGameStore(createInitialGameState());
+    const onGame = vi.fn();
+    const unsubscribe = store.subscribe(state => state.game, onGame);
+
+    unsubscribe();
+    store.dispatch({ type: 'place', position: center });
+
+    expect(onGame).not.toHaveBeenCalled();
+  });
+
+  test('listeners may dispatch while being notified', () => {
+    const store = createGameStore(createInitialGameState());
+    const seen: boolean[] = [];
+    store.subscribe(state => state.game, game => seen.push(game.moveInProgress));
+    store.subscribe(
+      state => state.session,
+      () => store.dispatch({ type: 'lock' })
+    );
+
+    store.dispatch({ type: 'place', position: center });
+
+    expect(seen).toEqual([false, true]);
+    expect(store.getState().game.moveInProgress).toBe(true);
+  });
+
+  test('middleware runs in order around the reducer', () => {
+    const calls: string[] = [];
+    const trace =
+      (name: string): Middleware =>
+      (_api, action, next) => {
+        calls.push(`${name}:${action.type}`);
+        next(action);
+      };
+    const store = createGameStore(createInitialGameState(), [trace('a'), trace('b')]);
+
+    store.dispatch({ type: 'place', position: center });
+
+    expect(calls).toEqual(['a:place', 'b:place']);
+    expect(store.getState().session.moves).toHaveLength(1);
+  });
+
+  test('middleware can drop actions', () => {
+    const store = createGameStore(createInitialGameState(), [
+      (_api, action, next) => {
+        if (action.type !== 'undo') next(action);
+      },
+    ]);
+
+    store.dispatch({ type: 'place', position: center });
+    store.dispatch({ type: 'undo' });
+
+    expect(store.getState().session.currentMove).toBe(1);
+  });
+});
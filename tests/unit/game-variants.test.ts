@@ -0,0 +1,226 @@
+import { describe, test, expect } from 'vitest';
+import {
+  CLASSIC_VARIANT,
+  GAME_VARIANT_LIST,
+  MISERE_VARIANT,
+  NOTAKTO_VARIANT,
+  VANISHING_VARIANT,
+  WILD_VARIANT,
+  getGameVariant,
+} from '../../src/engine/game-variants';
+import { createInitialGameState, processMove } from '../../src/engine/game-engine';
+import { GameVariantId } from '../../src/constants/game-config';
+import { GameState } from '../../src/models/game-state';
+import { CellPosition, getCellValue } from '../../src/models/board';
+
+function startGame(variant: GameVariantId): GameState {
+  return createInitialGameState({ boardSize: 3, winLength: 3, variant });
+}
+
+function playMoves(state: GameState, moves: CellPosition[]): GameState {
+  return moves.reduce((current, move) => processMove(current, move), state);
+}
+
+// X takes the top row while O plays the middle row
+const TOP_ROW_FOR_X = [
+  { row: 0, col: 0 },
+  { row: 1, col: 0 },
+  { row: 0, col: 1 },
+  { row: 1, col: 1 },
+  { row: 0, col: 2 },
+];
+
+describe('getGameVariant', () => {
+  test('finds every variant by id', () => {
+    GAME_VARIANT_LIST.forEach(variant => {
+      expect(getGameVariant(variant.id)).toBe(variant);
+    });
+  });
+
+  test('is classic when no variant is given', () => {
+    expect(getGameVariant()).toBe(CLASSIC_VARIANT);
+  });
+});
+
+describe('getPlayableSymbols', () => {
+  const state = { ...startGame('classic'), currentTurn: 'O' as const };
+
+  test('classic and misère place the player\'s own piece', () => {
+    expect(CLASSIC_VARIANT.getPlayableSymbols(state)).toEqual(['O']);
+    expect(MISERE_VARIANT.getPlayableSymbols(state)).toEqual(['O']);
+  });
+
+  test('wild offers both, own piece first', () => {
+    expect(WILD_VARIANT.getPlayableSymbols(state)).toEqual(['O', 'X']);
+  });
+
+  test('notakto only ever places X', () => {
+    expect(NOTAKTO_VARIANT.getPlayableSymbols(state)).toEqual(['X']);
+  });
+});
+
+describe('classic', () => {
+  test('completing a line wins', () => {
+    const state = playMoves(startGame('classic'), TOP_ROW_FOR_X);
+    expect(state.status).toBe('won');
+    expect(state.winner).toBe('X');
+  });
+});
+
+describe('misère', () => {
+  test('completing a line loses', () => {
+    const state = playMoves(startGame('misere'), TOP_ROW_FOR_X);
+
+    expect(state.status).toBe('won');
+    expect(state.winner).toBe('O');
+    expect(state.winningLine).toHaveLength(3);
+  });
+});
+
+describe('wild', () => {
+  test('places the chosen piece', () => {
+    const state = processMove(startGame('wild'), { row: 1, col: 1 }, 'O');
+
+    expect(getCellValue(state.board, { row: 1, col: 1 })).toBe('O');
+    expect(state.currentTurn).toBe('O');
+  });
+
+  test('a line of either piece wins for whoever completed it', () => {
+    let state = startGame('wild');
+    state = processMove(state, { row: 0, col: 0 }, 'O'); // X
+    state = processMove(state, { row: 0, col: 1 }, 'O'); // O
+    state = processMove(state, { row: 0, col: 2 }, 'O'); // X completes a row of O
+
+    expect(state.status).toBe('won');
+    expect(state.winner).toBe('X');
+  });
+});
+
+describe('notakto', () => {
+  test('both players place X', () => {
+    const state = playMoves(startGame('notakto'), [
+      { row: 0, col: 0 },
+      { row: 2, col: 2 },
+    ]);
+
+    expect(getCellValue(state.board, { row: 0, col: 0 })).toBe('X');
+    expect(getCellValue(state.board, { row: 2, col: 2 })).toBe('X');
+    expect(state.currentTurn).toBe('X');
+  });
+
+  test('whoever completes a line loses', () => {
+    const state = playMoves(startGame('notakto'), [
+      { row: 0, col: 0 }, // X
+      { row: 0, col: 1 }, // O
+      { row: 2, col: 2 }, // X
+      { row: 0, col: 2 }, // O completes the top row
+    ]);
+
+    expect(state.status).toBe('won');
+    expect(state.winner).toBe('X');
+  });
+
+  test('refuses an O', () => {
+    const state = startGame('notakto');
+    expect(processMove(state, { row: 0, col: 0 }, 'O')).toBe(state);
+  });
+});
+
+describe('vanishing', () => {
+  // Three pieces each and no line yet
+  const THREE_EACH = [
+    { row: 0, col: 0 },
+    { row: 0, col: 2 },
+    { row: 1, col: 0 },
+    { row: 1, col: 2 },
+    { row: 2, col: 1 },
+    { row: 2, col: 0 },
+  ];
+
+  test('records the order pieces were placed in', () => {
+    const state = playMoves(startGame('vanishing'), THREE_EACH.slice(0, 3));
+
+    expect(state.board.cells[0].placedAt).toBe(1);
+    expect(state.board.cells[2].placedAt).toBe(2);
+    expect(state.board.cells[3].placedAt).toBe(3);
+  });
+
+  test("a fourth piece removes the player's oldest", () => {
+    const state = playMoves(startGame('vanishing'), [
+      ...THREE_EACH,
+      { row: 1, col: 1 }, // X's fourth
+    ]);
+
+    expect(getCellValue(state.board, { row: 0, col: 0 })).toBeNull();
+    expect(getCellValue(state.board, { row: 1, col: 1 })).toBe('X');
+    expect(state.board.cells.filter(cell => cell.value === 'X')).toHaveLength(3);
+    expect(state.board.cells.filter(cell => cell.value === 'O')).toHaveLength(3);
+    expect(state.status).toBe('in-progress');
+  });
+
+  test('the removed cell can be played again', () => {
+    const state = playMoves(startGame('vanishing'), [
+      ...THREE_EACH,
+      { row: 1, col: 1 }, // X; the corner X goes
+      { row: 0, col: 0 }, // O takes it
+    ]);
+
+    expect(getCellValue(state.board, { row: 0, col: 0 })).toBe('O');
+    expect(getCellValue(state.board, { row: 0, col: 2 })).toBeNull();
+  });
+
+  test('a line only wins with the pieces that stay', () => {
+    // X's fourth piece completes the middle row, then its top corner goes
+    const state = playMoves(startGame('vanishing'), [
+      { row: 1, col: 0 },
+      { row: 0, col: 2 },
+      { row: 1, col: 1 },
+      { row: 2, col: 2 },
+      { row: 0, col: 0 },
+      { row: 2, col: 0 },
+      { row: 1, col: 2 },
+    ]);
+
+    expect(getCellValue(state.board, { row: 1, col: 0 })).toBeNull();
+    expect(state.status).toBe('in-progress');
+  });
+
+  test('is won by three of the last three pieces', () => {
+    const state = playMoves(startGame('vanishing'), TOP_ROW_FOR_X);
+
+    expect(state.status).toBe('won');
+    expect(state.winner).toBe('X');
+  });
+
+  test('never fills the board', () => {
+    const moves = [
+      { row: 0, col: 0 },
+      { row: 0, col: 1 },
+      { row: 0, col: 2 },
+      { row: 1, col: 1 },
+      { row: 1, col: 0 },
+      { row: 2, col: 0 },
+      { row: 1, col: 2 },
+      { row: 2, col: 2 },
+      { row: 2, col: 1 },
+    ];
+    const state = playMoves(startGame('vanishing'), moves);
+
+    expect(state.board.cells.filter(cell => cell.value !== null)).toHaveLength(6);
+    expect(state.status).not.toBe('draw');
+  });
+
+  test("marks each player's oldest piece once they have three", () => {
+    const state = playMoves(startGame('vanishing'), THREE_EACH.slice(0, 5));
+
+    expect(VANISHING_VARIANT.getVanishingCells?.(state.board)).toEqual([
+      { row: 0, col: 0 },
+    ]);
+
+    const full = processMove(state, THREE_EACH[5]);
+    expect(VANISHING_VARIANT.getVanishingCells?.(full.board)).toEqual([
+      { row: 0, col: 0 },
+      { row: 0, col: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, test, expect, vi } from 'vitest';
+import { createHintToggle } from '../../src/ui/hint-toggle';
+
+describe('createHintToggle', () => {
+  test('starts off and flips on each click', () => {
+    const onChange = vi.fn();
+    const element = createHintToggle(onChange);
+    expect(element.getAttribute('aria-pressed')).toBe('false');
+
+    element.click();
+    expect(element.getAttribute('aria-pressed')).toBe('true');
+    expect(onChange).toHaveBeenLastCalledWith(true);
+
+    element.click();
+    expect(element.getAttribute('aria-pressed')).toBe('false');
+    expect(onChange).toHaveBeenLastCalledWith(false);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, test, expect } from 'vitest';
+import {
+  getCellFromCoordinates,
+  getBoardPosition,
+  hitTestBoard,
+} from '../../src/renderer/hit-test';
+import { getCellSize } from '../../src/constants/render-config';
+
+describe('getCellFromCoordinates', () => {
+  test('maps top-left cell correctly', () => {
+    const position = getCellFromCoordinates(50, 50, 100, 3);
+    expect(position).toEqual({ row: 0, col: 0 });
+  });
+
+  test('maps center cell correctly', () => {
+    const position = getCellFromCoordinates(150, 150, 100, 3);
+    expect(position).toEqual({ row: 1, col: 1 });
+  });
+
+  test('maps bottom-right cell correctly', () => {
+    const position = getCellFromCoordinates(250, 250, 100, 3);
+    expect(position).toEqual({ row: 2, col: 2 });
+  });
+
+  test('returns null for coordinates outside grid', () => {
+    const position = getCellFromCoordinates(350, 250, 100, 3);
+    expect(position).toBeNull();
+  });
+
+  test('handles cell boundaries correctly', () => {
+    // Click on boundary line (assigned to right/bottom cell)
+    const position = getCellFromCoordinates(100, 100, 100, 3);
+    expect(position).toEqual({ row: 1, col: 1 });
+  });
+
+  test('maps top-center cell correctly', () => {
+    const position = getCellFromCoordinates(150, 50, 100, 3);
+    expect(position).toEqual({ row: 0, col: 1 });
+  });
+
+  test('maps middle-left cell correctly', () => {
+    const position = getCellFromCoordinates(50, 150, 100, 3);
+    expect(position).toEqual({ row: 1, col: 0 });
+  });
+
+  test('returns null for negative coordinates', () => {
+    const position = getCellFromCoordinates(-10, 50, 100, 3);
+    expect(position).toBeNull();
+  });
+
+  test('returns null for y coordinate outside grid', () => {
+    const position = getCellFromCoordinates(50, 350, 100, 3);
+    expect(position).toBeNull();
+  });
+
+  test('maps corner boundary correctly', () => {
+    const position = getCellFromCoordinates(0, 0, 100, 3);
+    expect(position).toEqual({ row: 0, col: 0 });
+  });
+
+  test('handles edge of grid correctly', () => {
+    const position = getCellFromCoordinates(299, 299, 100, 3);
+    expect(position).toEqual({ row: 2, col: 2 });
+  });
+});
+
+
+describe('getCellFromCoordinates with board-derived cell size', () => {
+  test('maps clicks on a 5x5 board', () => {
+    const cellSize = getCellSize(5);
+    expect(getCellFromCoordinates(cellSize * 4.5, cellSize * 0.5, cellSize, 5))
+      .toEqual({ row: 0, col: 4 });
+  });
+
+  test('maps clicks on a 15x15 board', () => {
+    const cellSize = getCellSize(15);
+    expect(getCellFromCoordinates(cellSize * 7.2, cellSize * 14.9, cellSize, 15))
+      .toEqual({ row: 14, col: 7 });
+  });
+
+  test('returns null past the edge of a 15x15 board', () => {
+    const cellSize = getCellSize(15);
+    expect(getCellFromCoordinates(cellSize * 15, 0, cellSize, 15)).toBeNull();
+  });
+});
+
+describe('getBoardPosition', () => {
+  // Canvas drawn at `cssSize` CSS pixels with a 2px border, offset on the page
+  function createScaledCanvas(cssSize: number) {
+    const canvas = document.createElement('canvas');
+    canvas.getBoundingClientRect = () =>
+      ({ left: 10, top: 20, width: cssSize + 4, height: cssSize + 4 }) as DOMRect;
+    Object.defineProperty(canvas, 'clientLeft', { value: 2 });
+    Object.defineProperty(canvas, 'clientTop', { value: 2 });
+    Object.defineProperty(canvas, 'clientWidth', { value: cssSize });
+    Object.defineProperty(canvas, 'clientHeight', { value: cssSize });
+    return canvas;
+  }
+
+  test('maps CSS pixels to board units when the canvas is scaled', () => {
+    const canvas = createScaledCanvas(225);
+    const event = new MouseEvent('pointerdown', { clientX: 12 + 150, clientY: 22 + 75 });
+
+    expect(getBoardPosition(event, canvas)).toEqual({ x: 300, y: 150 });
+  });
+
+  test('hits the same cell at any on-screen size', () => {
+    [150, 450, 900].forEach(cssSize => {
+      const canvas = createScaledCanvas(cssSize);
+      // Just inside the bottom-right cell
+      const event = new MouseEvent('pointerdown', {
+        clientX: 12 + cssSize * (2 / 3) + 1,
+        clientY: 22 + cssSize - 1,
+      });
+      const { x, y } = getBoardPosition(event, canvas);
+
+      expect(getCellFromCoordinates(x, y, getCellSize(3), 3)).toEqual({ row: 2, col: 2 });
+    });
+  });
+
+  test('treats a canvas without layout as unscaled', () => {
+    const canvas = document.createElement('canvas');
+    const event = new MouseEvent('pointerdown', { clientX: 40, clientY: 60 });
+
+    expect(getBoardPosition(event, canvas)).toEqual({ x: 40, y: 60 });
+  });
+});
+
+describe('hitTestBoard', () => {
+  test('maps viewport points to cells on the given board size', () => {
+    const element = document.createElement('div');
+    const cellSize = getCellSize(5);
+
+    expect(hitTestBoard({ clientX: cellSize * 2.5, clientY: cellSize * 4.5 }, element, 5))
+      .toEqual({ row: 4, col: 2 });
+    expect(hitTestBoard({ clientX: -1, clientY: 0 }, element, 5)).toBeNull();
+  });
+});
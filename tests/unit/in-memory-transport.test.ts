@@ -0,0 +1,45 @@
+import { describe, test, expect, vi } from 'vitest';
+import { createInMemoryTransportPair } from '../../src/network/in-memory-transport';
+import { DEFAULT_GAME_RULES } from '../../src/models/game-rules';
+
+const rules = DEFAULT_GAME_RULES;
+
+describe('createInMemoryTransportPair', () => {
+  test('delivers messages to the other end only', () => {
+    const [left, right] = createInMemoryTransportPair();
+    const onLeft = vi.fn();
+    const onRight = vi.fn();
+    left.subscribe(onLeft);
+    right.subscribe(onRight);
+
+    left.send({ type: 'hello', peerId: 'left', rules });
+
+    expect(onRight).toHaveBeenCalledWith({ type: 'hello', peerId: 'left', rules });
+    expect(onLeft).not.toHaveBeenCalled();
+  });
+
+  test('delivers copies rather than shared objects', () => {
+    const [left, right] = createInMemoryTransportPair();
+    const onRight = vi.fn();
+    right.subscribe(onRight);
+
+    const message = { type: 'hello' as const, peerId: 'left', rules };
+    left.send(message);
+
+    expect(onRight.mock.calls[0][0]).not.toBe(message);
+  });
+
+  test('stops delivering after unsubscribe or close', () => {
+    const [left, right] = createInMemoryTransportPair();
+    const onRight = vi.fn();
+    const unsubscribe = right.subscribe(onRight);
+
+    unsubscribe();
+    left.send({ type: 'hello', peerId: 'left', rules });
+    right.subscribe(onRight);
+    left.close();
+    left.send({ type: 'hello', peerId: 'left', rules });
+
+    expect(onRight).not.toHaveBeenCalled();
+  });
+});
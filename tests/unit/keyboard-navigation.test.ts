@@ -0,0 +1,36 @@
+import { describe, test, expect } from 'vitest';
+import { getCursorAfterKey, isPlaceKey } from '../../src/input/keyboard-navigation';
+
+describe('getCursorAfterKey', () => {
+  const center = { row: 1, col: 1 };
+
+  test('arrow keys move one cell', () => {
+    expect(getCursorAfterKey(center, 'ArrowUp', 3)).toEqual({ row: 0, col: 1 });
+    expect(getCursorAfterKey(center, 'ArrowDown', 3)).toEqual({ row: 2, col: 1 });
+    expect(getCursorAfterKey(center, 'ArrowLeft', 3)).toEqual({ row: 1, col: 0 });
+    expect(getCursorAfterKey(center, 'ArrowRight', 3)).toEqual({ row: 1, col: 2 });
+  });
+
+  test('stays on the board at the edges', () => {
+    expect(getCursorAfterKey({ row: 0, col: 0 }, 'ArrowUp', 3)).toEqual({ row: 0, col: 0 });
+    expect(getCursorAfterKey({ row: 2, col: 2 }, 'ArrowRight', 3)).toEqual({ row: 2, col: 2 });
+  });
+
+  test('Home and End jump to opposite corners', () => {
+    expect(getCursorAfterKey(center, 'Home', 5)).toEqual({ row: 0, col: 0 });
+    expect(getCursorAfterKey(center, 'End', 5)).toEqual({ row: 4, col: 4 });
+  });
+
+  test('returns null for other keys', () => {
+    expect(getCursorAfterKey(center, 'a', 3)).toBeNull();
+    expect(getCursorAfterKey(center, 'Enter', 3)).toBeNull();
+  });
+});
+
+describe('isPlaceKey', () => {
+  test('accepts Enter and Space only', () => {
+    expect(isPlaceKey('Enter')).toBe(true);
+    expect(isPlaceKey(' ')).toBe(true);
+    expect(isPlaceKey('ArrowUp')).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { loadMatch, saveMatch, isValidMatchState } from '../../src/storage/match-storage';
+import { createMatch } from '../../src/engine/match-transitions';
+import { MATCH_CONFIG } from '../../src/constants/game-config';
+
+describe('match storage', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  test('returns null when nothing is saved', () => {
+    expect(loadMatch(window.localStorage)).toBeNull();
+  });
+
+  test('round-trips a saved match', () => {
+    const match = { ...createMatch(5), gamesPlayed: 2, nextStartingPlayer: 'X' as const };
+    saveMatch(window.localStorage, match);
+    expect(loadMatch(window.localStorage)).toEqual(match);
+  });
+
+  test('ignores unparseable data', () => {
+    window.localStorage.setItem(MATCH_CONFIG.STORAGE_KEY, '{not json');
+    expect(loadMatch(window.localStorage)).toBeNull();
+  });
+
+  test('ignores data with the wrong shape', () => {
+    window.localStorage.setItem(MATCH_CONFIG.STORAGE_KEY, JSON.stringify({ bestOf: 3 }));
+    expect(loadMatch(window.localStorage)).toBeNull();
+  });
+
+  test('survives storage that throws', () => {
+    const blocked = {
+      getItem: () => {
+        throw new Error('blocked');
+      },
+      setItem: () => {
+        throw new Error('blocked');
+      },
+    } as unknown as Storage;
+
+    expect(loadMatch(blocked)).toBeNull();
+    expect(() => saveMatch(blocked, createMatch(3))).not.toThrow();
+  });
+});
+
+describe('isValidMatchState', () => {
+  test('accepts a fresh match', () => {
+    expect(isValidMatchState(createMatch(3))).toBe(true);
+  });
+
+  test('rejects negative counts and bad symbols', () => {
+    const match = createMatch(3);
+    expect(isValidMatchState({ ...match, gamesPlayed: -1 })).toBe(false);
+    expect(isValidMatchState({ ...match, winner: 'Z' })).toBe(false);
+    expect(isValidMatchState({ ...match, scores: { X: match.scores.X } })).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createMatch,
+  getWinsNeeded,
+  isMatchOver,
+  recordGameResult,
+  resetMatch,
+} from '../../src/engine/match-transitions';
+import { parsePosition } from '../../src/notation/position-notation';
+import { GameState } from '../../src/models/game-state';
+import { createInitialGameState } from '../../src/engine/game-engine';
+
+function finishedGame(position: string): GameState {
+  const result = parsePosition(position);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.value;
+}
+
+const X_WINS = finishedGame('XXX/OO./...');
+const O_WINS = finishedGame('OOO/XX./X..');
+const DRAW = finishedGame('XOX/XOO/OXX');
+
+describe('createMatch', () => {
+  test('starts with empty scores and X to open', () => {
+    const match = createMatch(3);
+    expect(match.scores.X).toEqual({ wins: 0, losses: 0, draws: 0 });
+    expect(match.scores.O).toEqual({ wins: 0, losses: 0, draws: 0 });
+    expect(match.gamesPlayed).toBe(0);
+    expect(match.nextStartingPlayer).toBe('X');
+    expect(match.winner).toBeNull();
+  });
+
+  test('rejects even or non-positive lengths', () => {
+    expect(() => createMatch(4)).toThrow(/best of 4/);
+    expect(() => createMatch(0)).toThrow();
+  });
+});
+
+describe('getWinsNeeded', () => {
+  test('is a majority of the games', () => {
+    expect(getWinsNeeded(1)).toBe(1);
+    expect(getWinsNeeded(3)).toBe(2);
+    expect(getWinsNeeded(7)).toBe(4);
+  });
+});
+
+describe('recordGameResult', () => {
+  test('credits the winner and debits the loser', () => {
+    const match = recordGameResult(createMatch(3), X_WINS);
+    expect(match.scores.X).toEqual({ wins: 1, losses: 0, draws: 0 });
+    expect(match.scores.O).toEqual({ wins: 0, losses: 1, draws: 0 });
+    expect(match.gamesPlayed).toBe(1);
+  });
+
+  test('counts a draw for both players', () => {
+    const match = recordGameResult(createMatch(3), DRAW);
+    expect(match.scores.X.draws).toBe(1);
+    expect(match.scores.O.draws).toBe(1);
+  });
+
+  test('alternates the starting player', () => {
+    let match = recordGameResult(createMatch(5), DRAW);
+    expect(match.nextStartingPlayer).toBe('O');
+    match = recordGameResult(match, X_WINS);
+    expect(match.nextStartingPlayer).toBe('X');
+  });
+
+  test('ends the match at a majority of wins', () => {
+    let match = recordGameResult(createMatch(3), O_WINS);
+    expect(isMatchOver(match)).toBe(false);
+    match = recordGameResult(match, DRAW);
+    match = recordGameResult(match, O_WINS);
+    expect(isMatchOver(match)).toBe(true);
+    expect(match.winner).toBe('O');
+  });
+
+  test('ignores games after the match is over', () => {
+    const over = recordGameResult(createMatch(1), X_WINS);
+    expect(recordGameResult(over, O_WINS)).toBe(over);
+  });
+
+  test('ignores unfinished games', () => {
+    const match = createMatch(3);
+    expect(recordGameResult(match, createInitialGameState())).toBe(match);
+  });
+
+  test('does not mutate the previous match', () => {
+    const match = createMatch(3);
+    recordGameResult(match, X_WINS);
+    expect(match.scores.X.wins).toBe(0);
+  });
+});
+
+describe('resetMatch', () => {
+  test('keeps the length and clears the score', () => {
+    const played = recordGameResult(createMatch(5), X_WINS);
+    expect(resetMatch(played)).toEqual(createMatch(5));
+  });
+});
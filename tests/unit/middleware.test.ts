@@ -0,0 +1,52 @@
+import { describe, test, expect, vi } from 'vitest';
+import { createGameStore } from '../../src/store/game-store';
+import {
+  createLoggingMiddleware,
+  createPersistenceMiddleware,
+  createAnalyticsMiddleware,
+} from '../../src/store/middleware';
+import { createInitialGameState } from '../../src/engine/game-engine';
+
+const center = { row: 1, col: 1 };
+
+describe('createLoggingMiddleware', () => {
+  test('logs each action with the state before and after', () => {
+    const log = vi.fn();
+    const store = createGameStore(createInitialGameState(), [createLoggingMiddleware(log)]);
+
+    store.dispatch({ type: 'place', position: center });
+
+    const [message, details] = log.mock.lastCall!;
+    expect(message).toBe('[game] place');
+    expect(details.before.session.moves).toHaveLength(0);
+    expect(details.after.session.moves).toHaveLength(1);
+  });
+});
+
+describe('createPersistenceMiddleware', () => {
+  test('saves the slice only when it changes', () => {
+    const save = vi.fn();
+    const store = createGameStore(createInitialGameState(), [
+      createPersistenceMiddleware(state => state.session, save),
+    ]);
+
+    store.dispatch({ type: 'lock' });
+    expect(save).not.toHaveBeenCalled();
+
+    store.dispatch({ type: 'place', position: center });
+    expect(save).toHaveBeenCalledWith(store.getState().session);
+  });
+});
+
+describe('createAnalyticsMiddleware', () => {
+  test('tracks actions that changed the state', () => {
+    const track = vi.fn();
+    const store = createGameStore(createInitialGameState(), [createAnalyticsMiddleware(track)]);
+
+    store.dispatch({ type: 'place', position: center });
+    store.dispatch({ type: 'place', position: center });
+
+    expect(track).toHaveBeenCalledOnce();
+    expect(track.mock.calls[0][0]).toEqual({ type: 'place', position: center });
+  });
+});
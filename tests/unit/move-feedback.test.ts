@@ -0,0 +1,34 @@
+import { describe, test, expect } from 'vitest';
+import {
+  REJECTION_MESSAGES,
+  createMoveFeedback,
+  showMoveFeedback,
+  clearMoveFeedback,
+  formatRejectionMessage,
+} from '../../src/ui/move-feedback';
+import { MOVE_VALIDATION } from '../../src/constants/game-config';
+
+describe('move feedback', () => {
+  test('has a message for every failure reason', () => {
+    Object.values(MOVE_VALIDATION.REASONS).forEach(reason => {
+      expect(REJECTION_MESSAGES[reason]).toBeTruthy();
+    });
+    expect(formatRejectionMessage('cell-occupied')).toBe('That cell is already taken.');
+  });
+
+  test('creates an empty alert region', () => {
+    const element = createMoveFeedback();
+    expect(element.getAttribute('role')).toBe('alert');
+    expect(element.textContent).toBe('');
+  });
+
+  test('shows and clears the reason', () => {
+    const element = createMoveFeedback();
+
+    showMoveFeedback(element, 'not-your-turn');
+    expect(element.textContent).toBe("It's not your turn yet.");
+
+    clearMoveFeedback(element);
+    expect(element.textContent).toBe('');
+  });
+});
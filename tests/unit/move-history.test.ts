@@ -0,0 +1,101 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  createMoveHistory,
+  updateMoveHistory,
+  formatMoveText,
+} from '../../src/ui/move-history';
+import {
+  createGameSession,
+  playSessionMove,
+  undo,
+} from '../../src/engine/session-transitions';
+import { createInitialGameState } from '../../src/engine/game-engine';
+
+function createControls() {
+  return { onUndo: vi.fn(), onRedo: vi.fn(), onJumpToMove: vi.fn(), onReplay: vi.fn() };
+}
+
+function sessionWithTwoMoves() {
+  let session = createGameSession(createInitialGameState());
+  session = playSessionMove(session, { row: 1, col: 1 });
+  return playSessionMove(session, { row: 0, col: 2 });
+}
+
+describe('formatMoveText', () => {
+  test('uses 1-based row and column', () => {
+    expect(
+      formatMoveText({ player: 'O', position: { row: 0, col: 2 }, moveNumber: 2 })
+    ).toBe('2. O at row 1, column 3');
+  });
+});
+
+describe('createMoveHistory', () => {
+  test('wires undo and redo buttons', () => {
+    const controls = createControls();
+    const element = createMoveHistory(controls);
+
+    element.querySelector<HTMLButtonElement>('.undo-button')!.click();
+    element.querySelector<HTMLButtonElement>('.redo-button')!.click();
+
+    expect(controls.onUndo).toHaveBeenCalledOnce();
+    expect(controls.onRedo).toHaveBeenCalledOnce();
+  });
+
+  test('jumps when a move entry is clicked', () => {
+    const controls = createControls();
+    const element = createMoveHistory(controls);
+    updateMoveHistory(element, sessionWithTwoMoves());
+
+    element.querySelector<HTMLButtonElement>('button[data-move="1"]')!.click();
+
+    expect(controls.onJumpToMove).toHaveBeenCalledWith(1);
+  });
+});
+
+describe('updateMoveHistory', () => {
+  test('lists the start plus every move', () => {
+    const element = createMoveHistory(createControls());
+    updateMoveHistory(element, sessionWithTwoMoves());
+
+    const entries = element.querySelectorAll('.move-list li');
+    expect(entries).toHaveLength(3);
+    expect(entries[0].textContent).toBe('Game start');
+    expect(entries[1].textContent).toBe('1. X at row 2, column 2');
+  });
+
+  test('marks the current move and undone moves', () => {
+    const element = createMoveHistory(createControls());
+    updateMoveHistory(element, undo(sessionWithTwoMoves()));
+
+    const current = element.querySelector('[aria-current="step"]');
+    expect(current?.getAttribute('data-move')).toBe('1');
+    expect(element.querySelector('button[data-move="2"]')?.classList.contains('undone')).toBe(true);
+  });
+
+  test('disables undo and redo when unavailable', () => {
+    const element = createMoveHistory(createControls());
+    updateMoveHistory(element, createGameSession(createInitialGameState()));
+
+    expect(element.querySelector<HTMLButtonElement>('.undo-button')!.disabled).toBe(true);
+    expect(element.querySelector<HTMLButtonElement>('.redo-button')!.disabled).toBe(true);
+  });
+
+  test('offers a replay once the game is over', () => {
+    const controls = createControls();
+    const element = createMoveHistory(controls);
+    const replayButton = element.querySelector<HTMLButtonElement>('.replay-button')!;
+    let session = sessionWithTwoMoves();
+    updateMoveHistory(element, session);
+    expect(replayButton.disabled).toBe(true);
+
+    // X completes the middle row
+    [{ row: 1, col: 0 }, { row: 2, col: 2 }, { row: 1, col: 2 }].forEach(position => {
+      session = playSessionMove(session, position);
+    });
+    updateMoveHistory(element, session);
+    replayButton.click();
+
+    expect(replayButton.disabled).toBe(false);
+    expect(controls.onReplay).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, test, expect } from 'vitest';
+import {
+  parseMoveInput,
+  playMoveInput,
+  CLI_REJECTION_MESSAGES,
+} from '../../src/cli/move-input';
+import { createInitialGameState, processMove } from '../../src/engine/game-engine';
+import { MOVE_VALIDATION } from '../../src/constants/game-config';
+
+describe('parseMoveInput', () => {
+  test('accepts cell notation', () => {
+    expect(parseMoveInput('b2', 3)).toEqual({ success: true, value: { row: 1, col: 1 } });
+    expect(parseMoveInput(' C1 ', 3)).toEqual({ success: true, value: { row: 0, col: 2 } });
+  });
+
+  test('accepts a row and column from 1', () => {
+    expect(parseMoveInput('2 3', 3)).toEqual({ success: true, value: { row: 1, col: 2 } });
+    expect(parseMoveInput('1,1', 3)).toEqual({ success: true, value: { row: 0, col: 0 } });
+  });
+
+  test('rejects cells off the board', () => {
+    expect(parseMoveInput('d1', 3).success).toBe(false);
+    expect(parseMoveInput('4 1', 3).success).toBe(false);
+    expect(parseMoveInput('0 1', 3).success).toBe(false);
+  });
+
+  test('explains both formats for unreadable input', () => {
+    const result = parseMoveInput('middle', 3);
+    expect(result).toEqual({
+      success: false,
+      error: 'Invalid move "middle": expected a cell like "b2" or a row and column like "2 3"',
+    });
+  });
+});
+
+describe('playMoveInput', () => {
+  test('plays a valid move for the player on turn', () => {
+    const result = playMoveInput(createInitialGameState(), 'a1');
+    expect(result.success && result.value.board.cells[0].value).toBe('X');
+  });
+
+  test('reports refused moves in terminal wording', () => {
+    const state = processMove(createInitialGameState(), { row: 0, col: 0 });
+    expect(playMoveInput(state, '1 1')).toEqual({
+      success: false,
+      error: CLI_REJECTION_MESSAGES['cell-occupied'],
+    });
+  });
+
+  test('has a message for every failure reason', () => {
+    Object.values(MOVE_VALIDATION.REASONS).forEach(reason => {
+      expect(CLI_REJECTION_MESSAGES[reason]).toBeTruthy();
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'vitest';
+import { receiveRemoteMove, drainPendingMoves } from '../../src/network/move-sequencer';
+import {
+  createGameSession,
+  getCurrentState,
+  playSessionMove,
+} from '../../src/engine/session-transitions';
+import { createInitialGameState } from '../../src/engine/game-engine';
+import { MoveRecord } from '../../src/models/game-session';
+
+// Local player is O; the remote peer plays X
+const move = (moveNumber: number, player: 'X' | 'O', row: number, col: number): MoveRecord => ({
+  moveNumber,
+  player,
+  position: { row, col },
+});
+
+describe('receiveRemoteMove', () => {
+  test('applies the next move from the remote player', () => {
+    const session = createGameSession(createInitialGameState());
+    const outcome = receiveRemoteMove(session, [], move(1, 'X', 1, 1), 'X');
+
+    expect(outcome.status).toBe('applied');
+    expect(getCurrentState(outcome.session).currentTurn).toBe('O');
+  });
+
+  test('ignores a duplicate of an applied move', () => {
+    const first = receiveRemoteMove(createGameSession(createInitialGameState()), [], move(1, 'X', 1, 1), 'X');
+    const repeat = receiveRemoteMove(first.session, [], move(1, 'X', 1, 1), 'X');
+
+    expect(repeat.status).toBe('duplicate');
+    expect(repeat.session).toBe(first.session);
+  });
+
+  test('rejects a conflicting rewrite of an applied move', () => {
+    const first = receiveRemoteMove(createGameSession(createInitialGameState()), [], move(1, 'X', 1, 1), 'X');
+    const conflict = receiveRemoteMove(first.session, [], move(1, 'X', 0, 0), 'X');
+
+    expect(conflict.status).toBe('rejected');
+    expect(conflict.reason).toBe('out-of-order');
+  });
+
+  test('rejects moves for the local player', () => {
+    const session = createGameSession(createInitialGameState());
+    const outcome = receiveRemoteMove(session, [], move(1, 'O', 1, 1), 'X');
+
+    expect(outcome.status).toBe('rejected');
+    expect(outcome.reason).toBe('not-your-turn');
+  });
+
+  test('rejects a remote move on the local turn', () => {
+    const session = createGameSession(createInitialGameState(undefined, 'O'));
+    const outcome = receiveRemoteMove(session, [], move(1, 'X', 1, 1), 'X');
+
+    expect(outcome.reason).toBe('not-your-turn');
+  });
+
+  test('rejects illegal moves with the validation reason', () => {
+    let session = createGameSession(createInitialGameState());
+    session = playSessionMove(session, { row: 1, col: 1 }); // X
+    session = playSessionMove(session, { row: 0, col: 0 }); // O
+    const outcome = receiveRemoteMove(session, [], move(3, 'X', 0, 0), 'X');
+
+    expect(outcome.status).toBe('rejected');
+    expect(outcome.reason).toBe('cell-occupied');
+    expect(outcome.session).toBe(session);
+  });
+
+  test('buffers early moves and applies them once the gap fills', () => {
+    let session = createGameSession(createInitialGameState());
+    const early = receiveRemoteMove(session, [], move(3, 'X', 2, 2), 'X');
+    expect(early.status).toBe('buffered');
+    expect(early.pending).toHaveLength(1);
+
+    const first = receiveRemoteMove(session, early.pending, move(1, 'X', 1, 1), 'X');
+    session = playSessionMove(first.session, { row: 0, col: 0 }); // local O
+    const drained = drainPendingMoves(session, first.pending, 'X');
+
+    expect(drained.pending).toHaveLength(0);
+    expect(drained.session.currentMove).toBe(3);
+    expect(drained.session.moves[2].position).toEqual({ row: 2, col: 2 });
+  });
+
+  test('rejects move numbers beyond the end of the game', () => {
+    const session = createGameSession(createInitialGameState());
+    const outcome = receiveRemoteMove(session, [], move(11, 'X', 0, 0), 'X');
+
+    expect(outcome.reason).toBe('out-of-order');
+  });
+});
+
+describe('drainPendingMoves', () => {
+  test('drops a buffered move that turns out to be illegal', () => {
+    let session = createGameSession(createInitialGameState());
+    session = playSessionMove(session, { row: 1, col: 1 }); // X
+    session = playSessionMove(session, { row: 0, col: 0 }); // O
+
+    const drained = drainPendingMoves(session, [move(3, 'X', 1, 1)], 'X');
+
+    expect(drained.session).toBe(session);
+    expect(drained.pending).toHaveLength(0);
+  });
+});
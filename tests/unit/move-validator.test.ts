@@ -1,14 +1,28 @@
 import { describe, test, expect } from 'vitest';
 import { validateMove } from '../../src/engine/move-validator';
 import { GameState } from '../../src/models/game-state';
-import { createEmptyBoard, Board, Cell } from '../../src/models/board';
+import { createEmptyBoard, setCellValue, Board } from '../../src/models/board';
+import { parseBoard } from '../../src/notation/position-notation';
+import { createInitialGameState } from '../../src/engine/game-engine';
+
+function boardFromText(text: string): Board {
+  const parsed = parseBoard(text);
+  if (!parsed.success) {
+    throw new Error(parsed.error);
+  }
+  return parsed.value;
+}
 
 describe('validateMove', () => {
   test('succeeds for empty cell', () => {
     const state: GameState = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X',
       moveInProgress: false,
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
     };
 
     const result = validateMove(state, { row: 0, col: 0 });
@@ -19,8 +33,12 @@ describe('validateMove', () => {
   test('fails when move in progress', () => {
     const state: GameState = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X',
       moveInProgress: true, // locked
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
     };
 
     const result = validateMove(state, { row: 0, col: 0 });
@@ -32,14 +50,17 @@ describe('validateMove', () => {
   });
 
   test('fails for occupied cell', () => {
-    const board: Board = createEmptyBoard(3);
     // Set cell 0,0 to 'X'
-    board.cells[0].value = 'X';
+    const board: Board = setCellValue(createEmptyBoard(3), { row: 0, col: 0 }, 'X');
 
     const state: GameState = {
       board,
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'O',
       moveInProgress: false,
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
     };
 
     const result = validateMove(state, { row: 0, col: 0 });
@@ -53,8 +74,12 @@ describe('validateMove', () => {
   test('fails for invalid position - row too large', () => {
     const state: GameState = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X',
       moveInProgress: false,
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
     };
 
     const result = validateMove(state, { row: 5, col: 0 });
@@ -68,8 +93,12 @@ describe('validateMove', () => {
   test('fails for invalid position - negative row', () => {
     const state: GameState = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X',
       moveInProgress: false,
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
     };
 
     const result = validateMove(state, { row: -1, col: 0 });
@@ -83,8 +112,12 @@ describe('validateMove', () => {
   test('fails for invalid position - col too large', () => {
     const state: GameState = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X',
       moveInProgress: false,
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
     };
 
     const result = validateMove(state, { row: 0, col: 5 });
@@ -98,8 +131,12 @@ describe('validateMove', () => {
   test('succeeds for all empty cells', () => {
     const state: GameState = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X',
       moveInProgress: false,
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
     };
 
     for (let row = 0; row < 3; row++) {
@@ -111,3 +148,90 @@ describe('validateMove', () => {
   });
 });
 
+
+describe('validateMove after game end', () => {
+  test('fails with game-over once the game is won', () => {
+    const board = boardFromText('XXX/.../...');
+
+    const state: GameState = {
+      board,
+      rules: { boardSize: 3, winLength: 3 },
+      currentTurn: 'X',
+      moveInProgress: false,
+      status: 'won',
+      winner: 'X',
+      winningLine: [
+        { row: 0, col: 0 },
+        { row: 0, col: 1 },
+        { row: 0, col: 2 },
+      ],
+    };
+
+    const result = validateMove(state, { row: 2, col: 2 });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.reason).toBe('game-over');
+    }
+  });
+
+  test('fails with board-full on a drawn game', () => {
+    const board = boardFromText('XOX/XOO/OXX');
+
+    const state: GameState = {
+      board,
+      rules: { boardSize: 3, winLength: 3 },
+      currentTurn: 'X',
+      moveInProgress: false,
+      status: 'draw',
+      winner: null,
+      winningLine: null,
+    };
+
+    const result = validateMove(state, { row: 0, col: 0 });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.reason).toBe('board-full');
+    }
+  });
+
+  test('fails with board-full when every cell is occupied', () => {
+    const board = boardFromText('OOO/OOO/OOO');
+
+    const state: GameState = {
+      board,
+      rules: { boardSize: 3, winLength: 3 },
+      currentTurn: 'X',
+      moveInProgress: false,
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
+    };
+
+    const result = validateMove(state, { row: 1, col: 1 });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.reason).toBe('board-full');
+    }
+  });
+
+  test('fails for a piece the variant does not allow', () => {
+    const classic = createInitialGameState();
+    const notakto = createInitialGameState({ boardSize: 3, winLength: 3, variant: 'notakto' });
+
+    expect(validateMove(classic, { row: 0, col: 0 }, 'O')).toEqual({
+      success: false,
+      reason: 'symbol-not-allowed',
+    });
+    expect(validateMove(notakto, { row: 0, col: 0 }, 'X').success).toBe(true);
+  });
+
+  test('lets a Wild player place either piece', () => {
+    const wild = createInitialGameState({ boardSize: 3, winLength: 3, variant: 'wild' });
+
+    expect(validateMove(wild, { row: 0, col: 0 }, 'X').success).toBe(true);
+    expect(validateMove(wild, { row: 0, col: 0 }, 'O').success).toBe(true);
+  });
+});
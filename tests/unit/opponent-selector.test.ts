@@ -0,0 +1,21 @@
+import { describe, test, expect, vi } from 'vitest';
+import { createOpponentSelector, OPPONENT_OPTIONS } from '../../src/ui/opponent-selector';
+
+describe('createOpponentSelector', () => {
+  test('creates one option per opponent', () => {
+    const element = createOpponentSelector(OPPONENT_OPTIONS, vi.fn());
+    expect(element.options).toHaveLength(OPPONENT_OPTIONS.length);
+    expect(element.getAttribute('aria-label')).toBe('Opponent');
+  });
+
+  test('reports the selected option', () => {
+    const onChange = vi.fn();
+    const element = createOpponentSelector(OPPONENT_OPTIONS, onChange);
+    const remoteIndex = OPPONENT_OPTIONS.findIndex(option => option.remote);
+
+    element.value = String(remoteIndex);
+    element.dispatchEvent(new Event('change'));
+
+    expect(onChange).toHaveBeenCalledWith(OPPONENT_OPTIONS[remoteIndex]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, test, expect, vi } from 'vitest';
+import { connectPeer } from '../../src/network/peer-connection';
+import { createInMemoryTransportPair } from '../../src/network/in-memory-transport';
+import { DEFAULT_GAME_RULES, GameRules, GAME_RULE_PRESETS } from '../../src/models/game-rules';
+
+function createHandlers(rules: GameRules = DEFAULT_GAME_RULES) {
+  return {
+    getRules: vi.fn(() => rules),
+    onPeerJoined: vi.fn(),
+    onRemoteMove: vi.fn(),
+    onNewGame: vi.fn(),
+  };
+}
+
+describe('connectPeer', () => {
+  test('pairs two peers with opposite symbols', () => {
+    const [left, right] = createInMemoryTransportPair();
+    const alice = createHandlers();
+    const bob = createHandlers();
+
+    connectPeer(left, 'aaa', alice);
+    connectPeer(right, 'bbb', bob);
+
+    expect(alice.onPeerJoined).toHaveBeenCalledOnce();
+    expect(alice.onPeerJoined).toHaveBeenCalledWith('X', DEFAULT_GAME_RULES);
+    expect(bob.onPeerJoined).toHaveBeenCalledOnce();
+    expect(bob.onPeerJoined).toHaveBeenCalledWith('O', DEFAULT_GAME_RULES);
+  });
+
+  test('both sides play the rules of the X player', () => {
+    const [left, right] = createInMemoryTransportPair();
+    const misere = { ...GAME_RULE_PRESETS.FOUR_IN_A_ROW, variant: 'misere' as const };
+    const alice = createHandlers(misere);
+    const bob = createHandlers({ ...DEFAULT_GAME_RULES, variant: 'notakto' });
+
+    connectPeer(right, 'bbb', bob);
+    connectPeer(left, 'aaa', alice);
+
+    expect(alice.onPeerJoined).toHaveBeenCalledWith('X', misere);
+    expect(bob.onPeerJoined).toHaveBeenCalledWith('O', misere);
+  });
+
+  test('forwards moves and new-game requests', () => {
+    const [left, right] = createInMemoryTransportPair();
+    const alice = createHandlers();
+    const bob = createHandlers();
+    const aliceConnection = connectPeer(left, 'aaa', alice);
+    connectPeer(right, 'bbb', bob);
+
+    aliceConnection.sendMove({ player: 'X', position: { row: 1, col: 1 }, moveNumber: 1 });
+    aliceConnection.sendNewGame({ ...DEFAULT_GAME_RULES, variant: 'wild' });
+
+    expect(bob.onRemoteMove).toHaveBeenCalledWith({
+      player: 'X',
+      position: { row: 1, col: 1 },
+      moveNumber: 1,
+    });
+    expect(bob.onNewGame).toHaveBeenCalledOnce();
+    expect(bob.onNewGame).toHaveBeenCalledWith({ ...DEFAULT_GAME_RULES, variant: 'wild' });
+  });
+
+  test('ignores messages from peers that never said hello', () => {
+    const [left, right] = createInMemoryTransportPair();
+    const bob = createHandlers();
+    connectPeer(right, 'bbb', bob);
+
+    left.send({ type: 'move', peerId: 'zzz', moveNumber: 1, player: 'X', position: { row: 0, col: 0 } });
+
+    expect(bob.onRemoteMove).not.toHaveBeenCalled();
+  });
+
+  test('re-pairs when a different peer says hello', () => {
+    const [left, right] = createInMemoryTransportPair();
+    const bob = createHandlers();
+    connectPeer(right, 'bbb', bob);
+
+    left.send({ type: 'hello', peerId: 'aaa', rules: DEFAULT_GAME_RULES });
+    left.send({ type: 'hello', peerId: 'aaa', rules: DEFAULT_GAME_RULES });
+    left.send({ type: 'hello', peerId: 'ccc', rules: DEFAULT_GAME_RULES });
+
+    expect(bob.onPeerJoined).toHaveBeenCalledTimes(2);
+    expect(bob.onPeerJoined).toHaveBeenLastCalledWith('X', DEFAULT_GAME_RULES);
+  });
+
+  test('disconnect stops delivery', () => {
+    const [left, right] = createInMemoryTransportPair();
+    const alice = createHandlers();
+    const bob = createHandlers();
+    const aliceConnection = connectPeer(left, 'aaa', alice);
+    const bobConnection = connectPeer(right, 'bbb', bob);
+
+    bobConnection.disconnect();
+    aliceConnection.sendNewGame(DEFAULT_GAME_RULES);
+
+    expect(bob.onNewGame).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, test, expect } from 'vitest';
+import { enumeratePositions } from '../../src/engine/position-enumeration';
+import { serializeBoard } from '../../src/notation/position-notation';
+
+describe('enumeratePositions', () => {
+  test('counts the classic game, raw and up to symmetry', () => {
+    const census = enumeratePositions();
+
+    expect(census.complete).toBe(true);
+    expect(census.count).toBe(5478);
+    expect(census.canonicalCount).toBe(765);
+    expect(census.positions).toHaveLength(census.count);
+  });
+
+  test('starts from the empty board and lists each position once', () => {
+    const { positions } = enumeratePositions();
+    const keys = positions.map(state => `${state.currentTurn}${serializeBoard(state.board)}`);
+
+    expect(serializeBoard(positions[0].board)).toBe('.../.../...');
+    expect(new Set(keys).size).toBe(positions.length);
+  });
+
+  test('stops at maxPositions on larger boards', () => {
+    const census = enumeratePositions({ boardSize: 4, winLength: 4 }, { maxPositions: 200 });
+
+    expect(census.complete).toBe(false);
+    expect(census.count).toBe(200);
+    // The empty board and one piece in a corner, edge or centre square
+    expect(
+      enumeratePositions({ boardSize: 4, winLength: 4 }, { maxPositions: 17 }).canonicalCount
+    ).toBe(4);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'vitest';
+import {
+  serializeBoard,
+  parseBoard,
+  parsePosition,
+} from '../../src/notation/position-notation';
+import { createEmptyBoard, getCellValue } from '../../src/models/board';
+import { createDemoBoard, DEMO_POSITION } from '../../src/models/demo-board';
+
+describe('serializeBoard', () => {
+  test('writes rows top to bottom', () => {
+    expect(serializeBoard(createDemoBoard())).toBe(DEMO_POSITION);
+  });
+
+  test('writes an empty board as dots', () => {
+    expect(serializeBoard(createEmptyBoard(4))).toBe('..../..../..../....');
+  });
+});
+
+describe('parseBoard', () => {
+  test('reads pieces into their positions', () => {
+    const result = parseBoard('X.O/.X./O.X');
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.size).toBe(3);
+      expect(getCellValue(result.value, { row: 0, col: 2 })).toBe('O');
+      expect(getCellValue(result.value, { row: 1, col: 0 })).toBeNull();
+    }
+  });
+
+  test('round-trips a larger board', () => {
+    const text = 'X..../.O.../..X../...O./....X';
+    const result = parseBoard(text);
+    expect(result.success && serializeBoard(result.value)).toBe(text);
+  });
+
+  test('rejects ragged rows', () => {
+    const result = parseBoard('X.O/.X/O.X');
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain('row 2 has 2 cells, expected 3');
+    }
+  });
+
+  test('rejects unknown marks', () => {
+    const result = parseBoard('X.O/.Z./O.X');
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain('unexpected "Z" in row 2');
+    }
+  });
+
+  test('rejects boards smaller than 3x3', () => {
+    expect(parseBoard('X./.O').success).toBe(false);
+  });
+});
+
+describe('parsePosition', () => {
+  test('derives the next turn from piece counts', () => {
+    const xToMove = parsePosition('X.O/.../...');
+    expect(xToMove.success && xToMove.value.currentTurn).toBe('X');
+
+    const oToMove = parsePosition('X../.../...');
+    expect(oToMove.success && oToMove.value.currentTurn).toBe('O');
+  });
+
+  test('detects a finished game', () => {
+    const result = parsePosition('XXX/OO./...');
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.status).toBe('won');
+      expect(result.value.winner).toBe('X');
+      expect(result.value.currentTurn).toBe('X');
+    }
+  });
+
+  test('rejects counts out of alternating order', () => {
+    const result = parsePosition('XX./X../O..');
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain('out of alternating order');
+    }
+    expect(parsePosition('O../.../...').success).toBe(false);
+  });
+
+  test('rejects moves played after a win', () => {
+    const result = parsePosition('XXX/OO./O..');
+    expect(result.success).toBe(false);
+  });
+
+  test('applies the given win length', () => {
+    const result = parsePosition('XXX../OO.../...../...../.....', 4);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.rules).toEqual({ boardSize: 5, winLength: 4 });
+      expect(result.value.status).toBe('in-progress');
+    }
+  });
+
+  test('rejects a win length longer than the board', () => {
+    expect(parsePosition('.../.../...', 4).success).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, test, expect, vi } from 'vitest';
+import { setupQubicHandler } from '../../src/input/qubic-handler';
+import { createInitialQubicState } from '../../src/engine/game-engine';
+import { createEmptyBoard } from '../../src/models/board';
+import { getCubeCellValue } from '../../src/models/cube-board';
+import { getCellSize } from '../../src/constants/render-config';
+import { createCanvasRenderer } from '../../src/renderer/canvas-renderer';
+
+// Dispatch a pointerdown at the centre of a cell on the 8x8 layered grid
+function clickCell(canvas: HTMLCanvasElement, row: number, col: number) {
+  const cellSize = getCellSize(8);
+  canvas.dispatchEvent(
+    new MouseEvent('pointerdown', {
+      clientX: col * cellSize + cellSize / 2,
+      clientY: row * cellSize + cellSize / 2,
+    })
+  );
+}
+
+describe('setupQubicHandler', () => {
+  test('maps a click to the layer and cell under it', () => {
+    const canvas = document.createElement('canvas');
+    const renderer = createCanvasRenderer(canvas);
+    renderer.render(createEmptyBoard(8)); // Hit tests follow the rendered board's size
+    const onStateChange = vi.fn();
+    const handle = setupQubicHandler(renderer, createInitialQubicState(), { onStateChange });
+
+    clickCell(canvas, 5, 2); // Bottom-left block is layer 2
+
+    expect(onStateChange).toHaveBeenCalledOnce();
+    expect(getCubeCellValue(handle.getState().board, { layer: 2, row: 1, col: 2 })).toBe('X');
+    handle.cleanup();
+  });
+
+  test('reports an occupied cell', () => {
+    const canvas = document.createElement('canvas');
+    const renderer = createCanvasRenderer(canvas);
+    renderer.render(createEmptyBoard(8));
+    const onMoveRejected = vi.fn();
+    setupQubicHandler(renderer, createInitialQubicState(), { onMoveRejected });
+
+    clickCell(canvas, 0, 7);
+    clickCell(canvas, 0, 7);
+
+    expect(onMoveRejected).toHaveBeenCalledWith({ row: 0, col: 7 }, 'cell-occupied');
+  });
+});
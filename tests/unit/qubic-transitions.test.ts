@@ -0,0 +1,58 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createInitialQubicState,
+  processQubicMove,
+} from '../../src/engine/qubic-transitions';
+import { CubePosition, QubicGameState, getCubeCellValue } from '../../src/models/cube-board';
+
+function playMoves(state: QubicGameState, moves: CubePosition[]): QubicGameState {
+  return moves.reduce((current, move) => processQubicMove(current, move), state);
+}
+
+describe('createInitialQubicState', () => {
+  test('starts with an empty 4x4x4 cube', () => {
+    const state = createInitialQubicState('O');
+
+    expect(state.board.size).toBe(4);
+    expect(state.board.cells).toHaveLength(64);
+    expect(state.currentTurn).toBe('O');
+    expect(state.status).toBe('in-progress');
+  });
+});
+
+describe('processQubicMove', () => {
+  test('places the piece and passes the turn', () => {
+    const state = processQubicMove(createInitialQubicState(), { layer: 2, row: 1, col: 1 });
+
+    expect(getCubeCellValue(state.board, { layer: 2, row: 1, col: 1 })).toBe('X');
+    expect(state.currentTurn).toBe('O');
+  });
+
+  test('leaves the state unchanged for a refused move', () => {
+    const state = processQubicMove(createInitialQubicState(), { layer: 0, row: 0, col: 0 });
+    expect(processQubicMove(state, { layer: 0, row: 0, col: 0 })).toBe(state);
+  });
+
+  test('a space diagonal wins', () => {
+    // X takes the main space diagonal while O stacks in one corner pillar
+    const state = playMoves(createInitialQubicState(), [
+      { layer: 0, row: 0, col: 0 },
+      { layer: 0, row: 0, col: 3 },
+      { layer: 1, row: 1, col: 1 },
+      { layer: 1, row: 0, col: 3 },
+      { layer: 2, row: 2, col: 2 },
+      { layer: 2, row: 0, col: 3 },
+      { layer: 3, row: 3, col: 3 },
+    ]);
+
+    expect(state.status).toBe('won');
+    expect(state.winner).toBe('X');
+    expect(state.currentTurn).toBe('X');
+    expect(state.winningLine).toEqual([
+      { layer: 0, row: 0, col: 0 },
+      { layer: 1, row: 1, col: 1 },
+      { layer: 2, row: 2, col: 2 },
+      { layer: 3, row: 3, col: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, test, expect } from 'vitest';
+import { getQubicLegalMoves, validateQubicMove } from '../../src/engine/qubic-validator';
+import { createInitialQubicState } from '../../src/engine/qubic-transitions';
+
+describe('validateQubicMove', () => {
+  test('accepts any open cell of the cube', () => {
+    expect(validateQubicMove(createInitialQubicState(), { layer: 3, row: 0, col: 2 })).toEqual({
+      success: true,
+    });
+  });
+
+  test('refuses an occupied cell', () => {
+    const state = createInitialQubicState();
+    state.board.cells[0].value = 'X';
+
+    expect(validateQubicMove(state, { layer: 0, row: 0, col: 0 })).toEqual({
+      success: false,
+      reason: 'cell-occupied',
+    });
+  });
+
+  test('refuses positions off the cube', () => {
+    expect(validateQubicMove(createInitialQubicState(), { layer: 4, row: 0, col: 0 })).toEqual({
+      success: false,
+      reason: 'invalid-position',
+    });
+  });
+
+  test('refuses moves once the game is over or locked', () => {
+    const position = { layer: 0, row: 0, col: 0 };
+
+    expect(
+      validateQubicMove({ ...createInitialQubicState(), status: 'won', winner: 'O' }, position)
+    ).toEqual({ success: false, reason: 'game-over' });
+    expect(
+      validateQubicMove({ ...createInitialQubicState(), moveInProgress: true }, position)
+    ).toEqual({ success: false, reason: 'move-in-progress' });
+  });
+});
+
+describe('getQubicLegalMoves', () => {
+  test('lists every open cell', () => {
+    const state = createInitialQubicState();
+    state.board.cells[5].value = 'O';
+
+    expect(getQubicLegalMoves(state)).toHaveLength(63);
+  });
+});
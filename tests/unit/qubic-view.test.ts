@@ -0,0 +1,33 @@
+import { describe, test, expect } from 'vitest';
+import { getQubicView } from '../../src/renderer/qubic-view';
+import { createInitialQubicState, processQubicMove } from '../../src/engine/game-engine';
+import { getCellValue } from '../../src/models/board';
+
+describe('getQubicView', () => {
+  test('lays the four layers out on an 8x8 board outlined in 4x4 blocks', () => {
+    const state = processQubicMove(createInitialQubicState(), { layer: 1, row: 3, col: 0 });
+
+    const view = getQubicView(state);
+
+    expect(view.board.size).toBe(8);
+    expect(getCellValue(view.board, { row: 3, col: 4 })).toBe('X');
+    expect(view.effects.subBoards).toEqual({ size: 4, active: [], claimed: [] });
+    expect(view.effects.winningCells).toBeNull();
+  });
+
+  test('marks the winning line on the layered grid', () => {
+    const state = {
+      ...createInitialQubicState(),
+      status: 'won' as const,
+      winner: 'O' as const,
+      winningLine: [0, 1, 2, 3].map(layer => ({ layer, row: 0, col: 0 })),
+    };
+
+    expect(getQubicView(state).effects.winningCells).toEqual([
+      { row: 0, col: 0 },
+      { row: 0, col: 4 },
+      { row: 4, col: 0 },
+      { row: 4, col: 4 },
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, test, expect } from 'vitest';
+import {
+  evaluateCubeBoard,
+  findCubeWinningLine,
+  getCubeLines,
+} from '../../src/engine/qubic-win-detector';
+import { CubeBoard, CubePosition, createEmptyCubeBoard } from '../../src/models/cube-board';
+
+function place(board: CubeBoard, positions: CubePosition[], symbol: 'X' | 'O'): void {
+  positions.forEach(({ layer, row, col }) => {
+    board.cells[(layer * board.size + row) * board.size + col].value = symbol;
+  });
+}
+
+function line(start: CubePosition, step: CubePosition): CubePosition[] {
+  return [0, 1, 2, 3].map(i => ({
+    layer: start.layer + step.layer * i,
+    row: start.row + step.row * i,
+    col: start.col + step.col * i,
+  }));
+}
+
+describe('getCubeLines', () => {
+  test('a 4x4x4 cube has 76 winning lines', () => {
+    expect(getCubeLines(createEmptyCubeBoard(4), 4)).toHaveLength(76);
+  });
+
+  test('a 3x3x3 cube has 49', () => {
+    expect(getCubeLines(createEmptyCubeBoard(3), 3)).toHaveLength(49);
+  });
+});
+
+describe('findCubeWinningLine', () => {
+  test.each([
+    ['a row within a layer', line({ layer: 1, row: 2, col: 0 }, { layer: 0, row: 0, col: 1 })],
+    ['a pillar through the layers', line({ layer: 0, row: 1, col: 3 }, { layer: 1, row: 0, col: 0 })],
+    ['a diagonal across layers', line({ layer: 0, row: 3, col: 0 }, { layer: 1, row: -1, col: 0 })],
+    ['a space diagonal', line({ layer: 0, row: 0, col: 3 }, { layer: 1, row: 1, col: -1 })],
+  ])('finds %s', (_name, cells) => {
+    const board = createEmptyCubeBoard(4);
+    place(board, cells, 'O');
+
+    const found = findCubeWinningLine(board, 4);
+
+    expect(found).toHaveLength(4);
+    expect(new Set(found!.map(p => `${p.layer}${p.row}${p.col}`))).toEqual(
+      new Set(cells.map(p => `${p.layer}${p.row}${p.col}`))
+    );
+  });
+
+  test('ignores mixed and incomplete lines', () => {
+    const board = createEmptyCubeBoard(4);
+    const cells = line({ layer: 0, row: 0, col: 0 }, { layer: 1, row: 1, col: 1 });
+    place(board, cells.slice(0, 3), 'X');
+    place(board, cells.slice(3), 'O');
+
+    expect(findCubeWinningLine(board, 4)).toBeNull();
+  });
+});
+
+describe('evaluateCubeBoard', () => {
+  test('reports the winner of a completed line', () => {
+    const board = createEmptyCubeBoard(4);
+    place(board, line({ layer: 0, row: 0, col: 0 }, { layer: 1, row: 0, col: 1 }), 'X');
+
+    expect(evaluateCubeBoard(board, 4)).toMatchObject({ status: 'won', winner: 'X' });
+  });
+
+  test('is in progress on an open board', () => {
+    expect(evaluateCubeBoard(createEmptyCubeBoard(4), 4)).toEqual({
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
+    });
+  });
+});
@@ -1,6 +1,17 @@
 import { describe, test, expect, vi } from "vitest";
 import { renderBoard } from "../../src/renderer/board-renderer";
 import { createDemoBoard } from "../../src/models/demo-board";
+import { createEmptyBoard, setCellValue } from "../../src/models/board";
+import {
+  CANVAS_WIDTH,
+  HINT_CONFIG,
+  getCellSize,
+} from "../../src/constants/render-config";
+import {
+  THEME_PRESETS,
+  PIECE_STYLES,
+  withPieceStyle,
+} from "../../src/models/theme";
 
 describe("BoardRenderer", () => {
   test("renders grid lines", () => {
@@ -85,3 +96,462 @@ describe("BoardRenderer", () => {
     expect(mockContext.clearRect).toHaveBeenCalled();
   });
 });
+
+describe("BoardRenderer on larger boards", () => {
+  test("draws size - 1 lines in each direction", () => {
+    const mockContext = {
+      beginPath: vi.fn(),
+      moveTo: vi.fn(),
+      lineTo: vi.fn(),
+      arc: vi.fn(),
+      stroke: vi.fn(),
+      strokeStyle: "",
+      lineWidth: 0,
+      lineCap: "butt" as CanvasLineCap,
+      clearRect: vi.fn(),
+    } as any;
+
+    renderBoard(createEmptyBoard(5), mockContext);
+
+    // 4 vertical + 4 horizontal grid lines
+    expect(mockContext.moveTo).toHaveBeenCalledTimes(8);
+    expect(mockContext.lineTo).toHaveBeenLastCalledWith(
+      CANVAS_WIDTH,
+      getCellSize(5) * 4,
+    );
+  });
+
+  test("scales pieces to the cell size", () => {
+    const mockContext = {
+      beginPath: vi.fn(),
+      moveTo: vi.fn(),
+      lineTo: vi.fn(),
+      arc: vi.fn(),
+      stroke: vi.fn(),
+      strokeStyle: "",
+      lineWidth: 0,
+      lineCap: "butt" as CanvasLineCap,
+      clearRect: vi.fn(),
+    } as any;
+
+    const board = setCellValue(createEmptyBoard(15), { row: 0, col: 0 }, "O");
+    renderBoard(board, mockContext);
+
+    const cellSize = getCellSize(15);
+    const [centerX, centerY, radius] = mockContext.arc.mock.calls[0];
+    expect(centerX).toBeCloseTo(cellSize / 2);
+    expect(centerY).toBeCloseTo(cellSize / 2);
+    expect(radius).toBeGreaterThan(0);
+    expect(radius).toBeLessThan(cellSize / 2);
+  });
+});
+
+describe("BoardRenderer keyboard cursor", () => {
+  function createMockContext() {
+    return {
+      beginPath: vi.fn(),
+      moveTo: vi.fn(),
+      lineTo: vi.fn(),
+      arc: vi.fn(),
+      stroke: vi.fn(),
+      strokeRect: vi.fn(),
+      strokeStyle: "",
+      lineWidth: 0,
+      lineCap: "butt" as CanvasLineCap,
+      clearRect: vi.fn(),
+    } as any;
+  }
+
+  test("outlines the cursor cell", () => {
+    const mockContext = createMockContext();
+    renderBoard(createEmptyBoard(3), mockContext, { row: 1, col: 2 });
+
+    expect(mockContext.strokeRect).toHaveBeenCalledOnce();
+    const [x, y] = mockContext.strokeRect.mock.calls[0];
+    expect(x).toBeGreaterThan(getCellSize(3) * 2);
+    expect(y).toBeGreaterThan(getCellSize(3));
+  });
+
+  test("draws no cursor by default", () => {
+    const mockContext = createMockContext();
+    renderBoard(createEmptyBoard(3), mockContext);
+
+    expect(mockContext.strokeRect).not.toHaveBeenCalled();
+  });
+});
+
+describe("BoardRenderer effects", () => {
+  function createMockContext() {
+    return {
+      beginPath: vi.fn(),
+      moveTo: vi.fn(),
+      lineTo: vi.fn(),
+      arc: vi.fn(),
+      stroke: vi.fn(),
+      strokeRect: vi.fn(),
+      strokeStyle: "",
+      lineWidth: 0,
+      lineCap: "butt" as CanvasLineCap,
+      clearRect: vi.fn(),
+    } as any;
+  }
+
+  test("draws only the first X stroke in the first half", () => {
+    const board = setCellValue(createEmptyBoard(3), { row: 0, col: 0 }, "X");
+    const mockContext = createMockContext();
+
+    renderBoard(board, mockContext, null, {
+      newPiece: { row: 0, col: 0 },
+      pieceProgress: 0.25,
+    });
+
+    // 4 grid lines plus half of the first stroke, ending at the cell centre
+    expect(mockContext.lineTo).toHaveBeenCalledTimes(5);
+    const [x, y] = mockContext.lineTo.mock.lastCall;
+    expect(x).toBeCloseTo(getCellSize(3) / 2);
+    expect(y).toBeCloseTo(getCellSize(3) / 2);
+  });
+
+  test("sweeps the O arc with progress", () => {
+    const board = setCellValue(createEmptyBoard(3), { row: 1, col: 1 }, "O");
+    const mockContext = createMockContext();
+
+    renderBoard(board, mockContext, null, {
+      newPiece: { row: 1, col: 1 },
+      pieceProgress: 0.5,
+    });
+
+    const [, , , start, end] = mockContext.arc.mock.calls[0];
+    expect(end - start).toBeCloseTo(Math.PI);
+  });
+
+  test("strikes through a completed line", () => {
+    const mockContext = createMockContext();
+
+    renderBoard(createDemoBoard(), mockContext, null, { winLength: 3 });
+
+    // Demo board has X on the main diagonal
+    const cellSize = getCellSize(3);
+    expect(mockContext.lineTo).toHaveBeenLastCalledWith(
+      cellSize * 2.5,
+      cellSize * 2.5,
+    );
+  });
+
+  test("draws the strike partway with strikeProgress", () => {
+    const mockContext = createMockContext();
+
+    renderBoard(createDemoBoard(), mockContext, null, {
+      winLength: 3,
+      strikeProgress: 0.5,
+    });
+
+    const cellSize = getCellSize(3);
+    expect(mockContext.lineTo).toHaveBeenLastCalledWith(
+      cellSize * 1.5,
+      cellSize * 1.5,
+    );
+  });
+
+  test("draws no strike unless a win length is given", () => {
+    const mockContext = createMockContext();
+    renderBoard(createDemoBoard(), mockContext);
+
+    // 4 grid lines plus 2 strokes for each of the 3 X pieces
+    expect(mockContext.lineTo).toHaveBeenCalledTimes(10);
+  });
+});
+
+describe("BoardRenderer themes", () => {
+  function createMockContext() {
+    return {
+      beginPath: vi.fn(),
+      moveTo: vi.fn(),
+      lineTo: vi.fn(),
+      arc: vi.fn(),
+      stroke: vi.fn(),
+      strokeRect: vi.fn(),
+      fillText: vi.fn(),
+      drawImage: vi.fn(),
+      strokeStyle: "",
+      fillStyle: "",
+      lineWidth: 0,
+      font: "",
+      textAlign: "start",
+      textBaseline: "alphabetic",
+      lineCap: "butt" as CanvasLineCap,
+      clearRect: vi.fn(),
+    } as any;
+  }
+
+  test("uses the theme grid colour and line width", () => {
+    const mockContext = createMockContext();
+    const strokeStyles: string[] = [];
+    mockContext.stroke.mockImplementation(() =>
+      strokeStyles.push(mockContext.strokeStyle),
+    );
+
+    renderBoard(createEmptyBoard(3), mockContext, null, {}, THEME_PRESETS.DARK);
+
+    expect(strokeStyles).toEqual([THEME_PRESETS.DARK.colors.grid]);
+    expect(mockContext.lineWidth).toBe(THEME_PRESETS.DARK.style.gridLineWidth);
+  });
+
+  test("draws glyph pieces as text", () => {
+    const mockContext = createMockContext();
+    const theme = withPieceStyle(THEME_PRESETS.LIGHT, PIECE_STYLES.emoji);
+
+    renderBoard(createDemoBoard(), mockContext, null, {}, theme);
+
+    // 3 X and 2 O glyphs, no arcs
+    expect(mockContext.fillText).toHaveBeenCalledTimes(5);
+    expect(mockContext.fillText).toHaveBeenCalledWith(
+      "❌",
+      getCellSize(3) / 2,
+      getCellSize(3) / 2,
+    );
+    expect(mockContext.arc).not.toHaveBeenCalled();
+  });
+
+  test("draws image pieces with drawImage", () => {
+    const mockContext = createMockContext();
+    const xImage = document.createElement("canvas");
+    const oImage = document.createElement("canvas");
+    const theme = withPieceStyle(THEME_PRESETS.LIGHT, {
+      kind: "images",
+      X: xImage,
+      O: oImage,
+    });
+
+    renderBoard(createDemoBoard(), mockContext, null, {}, theme);
+
+    expect(mockContext.drawImage).toHaveBeenCalledTimes(5);
+    expect(mockContext.drawImage.mock.calls[0][0]).toBe(xImage);
+  });
+});
+
+describe("BoardRenderer feedback", () => {
+  function createMockContext() {
+    return {
+      beginPath: vi.fn(),
+      moveTo: vi.fn(),
+      lineTo: vi.fn(),
+      arc: vi.fn(),
+      stroke: vi.fn(),
+      fillRect: vi.fn(),
+      strokeStyle: "",
+      fillStyle: "",
+      globalAlpha: 1,
+      lineWidth: 0,
+      lineCap: "butt" as CanvasLineCap,
+      clearRect: vi.fn(),
+    } as any;
+  }
+
+  test("draws a translucent ghost piece for the preview", () => {
+    const mockContext = createMockContext();
+    const alphas: number[] = [];
+    mockContext.stroke.mockImplementation(() =>
+      alphas.push(mockContext.globalAlpha),
+    );
+
+    renderBoard(createEmptyBoard(3), mockContext, null, {
+      preview: { position: { row: 1, col: 1 }, symbol: "O" },
+    });
+
+    expect(mockContext.arc).toHaveBeenCalledOnce();
+    expect(alphas[alphas.length - 1]).toBeLessThan(1);
+    expect(mockContext.globalAlpha).toBe(1);
+  });
+
+  test("fills the rejected cell", () => {
+    const mockContext = createMockContext();
+
+    renderBoard(createDemoBoard(), mockContext, null, {
+      rejectedCell: { row: 0, col: 2 },
+    });
+
+    const cellSize = getCellSize(3);
+    expect(mockContext.fillRect).toHaveBeenCalledWith(
+      cellSize * 2,
+      0,
+      cellSize,
+      cellSize,
+    );
+    expect(mockContext.fillStyle).toBe(THEME_PRESETS.LIGHT.colors.rejected);
+  });
+});
+
+describe("BoardRenderer sub-boards", () => {
+  function createMockContext() {
+    return {
+      beginPath: vi.fn(),
+      moveTo: vi.fn(),
+      lineTo: vi.fn(),
+      arc: vi.fn(),
+      stroke: vi.fn(),
+      fillRect: vi.fn(),
+      strokeStyle: "",
+      fillStyle: "",
+      globalAlpha: 1,
+      lineWidth: 0,
+      lineCap: "butt" as CanvasLineCap,
+      clearRect: vi.fn(),
+    } as any;
+  }
+
+  test("fills each active sub-board", () => {
+    const mockContext = createMockContext();
+
+    renderBoard(createEmptyBoard(9), mockContext, null, {
+      subBoards: { size: 3, active: [{ row: 1, col: 2 }], claimed: [] },
+    });
+
+    const subBoardSize = getCellSize(9) * 3;
+    expect(mockContext.fillRect).toHaveBeenCalledWith(
+      subBoardSize * 2,
+      subBoardSize,
+      subBoardSize,
+      subBoardSize,
+    );
+  });
+
+  test("draws heavier lines between sub-boards", () => {
+    const mockContext = createMockContext();
+    const widths: number[] = [];
+    mockContext.stroke.mockImplementation(() =>
+      widths.push(mockContext.lineWidth),
+    );
+
+    renderBoard(createEmptyBoard(9), mockContext, null, {
+      subBoards: { size: 3, active: [], claimed: [] },
+    });
+
+    expect(new Set(widths).size).toBe(2);
+    expect(Math.max(...widths)).toBeGreaterThan(Math.min(...widths));
+  });
+
+  test("draws one large piece over a claimed sub-board", () => {
+    const mockContext = createMockContext();
+
+    renderBoard(createEmptyBoard(9), mockContext, null, {
+      subBoards: {
+        size: 3,
+        active: [],
+        claimed: [{ position: { row: 0, col: 0 }, symbol: "O" }],
+      },
+    });
+
+    const subBoardSize = getCellSize(9) * 3;
+    expect(mockContext.arc).toHaveBeenCalledOnce();
+    expect(mockContext.arc.mock.calls[0][0]).toBe(subBoardSize / 2);
+    expect(mockContext.globalAlpha).toBe(1);
+  });
+
+  test("dims pieces that are about to vanish", () => {
+    const mockContext = createMockContext();
+    const alphas: number[] = [];
+    mockContext.arc.mockImplementation(() =>
+      alphas.push(mockContext.globalAlpha),
+    );
+    const board = setCellValue(
+      setCellValue(createEmptyBoard(3), { row: 0, col: 0 }, "O"),
+      { row: 1, col: 1 },
+      "O",
+    );
+
+    renderBoard(board, mockContext, null, {
+      fadingCells: [{ row: 0, col: 0 }],
+    });
+
+    expect(alphas).toHaveLength(2);
+    expect(alphas[0]).toBeLessThan(1);
+    expect(alphas[1]).toBe(1);
+    expect(mockContext.globalAlpha).toBe(1);
+  });
+
+  test("tints winning cells that cannot be struck through", () => {
+    const mockContext = createMockContext();
+    const alphas: number[] = [];
+    mockContext.fillRect.mockImplementation(() =>
+      alphas.push(mockContext.globalAlpha),
+    );
+
+    renderBoard(createEmptyBoard(8), mockContext, null, {
+      winningCells: [
+        { row: 0, col: 0 },
+        { row: 4, col: 4 },
+      ],
+    });
+
+    const cellSize = getCellSize(8);
+    expect(mockContext.fillRect).toHaveBeenCalledTimes(2);
+    expect(mockContext.fillRect).toHaveBeenCalledWith(
+      cellSize * 4,
+      cellSize * 4,
+      cellSize,
+      cellSize,
+    );
+    expect(alphas.every((alpha) => alpha < 1)).toBe(true);
+    expect(mockContext.globalAlpha).toBe(1);
+  });
+});
+
+describe("BoardRenderer hints", () => {
+  function createMockContext() {
+    return {
+      beginPath: vi.fn(),
+      moveTo: vi.fn(),
+      lineTo: vi.fn(),
+      arc: vi.fn(),
+      stroke: vi.fn(),
+      fillRect: vi.fn(),
+      fillText: vi.fn(),
+      strokeStyle: "",
+      fillStyle: "",
+      globalAlpha: 1,
+      lineWidth: 0,
+      lineCap: "butt" as CanvasLineCap,
+      clearRect: vi.fn(),
+    } as any;
+  }
+
+  test("overlays a labelled heatmap on hinted cells", () => {
+    const mockContext = createMockContext();
+    const fills: Array<{ color: string; alpha: number }> = [];
+    mockContext.fillRect = vi.fn(() =>
+      fills.push({
+        color: mockContext.fillStyle,
+        alpha: mockContext.globalAlpha,
+      }),
+    );
+
+    renderBoard(createEmptyBoard(3), mockContext, null, {
+      hints: [
+        { position: { row: 0, col: 0 }, outcome: "win", moves: 1 },
+        { position: { row: 0, col: 1 }, outcome: "win", moves: 2 },
+        { position: { row: 2, col: 2 }, outcome: "loss", moves: 1 },
+        { position: { row: 1, col: 1 }, outcome: "draw", moves: 0 },
+      ],
+    });
+
+    expect(fills.map((fill) => fill.color)).toEqual([
+      HINT_CONFIG.COLORS.win,
+      HINT_CONFIG.COLORS.win,
+      HINT_CONFIG.COLORS.loss,
+      HINT_CONFIG.COLORS.draw,
+    ]);
+    // Quicker results tint more strongly
+    expect(fills[0].alpha).toBeGreaterThan(fills[1].alpha);
+    expect(mockContext.globalAlpha).toBe(1);
+    expect(
+      mockContext.fillText.mock.calls.map((call: unknown[]) => call[0]),
+    ).toEqual(["W1", "W2", "L1", "D"]);
+    const cellSize = getCellSize(3);
+    expect(mockContext.fillText).toHaveBeenCalledWith(
+      "L1",
+      cellSize * 2.5,
+      cellSize * 2.5,
+    );
+  });
+});
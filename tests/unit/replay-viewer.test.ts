@@ -0,0 +1,111 @@
+import { describe, test, expect, vi, afterEach, beforeEach } from 'vitest';
+import { createReplayViewer, formatReplayPosition } from '../../src/ui/replay-viewer';
+import { buildReplaySession } from '../../src/engine/game-replay';
+import { REPLAY_CONFIG } from '../../src/constants/render-config';
+
+const moves = [
+  { row: 0, col: 0 },
+  { row: 1, col: 0 },
+  { row: 0, col: 1 },
+].map(position => ({ position }));
+
+function createViewer() {
+  const options = { onPositionChange: vi.fn(), onClose: vi.fn() };
+  const viewer = createReplayViewer(buildReplaySession(moves), options);
+  const button = (name: string) =>
+    viewer.element.querySelector<HTMLButtonElement>(`.replay-${name}`)!;
+  return { viewer, options, button };
+}
+
+describe('createReplayViewer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('steps forward and back', () => {
+    const { viewer, options, button } = createViewer();
+    expect(button('back').disabled).toBe(true);
+
+    button('forward').click();
+    button('forward').click();
+    button('back').click();
+
+    expect(viewer.getSession().currentMove).toBe(1);
+    expect(options.onPositionChange).toHaveBeenCalledTimes(3);
+    const [session, previous] = options.onPositionChange.mock.calls[2];
+    expect(session.currentMove).toBe(1);
+    expect(previous.board.cells[3].value).toBe('O');
+  });
+
+  test('plays one move per interval and stops at the end', () => {
+    const { viewer, button } = createViewer();
+
+    button('play').click();
+    expect(button('play').textContent).toBe('Pause');
+    vi.advanceTimersByTime(REPLAY_CONFIG.MOVE_INTERVAL_MS);
+    expect(viewer.getSession().currentMove).toBe(1);
+
+    vi.advanceTimersByTime(REPLAY_CONFIG.MOVE_INTERVAL_MS * 5);
+    expect(viewer.getSession().currentMove).toBe(3);
+    expect(button('play').textContent).toBe('Play');
+    expect(button('forward').disabled).toBe(true);
+  });
+
+  test('pauses, and starts over when played from the end', () => {
+    const { viewer, button } = createViewer();
+
+    button('play').click();
+    button('play').click();
+    vi.advanceTimersByTime(REPLAY_CONFIG.MOVE_INTERVAL_MS * 2);
+    expect(viewer.getSession().currentMove).toBe(0);
+
+    viewer.element.querySelector<HTMLInputElement>('.replay-slider')!.value = '3';
+    viewer.element
+      .querySelector<HTMLInputElement>('.replay-slider')!
+      .dispatchEvent(new Event('input'));
+    expect(viewer.getSession().currentMove).toBe(3);
+
+    button('play').click();
+    expect(viewer.getSession().currentMove).toBe(0);
+  });
+
+  test('plays faster at a higher speed', () => {
+    const { viewer, button } = createViewer();
+    const speed = viewer.element.querySelector<HTMLSelectElement>('.replay-speed')!;
+    speed.value = '4';
+    speed.dispatchEvent(new Event('change'));
+
+    button('play').click();
+    vi.advanceTimersByTime(REPLAY_CONFIG.MOVE_INTERVAL_MS / 2);
+
+    expect(viewer.getSession().currentMove).toBe(2);
+  });
+
+  test('shows the position and closes', () => {
+    const { viewer, options, button } = createViewer();
+    button('forward').click();
+
+    expect(viewer.element.querySelector('.replay-position')?.textContent).toBe('Move 1 of 3');
+    button('close').click();
+    expect(options.onClose).toHaveBeenCalledOnce();
+  });
+
+  test('dispose stops playback', () => {
+    const { viewer, options, button } = createViewer();
+    button('play').click();
+    viewer.dispose();
+
+    vi.advanceTimersByTime(REPLAY_CONFIG.MOVE_INTERVAL_MS * 3);
+    expect(options.onPositionChange).not.toHaveBeenCalled();
+  });
+});
+
+describe('formatReplayPosition', () => {
+  test('counts from the initial position', () => {
+    expect(formatReplayPosition(buildReplaySession(moves))).toBe('Move 0 of 3');
+  });
+});
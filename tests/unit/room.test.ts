@@ -0,0 +1,108 @@
+import { describe, test, expect } from 'vitest';
+import { createJoinCode, createRoom, joinRoom, playRoomMove, resetRoom } from '../../src/server/room';
+import { SERVER_CONFIG } from '../../src/constants/network-config';
+
+function createTokens() {
+  let count = 0;
+  return () => `token-${++count}`;
+}
+
+describe('createJoinCode', () => {
+  test('draws from the join code alphabet', () => {
+    const code = createJoinCode(() => 0);
+    expect(code).toHaveLength(SERVER_CONFIG.JOIN_CODE_LENGTH);
+    expect(code).toBe(SERVER_CONFIG.JOIN_CODE_ALPHABET[0].repeat(SERVER_CONFIG.JOIN_CODE_LENGTH));
+  });
+});
+
+describe('createRoom', () => {
+  test('starts an empty game with open seats', () => {
+    const room = createRoom('ABCD', { boardSize: 5, winLength: 4 });
+    expect(room.state.board.size).toBe(5);
+    expect(room.seats).toEqual({ X: null, O: null });
+  });
+
+  test('throws for invalid rules', () => {
+    expect(() => createRoom('ABCD', { boardSize: 2, winLength: 3 })).toThrow();
+  });
+});
+
+describe('joinRoom', () => {
+  test('seats X, then O, then spectators', () => {
+    const createToken = createTokens();
+    const first = joinRoom(createRoom('ABCD'), createToken);
+    const second = joinRoom(first.room, createToken);
+    const third = joinRoom(second.room, createToken);
+
+    expect(first.seat).toBe('X');
+    expect(second.seat).toBe('O');
+    expect(third.seat).toBeNull();
+    expect(third.token).toBeNull();
+  });
+
+  test('reclaims a seat with its token', () => {
+    const createToken = createTokens();
+    const first = joinRoom(createRoom('ABCD'), createToken);
+    const second = joinRoom(first.room, createToken);
+    const rejoin = joinRoom(second.room, createToken, first.token!);
+
+    expect(rejoin.seat).toBe('X');
+    expect(rejoin.token).toBe(first.token);
+    expect(rejoin.room).toBe(second.room);
+  });
+
+  test('spectators do not take free seats', () => {
+    const join = joinRoom(createRoom('ABCD'), createTokens(), undefined, true);
+    expect(join.seat).toBeNull();
+    expect(join.room.seats).toEqual({ X: null, O: null });
+  });
+});
+
+describe('playRoomMove', () => {
+  test('applies a move from the player on turn', () => {
+    const result = playRoomMove(createRoom('ABCD'), 'X', { row: 1, col: 1 });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.room.state.currentTurn).toBe('O');
+    }
+  });
+
+  test('rejects out-of-turn and spectator moves', () => {
+    const room = createRoom('ABCD');
+    expect(playRoomMove(room, 'O', { row: 0, col: 0 })).toEqual({
+      success: false,
+      reason: 'not-your-turn',
+    });
+    expect(playRoomMove(room, null, { row: 0, col: 0 })).toEqual({
+      success: false,
+      reason: 'not-your-turn',
+    });
+  });
+
+  test('rejects illegal moves with the engine reason', () => {
+    const played = playRoomMove(createRoom('ABCD'), 'X', { row: 0, col: 0 });
+    if (!played.success) throw new Error('setup move failed');
+
+    expect(playRoomMove(played.room, 'O', { row: 0, col: 0 })).toEqual({
+      success: false,
+      reason: 'cell-occupied',
+    });
+    expect(playRoomMove(played.room, 'O', { row: 3, col: 0 })).toEqual({
+      success: false,
+      reason: 'invalid-position',
+    });
+  });
+});
+
+describe('resetRoom', () => {
+  test('keeps rules and seats with a fresh board', () => {
+    const join = joinRoom(createRoom('ABCD', { boardSize: 4, winLength: 3 }), createTokens());
+    const played = playRoomMove(join.room, 'X', { row: 0, col: 0 });
+    if (!played.success) throw new Error('setup move failed');
+
+    const reset = resetRoom(played.room);
+    expect(reset.state.board.cells.every(cell => cell.value === null)).toBe(true);
+    expect(reset.state.rules).toEqual({ boardSize: 4, winLength: 3 });
+    expect(reset.seats).toEqual(join.room.seats);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  createRulesSelector,
+  formatRulesLabel,
+  RULES_OPTIONS,
+} from '../../src/ui/rules-selector';
+
+describe('formatRulesLabel', () => {
+  test('describes board size and win length', () => {
+    expect(formatRulesLabel({ boardSize: 5, winLength: 4 })).toBe('5×5, 4 in a row');
+  });
+});
+
+describe('createRulesSelector', () => {
+  test('creates one option per variant', () => {
+    const element = createRulesSelector(RULES_OPTIONS, vi.fn());
+    expect(element.tagName).toBe('SELECT');
+    expect(element.options).toHaveLength(RULES_OPTIONS.length);
+    expect(element.getAttribute('aria-label')).toBe('Game variant');
+  });
+
+  test('reports the selected option on change', () => {
+    const onChange = vi.fn();
+    const element = createRulesSelector(RULES_OPTIONS, onChange);
+
+    element.value = '1';
+    element.dispatchEvent(new Event('change'));
+
+    expect(onChange).toHaveBeenCalledWith(RULES_OPTIONS[1]);
+  });
+
+  test('offers Ultimate and Qubic as their own modes', () => {
+    const modes = RULES_OPTIONS.filter(option => option.mode).map(option => option.mode);
+    expect(modes).toEqual(['ultimate', 'qubic']);
+  });
+});
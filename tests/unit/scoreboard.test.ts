@@ -0,0 +1,71 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  createScoreboard,
+  updateScoreboard,
+  formatScoreText,
+  formatMatchText,
+} from '../../src/ui/scoreboard';
+import { createMatch } from '../../src/engine/match-transitions';
+
+function createControls() {
+  return { onNewGame: vi.fn(), onResetMatch: vi.fn(), onBestOfChange: vi.fn() };
+}
+
+describe('formatScoreText', () => {
+  test('lists wins, losses and draws', () => {
+    expect(formatScoreText('X', { wins: 2, losses: 1, draws: 3 })).toBe('X: 2W 1L 3D');
+  });
+});
+
+describe('formatMatchText', () => {
+  test('shows progress through the match', () => {
+    expect(formatMatchText({ ...createMatch(5), gamesPlayed: 2 })).toBe('Game 3 of best of 5');
+  });
+
+  test('announces the match winner', () => {
+    expect(formatMatchText({ ...createMatch(3), winner: 'O' })).toBe('Player O wins the match!');
+  });
+});
+
+describe('createScoreboard', () => {
+  test('wires new game and reset buttons', () => {
+    const controls = createControls();
+    const element = createScoreboard(controls, [1, 3]);
+
+    element.querySelector<HTMLButtonElement>('.new-game-button')!.click();
+    element.querySelector<HTMLButtonElement>('.reset-match-button')!.click();
+
+    expect(controls.onNewGame).toHaveBeenCalledOnce();
+    expect(controls.onResetMatch).toHaveBeenCalledOnce();
+  });
+
+  test('reports a new match length', () => {
+    const controls = createControls();
+    const element = createScoreboard(controls, [1, 3, 5]);
+    const selector = element.querySelector<HTMLSelectElement>('.best-of-selector')!;
+
+    selector.value = '5';
+    selector.dispatchEvent(new Event('change'));
+
+    expect(selector.options).toHaveLength(3);
+    expect(controls.onBestOfChange).toHaveBeenCalledWith(5);
+  });
+});
+
+describe('updateScoreboard', () => {
+  test('shows both scores and the match length', () => {
+    const element = createScoreboard(createControls(), [1, 3, 5]);
+    const match = createMatch(5);
+    updateScoreboard(element, {
+      ...match,
+      scores: { X: { wins: 1, losses: 0, draws: 0 }, O: { wins: 0, losses: 1, draws: 0 } },
+      gamesPlayed: 1,
+    });
+
+    const lines = element.querySelectorAll('.player-score');
+    expect(lines[0].textContent).toBe('X: 1W 0L 0D');
+    expect(lines[1].textContent).toBe('O: 0W 1L 0D');
+    expect(element.querySelector('.match-summary')?.textContent).toBe('Game 2 of best of 5');
+    expect(element.querySelector<HTMLSelectElement>('.best-of-selector')!.value).toBe('5');
+  });
+});
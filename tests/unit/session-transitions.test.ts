@@ -0,0 +1,166 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createGameSession,
+  getCurrentState,
+  getPlayedMoves,
+  canUndo,
+  canRedo,
+  playSessionMove,
+  jumpToMove,
+  undo,
+  redo,
+  timeOutSession,
+} from '../../src/engine/session-transitions';
+import { createInitialGameState } from '../../src/engine/game-engine';
+import { GameSession } from '../../src/models/game-session';
+
+function playAll(session: GameSession, moves: Array<[number, number]>): GameSession {
+  return moves.reduce(
+    (current, [row, col]) => playSessionMove(current, { row, col }),
+    session
+  );
+}
+
+describe('createGameSession', () => {
+  test('starts at the initial state with no moves', () => {
+    const initial = createInitialGameState();
+    const session = createGameSession(initial);
+
+    expect(getCurrentState(session)).toBe(initial);
+    expect(session.moves).toEqual([]);
+    expect(session.currentMove).toBe(0);
+    expect(canUndo(session)).toBe(false);
+    expect(canRedo(session)).toBe(false);
+  });
+});
+
+describe('playSessionMove', () => {
+  test('records player, position and move number', () => {
+    const session = playAll(createGameSession(createInitialGameState()), [[1, 1], [0, 0]]);
+
+    expect(session.moves).toEqual([
+      { player: 'X', position: { row: 1, col: 1 }, moveNumber: 1 },
+      { player: 'O', position: { row: 0, col: 0 }, moveNumber: 2 },
+    ]);
+    expect(session.currentMove).toBe(2);
+    expect(getCurrentState(session).currentTurn).toBe('X');
+  });
+
+  test('records the chosen piece', () => {
+    const initial = createInitialGameState({ boardSize: 3, winLength: 3, variant: 'wild' });
+    const session = playSessionMove(createGameSession(initial), { row: 0, col: 0 }, 'O');
+
+    expect(session.moves).toEqual([
+      { player: 'X', position: { row: 0, col: 0 }, moveNumber: 1, symbol: 'O' },
+    ]);
+  });
+
+  test('returns the same session for a rejected move', () => {
+    const session = playAll(createGameSession(createInitialGameState()), [[1, 1]]);
+    expect(playSessionMove(session, { row: 1, col: 1 })).toBe(session);
+  });
+
+  test('does not mutate the previous session', () => {
+    const session = createGameSession(createInitialGameState());
+    playSessionMove(session, { row: 0, col: 0 });
+
+    expect(session.moves).toHaveLength(0);
+    expect(session.states).toHaveLength(1);
+  });
+});
+
+describe('undo and redo', () => {
+  test('undo restores the previous state', () => {
+    const initial = createInitialGameState();
+    const played = playAll(createGameSession(initial), [[1, 1], [0, 0]]);
+    const undone = undo(played);
+
+    expect(undone.currentMove).toBe(1);
+    expect(getCurrentState(undone)).toBe(played.states[1]);
+    expect(getPlayedMoves(undone)).toHaveLength(1);
+    expect(canRedo(undone)).toBe(true);
+  });
+
+  test('redo reapplies the undone move', () => {
+    const played = playAll(createGameSession(createInitialGameState()), [[1, 1], [0, 0]]);
+    const redone = redo(undo(undo(played)));
+
+    expect(redone.currentMove).toBe(1);
+    expect(getCurrentState(redone)).toBe(played.states[1]);
+  });
+
+  test('undo at the start and redo at the end are no-ops', () => {
+    const start = createGameSession(createInitialGameState());
+    expect(undo(start)).toBe(start);
+
+    const played = playAll(start, [[1, 1]]);
+    expect(redo(played)).toBe(played);
+  });
+
+  test('a new move after undo clears the redo stack', () => {
+    const played = playAll(createGameSession(createInitialGameState()), [[1, 1], [0, 0], [2, 2]]);
+    const branched = playSessionMove(undo(undo(played)), { row: 0, col: 2 });
+
+    expect(branched.moves).toEqual([
+      { player: 'X', position: { row: 1, col: 1 }, moveNumber: 1 },
+      { player: 'O', position: { row: 0, col: 2 }, moveNumber: 2 },
+    ]);
+    expect(branched.states).toHaveLength(3);
+    expect(canRedo(branched)).toBe(false);
+  });
+
+  test('undo after a win resumes play', () => {
+    const won = playAll(createGameSession(createInitialGameState()), [
+      [0, 0], [1, 0], [0, 1], [1, 1], [0, 2],
+    ]);
+    expect(getCurrentState(won).status).toBe('won');
+
+    const undone = undo(won);
+    expect(getCurrentState(undone).status).toBe('in-progress');
+    expect(getCurrentState(undone).currentTurn).toBe('X');
+  });
+});
+
+describe('jumpToMove', () => {
+  test('jumps to any recorded move', () => {
+    const initial = createInitialGameState();
+    const played = playAll(createGameSession(initial), [[1, 1], [0, 0], [2, 2]]);
+
+    expect(getCurrentState(jumpToMove(played, 0))).toBe(initial);
+    expect(jumpToMove(jumpToMove(played, 0), 3).currentMove).toBe(3);
+  });
+
+  test('ignores out of range move numbers', () => {
+    const played = playAll(createGameSession(createInitialGameState()), [[1, 1]]);
+
+    expect(jumpToMove(played, -1)).toBe(played);
+    expect(jumpToMove(played, 2)).toBe(played);
+    expect(jumpToMove(played, 0.5)).toBe(played);
+  });
+});
+
+describe('timeOutSession', () => {
+  test('ends the game at the current position', () => {
+    const played = playAll(createGameSession(createInitialGameState()), [[1, 1], [0, 0]]);
+    const timedOut = timeOutSession(played, 'X');
+
+    expect(getCurrentState(timedOut)).toMatchObject({ status: 'won', winner: 'O' });
+    expect(timedOut.currentMove).toBe(2);
+    expect(timedOut.moves).toEqual(played.moves);
+    expect(getCurrentState(undo(timedOut)).status).toBe('in-progress');
+  });
+
+  test('drops moves that could have been redone', () => {
+    const played = playAll(createGameSession(createInitialGameState()), [[1, 1], [0, 0]]);
+    const timedOut = timeOutSession(undo(played), 'O');
+
+    expect(timedOut.moves).toHaveLength(1);
+    expect(timedOut.states).toHaveLength(2);
+    expect(canRedo(timedOut)).toBe(false);
+  });
+
+  test('ignores the player not on turn', () => {
+    const session = createGameSession(createInitialGameState());
+    expect(timeOutSession(session, 'O')).toBe(session);
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, test, expect } from 'vitest';
-import { processMove, switchTurn } from '../../src/engine/state-transitions';
-import { createEmptyBoard } from '../../src/models/board';
+import { processMove, processTimeout, switchTurn } from '../../src/engine/state-transitions';
+import { createEmptyBoard, setCellValue } from '../../src/models/board';
+import { GameState } from '../../src/models/game-state';
+import { createInitialGameState } from '../../src/engine/game-engine';
 
 describe('switchTurn', () => {
   test('switches X to O', () => {
@@ -16,8 +18,12 @@ describe('processMove', () => {
   test('places symbol in empty cell', () => {
     const state = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X' as const,
       moveInProgress: false,
+      status: 'in-progress' as const,
+      winner: null,
+      winningLine: null,
     };
 
     const newState = processMove(state, { row: 0, col: 0 });
@@ -31,8 +37,12 @@ describe('processMove', () => {
   test('switches turn after valid move', () => {
     const state = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X' as const,
       moveInProgress: false,
+      status: 'in-progress' as const,
+      winner: null,
+      winningLine: null,
     };
 
     const newState = processMove(state, { row: 0, col: 0 });
@@ -43,8 +53,12 @@ describe('processMove', () => {
   test('returns new state object (immutability)', () => {
     const state = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X' as const,
       moveInProgress: false,
+      status: 'in-progress' as const,
+      winner: null,
+      winningLine: null,
     };
 
     const newState = processMove(state, { row: 0, col: 0 });
@@ -56,8 +70,12 @@ describe('processMove', () => {
   test('returns original state for invalid move', () => {
     const state = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X' as const,
       moveInProgress: true, // locked
+      status: 'in-progress' as const,
+      winner: null,
+      winningLine: null,
     };
 
     const newState = processMove(state, { row: 0, col: 0 });
@@ -68,8 +86,12 @@ describe('processMove', () => {
   test('places O symbol correctly', () => {
     const state = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'O' as const,
       moveInProgress: false,
+      status: 'in-progress' as const,
+      winner: null,
+      winningLine: null,
     };
 
     const newState = processMove(state, { row: 1, col: 1 });
@@ -81,13 +103,16 @@ describe('processMove', () => {
   });
 
   test('preserves other cells when placing move', () => {
-    const board = createEmptyBoard(3);
-    board.cells[0].value = 'X'; // Pre-existing move
+    const board = setCellValue(createEmptyBoard(3), { row: 0, col: 0 }, 'X'); // Pre-existing move
 
     const state = {
       board,
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'O' as const,
       moveInProgress: false,
+      status: 'in-progress' as const,
+      winner: null,
+      winningLine: null,
     };
 
     const newState = processMove(state, { row: 1, col: 1 });
@@ -101,8 +126,12 @@ describe('processMove', () => {
   test('does not mutate original board', () => {
     const state = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X' as const,
       moveInProgress: false,
+      status: 'in-progress' as const,
+      winner: null,
+      winningLine: null,
     };
 
     const originalCell = state.board.cells[0];
@@ -113,13 +142,16 @@ describe('processMove', () => {
   });
 
   test('returns original state for occupied cell', () => {
-    const board = createEmptyBoard(3);
-    board.cells[0].value = 'X';
+    const board = setCellValue(createEmptyBoard(3), { row: 0, col: 0 }, 'X');
 
     const state = {
       board,
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'O' as const,
       moveInProgress: false,
+      status: 'in-progress' as const,
+      winner: null,
+      winningLine: null,
     };
 
     const newState = processMove(state, { row: 0, col: 0 });
@@ -130,8 +162,12 @@ describe('processMove', () => {
   test('returns original state for out of bounds position', () => {
     const state = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X' as const,
       moveInProgress: false,
+      status: 'in-progress' as const,
+      winner: null,
+      winningLine: null,
     };
 
     const newState = processMove(state, { row: 5, col: 5 });
@@ -140,10 +176,14 @@ describe('processMove', () => {
   });
 
   test('processes multiple sequential moves correctly', () => {
-    let state = {
+    let state: GameState = {
       board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
       currentTurn: 'X' as const,
       moveInProgress: false,
+      status: 'in-progress' as const,
+      winner: null,
+      winningLine: null,
     };
 
     // Move 1: X at 0,0
@@ -169,3 +209,123 @@ describe('processMove', () => {
   });
 });
 
+
+describe('processMove game end', () => {
+  function playMoves(moves: Array<[number, number]>): GameState {
+    let state: GameState = {
+      board: createEmptyBoard(3),
+      rules: { boardSize: 3, winLength: 3 },
+      currentTurn: 'X',
+      moveInProgress: false,
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
+    };
+    for (const [row, col] of moves) {
+      state = processMove(state, { row, col });
+    }
+    return state;
+  }
+
+  test('stays in progress before a line is completed', () => {
+    const state = playMoves([[0, 0], [1, 1]]);
+    expect(state.status).toBe('in-progress');
+    expect(state.winner).toBeNull();
+    expect(state.winningLine).toBeNull();
+  });
+
+  test('detects a win and records the winning line', () => {
+    // X: top row, O: middle row
+    const state = playMoves([[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]]);
+
+    expect(state.status).toBe('won');
+    expect(state.winner).toBe('X');
+    expect(state.winningLine).toEqual([
+      { row: 0, col: 0 },
+      { row: 0, col: 1 },
+      { row: 0, col: 2 },
+    ]);
+  });
+
+  test('keeps the winner as currentTurn after the game ends', () => {
+    const state = playMoves([[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]]);
+    expect(state.currentTurn).toBe('X');
+  });
+
+  test('rejects moves after a win', () => {
+    const won = playMoves([[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]]);
+    const next = processMove(won, { row: 2, col: 2 });
+    expect(next).toBe(won);
+  });
+
+  test('detects a draw on a full board', () => {
+    // X O X / X O O / O X X
+    const state = playMoves([
+      [0, 0], [0, 1], [0, 2],
+      [1, 1], [1, 0], [1, 2],
+      [2, 1], [2, 0], [2, 2],
+    ]);
+
+    expect(state.status).toBe('draw');
+    expect(state.winner).toBeNull();
+    expect(state.winningLine).toBeNull();
+  });
+});
+
+describe('processMove on larger boards', () => {
+  test('5x5 needs four in a row, not three', () => {
+    let state = createInitialGameState({ boardSize: 5, winLength: 4 });
+    // X: (0,0) (0,1) (0,2), O: (4,0) (4,1)
+    const moves: Array<[number, number]> = [[0, 0], [4, 0], [0, 1], [4, 1], [0, 2]];
+    for (const [row, col] of moves) {
+      state = processMove(state, { row, col });
+    }
+    expect(state.status).toBe('in-progress');
+
+    state = processMove(state, { row: 4, col: 4 }); // O
+    state = processMove(state, { row: 0, col: 3 }); // X completes four
+    expect(state.status).toBe('won');
+    expect(state.winner).toBe('X');
+    expect(state.winningLine).toHaveLength(4);
+  });
+
+  test('15x15 detects five on a diagonal away from the corner', () => {
+    let state = createInitialGameState({ boardSize: 15, winLength: 5 });
+    for (let i = 0; i < 5; i++) {
+      state = processMove(state, { row: 6 + i, col: 10 - i }); // X anti-diagonal
+      if (i < 4) {
+        state = processMove(state, { row: 0, col: i }); // O
+      }
+    }
+    expect(state.status).toBe('won');
+    expect(state.winner).toBe('X');
+    expect(state.winningLine?.[0]).toEqual({ row: 6, col: 10 });
+  });
+
+  test('accepts moves anywhere on the larger board', () => {
+    const state = createInitialGameState({ boardSize: 15, winLength: 5 });
+    const newState = processMove(state, { row: 14, col: 14 });
+    expect(newState).not.toBe(state);
+    expect(newState.rules).toBe(state.rules);
+  });
+});
+
+describe('processTimeout', () => {
+  test('the player on turn loses on time', () => {
+    const state = processMove(createInitialGameState(), { row: 1, col: 1 }); // O to move
+    const timedOut = processTimeout(state, 'O');
+
+    expect(timedOut.status).toBe('won');
+    expect(timedOut.winner).toBe('X');
+    expect(timedOut.winningLine).toBeNull();
+    expect(timedOut.board).toBe(state.board);
+  });
+
+  test('ignores the player not on turn and finished games', () => {
+    const state = createInitialGameState();
+    expect(processTimeout(state, 'O')).toBe(state);
+
+    const timedOut = processTimeout(state, 'X');
+    expect(processTimeout(timedOut, 'X')).toBe(timedOut);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  createThemeSelector,
+  createPieceStyleSelector,
+  applyThemeColors,
+  THEME_OPTIONS,
+  PIECE_STYLE_OPTIONS,
+} from '../../src/ui/theme-selector';
+import { THEME_PRESETS } from '../../src/models/theme';
+
+describe('createThemeSelector', () => {
+  test('offers the system choice plus every preset', () => {
+    const element = createThemeSelector(THEME_OPTIONS, 'system', vi.fn());
+    expect(element.options).toHaveLength(Object.keys(THEME_PRESETS).length + 1);
+    expect(element.value).toBe('system');
+    expect(element.getAttribute('aria-label')).toBe('Colour theme');
+  });
+
+  test('reports the chosen theme', () => {
+    const onChange = vi.fn();
+    const element = createThemeSelector(THEME_OPTIONS, 'system', onChange);
+
+    element.value = 'high-contrast';
+    element.dispatchEvent(new Event('change'));
+
+    expect(onChange).toHaveBeenCalledWith('high-contrast');
+  });
+});
+
+describe('createPieceStyleSelector', () => {
+  test('starts on the saved style and reports changes', () => {
+    const onChange = vi.fn();
+    const element = createPieceStyleSelector(PIECE_STYLE_OPTIONS, 'emoji', onChange);
+    expect(element.value).toBe('emoji');
+
+    element.value = 'strokes';
+    element.dispatchEvent(new Event('change'));
+
+    expect(onChange).toHaveBeenCalledWith('strokes');
+  });
+});
+
+describe('applyThemeColors', () => {
+  test('sets the page colours as custom properties', () => {
+    const root = document.createElement('div');
+    applyThemeColors(root, THEME_PRESETS.DARK);
+
+    expect(root.dataset.theme).toBe('dark');
+    expect(root.style.getPropertyValue('--page-background')).toBe(THEME_PRESETS.DARK.colors.page);
+    expect(root.style.getPropertyValue('--accent')).toBe(THEME_PRESETS.DARK.colors.accent);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import {
+  loadThemePreference,
+  saveThemePreference,
+  isValidThemePreference,
+} from '../../src/storage/theme-storage';
+import { THEME_CONFIG } from '../../src/constants/render-config';
+
+describe('theme storage', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  test('round-trips a preference', () => {
+    saveThemePreference(window.localStorage, { theme: 'dark', pieces: 'emoji' });
+    expect(loadThemePreference(window.localStorage)).toEqual({ theme: 'dark', pieces: 'emoji' });
+  });
+
+  test('returns null when nothing is saved', () => {
+    expect(loadThemePreference(window.localStorage)).toBeNull();
+  });
+
+  test('ignores unreadable or invalid values', () => {
+    window.localStorage.setItem(THEME_CONFIG.STORAGE_KEY, '{nope');
+    expect(loadThemePreference(window.localStorage)).toBeNull();
+
+    window.localStorage.setItem(
+      THEME_CONFIG.STORAGE_KEY,
+      JSON.stringify({ theme: 'dark', pieces: 'sparkles' })
+    );
+    expect(loadThemePreference(window.localStorage)).toBeNull();
+  });
+
+  test('validates the shape', () => {
+    expect(isValidThemePreference({ theme: 'system', pieces: 'strokes' })).toBe(true);
+    expect(isValidThemePreference({ theme: 3, pieces: 'strokes' })).toBe(false);
+    expect(isValidThemePreference(null)).toBe(false);
+  });
+});
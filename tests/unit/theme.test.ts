@@ -0,0 +1,53 @@
+import { describe, test, expect } from 'vitest';
+import {
+  THEME_PRESETS,
+  DEFAULT_THEME,
+  PIECE_STYLES,
+  findTheme,
+  resolveTheme,
+  withPieceStyle,
+} from '../../src/models/theme';
+import { THEME_CONFIG } from '../../src/constants/render-config';
+
+describe('THEME_PRESETS', () => {
+  test('ships light, dark, high-contrast and colour-blind-safe themes', () => {
+    expect(Object.values(THEME_PRESETS).map(theme => theme.id)).toEqual([
+      'light',
+      'dark',
+      'high-contrast',
+      'color-blind',
+    ]);
+  });
+
+  test('every preset keeps X and O distinct', () => {
+    Object.values(THEME_PRESETS).forEach(theme => {
+      expect(theme.colors.xPiece).not.toBe(theme.colors.oPiece);
+    });
+  });
+});
+
+describe('resolveTheme', () => {
+  test('follows the system colour scheme', () => {
+    expect(resolveTheme(THEME_CONFIG.SYSTEM_CHOICE, false)).toBe(THEME_PRESETS.LIGHT);
+    expect(resolveTheme(THEME_CONFIG.SYSTEM_CHOICE, true)).toBe(THEME_PRESETS.DARK);
+  });
+
+  test('an explicit preset overrides the system scheme', () => {
+    expect(resolveTheme('high-contrast', false)).toBe(THEME_PRESETS.HIGH_CONTRAST);
+    expect(resolveTheme('light', true)).toBe(THEME_PRESETS.LIGHT);
+  });
+
+  test('unknown ids fall back to the system scheme', () => {
+    expect(findTheme('neon')).toBeNull();
+    expect(resolveTheme('neon', true)).toBe(THEME_PRESETS.DARK);
+  });
+});
+
+describe('withPieceStyle', () => {
+  test('swaps the piece style without touching the palette', () => {
+    const themed = withPieceStyle(DEFAULT_THEME, PIECE_STYLES.emoji);
+    expect(themed.pieces).toEqual({ kind: 'glyphs', X: '❌', O: '⭕' });
+    expect(themed.colors).toBe(DEFAULT_THEME.colors);
+    expect(DEFAULT_THEME.pieces.kind).toBe('strokes');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, test, expect } from 'vitest';
+import {
+  isPeerMessage,
+  assignLocalSymbol,
+  createPeerId,
+} from '../../src/network/transport';
+import { DEFAULT_GAME_RULES } from '../../src/models/game-rules';
+
+const rules = DEFAULT_GAME_RULES;
+
+describe('isPeerMessage', () => {
+  test('accepts well-formed messages', () => {
+    expect(isPeerMessage({ type: 'hello', peerId: 'a', rules })).toBe(true);
+    expect(
+      isPeerMessage({ type: 'new-game', peerId: 'a', rules: { ...rules, variant: 'misere' } })
+    ).toBe(true);
+    expect(
+      isPeerMessage({
+        type: 'move',
+        peerId: 'a',
+        moveNumber: 1,
+        player: 'X',
+        position: { row: 0, col: 2 },
+      })
+    ).toBe(true);
+    expect(
+      isPeerMessage({
+        type: 'move',
+        peerId: 'a',
+        moveNumber: 1,
+        player: 'X',
+        position: { row: 0, col: 2 },
+        symbol: 'O',
+      })
+    ).toBe(true);
+  });
+
+  test('rejects malformed messages', () => {
+    expect(isPeerMessage(null)).toBe(false);
+    expect(isPeerMessage('hello')).toBe(false);
+    expect(isPeerMessage({ type: 'hello' })).toBe(false);
+    expect(isPeerMessage({ type: 'hello', peerId: 'a' })).toBe(false);
+    expect(isPeerMessage({ type: 'new-game', peerId: 'a', rules: null })).toBe(false);
+    expect(
+      isPeerMessage({ type: 'new-game', peerId: 'a', rules: { ...rules, variant: 'chess' } })
+    ).toBe(false);
+    expect(isPeerMessage({ type: 'chat', peerId: 'a' })).toBe(false);
+    expect(
+      isPeerMessage({ type: 'move', peerId: 'a', moveNumber: 1, player: 'Z', position: { row: 0, col: 0 } })
+    ).toBe(false);
+    expect(
+      isPeerMessage({ type: 'move', peerId: 'a', moveNumber: 1, player: 'X', position: { row: -1, col: 0 } })
+    ).toBe(false);
+    expect(
+      isPeerMessage({ type: 'move', peerId: 'a', moveNumber: 1.5, player: 'X', position: { row: 0, col: 0 } })
+    ).toBe(false);
+    expect(
+      isPeerMessage({
+        type: 'move',
+        peerId: 'a',
+        moveNumber: 1,
+        player: 'X',
+        position: { row: 0, col: 0 },
+        symbol: 'Z',
+      })
+    ).toBe(false);
+  });
+});
+
+describe('assignLocalSymbol', () => {
+  test('gives the two peers opposite symbols', () => {
+    expect(assignLocalSymbol('abc', 'xyz')).toBe('X');
+    expect(assignLocalSymbol('xyz', 'abc')).toBe('O');
+  });
+});
+
+describe('createPeerId', () => {
+  test('derives an id from the random source', () => {
+    expect(createPeerId(() => 0.5)).toBe(createPeerId(() => 0.5));
+    expect(createPeerId(() => 0.25)).not.toBe(createPeerId(() => 0.5));
+  });
+});
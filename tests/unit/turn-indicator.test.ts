@@ -2,7 +2,11 @@ import { describe, test, expect, beforeEach } from 'vitest';
 import {
   createTurnIndicator,
   updateTurnIndicator,
-  formatTurnText
+  formatTurnText,
+  formatResultText,
+  showGameResult,
+  formatMoveAnnouncement,
+  announceMove
 } from '../../src/ui/turn-indicator';
 
 describe('formatTurnText', () => {
@@ -79,3 +83,59 @@ describe('updateTurnIndicator', () => {
   });
 });
 
+
+describe('formatResultText', () => {
+  test('announces the winner', () => {
+    expect(formatResultText('X')).toBe('Player X Wins!');
+    expect(formatResultText('O')).toBe('Player O Wins!');
+  });
+
+  test('announces a draw', () => {
+    expect(formatResultText(null)).toBe("It's a Draw!");
+  });
+});
+
+describe('showGameResult', () => {
+  test('replaces turn text with result', () => {
+    const element = createTurnIndicator('X');
+    showGameResult(element, 'X');
+    expect(element.textContent).toBe('Player X Wins!');
+  });
+});
+
+describe('formatMoveAnnouncement', () => {
+  test('names player and 1-based cell', () => {
+    expect(
+      formatMoveAnnouncement({ player: 'X', position: { row: 1, col: 2 }, moveNumber: 1 })
+    ).toBe('X placed at row 2, column 3.');
+  });
+});
+
+describe('announceMove', () => {
+  test('reads the move before the status in the live region', () => {
+    const element = createTurnIndicator('X');
+    announceMove(
+      element,
+      { player: 'X', position: { row: 0, col: 0 }, moveNumber: 1 },
+      "Player O's Turn"
+    );
+
+    expect(element.textContent).toBe("X placed at row 1, column 1. Player O's Turn");
+    expect(element.querySelector('.visually-hidden')?.textContent).toBe(
+      'X placed at row 1, column 1. '
+    );
+    expect(element.getAttribute('aria-live')).toBe('polite');
+  });
+
+  test('plain updates drop the previous announcement', () => {
+    const element = createTurnIndicator('X');
+    announceMove(
+      element,
+      { player: 'X', position: { row: 0, col: 0 }, moveNumber: 1 },
+      "Player O's Turn"
+    );
+    updateTurnIndicator(element, 'O');
+
+    expect(element.textContent).toBe("Player O's Turn");
+  });
+});
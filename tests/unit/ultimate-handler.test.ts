@@ -0,0 +1,91 @@
+import { describe, test, expect, vi } from 'vitest';
+import { setupUltimateHandler } from '../../src/input/ultimate-handler';
+import { createInitialUltimateState } from '../../src/engine/game-engine';
+import { createEmptyBoard, getCellValue } from '../../src/models/board';
+import { getSubBoard } from '../../src/models/ultimate-state';
+import { getCellSize } from '../../src/constants/render-config';
+import { createCanvasRenderer } from '../../src/renderer/canvas-renderer';
+
+// Dispatch a pointerdown at the centre of a cell on the combined 9x9 grid
+function clickCell(canvas: HTMLCanvasElement, row: number, col: number) {
+  const cellSize = getCellSize(9);
+  canvas.dispatchEvent(
+    new MouseEvent('pointerdown', {
+      clientX: col * cellSize + cellSize / 2,
+      clientY: row * cellSize + cellSize / 2,
+    })
+  );
+}
+
+function pressKey(canvas: HTMLCanvasElement, key: string) {
+  canvas.dispatchEvent(new KeyboardEvent('keydown', { key }));
+}
+
+function setup() {
+  const canvas = document.createElement('canvas');
+  const renderer = createCanvasRenderer(canvas);
+  renderer.render(createEmptyBoard(9)); // Hit tests follow the rendered board's size
+  return { canvas, renderer };
+}
+
+describe('setupUltimateHandler', () => {
+  test('plays a clicked cell in its sub-board', () => {
+    const { canvas, renderer } = setup();
+    const onStateChange = vi.fn();
+    const handle = setupUltimateHandler(renderer, createInitialUltimateState(), {
+      onStateChange,
+    });
+
+    clickCell(canvas, 4, 7);
+
+    const state = handle.getState();
+    expect(onStateChange).toHaveBeenCalledWith(state);
+    expect(getCellValue(getSubBoard(state, { row: 1, col: 2 }).board, { row: 1, col: 1 })).toBe(
+      'X'
+    );
+    expect(state.activeBoard).toEqual({ row: 1, col: 1 });
+  });
+
+  test('reports a move outside the active sub-board', () => {
+    const { canvas, renderer } = setup();
+    const onMoveRejected = vi.fn();
+    const handle = setupUltimateHandler(renderer, createInitialUltimateState(), {
+      onMoveRejected,
+    });
+
+    clickCell(canvas, 0, 0); // Sends O to the top-left sub-board
+    clickCell(canvas, 8, 8);
+
+    expect(onMoveRejected).toHaveBeenCalledWith({ row: 8, col: 8 }, 'wrong-sub-board');
+    expect(handle.getState().currentTurn).toBe('O');
+  });
+
+  test('moves the cursor over the combined grid and places with Enter', () => {
+    const { canvas, renderer } = setup();
+    const onCursorChange = vi.fn();
+    const handle = setupUltimateHandler(renderer, createInitialUltimateState(), {
+      onCursorChange,
+    });
+
+    pressKey(canvas, 'End');
+    expect(onCursorChange).toHaveBeenLastCalledWith({ row: 8, col: 8 });
+
+    pressKey(canvas, 'Enter');
+    expect(
+      getCellValue(getSubBoard(handle.getState(), { row: 2, col: 2 }).board, { row: 2, col: 2 })
+    ).toBe('X');
+  });
+
+  test('cleanup stops listening', () => {
+    const { canvas, renderer } = setup();
+    const onStateChange = vi.fn();
+    const handle = setupUltimateHandler(renderer, createInitialUltimateState(), {
+      onStateChange,
+    });
+
+    handle.cleanup();
+    clickCell(canvas, 0, 0);
+
+    expect(onStateChange).not.toHaveBeenCalled();
+  });
+});
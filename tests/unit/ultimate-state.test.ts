@@ -0,0 +1,45 @@
+import { describe, test, expect } from 'vitest';
+import {
+  flattenUltimateBoard,
+  fromUltimatePosition,
+  getSubBoard,
+  getUltimateGridSize,
+  toUltimatePosition,
+} from '../../src/models/ultimate-state';
+import { getCellValue, setCellValue } from '../../src/models/board';
+import { createInitialUltimateState } from '../../src/engine/game-engine';
+
+describe('Ultimate positions', () => {
+  test('the combined grid is nine cells a side', () => {
+    expect(getUltimateGridSize()).toBe(9);
+  });
+
+  test('maps a combined cell to its sub-board and inner cell', () => {
+    expect(toUltimatePosition({ row: 4, col: 7 })).toEqual({
+      board: { row: 1, col: 2 },
+      cell: { row: 1, col: 1 },
+    });
+  });
+
+  test('round-trips every cell of the combined grid', () => {
+    for (let row = 0; row < 9; row++) {
+      for (let col = 0; col < 9; col++) {
+        expect(fromUltimatePosition(toUltimatePosition({ row, col }))).toEqual({ row, col });
+      }
+    }
+  });
+});
+
+describe('flattenUltimateBoard', () => {
+  test('places each sub-board piece on the combined grid', () => {
+    const state = createInitialUltimateState();
+    const subBoard = getSubBoard(state, { row: 2, col: 0 });
+    subBoard.board = setCellValue(subBoard.board, { row: 1, col: 2 }, 'O');
+
+    const board = flattenUltimateBoard(state);
+
+    expect(board.size).toBe(9);
+    expect(getCellValue(board, { row: 7, col: 2 })).toBe('O');
+    expect(board.cells.filter(cell => cell.value !== null)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createInitialUltimateState,
+  processUltimateMove,
+} from '../../src/engine/ultimate-transitions';
+import { getCellValue } from '../../src/models/board';
+import { UltimateGameState, getSubBoard } from '../../src/models/ultimate-state';
+import { updateBoardWithMove } from '../../src/engine/state-transitions';
+import { parseBoard } from '../../src/notation/position-notation';
+
+// Sub-board (row, col) already claimed by `winner`
+function claim(state: UltimateGameState, row: number, col: number, winner: 'X' | 'O'): void {
+  state.subBoards[row * 3 + col] = { ...state.subBoards[row * 3 + col], status: 'won', winner };
+  state.metaBoard = updateBoardWithMove(state.metaBoard, { row, col }, winner);
+}
+
+// Sets sub-board (row, col) to a position in board notation, e.g. 'XX./.../...'
+function setPosition(state: UltimateGameState, row: number, col: number, text: string): void {
+  const parsed = parseBoard(text);
+  if (!parsed.success) {
+    throw new Error(parsed.error);
+  }
+  getSubBoard(state, { row, col }).board = parsed.value;
+}
+
+describe('createInitialUltimateState', () => {
+  test('starts with nine empty sub-boards and a free choice', () => {
+    const state = createInitialUltimateState('O');
+
+    expect(state.subBoards).toHaveLength(9);
+    expect(state.subBoards.every(subBoard => subBoard.status === 'in-progress')).toBe(true);
+    expect(state.metaBoard.size).toBe(3);
+    expect(state.activeBoard).toBeNull();
+    expect(state.currentTurn).toBe('O');
+  });
+});
+
+describe('processUltimateMove', () => {
+  test('places the piece and sends the opponent to the matching sub-board', () => {
+    const state = processUltimateMove(createInitialUltimateState(), {
+      board: { row: 1, col: 1 },
+      cell: { row: 0, col: 2 },
+    });
+
+    expect(getCellValue(getSubBoard(state, { row: 1, col: 1 }).board, { row: 0, col: 2 })).toBe(
+      'X'
+    );
+    expect(state.activeBoard).toEqual({ row: 0, col: 2 });
+    expect(state.currentTurn).toBe('O');
+  });
+
+  test('leaves the state unchanged for a refused move', () => {
+    const state = { ...createInitialUltimateState(), activeBoard: { row: 0, col: 0 } };
+
+    expect(processUltimateMove(state, { board: { row: 2, col: 2 }, cell: { row: 0, col: 0 } })).toBe(
+      state
+    );
+  });
+
+  test('claims a sub-board on its meta cell when a line completes there', () => {
+    const state = { ...createInitialUltimateState(), activeBoard: { row: 0, col: 0 } };
+    setPosition(state, 0, 0, 'XX./.../...');
+
+    const next = processUltimateMove(state, {
+      board: { row: 0, col: 0 },
+      cell: { row: 0, col: 2 },
+    });
+
+    expect(getSubBoard(next, { row: 0, col: 0 })).toMatchObject({ status: 'won', winner: 'X' });
+    expect(getCellValue(next.metaBoard, { row: 0, col: 0 })).toBe('X');
+    expect(next.status).toBe('in-progress');
+    expect(next.activeBoard).toEqual({ row: 0, col: 2 });
+  });
+
+  test('gives a free choice when sent to a finished sub-board', () => {
+    const state = createInitialUltimateState();
+    claim(state, 1, 1, 'O');
+
+    const next = processUltimateMove(state, {
+      board: { row: 0, col: 0 },
+      cell: { row: 1, col: 1 },
+    });
+
+    expect(next.activeBoard).toBeNull();
+  });
+
+  test('wins the game with a line of claimed sub-boards', () => {
+    const state = { ...createInitialUltimateState(), activeBoard: { row: 0, col: 2 } };
+    claim(state, 0, 0, 'X');
+    claim(state, 0, 1, 'X');
+    setPosition(state, 0, 2, 'X../.X./...');
+
+    const next = processUltimateMove(state, {
+      board: { row: 0, col: 2 },
+      cell: { row: 2, col: 2 },
+    });
+
+    expect(next.status).toBe('won');
+    expect(next.winner).toBe('X');
+    expect(next.winningLine).toEqual([
+      { row: 0, col: 0 },
+      { row: 0, col: 1 },
+      { row: 0, col: 2 },
+    ]);
+    expect(next.activeBoard).toBeNull();
+    expect(next.currentTurn).toBe('X');
+  });
+
+  test('draws once every sub-board is finished without a line', () => {
+    const state = { ...createInitialUltimateState(), activeBoard: { row: 2, col: 2 } };
+    state.subBoards = state.subBoards.map((subBoard, index) =>
+      index === 8 ? subBoard : { ...subBoard, status: 'draw' }
+    );
+    // Stays drawn when X fills the corner
+    setPosition(state, 2, 2, 'XOX/XOO/OX.');
+
+    const next = processUltimateMove(state, {
+      board: { row: 2, col: 2 },
+      cell: { row: 2, col: 2 },
+    });
+
+    expect(next.status).toBe('draw');
+    expect(next.winner).toBeNull();
+    expect(next.activeBoard).toBeNull();
+  });
+});
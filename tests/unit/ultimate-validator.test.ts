@@ -0,0 +1,123 @@
+import { describe, test, expect } from 'vitest';
+import {
+  getActiveBoards,
+  getUltimateLegalMoves,
+  validateUltimateMove,
+} from '../../src/engine/ultimate-validator';
+import { createInitialUltimateState } from '../../src/engine/ultimate-transitions';
+import { UltimateGameState, getSubBoard } from '../../src/models/ultimate-state';
+import { setCellValue } from '../../src/models/board';
+
+function createState(overrides: Partial<UltimateGameState> = {}): UltimateGameState {
+  return { ...createInitialUltimateState(), ...overrides };
+}
+
+describe('validateUltimateMove', () => {
+  test('any open cell is legal on the first move', () => {
+    const result = validateUltimateMove(createState(), {
+      board: { row: 2, col: 1 },
+      cell: { row: 0, col: 2 },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  test('refuses a move outside the active sub-board', () => {
+    const state = createState({ activeBoard: { row: 1, col: 1 } });
+
+    const result = validateUltimateMove(state, {
+      board: { row: 0, col: 0 },
+      cell: { row: 1, col: 1 },
+    });
+
+    expect(result).toEqual({ success: false, reason: 'wrong-sub-board' });
+  });
+
+  test('refuses a move into a finished sub-board', () => {
+    const state = createState();
+    state.subBoards[0] = { ...state.subBoards[0], status: 'won', winner: 'O' };
+
+    const result = validateUltimateMove(state, {
+      board: { row: 0, col: 0 },
+      cell: { row: 2, col: 2 },
+    });
+
+    expect(result).toEqual({ success: false, reason: 'sub-board-closed' });
+  });
+
+  test('refuses an occupied cell', () => {
+    const state = createState();
+    const subBoard = getSubBoard(state, { row: 0, col: 0 });
+    subBoard.board = setCellValue(subBoard.board, { row: 1, col: 1 }, 'X');
+
+    const result = validateUltimateMove(state, {
+      board: { row: 0, col: 0 },
+      cell: { row: 1, col: 1 },
+    });
+
+    expect(result).toEqual({ success: false, reason: 'cell-occupied' });
+  });
+
+  test('refuses positions off either grid', () => {
+    const state = createState();
+
+    expect(
+      validateUltimateMove(state, { board: { row: 3, col: 0 }, cell: { row: 0, col: 0 } })
+    ).toEqual({ success: false, reason: 'invalid-position' });
+    expect(
+      validateUltimateMove(state, { board: { row: 0, col: 0 }, cell: { row: 0, col: -1 } })
+    ).toEqual({ success: false, reason: 'invalid-position' });
+  });
+
+  test('refuses moves once the game is over or locked', () => {
+    const position = { board: { row: 0, col: 0 }, cell: { row: 0, col: 0 } };
+
+    expect(validateUltimateMove(createState({ status: 'won', winner: 'X' }), position)).toEqual({
+      success: false,
+      reason: 'game-over',
+    });
+    expect(validateUltimateMove(createState({ moveInProgress: true }), position)).toEqual({
+      success: false,
+      reason: 'move-in-progress',
+    });
+  });
+});
+
+describe('getActiveBoards', () => {
+  test('is the sent-to sub-board when there is one', () => {
+    expect(getActiveBoards(createState({ activeBoard: { row: 0, col: 2 } }))).toEqual([
+      { row: 0, col: 2 },
+    ]);
+  });
+
+  test('is every open sub-board on a free choice', () => {
+    const state = createState();
+    state.subBoards[4] = { ...state.subBoards[4], status: 'draw' };
+
+    const active = getActiveBoards(state);
+
+    expect(active).toHaveLength(8);
+    expect(active).not.toContainEqual({ row: 1, col: 1 });
+  });
+
+  test('is empty once the game is over', () => {
+    expect(getActiveBoards(createState({ status: 'draw' }))).toEqual([]);
+  });
+});
+
+describe('getUltimateLegalMoves', () => {
+  test('lists the open cells of the active sub-board', () => {
+    const state = createState({ activeBoard: { row: 1, col: 0 } });
+    const subBoard = getSubBoard(state, { row: 1, col: 0 });
+    subBoard.board = setCellValue(subBoard.board, { row: 0, col: 0 }, 'O');
+
+    const moves = getUltimateLegalMoves(state);
+
+    expect(moves).toHaveLength(8);
+    expect(moves.every(move => move.board.row === 1 && move.board.col === 0)).toBe(true);
+  });
+
+  test('covers the whole grid on the first move', () => {
+    expect(getUltimateLegalMoves(createState())).toHaveLength(81);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, test, expect } from 'vitest';
+import { getUltimateView } from '../../src/renderer/ultimate-view';
+import { createInitialUltimateState, processUltimateMove } from '../../src/engine/game-engine';
+import { getCellValue } from '../../src/models/board';
+
+describe('getUltimateView', () => {
+  test('draws every sub-board on one combined board', () => {
+    const state = processUltimateMove(createInitialUltimateState(), {
+      board: { row: 2, col: 1 },
+      cell: { row: 0, col: 0 },
+    });
+
+    const view = getUltimateView(state);
+
+    expect(view.board.size).toBe(9);
+    expect(getCellValue(view.board, { row: 6, col: 3 })).toBe('X');
+    expect(view.effects.subBoards?.size).toBe(3);
+  });
+
+  test('highlights only the sent-to sub-board', () => {
+    const state = processUltimateMove(createInitialUltimateState(), {
+      board: { row: 1, col: 1 },
+      cell: { row: 2, col: 0 },
+    });
+
+    expect(getUltimateView(state).effects.subBoards?.active).toEqual([{ row: 2, col: 0 }]);
+  });
+
+  test('lists claimed sub-boards with their winner', () => {
+    const state = createInitialUltimateState();
+    state.subBoards[5] = { ...state.subBoards[5], status: 'won', winner: 'O' };
+    state.subBoards[6] = { ...state.subBoards[6], status: 'draw' };
+
+    const { subBoards } = getUltimateView(state).effects;
+
+    expect(subBoards?.claimed).toEqual([{ position: { row: 1, col: 2 }, symbol: 'O' }]);
+    expect(subBoards?.active).toHaveLength(7);
+  });
+});
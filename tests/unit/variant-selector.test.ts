@@ -0,0 +1,38 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  createPieceChoiceSelector,
+  createVariantSelector,
+} from '../../src/ui/variant-selector';
+import { GAME_VARIANT_LIST } from '../../src/engine/game-variants';
+
+describe('createVariantSelector', () => {
+  test('creates one described option per variant', () => {
+    const element = createVariantSelector(GAME_VARIANT_LIST, vi.fn());
+    expect(element.options).toHaveLength(GAME_VARIANT_LIST.length);
+    expect(element.options[0].title).toBe(GAME_VARIANT_LIST[0].description);
+    expect(element.getAttribute('aria-label')).toBe('Rule variant');
+  });
+
+  test('reports the selected variant', () => {
+    const onChange = vi.fn();
+    const element = createVariantSelector(GAME_VARIANT_LIST, onChange);
+
+    element.value = '2';
+    element.dispatchEvent(new Event('change'));
+
+    expect(onChange).toHaveBeenCalledWith(GAME_VARIANT_LIST[2]);
+  });
+});
+
+describe('createPieceChoiceSelector', () => {
+  test('offers both pieces and reports the choice', () => {
+    const onChange = vi.fn();
+    const element = createPieceChoiceSelector(onChange);
+    expect([...element.options].map(option => option.value)).toEqual(['X', 'O']);
+
+    element.value = 'O';
+    element.dispatchEvent(new Event('change'));
+
+    expect(onChange).toHaveBeenCalledWith('O');
+  });
+});
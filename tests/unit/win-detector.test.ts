@@ -0,0 +1,128 @@
+import { describe, test, expect } from 'vitest';
+import {
+  evaluateBoard,
+  findWinningLine,
+  isBoardFull,
+} from '../../src/engine/win-detector';
+import { createEmptyBoard, setCellValue, Board, GamePieceValue } from '../../src/models/board';
+
+function boardFromRows(rows: string[]): Board {
+  let board = createEmptyBoard(rows.length);
+  rows.forEach((line, row) => {
+    line.split('').forEach((char, col) => {
+      const value: GamePieceValue = char === '.' ? null : (char as 'X' | 'O');
+      board = setCellValue(board, { row, col }, value);
+    });
+  });
+  return board;
+}
+
+describe('isBoardFull', () => {
+  test('is false for empty board', () => {
+    expect(isBoardFull(createEmptyBoard(3))).toBe(false);
+  });
+
+  test('is true when every cell is occupied', () => {
+    expect(isBoardFull(boardFromRows(['XOX', 'XOO', 'OXX']))).toBe(true);
+  });
+});
+
+describe('findWinningLine', () => {
+  test('returns null for empty board', () => {
+    expect(findWinningLine(createEmptyBoard(3), 3)).toBeNull();
+  });
+
+  test('detects a row', () => {
+    const board = boardFromRows(['...', 'OOO', 'X.X']);
+    expect(findWinningLine(board, 3)).toEqual([
+      { row: 1, col: 0 },
+      { row: 1, col: 1 },
+      { row: 1, col: 2 },
+    ]);
+  });
+
+  test('detects a column', () => {
+    const board = boardFromRows(['.X.', 'OX.', 'OX.']);
+    expect(findWinningLine(board, 3)).toEqual([
+      { row: 0, col: 1 },
+      { row: 1, col: 1 },
+      { row: 2, col: 1 },
+    ]);
+  });
+
+  test('detects the main diagonal', () => {
+    const board = boardFromRows(['X.O', '.XO', '..X']);
+    expect(findWinningLine(board, 3)).toEqual([
+      { row: 0, col: 0 },
+      { row: 1, col: 1 },
+      { row: 2, col: 2 },
+    ]);
+  });
+
+  test('detects the anti-diagonal', () => {
+    const board = boardFromRows(['X.O', 'XO.', 'O.X']);
+    expect(findWinningLine(board, 3)).toEqual([
+      { row: 0, col: 2 },
+      { row: 1, col: 1 },
+      { row: 2, col: 0 },
+    ]);
+  });
+
+  test('ignores mixed lines', () => {
+    const board = boardFromRows(['XOX', 'XOO', 'OXX']);
+    expect(findWinningLine(board, 3)).toBeNull();
+  });
+});
+
+describe('evaluateBoard', () => {
+  test('reports in-progress for an open board', () => {
+    expect(evaluateBoard(boardFromRows(['X..', '.O.', '...']), 3)).toEqual({
+      status: 'in-progress',
+      winner: null,
+      winningLine: null,
+    });
+  });
+
+  test('reports winner and line', () => {
+    const outcome = evaluateBoard(boardFromRows(['XXX', 'OO.', '...']), 3);
+    expect(outcome.status).toBe('won');
+    expect(outcome.winner).toBe('X');
+    expect(outcome.winningLine).toHaveLength(3);
+  });
+
+  test('reports draw for a full board without a line', () => {
+    expect(evaluateBoard(boardFromRows(['XOX', 'XOO', 'OXX']), 3)).toEqual({
+      status: 'draw',
+      winner: null,
+      winningLine: null,
+    });
+  });
+
+  test('prefers a win completed on the last empty cell over a draw', () => {
+    const outcome = evaluateBoard(boardFromRows(['XOX', 'OXO', 'OXX']), 3);
+    expect(outcome.status).toBe('won');
+    expect(outcome.winner).toBe('X');
+  });
+});
+
+describe('findWinningLine with win length shorter than the board', () => {
+  test('finds four in a row inside a 5x5 row', () => {
+    const board = boardFromRows(['.....', '.OOOO', '..X..', '.X...', '.....']);
+    expect(findWinningLine(board, 4)).toEqual([
+      { row: 1, col: 1 },
+      { row: 1, col: 2 },
+      { row: 1, col: 3 },
+      { row: 1, col: 4 },
+    ]);
+  });
+
+  test('does not count three when four are required', () => {
+    const board = boardFromRows(['XXX..', '.....', '.....', '.....', 'OOO..']);
+    expect(findWinningLine(board, 4)).toBeNull();
+  });
+
+  test('does not wrap around board edges', () => {
+    const board = boardFromRows(['...XX', 'XX...', '.....', '.....', '.....']);
+    expect(findWinningLine(board, 4)).toBeNull();
+  });
+});